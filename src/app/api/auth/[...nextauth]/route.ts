@@ -4,11 +4,14 @@
  * Handles authentication with Google OAuth
  * Integrates with Supabase for user management
  * Supports Google Calendar scope for calendar integration
+ * Refreshes the Google access token on expiry; the refresh token is kept
+ * server-side (googleTokens.ts) and no token is sent to the browser
  */
 
 import NextAuth, { AuthOptions } from 'next-auth';
 import GoogleProvider from 'next-auth/providers/google';
 import { createUserInDatabase } from '@/features/auth/authStore';
+import { storeRefreshToken, refreshJwtAccessToken } from '@/features/auth/googleTokens';
 
 const authOptions: AuthOptions = {
   providers: [
@@ -18,6 +21,9 @@ const authOptions: AuthOptions = {
       authorization: {
         params: {
           scope: 'openid email profile https://www.googleapis.com/auth/calendar',
+          // Offline access returns a refresh token so access can be renewed
+          access_type: 'offline',
+          prompt: 'consent',
         },
       },
     }),
@@ -40,26 +46,33 @@ const authOptions: AuthOptions = {
     },
     
     async jwt({ token, account, user }) {
-      // Store access token and refresh token in JWT
-      if (account) {
-        token.accessToken = account.access_token;
-        token.refreshToken = account.refresh_token;
-      }
-      
       if (user) {
         token.id = user.id;
       }
-      
-      return token;
+
+      // First sign-in: keep the access token and its expiry in the JWT,
+      // the refresh token server-side
+      if (account) {
+        token.accessToken = account.access_token;
+        token.accessTokenExpires = account.expires_at ? account.expires_at * 1000 : undefined;
+        token.error = undefined;
+
+        if (account.refresh_token) {
+          return storeRefreshToken(token, account.refresh_token);
+        }
+        return token;
+      }
+
+      // Later requests: refresh the access token once it expires
+      return refreshJwtAccessToken(token);
     },
     
     async session({ session, token }) {
-      // Send properties to the client
+      // Google tokens never leave the server; calendar calls go through /api/calendar
       if (session.user) {
         session.user.id = token.id as string;
-        session.accessToken = token.accessToken as string;
-        session.refreshToken = token.refreshToken as string;
       }
+      session.error = token.error;
       
       return session;
     },
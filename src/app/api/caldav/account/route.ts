@@ -0,0 +1,146 @@
+/**
+ * CalDAV Account API Route
+ *
+ * Connects the signed-in user's CalDAV account (Fastmail, Nextcloud, iCloud,
+ * Radicale, ...):
+ * - GET: whether an account is connected, with its server and username
+ * - POST { serverUrl, username, password }: checks the credentials against the
+ *   server (falling back to /.well-known/caldav) and stores them, with the URL
+ *   that answered and the servers its principal and calendar home are on,
+ *   sealed in an httpOnly cookie. Servers at private or reserved addresses are refused.
+ * - DELETE: forgets the account
+ *
+ * Used by: caldavCalendar.ts (CalDavAccountForm.tsx)
+ * Related: caldavAccount.ts, api/caldav/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import {
+  CalDavAccount,
+  CalDavAddressError,
+  calDavFetch,
+  clearCalDavAccountCookie,
+  discoverAccountOrigins,
+  getCalDavAccount,
+  parseServerUrl,
+  PRINCIPAL_QUERY,
+  setCalDavAccountCookie,
+} from '@/features/calendar-sync/caldavAccount';
+
+/**
+ * Ask the server for the user's principal. A 207 means it speaks WebDAV and
+ * accepted the credentials; url is where it answered, after redirects.
+ */
+const checkAccount = async (account: CalDavAccount, url: string): Promise<{ status: number; url: string }> => {
+  const { response, url: answeredUrl } = await calDavFetch(account, {
+    method: 'PROPFIND',
+    url,
+    headers: { 'Depth': '0', 'Content-Type': 'application/xml; charset=utf-8' },
+    body: PRINCIPAL_QUERY,
+  });
+  return { status: response.status, url: answeredUrl };
+};
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  const account = token?.id ? getCalDavAccount(request, token.id) : null;
+
+  return NextResponse.json(account
+    ? { connected: true, serverUrl: account.serverUrl, username: account.username }
+    : { connected: false }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const { serverUrl, username, password } = await request.json();
+    if (typeof serverUrl !== 'string' || !username || !password) {
+      return NextResponse.json(
+        { error: 'Server address, username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    let url: URL;
+    try {
+      url = parseServerUrl(serverUrl.trim());
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid server address' },
+        { status: 400 }
+      );
+    }
+
+    const account: CalDavAccount = {
+      userId: token.id,
+      serverUrl: url.toString(),
+      username: String(username),
+      password: String(password),
+    };
+
+    // Many providers only answer at their well-known address
+    let check = await checkAccount(account, account.serverUrl);
+    if (check.status !== 207 && check.status !== 401) {
+      check = await checkAccount(account, '/.well-known/caldav');
+    }
+    const { status } = check;
+
+    if (status === 401) {
+      return NextResponse.json(
+        { error: "The server didn't accept this username and password. Some providers need an app password." },
+        { status: 401 }
+      );
+    }
+    if (status !== 207) {
+      return NextResponse.json(
+        { error: `No CalDAV server found at ${url.host} (HTTP ${status})` },
+        { status: 400 }
+      );
+    }
+
+    // Discovery starts where the server answered, and may lead to other servers (iCloud)
+    account.serverUrl = check.url;
+    const discoveredOrigins = await discoverAccountOrigins(account);
+    if (discoveredOrigins.length > 0) {
+      account.discoveredOrigins = discoveredOrigins;
+    }
+
+    const response = NextResponse.json({
+      connected: true,
+      serverUrl: account.serverUrl,
+      username: account.username,
+    });
+    setCalDavAccountCookie(response, account);
+    return response;
+
+  } catch (error) {
+    if (error instanceof CalDavAddressError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('CalDAV connect error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to connect CalDAV account' },
+      { status: 502 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  clearCalDavAccountCookie(response);
+  return response;
+}
@@ -0,0 +1,100 @@
+/**
+ * CalDAV Proxy API Route
+ *
+ * Forwards WebDAV/CalDAV calls from the browser to the user's CalDAV server with
+ * the credentials sealed in their CalDAV cookie, so the password never reaches
+ * the client and servers without CORS headers still work. Route handlers can't
+ * receive PROPFIND or REPORT, so every call is a POST describing the real one:
+ * - X-CalDAV-Method: PROPFIND, REPORT, GET, PUT or DELETE
+ * - X-CalDAV-URL: target URL, absolute or relative to the server URL
+ * - Depth, If-Match, If-None-Match and Content-Type are forwarded
+ *
+ * The server's status, body, ETag and Retry-After come back unchanged, with the
+ * URL that answered (after redirects) in X-CalDAV-URL. Every request and redirect
+ * only connects to public addresses (caldavAccount.ts); others are refused with 403.
+ *
+ * Used by: caldavCalendar.ts
+ * Related: caldavAccount.ts, api/caldav/account/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { CalDavAddressError, calDavFetch, getCalDavAccount, isAccountUrl } from '@/features/calendar-sync/caldavAccount';
+
+const ALLOWED_METHODS = ['PROPFIND', 'REPORT', 'GET', 'PUT', 'DELETE'];
+const FORWARDED_HEADERS = ['Depth', 'If-Match', 'If-None-Match', 'Content-Type'];
+const RETURNED_HEADERS = ['Content-Type', 'ETag', 'Retry-After'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const account = getCalDavAccount(request, token.id);
+    if (!account) {
+      return NextResponse.json(
+        { error: 'No CalDAV account connected' },
+        { status: 401 }
+      );
+    }
+
+    const method = request.headers.get('X-CalDAV-Method')?.toUpperCase() || '';
+    const target = request.headers.get('X-CalDAV-URL') || '';
+    if (!ALLOWED_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: 'Unsupported CalDAV method' },
+        { status: 400 }
+      );
+    }
+    if (!isAccountUrl(account, new URL(target, account.serverUrl))) {
+      return NextResponse.json(
+        { error: 'URL is not on the connected CalDAV server' },
+        { status: 403 }
+      );
+    }
+
+    const headers: Record<string, string> = {};
+    FORWARDED_HEADERS.forEach(name => {
+      const value = request.headers.get(name);
+      if (value) headers[name] = value;
+    });
+
+    const { response, url } = await calDavFetch(account, {
+      method,
+      url: target,
+      headers,
+      body: method === 'GET' || method === 'DELETE' ? undefined : await request.text(),
+    });
+
+    const responseHeaders = new Headers({ 'X-CalDAV-URL': url });
+    RETURNED_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value) responseHeaders.set(name, value);
+    });
+
+    return new NextResponse(response.status === 204 ? null : await response.text(), {
+      status: response.status,
+      headers: responseHeaders,
+    });
+
+  } catch (error) {
+    if (error instanceof CalDavAddressError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('CalDAV proxy error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'CalDAV request failed' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Google Calendar Proxy API Route
+ *
+ * Forwards calendar calls from the browser to the Google Calendar API with the
+ * signed-in user's access token, so tokens never reach the client:
+ * /api/calendar/calendars/primary/events -> googleapis.com/calendar/v3/calendars/primary/events
+ *
+ * Only calendar list, calendar and batch (/api/calendar/batch) endpoints are
+ * forwarded. An expired or revoked access token is refreshed and the call
+ * retried once.
+ *
+ * Used by: googleCalendar.ts
+ * Related: googleTokens.ts, api/auth/[...nextauth]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { getValidAccessToken } from '@/features/auth/googleTokens';
+
+const GOOGLE_CALENDAR_API = process.env.GOOGLE_CALENDAR_API_URL || 'https://www.googleapis.com/calendar/v3';
+const GOOGLE_CALENDAR_BATCH_API = process.env.GOOGLE_CALENDAR_BATCH_API_URL || 'https://www.googleapis.com/batch/calendar/v3';
+
+const isBatchPath = (path: string[]): boolean => path.length === 1 && path[0] === 'batch';
+
+const isAllowedPath = (path: string[]): boolean =>
+  isBatchPath(path) ||
+  (path[0] === 'users' && path[1] === 'me' && path[2] === 'calendarList') ||
+  (path[0] === 'calendars' && path.length > 1);
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const { path } = await params;
+    if (!isAllowedPath(path)) {
+      return NextResponse.json(
+        { error: 'Unsupported calendar endpoint' },
+        { status: 404 }
+      );
+    }
+
+    const url = isBatchPath(path)
+      ? GOOGLE_CALENDAR_BATCH_API
+      : `${GOOGLE_CALENDAR_API}/${path.map(encodeURIComponent).join('/')}${request.nextUrl.search}`;
+    const body = request.method === 'GET' || request.method === 'DELETE'
+      ? undefined
+      : await request.text();
+
+    const send = async (accessToken: string) => fetch(url, {
+      method: request.method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        // Batch requests are multipart/mixed with their own boundary
+        'Content-Type': request.headers.get('Content-Type') || 'application/json',
+      },
+      body,
+    });
+
+    let response: Response;
+    try {
+      response = await send(await getValidAccessToken(token));
+      if (response.status === 401) {
+        response = await send(await getValidAccessToken(token, true));
+      }
+    } catch (error) {
+      console.error('Google access token unavailable:', error);
+      return NextResponse.json(
+        { error: 'Google Calendar access expired. Please sign in again.' },
+        { status: 401 }
+      );
+    }
+
+    // Pass Google's status, body and rate-limit hints through unchanged
+    const headers = new Headers({
+      'Content-Type': response.headers.get('Content-Type') || 'application/json',
+    });
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) headers.set('Retry-After', retryAfter);
+
+    return new NextResponse(response.status === 204 ? null : await response.text(), {
+      status: response.status,
+      headers,
+    });
+
+  } catch (error) {
+    console.error('Calendar proxy error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Calendar request failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE };
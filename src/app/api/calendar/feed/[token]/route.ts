@@ -0,0 +1,75 @@
+/**
+ * Calendar Feed API Route
+ *
+ * Serves a user's feed as text/calendar to calendar apps subscribed to its URL
+ * (/api/calendar/feed/<token>.ics). No sign-in: the token is the secret.
+ * Answers 304 when the client's If-None-Match or If-Modified-Since shows it
+ * already has the current content.
+ *
+ * Related: calendarFeeds.ts, api/calendar/feed/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedByToken, isCalendarFeedAvailable, parseFeedToken, renderFeed } from '@/features/calendar-sync/calendarFeeds';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+const matchesETag = (header: string, etag: string): boolean =>
+  header.trim() === '*' ||
+  header.split(',').some(value => value.trim().replace(/^W\//, '') === etag);
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!isCalendarFeedAvailable()) {
+      return NextResponse.json(
+        { error: 'Calendar feeds are not available' },
+        { status: 503 }
+      );
+    }
+
+    const token = parseFeedToken((await params).token);
+    const feed = token ? await getFeedByToken(token) : null;
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    const { body, etag, lastModified } = await renderFeed(feed);
+    const headers = {
+      'ETag': etag,
+      'Last-Modified': lastModified.toUTCString(),
+      // Revalidate every time; a 304 costs the client almost nothing
+      'Cache-Control': 'private, no-cache',
+    };
+
+    // If-None-Match wins over If-Modified-Since when both are sent
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    const ifModifiedSince = request.headers.get('If-Modified-Since');
+    const notModified = ifNoneMatch
+      ? matchesETag(ifNoneMatch, etag)
+      : !!ifModifiedSince && new Date(ifModifiedSince).getTime() >= lastModified.getTime();
+
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="flowmotion.ics"',
+      },
+    });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load calendar feed' },
+      { status: 500 }
+    );
+  }
+}
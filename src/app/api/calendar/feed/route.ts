@@ -0,0 +1,194 @@
+/**
+ * Calendar Feed Settings API Route
+ *
+ * Manages the signed-in user's subscribable .ics feed:
+ * - GET: whether feeds are available and, if one exists, its URL and privacy
+ * - POST { privacy?, timeZone?, timeBlocks? }: starts the feed under a new
+ *   token, keeping the current settings where not given (rotates the URL)
+ * - PATCH { privacy?, timeZone?, timeBlocks? }: changes what the feed serves
+ * - DELETE: revokes the feed
+ *
+ * Used by: useCalendarFeed.ts
+ * Related: calendarFeeds.ts, api/calendar/feed/[token]/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { isValidTimeZone } from '@/features/calendar/timezone';
+import { CalendarFeed, CalendarFeedStatus } from '@/features/calendar-sync/CalendarSyncTypes';
+import {
+  CalendarFeedSettings,
+  FEED_PRIVACY_OPTIONS,
+  createFeed,
+  deleteFeed,
+  getFeedForUser,
+  getFeedUrl,
+  isCalendarFeedAvailable,
+  parseTimeBlocks,
+  updateFeed,
+} from '@/features/calendar-sync/calendarFeeds';
+
+const toStatus = (feed: CalendarFeed | null): CalendarFeedStatus => feed
+  ? {
+      available: true,
+      enabled: true,
+      url: getFeedUrl(feed),
+      privacy: feed.privacy,
+      createdAt: feed.createdAt.toISOString(),
+    }
+  : { available: true, enabled: false };
+
+/**
+ * The settings in a request body, or an error message when one is invalid
+ */
+const parseSettings = (body: Record<string, unknown>): Partial<CalendarFeedSettings> | string => {
+  const settings: Partial<CalendarFeedSettings> = {};
+
+  if (body.privacy !== undefined) {
+    if (!FEED_PRIVACY_OPTIONS.includes(body.privacy as CalendarFeedSettings['privacy'])) {
+      return `privacy must be one of ${FEED_PRIVACY_OPTIONS.join(', ')}`;
+    }
+    settings.privacy = body.privacy as CalendarFeedSettings['privacy'];
+  }
+
+  if (body.timeZone !== undefined) {
+    if (typeof body.timeZone !== 'string' || !isValidTimeZone(body.timeZone)) {
+      return 'timeZone must be an IANA time zone';
+    }
+    settings.timeZone = body.timeZone;
+  }
+
+  if (body.timeBlocks !== undefined) {
+    const timeBlocks = parseTimeBlocks(body.timeBlocks);
+    if (!timeBlocks) return 'timeBlocks must be a list of time blocks';
+    settings.timeBlocks = timeBlocks;
+  }
+
+  return settings;
+};
+
+const unavailableResponse = () => NextResponse.json(
+  { error: 'Calendar feeds need SUPABASE_SERVICE_ROLE_KEY on the server' },
+  { status: 503 }
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    if (!isCalendarFeedAvailable()) {
+      return NextResponse.json({ available: false, enabled: false } satisfies CalendarFeedStatus);
+    }
+
+    return NextResponse.json(toStatus(await getFeedForUser(token.id)));
+
+  } catch (error) {
+    console.error('Calendar feed status error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    if (!isCalendarFeedAvailable()) return unavailableResponse();
+
+    const settings = parseSettings(await request.json());
+    if (typeof settings === 'string') {
+      return NextResponse.json({ error: settings }, { status: 400 });
+    }
+
+    const current = await getFeedForUser(token.id);
+    const feed = await createFeed(token.id, {
+      privacy: settings.privacy || current?.privacy || 'full',
+      timeZone: settings.timeZone || current?.timeZone || 'UTC',
+      timeBlocks: settings.timeBlocks || current?.timeBlocks || [],
+    });
+
+    return NextResponse.json(toStatus(feed));
+
+  } catch (error) {
+    console.error('Calendar feed create error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    if (!isCalendarFeedAvailable()) return unavailableResponse();
+
+    const settings = parseSettings(await request.json());
+    if (typeof settings === 'string') {
+      return NextResponse.json({ error: settings }, { status: 400 });
+    }
+
+    const feed = await updateFeed(token.id, settings);
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'No calendar feed to update' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toStatus(feed));
+
+  } catch (error) {
+    console.error('Calendar feed update error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    if (!isCalendarFeedAvailable()) return unavailableResponse();
+
+    await deleteFeed(token.id);
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error) {
+    console.error('Calendar feed revoke error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Calendar Notifications API Route
+ *
+ * Server-sent event stream telling the signed-in user's open clients which
+ * watched calendar changed ("calendar-changed" events), so they can run an
+ * incremental sync. Comments are sent periodically to keep the connection open.
+ *
+ * Used by: useCalendarNotifications.ts
+ * Related: watchChannels.ts, api/calendar/webhook/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { subscribeToCalendarChanges } from '@/features/calendar-sync/watchChannels';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 25 * 1000;
+
+export async function GET(request: NextRequest) {
+  const token = await getToken({ req: request });
+  if (!token?.id) {
+    return NextResponse.json(
+      { error: 'Not signed in' },
+      { status: 401 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToCalendarChanges(token.id, notification => {
+        write(`event: calendar-changed\ndata: ${JSON.stringify(notification)}\n\n`);
+      });
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      write(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Calendar Watch API Route
+ *
+ * Registers Google Calendar push channels for the signed-in user's synced
+ * calendars (POST { calendarIds, taskCalendarId? }), renewing ones close to
+ * expiry, and stops them all on DELETE. Changes to taskCalendarId, the target
+ * calendar when calendar-to-task sync is on, move tasks. Clients call POST on load and whenever the synced
+ * calendars change.
+ *
+ * Used by: googleCalendar.ts (watchCalendars, stopWatching)
+ * Related: watchChannels.ts, api/calendar/webhook/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { getValidAccessToken } from '@/features/auth/googleTokens';
+import { syncWatchChannels, stopAllChannels } from '@/features/calendar-sync/watchChannels';
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    const { calendarIds, taskCalendarId } = await request.json();
+    if (!Array.isArray(calendarIds) || !calendarIds.every(id => typeof id === 'string')) {
+      return NextResponse.json(
+        { error: 'calendarIds must be a list of calendar ids' },
+        { status: 400 }
+      );
+    }
+    if (taskCalendarId !== undefined && typeof taskCalendarId !== 'string') {
+      return NextResponse.json(
+        { error: 'taskCalendarId must be a calendar id' },
+        { status: 400 }
+      );
+    }
+
+    const accessToken = await getValidAccessToken(token);
+    const { channels, errors } = await syncWatchChannels(token.id, calendarIds, accessToken, taskCalendarId);
+
+    return NextResponse.json({
+      channels: channels.map(channel => ({
+        calendarId: channel.calendarId,
+        expiration: channel.expiration.toISOString(),
+      })),
+      errors,
+    });
+
+  } catch (error) {
+    console.error('Calendar watch error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to watch calendars' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = await getToken({ req: request });
+    if (!token?.id) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+
+    await stopAllChannels(token.id, await getValidAccessToken(token));
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error) {
+    console.error('Calendar unwatch error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stop watching calendars' },
+      { status: 500 }
+    );
+  }
+}
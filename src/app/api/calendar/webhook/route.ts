@@ -0,0 +1,69 @@
+/**
+ * Google Calendar Webhook API Route
+ *
+ * Receives events.watch notifications from Google. The notification's channel
+ * id, token and resource id must match a stored channel; anything else is
+ * rejected. A change runs the calendar's incremental sync here, with the
+ * channel's sync token and the user's stored refresh token, then tells the
+ * user's open clients to refresh. The channel is renewed when it's about to expire.
+ *
+ * Google only sends headers (X-Goog-Channel-ID, X-Goog-Channel-Token,
+ * X-Goog-Resource-ID, X-Goog-Resource-State), so the route can be exercised
+ * with any HTTP client.
+ *
+ * Related: watchChannels.ts, serverSync.ts, api/calendar/notifications/route.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccessTokenForUser } from '@/features/auth/googleTokens';
+import {
+  verifyNotification,
+  notifyCalendarChanged,
+  needsRenewal,
+  renewChannel,
+} from '@/features/calendar-sync/watchChannels';
+import { syncWatchedCalendar } from '@/features/calendar-sync/serverSync';
+
+export async function POST(request: NextRequest) {
+  try {
+    const channel = await verifyNotification(request.headers);
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Unknown channel or invalid token' },
+        { status: 401 }
+      );
+    }
+
+    // 'sync' only confirms a new channel; 'exists' and 'not_exists' mean events changed
+    const resourceState = request.headers.get('X-Goog-Resource-State');
+    if (resourceState !== 'sync') {
+      let tasksUpdated = 0;
+      try {
+        tasksUpdated = await syncWatchedCalendar(channel, await getAccessTokenForUser(channel.userId));
+      } catch (error) {
+        // Clients still refresh; the next notification or manual sync catches up
+        console.error('Failed to sync changed calendar:', error);
+      }
+      notifyCalendarChanged(channel.userId, channel.calendarId, tasksUpdated);
+    }
+
+    if (needsRenewal(channel)) {
+      try {
+        await renewChannel(channel, await getAccessTokenForUser(channel.userId));
+      } catch (error) {
+        // The client renews it on its next visit
+        console.warn('Failed to renew calendar watch channel:', error);
+      }
+    }
+
+    return new NextResponse(null, { status: 200 });
+
+  } catch (error) {
+    console.error('Calendar webhook error:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to handle notification' },
+      { status: 500 }
+    );
+  }
+}
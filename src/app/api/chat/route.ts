@@ -3,16 +3,60 @@
  * 
  * Replaces the custom OpenAI service with Vercel AI SDK
  * Supports streaming, function calling, and scheduling intelligence
+ * The model comes from the configured provider (aiProviders.ts): OpenAI,
+ * Gemini or a local OpenAI-compatible server, with settings per mode
+ *
+ * Tools (chatTools.ts) have no execute function here: their calls stream to
+ * the browser, which runs them against the task store (asking the user first
+ * for changes) and sends the results back in the next request.
  */
 
-import { openai } from '@ai-sdk/openai';
-import { streamText, convertToCoreMessages } from 'ai';
+import { streamText, convertToCoreMessages, InvalidToolArgumentsError, NoSuchToolError } from 'ai';
+import { ZodError } from 'zod';
+import { chatTools, formatSchemaIssues } from '@/features/ai/chatTools';
+import { chatContextSchema, formatChatContext } from '@/features/ai/chatContext';
+import { AIConfigError, getChatModel } from '@/features/ai/aiProviders';
+import { isValidTimeZone } from '@/features/calendar/timezone';
 
 export const runtime = 'edge';
 
+// The AI SDK hides stream errors by default; tool calls that fail validation
+// are reported so the user sees what the assistant got wrong
+const getErrorMessage = (error: unknown): string => {
+  if (InvalidToolArgumentsError.isInstance(error)) {
+    let cause: unknown = error.cause;
+    while (cause instanceof Error && !(cause instanceof ZodError)) cause = cause.cause;
+
+    const issues = cause instanceof ZodError ? formatSchemaIssues(cause) : error.message;
+    return `The assistant's ${error.toolName} call didn't match its schema (${issues}). Please try again.`;
+  }
+
+  if (NoSuchToolError.isInstance(error)) {
+    return `The assistant tried to use an unknown tool: ${error.toolName}. Please try again.`;
+  }
+
+  console.error('Chat stream error:', error);
+  return 'Something went wrong while generating the response. Please try again.';
+};
+
 export async function POST(req: Request) {
   try {
-    const { messages, mode = 'chat' } = await req.json();
+    const { messages, mode = 'chat', timeZone, context } = await req.json();
+    const userTimeZone = typeof timeZone === 'string' && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+    const now = new Date().toLocaleString('en-US', {
+      timeZone: userTimeZone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    });
+
+    // Tasks, schedule and working hours from the browser; chat still works without them
+    const parsedContext = chatContextSchema.safeParse(context);
+    if (context !== undefined && !parsedContext.success) {
+      console.warn('Ignoring invalid chat context:', formatSchemaIssues(parsedContext.error));
+    }
+    const userContext = parsedContext.success
+      ? `\n\n${formatChatContext(parsedContext.data, userTimeZone)}`
+      : '';
 
     // Convert to AI SDK format
     const coreMessages = convertToCoreMessages(messages);
@@ -37,45 +81,47 @@ CONVERSATION PRINCIPLES:
 - Provide alternatives when conflicts arise
 - Be concise but comprehensive
 - VOICE MODE: Keep responses conversational and natural for spoken dialogue
-- Always confirm scheduling actions before adding to calendar
-
-RESPONSE FORMAT:
-For scheduling requests, respond with JSON:
-{
-  "response": "Your conversational response",
-  "tasks": [
-    {
-      "title": "Task title",
-      "description": "Detailed description",
-      "estimatedDuration": 60,
-      "priority": "high|medium|low",
-      "category": "work|personal|health|learning",
-      "suggestedTime": "2024-01-01T10:00:00Z",
-      "preparationTime": 15,
-      "conflicts": [],
-      "alternatives": []
-    }
-  ],
-  "clarificationNeeded": false,
-  "nextQuestion": "Follow-up question if needed"
-}
 
-Current context: ${new Date().toLocaleString()}`
-      : `You are a helpful AI assistant focused on productivity and scheduling.`;
+TOOLS:
+- USER CONTEXT below is up to date: answer questions about the user's days from it,
+  and use tools for anything it leaves out
+- Use listTasks to look up tasks (and their ids) before changing or scheduling them
+- Use findFreeSlots before proposing times, so suggestions fit the user's calendar
+- To propose a plan (one or more tasks with times), call suggestSchedule with
+  exact start times from findFreeSlots instead of writing the plan out
+- createTask, updateTask, scheduleTask and suggestSchedule change the user's tasks;
+  the app asks the user to confirm each call, so call them directly instead of asking first
+- If a tool result says the user declined, don't retry it; ask what they'd like instead
+- Reply in plain conversational text, never JSON
 
-    // Stream the response
+Current time: ${now} (${userTimeZone}). Use this time zone for all dates you pass to tools.${userContext}`
+      : `You are a helpful AI assistant focused on productivity and scheduling.
+Use the tools to look up, create and schedule the user's tasks when they ask.
+
+Current time: ${now} (${userTimeZone}).${userContext}`;
+
+    // Stream the response from the deployment's provider (aiProviders.ts)
+    const { model, settings } = getChatModel(mode === 'scheduling' ? 'scheduling' : 'chat');
     const result = await streamText({
-      model: openai('gpt-4o-mini'),
+      model,
       messages: [
         { role: 'system', content: systemPrompt },
         ...coreMessages,
       ],
-      temperature: 0.7,
-      maxTokens: 1000,
+      tools: chatTools,
+      toolCallStreaming: true,
+      temperature: settings.temperature,
+      topP: settings.topP,
+      topK: settings.topK,
+      maxTokens: settings.maxOutputTokens,
     });
 
-    return result.toDataStreamResponse();
+    return result.toDataStreamResponse({ getErrorMessage });
   } catch (error) {
+    if (error instanceof AIConfigError) {
+      console.error('Chat API is not configured:', error.message);
+      return new Response(`The assistant is not set up on this server: ${error.message}`, { status: 503 });
+    }
     console.error('Chat API error:', error);
     return new Response('Internal Server Error', { status: 500 });
   }
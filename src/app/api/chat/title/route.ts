@@ -0,0 +1,65 @@
+/**
+ * Chat Title API Route
+ *
+ * Names a conversation for the chat history from its opening messages,
+ * using the configured provider's chat model (aiProviders.ts)
+ * - POST { messages: [{ role, content }] } -> { title }
+ *
+ * Used by: chatStore.ts (generateTitle)
+ */
+
+import { NextResponse } from 'next/server';
+import { generateText } from 'ai';
+import { AIConfigError, getChatModel } from '@/features/ai/aiProviders';
+
+export const runtime = 'edge';
+
+const MAX_MESSAGES = 4;
+const MAX_EXCERPT_LENGTH = 1000; // per message
+const MAX_TITLE_LENGTH = 60;
+
+const TITLE_PROMPT = `You name conversations between a user and their scheduling assistant.
+Reply with only a title of 2 to 6 words describing what the user wants, in the user's language.
+No quotes and no ending punctuation.`;
+
+export async function POST(req: Request) {
+  try {
+    const { messages } = await req.json();
+    if (!Array.isArray(messages)) {
+      return NextResponse.json({ error: 'messages must be an array' }, { status: 400 });
+    }
+
+    const excerpt = messages
+      .filter(message => (message?.role === 'user' || message?.role === 'assistant') &&
+        typeof message.content === 'string' && message.content.trim())
+      .slice(0, MAX_MESSAGES)
+      .map(message => `${message.role}: ${message.content.slice(0, MAX_EXCERPT_LENGTH)}`)
+      .join('\n\n');
+
+    if (!excerpt) {
+      return NextResponse.json({ error: 'No message text to name the conversation from' }, { status: 400 });
+    }
+
+    const { model } = getChatModel('chat');
+    const { text } = await generateText({
+      model,
+      system: TITLE_PROMPT,
+      prompt: excerpt,
+      temperature: 0.3,
+      maxTokens: 20,
+    });
+
+    const title = text.trim().split('\n')[0].replace(/^["'“]+|["'”.!]+$/g, '').trim().slice(0, MAX_TITLE_LENGTH);
+    if (!title) {
+      return NextResponse.json({ error: 'The model returned an empty title' }, { status: 502 });
+    }
+
+    return NextResponse.json({ title });
+  } catch (error) {
+    if (error instanceof AIConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    console.error('Chat title error:', error);
+    return NextResponse.json({ error: 'Failed to generate a title' }, { status: 500 });
+  }
+}
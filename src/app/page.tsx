@@ -9,12 +9,19 @@
 import { useState, useEffect } from 'react';
 import { ModernTaskManager } from '@/features/tasks/ModernTaskManager';
 import { CalendarView } from '@/features/calendar/CalendarView';
+import { WorkingHoursEditor } from '@/features/calendar/WorkingHoursEditor';
+import { ConstraintEditor } from '@/features/calendar/ConstraintEditor';
 import { ModernDashboard } from '@/features/dashboard/ModernDashboard';
 import { GoogleSignIn } from '@/features/auth/GoogleSignIn';
 import { CalendarSync } from '@/features/calendar-sync/CalendarSync';
+import { IcsImportExport } from '@/features/calendar-sync/IcsImportExport';
+import { useCalendarNotifications } from '@/features/calendar-sync/useCalendarNotifications';
+import { CalendarFeedSettings } from '@/features/calendar-sync/CalendarFeedSettings';
+import { useCalendarFeedPublisher } from '@/features/calendar-sync/useCalendarFeed';
 import { ChatWindow } from '@/components/Chat/ChatWindow';
 import { useAuthStore } from '@/features/auth/authStore';
 import { useTaskStore } from '@/features/tasks/taskStore';
+import { useChatStore } from '@/features/ai/chatStore';
 import { 
   CheckSquare, 
   Calendar, 
@@ -30,20 +37,41 @@ type ActiveView = 'tasks' | 'calendar' | 'dashboard' | 'settings' | 'voice';
 export default function Home() {
   const [activeView, setActiveView] = useState<ActiveView>('voice');
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<string>();
   const { isAuthenticated, user } = useAuthStore();
   const { initializeStore, migrateLocalTasks } = useTaskStore();
+  const { initializeStore: initializeChatStore, migrateLocalConversations, openConversation } = useChatStore();
+
+  // Links between tasks and the assistant conversations that created them
+  const openTask = (taskId: string) => {
+    setOpenTaskId(taskId);
+    setActiveView('tasks');
+  };
+
+  const openTaskConversation = (conversationId: string) => {
+    openConversation(conversationId);
+    setActiveView('voice');
+  };
 
   // Initialize task store and handle authentication changes
   useEffect(() => {
     initializeStore();
-  }, [initializeStore]);
+    initializeChatStore();
+  }, [initializeStore, initializeChatStore]);
+
+  // Keep synced calendars current from Google push notifications
+  useCalendarNotifications(isAuthenticated && !!user?.googleCalendarConnected);
 
-  // Migrate local tasks when user signs in
+  // Keep the subscribable calendar feed's copy of the time blocks current
+  useCalendarFeedPublisher(isAuthenticated);
+
+  // Migrate local tasks and chat history when user signs in
   useEffect(() => {
     if (isAuthenticated && user) {
       migrateLocalTasks(user.id);
+      migrateLocalConversations(user.id);
     }
-  }, [isAuthenticated, user, migrateLocalTasks]);
+  }, [isAuthenticated, user, migrateLocalTasks, migrateLocalConversations]);
 
   const navigation = [
     { id: 'voice', name: 'Voice Assistant', icon: Mic },
@@ -56,9 +84,15 @@ export default function Home() {
   const renderActiveView = () => {
     switch (activeView) {
       case 'voice':
-        return <ChatWindow mode="scheduling" className="h-full" />;
+        return <ChatWindow mode="scheduling" className="h-full" onOpenTask={openTask} />;
       case 'tasks':
-        return <ModernTaskManager />;
+        return (
+          <ModernTaskManager
+            openTaskId={openTaskId}
+            onTaskOpened={() => setOpenTaskId(undefined)}
+            onOpenConversation={openTaskConversation}
+          />
+        );
       case 'calendar':
         return <CalendarView />;
       case 'dashboard':
@@ -66,7 +100,7 @@ export default function Home() {
       case 'settings':
         return <SettingsView />;
       default:
-        return <ChatWindow mode="scheduling" className="h-full" />;
+        return <ChatWindow mode="scheduling" className="h-full" onOpenTask={openTask} />;
     }
   };
 
@@ -80,13 +114,41 @@ export default function Home() {
         <GoogleSignIn variant="profile" showCalendarSync={true} />
       </div>
 
+      {/* Working Hours Section */}
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Working Hours</h2>
+        <WorkingHoursEditor />
+      </div>
+
+      {/* Global Scheduling Rules Section */}
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Scheduling Rules</h2>
+        <div className="rounded-lg border bg-white p-6">
+          <ConstraintEditor />
+        </div>
+      </div>
+
+      {/* Import & Export Section */}
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Import &amp; Export</h2>
+        <IcsImportExport />
+      </div>
+
       {/* Calendar Sync Section */}
-      {isAuthenticated && user?.googleCalendarConnected && (
+      {isAuthenticated && (
         <div>
           <h2 className="text-xl font-semibold text-gray-900 mb-4">Calendar Sync</h2>
           <CalendarSync variant="full" />
         </div>
       )}
+
+      {/* Calendar Feed Section */}
+      {isAuthenticated && (
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Calendar Feed</h2>
+          <CalendarFeedSettings />
+        </div>
+      )}
     </div>
   );
 
@@ -15,7 +15,7 @@ import { createUserInDatabase } from '@/features/auth/authStore';
 // Session sync component
 const SessionSync = ({ children }: { children: React.ReactNode }) => {
   const { data: session, status } = useSession();
-  const { setUser, setLoading } = useAuthStore();
+  const { setUser, setLoading, setError } = useAuthStore();
 
   useEffect(() => {
     setLoading(status === 'loading');
@@ -34,6 +34,11 @@ const SessionSync = ({ children }: { children: React.ReactNode }) => {
 
       setUser(flowMotionUser);
 
+      // Google access couldn't be renewed server-side (e.g. access was revoked)
+      if (session.error === 'RefreshAccessTokenError') {
+        setError('Google Calendar access expired. Please sign in again.');
+      }
+
       // Fetch full user data from database to get calendar connection status
       createUserInDatabase({
         id: session.user.id,
@@ -48,7 +53,7 @@ const SessionSync = ({ children }: { children: React.ReactNode }) => {
     } else if (status === 'unauthenticated') {
       setUser(null);
     }
-  }, [session, status, setUser, setLoading]);
+  }, [session, status, setUser, setLoading, setError]);
 
   return <>{children}</>;
 };
@@ -0,0 +1,93 @@
+/**
+ * ChatHistorySidebar - Saved conversations
+ * Start a new conversation, resume an earlier one or delete it
+ */
+
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Plus, Trash2 } from 'lucide-react';
+import { useChatStore } from '@/features/ai/chatStore';
+
+interface ChatHistorySidebarProps {
+  disabled?: boolean; // while a reply is streaming
+  className?: string;
+}
+
+export function ChatHistorySidebar({ disabled = false, className = '' }: ChatHistorySidebarProps) {
+  const {
+    conversations,
+    activeConversationId,
+    isLoading,
+    startConversation,
+    openConversation,
+    deleteConversation,
+  } = useChatStore();
+
+  const handleDelete = (id: string, title: string) => {
+    if (confirm(`Delete "${title}"? Tasks it created are kept.`)) {
+      deleteConversation(id);
+    }
+  };
+
+  return (
+    <aside className={`flex flex-col w-64 flex-shrink-0 border-r border-black/5 bg-white/60 backdrop-blur-xl ${className}`}>
+      <div className="p-4 border-b border-black/5">
+        <button
+          onClick={startConversation}
+          disabled={disabled}
+          className="flex w-full items-center justify-center gap-2 px-3 py-2 rounded-xl bg-black text-white text-sm font-medium hover:bg-black/90 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          New conversation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="px-3 py-6 text-center text-sm text-black/40 font-light">
+            {isLoading ? 'Loading conversations...' : 'Your conversations will appear here'}
+          </p>
+        )}
+
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-start gap-1 rounded-xl transition-colors ${
+                isActive ? 'bg-black/5' : 'hover:bg-black/[0.03]'
+              }`}
+            >
+              <button
+                onClick={() => openConversation(conversation.id)}
+                disabled={disabled || isActive}
+                className="flex flex-1 min-w-0 items-start gap-2 px-3 py-2.5 text-left disabled:cursor-default"
+              >
+                <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0 text-black/40" />
+                <div className="min-w-0">
+                  <p className={`truncate text-sm ${isActive ? 'text-black font-medium' : 'text-black/80'}`}>
+                    {conversation.title}
+                  </p>
+                  <p className="text-xs text-black/40 font-light">
+                    {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+                    {conversation.taskIds.length > 0 &&
+                      ` · ${conversation.taskIds.length} ${conversation.taskIds.length === 1 ? 'task' : 'tasks'}`}
+                  </p>
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(conversation.id, conversation.title)}
+                disabled={disabled}
+                aria-label={`Delete ${conversation.title}`}
+                className="p-2 mt-1 mr-1 rounded-lg text-black/30 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-600 hover:bg-red-50 disabled:hidden"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
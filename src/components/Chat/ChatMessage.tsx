@@ -7,53 +7,30 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { User, Bot, Sparkles, Clock, Calendar, AlertCircle } from 'lucide-react';
+import { User, Bot, Sparkles, ListPlus } from 'lucide-react';
 import { Message } from 'ai';
+import { ChatToolResult, getCreatedTasks } from '@/features/ai/chatTools';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { ChatToolInvocation } from './ChatToolInvocation';
 
 interface ChatMessageProps {
   message: Message;
   isLoading?: boolean;
+  onToolResult?: (toolCallId: string, result: ChatToolResult) => void; // confirms tool calls
+  onOpenTask?: (taskId: string) => void;
 }
 
-interface SchedulingTask {
-  title: string;
-  description: string;
-  estimatedDuration: number;
-  priority: 'high' | 'medium' | 'low';
-  category: string;
-  suggestedTime: string;
-  preparationTime?: number;
-  conflicts?: string[];
-  alternatives?: string[];
-}
-
-interface SchedulingResponse {
-  response: string;
-  tasks?: SchedulingTask[];
-  clarificationNeeded?: boolean;
-  nextQuestion?: string;
-}
-
-export function ChatMessage({ message, isLoading = false }: ChatMessageProps) {
+export function ChatMessage({ message, isLoading = false, onToolResult, onOpenTask }: ChatMessageProps) {
   const isUser = message.role === 'user';
   const isAssistant = message.role === 'assistant';
 
-  // Try to parse scheduling response
-  let schedulingData: SchedulingResponse | null = null;
-  let displayText = message.content;
-  
-  if (isAssistant && message.content) {
-    try {
-      const jsonMatch = message.content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        schedulingData = JSON.parse(jsonMatch[0]);
-        // Extract just the response text for display
-        displayText = schedulingData.response || message.content;
-      }
-    } catch {
-      // Not JSON, treat as regular text
-    }
-  }
+  // Text and tool calls in the order the assistant produced them
+  const parts = message.parts?.filter(part => part.type === 'text' || part.type === 'tool-invocation')
+    || [{ type: 'text' as const, text: message.content }];
+
+  // Tasks this turn created, shown as they are now (renamed, done or deleted since)
+  const createdTasks = isAssistant ? getCreatedTasks(message) : [];
+  const tasks = useTaskStore(state => state.tasks);
 
   return (
     <motion.div
@@ -129,18 +106,23 @@ export function ChatMessage({ message, isLoading = false }: ChatMessageProps) {
             </div>
           ) : (
             <div className="space-y-4">
-              {/* Main Message Text */}
-              <div className={`
-                text-base leading-relaxed font-light
-                ${isUser ? 'text-white' : 'text-black'}
-              `}>
-                {displayText}
-              </div>
-
-              {/* Scheduling Response */}
-              {schedulingData && (
-                <SchedulingResponseComponent data={schedulingData} />
-              )}
+              {parts.map((part, index) => part.type === 'tool-invocation' ? (
+                <ChatToolInvocation
+                  key={part.toolInvocation.toolCallId}
+                  invocation={part.toolInvocation}
+                  onResult={onToolResult}
+                />
+              ) : part.type === 'text' && part.text.trim() ? (
+                <div
+                  key={index}
+                  className={`
+                    text-base leading-relaxed font-light whitespace-pre-wrap
+                    ${isUser ? 'text-white' : 'text-black'}
+                  `}
+                >
+                  {part.text}
+                </div>
+              ) : null)}
             </div>
           )}
 
@@ -156,6 +138,31 @@ export function ChatMessage({ message, isLoading = false }: ChatMessageProps) {
           />
         </motion.div>
 
+        {/* Tasks created in this turn */}
+        {createdTasks.length > 0 && (
+          <div className="mt-3 px-2 flex flex-wrap items-center gap-1.5 text-xs text-black/50">
+            <ListPlus className="w-3 h-3" />
+            <span className="font-light">Added to your tasks:</span>
+            {createdTasks.map(created => {
+              const task = tasks.find(t => t.id === created.id);
+              return (
+                <button
+                  key={created.id}
+                  type="button"
+                  onClick={() => onOpenTask?.(created.id)}
+                  disabled={!task}
+                  title={task ? 'Open this task' : 'This task has since been deleted'}
+                  className={`px-2 py-0.5 rounded-full border border-black/10 enabled:hover:bg-black/5 ${
+                    !task ? 'line-through text-black/30' : task.status === 'completed' ? 'line-through text-black/50' : 'text-black/70'
+                  }`}
+                >
+                  {task?.title || created.title}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Timestamp */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -164,7 +171,8 @@ export function ChatMessage({ message, isLoading = false }: ChatMessageProps) {
           className="mt-2 px-2"
         >
           <p className="text-xs text-black/40 font-light">
-            {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {(message.createdAt ? new Date(message.createdAt) : new Date())
+              .toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </p>
         </motion.div>
       </div>
@@ -185,128 +193,3 @@ export function ChatMessage({ message, isLoading = false }: ChatMessageProps) {
     </motion.div>
   );
 }
-
-// Scheduling Response Component
-function SchedulingResponseComponent({ data }: { data: SchedulingResponse }) {
-  if (!data.tasks || !Array.isArray(data.tasks)) {
-    return data.nextQuestion ? (
-      <motion.div
-        initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.3, duration: 0.4 }}
-        className="bg-blue-50/30 backdrop-blur-sm rounded-xl p-4 border border-blue-200/30"
-      >
-        <p className="text-sm text-blue-700 font-light italic">
-          {data.nextQuestion}
-        </p>
-      </motion.div>
-    ) : null;
-  }
-
-  return (
-    <motion.div
-      initial={{ opacity: 0, y: 10 }}
-      animate={{ opacity: 1, y: 0 }}
-      transition={{ delay: 0.3, duration: 0.4 }}
-      className="space-y-3"
-    >
-      {/* Tasks */}
-      <div className="space-y-2">
-        <h4 className="text-sm font-medium text-black/80 mb-3">Suggested Schedule:</h4>
-        {data.tasks.map((task, index) => (
-          <motion.div
-            key={index}
-            initial={{ opacity: 0, x: -20 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.4 + index * 0.1, duration: 0.3 }}
-            className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-black/5 shadow-sm"
-          >
-            <div className="flex items-start justify-between mb-2">
-              <h5 className="font-medium text-black text-sm">{task.title}</h5>
-              <span className={`
-                px-2 py-1 rounded-lg text-xs font-medium shrink-0 ml-2
-                ${task.priority === 'high' ? 'bg-red-100/80 text-red-700' :
-                  task.priority === 'medium' ? 'bg-yellow-100/80 text-yellow-700' :
-                  'bg-green-100/80 text-green-700'}
-              `}>
-                {task.priority}
-              </span>
-            </div>
-            
-            {task.description && (
-              <p className="text-sm text-black/70 font-light mb-3 leading-relaxed">
-                {task.description}
-              </p>
-            )}
-
-            {/* Task Details */}
-            <div className="flex flex-wrap gap-3 text-xs text-black/60">
-              {task.estimatedDuration && (
-                <div className="flex items-center gap-1.5">
-                  <Clock className="w-3 h-3" />
-                  <span>{task.estimatedDuration} min</span>
-                </div>
-              )}
-              {task.category && (
-                <div className="flex items-center gap-1.5">
-                  <div className="w-2 h-2 bg-black/20 rounded-full" />
-                  <span className="capitalize">{task.category}</span>
-                </div>
-              )}
-              {task.suggestedTime && (
-                <div className="flex items-center gap-1.5">
-                  <Calendar className="w-3 h-3" />
-                  <span>{new Date(task.suggestedTime).toLocaleString([], {
-                    month: 'short',
-                    day: 'numeric',
-                    hour: '2-digit',
-                    minute: '2-digit'
-                  })}</span>
-                </div>
-              )}
-            </div>
-
-            {/* Conflicts */}
-            {task.conflicts && task.conflicts.length > 0 && (
-              <div className="flex items-start gap-2 mt-3 p-2 bg-red-50/50 rounded-lg border border-red-100/50">
-                <AlertCircle className="w-3 h-3 text-red-600 mt-0.5 shrink-0" />
-                <div className="text-xs text-red-700">
-                  <span className="font-medium">Conflicts:</span>
-                  <span className="ml-1">{task.conflicts.join(', ')}</span>
-                </div>
-              </div>
-            )}
-
-            {/* Alternatives */}
-            {task.alternatives && task.alternatives.length > 0 && (
-              <div className="mt-3 p-2 bg-blue-50/50 rounded-lg border border-blue-100/50">
-                <div className="text-xs text-blue-700">
-                  <span className="font-medium">Alternatives:</span>
-                  <div className="mt-1 space-y-1">
-                    {task.alternatives.map((alt, altIndex) => (
-                      <div key={altIndex} className="text-xs">• {alt}</div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            )}
-          </motion.div>
-        ))}
-      </div>
-
-      {/* Next Question */}
-      {data.nextQuestion && (
-        <motion.div
-          initial={{ opacity: 0, y: 10 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.6, duration: 0.3 }}
-          className="bg-blue-50/30 backdrop-blur-sm rounded-xl p-4 border border-blue-200/30"
-        >
-          <p className="text-sm text-blue-700 font-light italic">
-            {data.nextQuestion}
-          </p>
-        </motion.div>
-      )}
-    </motion.div>
-  );
-}
\ No newline at end of file
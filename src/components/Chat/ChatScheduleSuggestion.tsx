@@ -0,0 +1,183 @@
+/**
+ * ChatScheduleSuggestion - Task cards for the assistant's suggestSchedule call
+ * Cards render while the suggestion streams in, then the user picks which
+ * tasks to add. A suggestion that fails the schema shows what is wrong.
+ *
+ * Used by: ChatToolInvocation.tsx
+ * Related: chatTools.ts (scheduleSuggestionSchema)
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DeepPartial } from 'ai';
+import { format } from 'date-fns';
+import { AlertCircle, AlertTriangle, Check, Clock, Timer, X } from 'lucide-react';
+import { PRIORITY_COLORS } from '@/features/tasks/TaskTypes';
+import {
+  SuggestedTask,
+  formatSchemaIssues,
+  scheduleSuggestionSchema,
+} from '@/features/ai/chatTools';
+
+interface ChatScheduleSuggestionProps {
+  args: unknown;
+  isComplete: boolean; // false while the arguments are still streaming
+  isRunning: boolean;
+  onConfirm?: (tasks: SuggestedTask[]) => void;
+  onReject?: (error?: string) => void;
+}
+
+type PartialSuggestion = DeepPartial<{ tasks: SuggestedTask[] }>;
+
+// Times may be cut off mid-stream
+const formatTime = (value: string | undefined, pattern = 'EEE, MMM d h:mm a') => {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? format(date, pattern) : undefined;
+};
+
+const SuggestionCard = ({ task, selected, onToggle }: {
+  task: DeepPartial<SuggestedTask>;
+  selected?: boolean;
+  onToggle?: () => void;
+}) => {
+  const start = formatTime(task.suggestedTime);
+  const alternatives = (task.alternatives || []).map(time => formatTime(time, 'EEE h:mm a')).filter(Boolean);
+  const conflicts = (task.conflicts || []).filter(Boolean);
+
+  return (
+    <div
+      className="rounded-lg border border-black/5 bg-white/70 p-3 space-y-1.5 border-l-4"
+      style={{ borderLeftColor: task.priority ? PRIORITY_COLORS[task.priority] : undefined }}
+    >
+      <div className="flex items-start gap-2">
+        {onToggle && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggle}
+            className="mt-0.5 accent-black"
+            aria-label={`Add ${task.title}`}
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-black/80 truncate">
+            {task.title || <span className="text-black/30">...</span>}
+          </p>
+          {task.description && <p className="text-xs text-black/50 font-light">{task.description}</p>}
+        </div>
+        {task.priority && (
+          <span
+            className="shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium"
+            style={{ backgroundColor: `${PRIORITY_COLORS[task.priority]}20`, color: PRIORITY_COLORS[task.priority] }}
+          >
+            {task.priority}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-black/60">
+        {start && (
+          <span className="flex items-center gap-1">
+            <Clock className="w-3 h-3" />
+            {start}
+          </span>
+        )}
+        {task.estimatedDuration !== undefined && <span>{task.estimatedDuration} min</span>}
+        {task.category && <span>{task.category}</span>}
+        {!!task.preparationTime && (
+          <span className="flex items-center gap-1">
+            <Timer className="w-3 h-3" />
+            {task.preparationTime} min to prepare
+          </span>
+        )}
+      </div>
+
+      {conflicts.map(conflict => (
+        <div key={conflict} className="flex items-start gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>{conflict}</span>
+        </div>
+      ))}
+
+      {alternatives.length > 0 && (
+        <p className="text-xs text-black/40">Also works: {alternatives.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export function ChatScheduleSuggestion({ args, isComplete, isRunning, onConfirm, onReject }: ChatScheduleSuggestionProps) {
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+
+  // Only a complete suggestion is validated; partial ones are missing fields by design
+  const parsed = useMemo(() => (isComplete ? scheduleSuggestionSchema.safeParse(args) : undefined), [args, isComplete]);
+  const partial = (args || {}) as PartialSuggestion;
+  const tasks = (partial.tasks || []).filter((task): task is DeepPartial<SuggestedTask> => !!task);
+
+  const toggle = (index: number) => setSkipped(current => {
+    const next = new Set(current);
+    if (!next.delete(index)) next.add(index);
+    return next;
+  });
+
+  if (parsed && !parsed.success) {
+    const issues = formatSchemaIssues(parsed.error);
+    return (
+      <div className="space-y-2">
+        <div className="flex items-start gap-2 text-xs text-red-700">
+          <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span>The suggestion is incomplete or invalid: {issues}</span>
+        </div>
+        {onReject && (
+          <button
+            onClick={() => onReject(`Invalid suggestion: ${issues}`)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-black/10 text-black/70 text-xs font-medium hover:bg-black/5"
+          >
+            <X className="w-3 h-3" />
+            Dismiss
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const selected = parsed?.data.tasks.filter((_, index) => !skipped.has(index)) || [];
+  const canConfirm = !!parsed && !!onConfirm;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {tasks.map((task, index) => (
+          <SuggestionCard
+            key={index}
+            task={task}
+            selected={!skipped.has(index)}
+            onToggle={canConfirm ? () => toggle(index) : undefined}
+          />
+        ))}
+      </div>
+
+      {canConfirm && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => onConfirm!(selected)}
+            disabled={isRunning || selected.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black text-white text-xs font-medium hover:bg-black/90 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" />
+            Add {selected.length} {selected.length === 1 ? 'task' : 'tasks'}
+          </button>
+          <button
+            onClick={() => onReject?.()}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-black/10 text-black/70 text-xs font-medium hover:bg-black/5 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
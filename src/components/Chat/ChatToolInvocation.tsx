@@ -0,0 +1,217 @@
+/**
+ * ChatToolInvocation - Inline card for an assistant tool call
+ * Shows what the assistant is doing, asks before it changes tasks,
+ * and summarizes the result
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ToolInvocation } from 'ai';
+import { format } from 'date-fns';
+import { Check, X, Clock, Calendar, CalendarPlus, ListTodo, Search, AlertCircle, Loader2 } from 'lucide-react';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { runChatTool } from '@/features/ai/chatToolRunner';
+import { ChatScheduleSuggestion } from './ChatScheduleSuggestion';
+import {
+  CONFIRMED_TOOLS,
+  ChatTaskSummary,
+  ChatTimeSlot,
+  ChatToolName,
+  ChatToolResult,
+  isChatToolName,
+} from '@/features/ai/chatTools';
+
+interface ChatToolInvocationProps {
+  invocation: ToolInvocation;
+  onResult?: (toolCallId: string, result: ChatToolResult) => void;
+}
+
+const TOOL_LABELS: Record<ChatToolName, { running: string; confirm: string; done: string }> = {
+  listTasks: { running: 'Checking your tasks', confirm: 'List tasks', done: 'Tasks' },
+  findFreeSlots: { running: 'Looking for free time', confirm: 'Find free time', done: 'Free time' },
+  createTask: { running: 'Creating task', confirm: 'Create this task?', done: 'Task created' },
+  updateTask: { running: 'Updating task', confirm: 'Update this task?', done: 'Task updated' },
+  scheduleTask: { running: 'Scheduling task', confirm: 'Schedule this task?', done: 'Task scheduled' },
+  suggestSchedule: { running: 'Planning your schedule', confirm: 'Add these to your calendar?', done: 'Added to your calendar' },
+};
+
+// Arguments may still be streaming in, so dates can be incomplete
+const formatDate = (value: string, pattern: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, pattern);
+};
+
+const formatDateTime = (value: string) => formatDate(value, 'EEE, MMM d h:mm a');
+
+const formatSlot = (slot: ChatTimeSlot) => `${formatDateTime(slot.start)} – ${formatDate(slot.end, 'h:mm a')}`;
+
+// Argument rows shown before the user confirms a change
+const describeArgs = (toolName: ChatToolName, args: Record<string, unknown>, taskTitle?: string): string[] => {
+  const rows: string[] = [];
+  if (taskTitle) rows.push(taskTitle);
+
+  if (typeof args.title === 'string') rows.push(toolName === 'updateTask' ? `Rename to "${args.title}"` : args.title);
+  if (typeof args.estimatedDuration === 'number') rows.push(`${args.estimatedDuration} min`);
+  if (typeof args.priority === 'string') rows.push(`${args.priority} priority`);
+  if (typeof args.category === 'string') rows.push(`Category: ${args.category}`);
+  if (typeof args.status === 'string') rows.push(`Status: ${args.status}`);
+  if (typeof args.deadline === 'string') rows.push(`Due ${formatDateTime(args.deadline)}`);
+  if (args.deadline === null) rows.push('Remove the deadline');
+
+  if (toolName === 'scheduleTask') {
+    rows.push(typeof args.start === 'string'
+      ? `At ${formatDateTime(args.start)}${typeof args.end === 'string' ? ` – ${formatDate(args.end, 'h:mm a')}` : ''}`
+      : 'At the best free time');
+  }
+
+  return rows;
+};
+
+const TaskRow = ({ task }: { task: ChatTaskSummary }) => (
+  <div className="flex items-center justify-between gap-3 text-xs">
+    <span className={`truncate ${task.status === 'completed' ? 'line-through text-black/40' : 'text-black/80'}`}>
+      {task.title}
+    </span>
+    <span className="shrink-0 text-black/50">
+      {task.scheduledStart ? formatDateTime(task.scheduledStart) : task.deadline ? `Due ${formatDateTime(task.deadline)}` : `${task.estimatedDuration} min`}
+    </span>
+  </div>
+);
+
+const ResultSummary = ({ toolName, result }: { toolName: ChatToolName; result: ChatToolResult }) => {
+  if ('error' in result) {
+    return (
+      <div className="flex items-start gap-2 text-xs text-red-700">
+        <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>{result.error}</span>
+      </div>
+    );
+  }
+
+  if ('declined' in result) {
+    return <p className="text-xs text-black/50 font-light">Cancelled</p>;
+  }
+
+  if ('tasks' in result) {
+    return (
+      <div className="space-y-1.5">
+        {result.tasks.length === 0 && <p className="text-xs text-black/50 font-light">No matching tasks</p>}
+        {result.tasks.slice(0, 5).map(task => <TaskRow key={task.id} task={task} />)}
+        {result.total > 5 && <p className="text-xs text-black/40">and {result.total - 5} more</p>}
+      </div>
+    );
+  }
+
+  if ('slots' in result) {
+    return (
+      <div className="space-y-1.5">
+        {result.slots.length === 0 && <p className="text-xs text-black/50 font-light">No free time in that range</p>}
+        {result.slots.map(slot => (
+          <div key={slot.start} className="flex items-center gap-1.5 text-xs text-black/70">
+            <Clock className="w-3 h-3" />
+            <span>{formatSlot(slot)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <TaskRow task={result.task} />
+      {toolName === 'scheduleTask' && result.sessions?.map(session => (
+        <div key={session.start} className="flex items-center gap-1.5 text-xs text-black/60">
+          <Calendar className="w-3 h-3" />
+          <span>{formatSlot(session)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export function ChatToolInvocation({ invocation, onResult }: ChatToolInvocationProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const taskTitle = useTaskStore(state =>
+    typeof invocation.args?.taskId === 'string' ? state.getTaskById(invocation.args.taskId)?.title : undefined
+  );
+
+  const { toolName, toolCallId, state } = invocation;
+  if (!isChatToolName(toolName)) return null;
+
+  const labels = TOOL_LABELS[toolName];
+  const needsConfirmation = state === 'call' && CONFIRMED_TOOLS.includes(toolName) && !!onResult;
+  const Icon = toolName === 'findFreeSlots' ? Search
+    : toolName === 'listTasks' ? ListTodo
+    : toolName === 'suggestSchedule' ? CalendarPlus
+    : Calendar;
+
+  const handleConfirm = async (args: unknown = invocation.args) => {
+    setIsRunning(true);
+    try {
+      onResult!(toolCallId, await runChatTool(toolName, args));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-black/5 shadow-sm space-y-3"
+    >
+      <div className="flex items-center gap-2 text-sm font-medium text-black/80">
+        {state === 'result' || (needsConfirmation && !isRunning)
+          ? <Icon className="w-4 h-4" />
+          : <Loader2 className="w-4 h-4 animate-spin" />}
+        <span>
+          {state === 'result' ? labels.done : needsConfirmation && !isRunning ? labels.confirm : `${labels.running}...`}
+        </span>
+      </div>
+
+      {state !== 'result' && toolName === 'suggestSchedule' && (
+        <ChatScheduleSuggestion
+          args={invocation.args}
+          isComplete={state === 'call'}
+          isRunning={isRunning}
+          onConfirm={needsConfirmation ? (tasks) => handleConfirm({ tasks }) : undefined}
+          onReject={needsConfirmation
+            ? (error) => onResult!(toolCallId, error ? { error } : { declined: true })
+            : undefined}
+        />
+      )}
+
+      {state !== 'result' && toolName !== 'suggestSchedule' && CONFIRMED_TOOLS.includes(toolName) && (
+        <div className="space-y-1 text-xs text-black/70">
+          {describeArgs(toolName, invocation.args || {}, taskTitle).map(row => <div key={row}>{row}</div>)}
+        </div>
+      )}
+
+      {needsConfirmation && toolName !== 'suggestSchedule' && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleConfirm()}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black text-white text-xs font-medium hover:bg-black/90 disabled:opacity-50"
+          >
+            <Check className="w-3 h-3" />
+            Confirm
+          </button>
+          <button
+            onClick={() => onResult!(toolCallId, { declined: true })}
+            disabled={isRunning}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-black/10 text-black/70 text-xs font-medium hover:bg-black/5 disabled:opacity-50"
+          >
+            <X className="w-3 h-3" />
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {state === 'result' && <ResultSummary toolName={toolName} result={invocation.result as ChatToolResult} />}
+    </motion.div>
+  );
+}
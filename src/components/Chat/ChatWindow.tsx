@@ -8,21 +8,47 @@
 import { useChat } from 'ai/react';
 import { useVoiceConversation } from '@/hooks/useVoiceConversation';
 import { Button } from '@/components/ui/button';
-import { Mic, MicOff, Sparkles } from 'lucide-react';
+import { Mic, MicOff, Sparkles, History } from 'lucide-react';
 import { useRef, useCallback, useState, useEffect } from 'react';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { ChatHistorySidebar } from './ChatHistorySidebar';
 import { VoiceOverlay } from './VoiceOverlay';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { resolveTimeZone } from '@/features/calendar/timezone';
+import { CONFIRMED_TOOLS, ChatToolName } from '@/features/ai/chatTools';
+import { runChatTool } from '@/features/ai/chatToolRunner';
+import { buildChatContext } from '@/features/ai/chatContextBuilder';
+import { useChatStore } from '@/features/ai/chatStore';
+
+// Model calls per message, counting the calls that continue after tool results
+const MAX_CHAT_STEPS = 5;
 
 interface ChatWindowProps {
   mode?: 'chat' | 'scheduling';
   className?: string;
+  onOpenTask?: (taskId: string) => void; // from the tasks a reply created
 }
 
-export function ChatWindow({ mode = 'scheduling', className }: ChatWindowProps) {
+export function ChatWindow({ mode = 'scheduling', className, onOpenTask }: ChatWindowProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [showVoiceInterface, setShowVoiceInterface] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { settings, initializeStore: initializeCalendarStore } = useCalendarStore();
+  const {
+    conversations,
+    activeConversationId,
+    initializeStore: initializeChatStore,
+    saveMessages,
+    generateTitle,
+  } = useChatStore();
+  const activeConversation = conversations.find(conversation => conversation.id === activeConversationId);
+
+  useEffect(() => {
+    initializeCalendarStore();
+    initializeChatStore();
+  }, [initializeCalendarStore, initializeChatStore]);
   
   // Use refs to store chat functions for voice callbacks
   const chatFunctionsRef = useRef<{
@@ -69,40 +95,72 @@ export function ChatWindow({ mode = 'scheduling', className }: ChatWindowProps)
     }
   });
 
-  const { messages, input, handleInputChange, handleSubmit, isLoading, setInput } = useChat({
+  const {
+    messages, input, handleInputChange, handleSubmit, isLoading, setInput, addToolResult, error, reload, setMessages,
+  } = useChat({
     api: '/api/chat',
-    body: { mode },
+    // Each conversation keeps its own messages; a saved one resumes where it stopped
+    id: activeConversationId,
+    initialMessages: activeConversation?.messages,
+    // Built per request so follow-ups after tool calls see the updated tasks
+    experimental_prepareRequestBody: ({ messages }) => ({
+      messages,
+      mode,
+      timeZone: resolveTimeZone(settings.timeZone),
+      context: buildChatContext(),
+    }),
+    maxSteps: MAX_CHAT_STEPS,
+    // Read-only tools run right away; the rest wait for the user to confirm inline
+    onToolCall: async ({ toolCall }) => {
+      if (CONFIRMED_TOOLS.includes(toolCall.toolName as ChatToolName)) return undefined;
+      return runChatTool(toolCall.toolName, toolCall.args);
+    },
     onFinish: (message) => {
       // Auto-speak AI responses when voice conversation is active
       console.log('💬 Chat onFinish called, voiceActive:', voiceConversation.state.isActive, 'showOverlay:', showVoiceInterface, 'message:', message.content?.substring(0, 100));
       if (voiceConversation.state.isActive && message.content) {
         console.log('✅ AI response received, will speak with ElevenLabs');
-        
-        // Extract just the conversational response, not JSON
-        let textToSpeak = message.content;
-        try {
-          const jsonMatch = message.content.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            const parsed = JSON.parse(jsonMatch[0]);
-            textToSpeak = parsed.response || message.content;
-          }
-        } catch {
-          // Use full content if not JSON
-        }
-        
-        console.log('🔊 Speaking with ElevenLabs:', textToSpeak.substring(0, 50) + '...');
-        voiceConversation.handleAIResponse(textToSpeak);
+        console.log('🔊 Speaking with ElevenLabs:', message.content.substring(0, 50) + '...');
+        voiceConversation.handleAIResponse(message.content);
       } else {
         console.log('❌ Not speaking because voiceActive:', voiceConversation.state.isActive);
       }
     },
   });
 
+  // A tool call waiting for confirmation must be answered before the next message
+  const lastMessage = messages[messages.length - 1];
+  const hasPendingConfirmation = lastMessage?.role === 'assistant' && !!lastMessage.parts?.some(part =>
+    part.type === 'tool-invocation' && part.toolInvocation.state === 'call'
+  );
+
+  // A response that failed while a tool call was streaming can't be sent back to the model
+  const hasIncompleteToolCall = lastMessage?.role === 'assistant' && !!lastMessage.parts?.some(part =>
+    part.type === 'tool-invocation' && part.toolInvocation.state === 'partial-call'
+  );
+
+  const submitMessage = useCallback((e?: Parameters<typeof handleSubmit>[0]) => {
+    if (hasPendingConfirmation) {
+      e?.preventDefault?.();
+      return;
+    }
+    if (error && hasIncompleteToolCall) {
+      setMessages(current => current.slice(0, -1));
+    }
+    handleSubmit(e);
+  }, [hasPendingConfirmation, hasIncompleteToolCall, error, setMessages, handleSubmit]);
+
+  // Save after each reply or answered tool call, not while a reply streams in
+  useEffect(() => {
+    if (isLoading || messages.length === 0) return;
+    saveMessages(activeConversationId, messages).then(() => generateTitle(activeConversationId));
+  }, [messages, isLoading, activeConversationId, saveMessages, generateTitle]);
+
   // Update chat functions ref when they're available
   useEffect(() => {
     chatFunctionsRef.current.setInput = setInput;
-    chatFunctionsRef.current.handleSubmit = handleSubmit;
-  }, [setInput, handleSubmit]);
+    chatFunctionsRef.current.handleSubmit = submitMessage;
+  }, [setInput, submitMessage]);
 
   // Auto-scroll to latest message when overlay closes or new messages arrive
   useEffect(() => {
@@ -148,330 +206,379 @@ export function ChatWindow({ mode = 'scheduling', className }: ChatWindowProps)
   };
 
   return (
-    <div className={`flex flex-col h-full ${className}`}>
-      {/* Header - Ultra-minimal */}
-      <motion.div 
-        initial={{ opacity: 0, y: -20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ duration: 0.6, ease: [0.23, 1, 0.32, 1] }}
-        className="relative"
-      >
-        {/* Subtle background with gradient */}
-        <div className="absolute inset-0 bg-gradient-to-b from-white/50 to-transparent backdrop-blur-xl" />
+    <div className={`flex h-full ${className}`}>
+      {showHistory && <ChatHistorySidebar disabled={isLoading} />}
+
+      <div className="flex flex-col flex-1 min-w-0 h-full">
+        {/* Header - Ultra-minimal */}
+        <motion.div 
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, ease: [0.23, 1, 0.32, 1] }}
+          className="relative"
+        >
+          {/* Subtle background with gradient */}
+          <div className="absolute inset-0 bg-gradient-to-b from-white/50 to-transparent backdrop-blur-xl" />
         
-        <div className="relative flex items-center justify-between px-8 py-6 border-b border-black/5">
-          <div className="flex items-center gap-3">
-            <motion.div
-              animate={{ 
-                scale: isLoading ? [1, 1.1, 1] : 1,
-                opacity: isLoading ? [0.7, 1, 0.7] : 1 
-              }}
-              transition={{ 
-                duration: 2, 
-                repeat: isLoading ? Infinity : 0,
-                ease: 'easeInOut' 
-              }}
-              className="flex items-center justify-center w-8 h-8 bg-black rounded-full"
-            >
-              <Sparkles className="w-4 h-4 text-white" />
-            </motion.div>
-            <div>
-              <h1 className="text-lg font-medium text-black tracking-tight">
-                {mode === 'scheduling' ? 'FlowMotion AI' : 'Assistant'}
-              </h1>
-              <p className="text-sm text-black/60 font-light">
-                {isLoading ? 'Thinking...' : 'Ready to help'}
-              </p>
+          <div className="relative flex items-center justify-between px-8 py-6 border-b border-black/5">
+            <div className="flex items-center gap-3">
+              <motion.div
+                animate={{ 
+                  scale: isLoading ? [1, 1.1, 1] : 1,
+                  opacity: isLoading ? [0.7, 1, 0.7] : 1 
+                }}
+                transition={{ 
+                  duration: 2, 
+                  repeat: isLoading ? Infinity : 0,
+                  ease: 'easeInOut' 
+                }}
+                className="flex items-center justify-center w-8 h-8 bg-black rounded-full"
+              >
+                <Sparkles className="w-4 h-4 text-white" />
+              </motion.div>
+              <div>
+                <h1 className="text-lg font-medium text-black tracking-tight">
+                  {mode === 'scheduling' ? 'FlowMotion AI' : 'Assistant'}
+                </h1>
+                <p className="text-sm text-black/60 font-light">
+                  {isLoading ? 'Thinking...' : activeConversation?.title || 'Ready to help'}
+                </p>
+              </div>
             </div>
-          </div>
           
-          <motion.div
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleVoiceToggle}
-              className={`
-                w-10 h-10 rounded-full border transition-all duration-300
-                ${voiceConversation.state.isRecording || showVoiceInterface
-                  ? 'bg-black text-white border-black shadow-lg shadow-black/20' 
-                  : 'bg-white/50 text-black/70 border-black/10 hover:bg-black/5 hover:border-black/20'
-                }
-              `}
-            >
-              {voiceConversation.state.isRecording ? (
-                <MicOff className="w-4 h-4" />
-              ) : (
-                <Mic className="w-4 h-4" />
-              )}
-            </Button>
-          </motion.div>
-        </div>
-      </motion.div>
-
-      {/* Messages Area */}
-      <div className="flex-1 overflow-hidden relative bg-white">
-        {/* Subtle grid pattern */}
-        <div 
-          className="absolute inset-0 opacity-[0.02]"
-          style={{
-            backgroundImage: `
-              linear-gradient(rgba(0,0,0,0.1) 1px, transparent 1px),
-              linear-gradient(90deg, rgba(0,0,0,0.1) 1px, transparent 1px)
-            `,
-            backgroundSize: '24px 24px'
-          }}
-        />
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowHistory(!showHistory)}
+                aria-label={showHistory ? 'Hide conversations' : 'Show conversations'}
+                className={`
+                  w-10 h-10 rounded-full border transition-all duration-300
+                  ${showHistory
+                    ? 'bg-black/5 text-black border-black/20'
+                    : 'bg-white/50 text-black/70 border-black/10 hover:bg-black/5 hover:border-black/20'
+                  }
+                `}
+              >
+                <History className="w-4 h-4" />
+              </Button>
 
-        <div className="relative h-full overflow-y-auto" ref={scrollRef}>
-          <div className="max-w-4xl mx-auto px-8 py-8">
-            
-            {/* Welcome State */}
-            {messages.length === 0 && (
               <motion.div
-                initial={{ opacity: 0, y: 40 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.8, ease: [0.23, 1, 0.32, 1] }}
-                className="flex flex-col items-center justify-center min-h-[60vh] text-center"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
               >
-                {/* Floating logo */}
-                <motion.div
-                  animate={{ 
-                    y: [0, -8, 0],
-                    rotate: [0, 1, 0, -1, 0]
-                  }}
-                  transition={{ 
-                    duration: 6,
-                    repeat: Infinity,
-                    ease: 'easeInOut'
-                  }}
-                  className="mb-8 relative"
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleVoiceToggle}
+                  className={`
+                    w-10 h-10 rounded-full border transition-all duration-300
+                    ${voiceConversation.state.isRecording || showVoiceInterface
+                      ? 'bg-black text-white border-black shadow-lg shadow-black/20' 
+                      : 'bg-white/50 text-black/70 border-black/10 hover:bg-black/5 hover:border-black/20'
+                    }
+                  `}
                 >
-                  <div className="w-20 h-20 bg-black rounded-2xl flex items-center justify-center shadow-2xl shadow-black/20">
-                    <Sparkles className="w-10 h-10 text-white" />
-                  </div>
-                  
-                  {/* Subtle glow */}
-                  <div className="absolute inset-0 bg-black rounded-2xl blur-xl opacity-20 scale-110" />
-                </motion.div>
+                  {voiceConversation.state.isRecording ? (
+                    <MicOff className="w-4 h-4" />
+                  ) : (
+                    <Mic className="w-4 h-4" />
+                  )}
+                </Button>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
 
-                {/* Title */}
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.3, duration: 0.6 }}
-                  className="mb-6"
-                >
-                  <h2 className="text-4xl font-light text-black mb-2 tracking-tight">
-                    Welcome to FlowMotion
-                  </h2>
-                  <p className="text-lg text-black/60 font-light max-w-2xl leading-relaxed">
-                    {mode === 'scheduling' 
-                      ? 'Your intelligent scheduling assistant. Speak naturally or type to organize your day with AI precision.'
-                      : 'Your personal AI assistant. Ask questions, get help, and boost your productivity.'
-                    }
-                  </p>
-                </motion.div>
+        {/* Messages Area */}
+        <div className="flex-1 overflow-hidden relative bg-white">
+          {/* Subtle grid pattern */}
+          <div 
+            className="absolute inset-0 opacity-[0.02]"
+            style={{
+              backgroundImage: `
+                linear-gradient(rgba(0,0,0,0.1) 1px, transparent 1px),
+                linear-gradient(90deg, rgba(0,0,0,0.1) 1px, transparent 1px)
+              `,
+              backgroundSize: '24px 24px'
+            }}
+          />
 
-                {/* Feature highlights */}
+          <div className="relative h-full overflow-y-auto" ref={scrollRef}>
+            <div className="max-w-4xl mx-auto px-8 py-8">
+            
+              {/* Welcome State */}
+              {messages.length === 0 && (
                 <motion.div
-                  initial={{ opacity: 0, y: 20 }}
+                  initial={{ opacity: 0, y: 40 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.5, duration: 0.6 }}
-                  className="grid md:grid-cols-3 gap-6 mb-8 max-w-3xl"
+                  transition={{ duration: 0.8, ease: [0.23, 1, 0.32, 1] }}
+                  className="flex flex-col items-center justify-center min-h-[60vh] text-center"
                 >
-                  {[
-                    {
-                      title: 'Voice First',
-                      description: 'Natural conversation with AI',
-                      delay: 0.1
-                    },
-                    {
-                      title: 'Smart Scheduling',
-                      description: 'Intelligent calendar management',
-                      delay: 0.2
-                    },
-                    {
-                      title: 'Seamless Flow',
-                      description: 'Effortless productivity',
-                      delay: 0.3
-                    }
-                  ].map((feature) => (
-                    <motion.div
-                      key={feature.title}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ 
-                        delay: 0.6 + feature.delay,
-                        duration: 0.5,
-                        ease: [0.23, 1, 0.32, 1]
-                      }}
-                      className="p-6 bg-black/2 backdrop-blur-sm rounded-2xl border border-black/5"
-                    >
-                      <h3 className="font-medium text-black mb-2">{feature.title}</h3>
-                      <p className="text-sm text-black/60 font-light">{feature.description}</p>
-                    </motion.div>
-                  ))}
-                </motion.div>
+                  {/* Floating logo */}
+                  <motion.div
+                    animate={{ 
+                      y: [0, -8, 0],
+                      rotate: [0, 1, 0, -1, 0]
+                    }}
+                    transition={{ 
+                      duration: 6,
+                      repeat: Infinity,
+                      ease: 'easeInOut'
+                    }}
+                    className="mb-8 relative"
+                  >
+                    <div className="w-20 h-20 bg-black rounded-2xl flex items-center justify-center shadow-2xl shadow-black/20">
+                      <Sparkles className="w-10 h-10 text-white" />
+                    </div>
+                  
+                    {/* Subtle glow */}
+                    <div className="absolute inset-0 bg-black rounded-2xl blur-xl opacity-20 scale-110" />
+                  </motion.div>
 
-                {/* Call to action */}
-                <motion.div
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: 0.8, duration: 0.6 }}
-                  className="flex flex-col sm:flex-row gap-4 items-center"
-                >
-                  <Button
-                    onClick={handleVoiceToggle}
-                    className="bg-black text-white hover:bg-black/90 rounded-xl px-8 py-6 text-base font-medium shadow-lg shadow-black/20 transition-all duration-300 transform hover:scale-105"
+                  {/* Title */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.3, duration: 0.6 }}
+                    className="mb-6"
+                  >
+                    <h2 className="text-4xl font-light text-black mb-2 tracking-tight">
+                      Welcome to FlowMotion
+                    </h2>
+                    <p className="text-lg text-black/60 font-light max-w-2xl leading-relaxed">
+                      {mode === 'scheduling' 
+                        ? 'Your intelligent scheduling assistant. Speak naturally or type to organize your day with AI precision.'
+                        : 'Your personal AI assistant. Ask questions, get help, and boost your productivity.'
+                      }
+                    </p>
+                  </motion.div>
+
+                  {/* Feature highlights */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.5, duration: 0.6 }}
+                    className="grid md:grid-cols-3 gap-6 mb-8 max-w-3xl"
+                  >
+                    {[
+                      {
+                        title: 'Voice First',
+                        description: 'Natural conversation with AI',
+                        delay: 0.1
+                      },
+                      {
+                        title: 'Smart Scheduling',
+                        description: 'Intelligent calendar management',
+                        delay: 0.2
+                      },
+                      {
+                        title: 'Seamless Flow',
+                        description: 'Effortless productivity',
+                        delay: 0.3
+                      }
+                    ].map((feature) => (
+                      <motion.div
+                        key={feature.title}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ 
+                          delay: 0.6 + feature.delay,
+                          duration: 0.5,
+                          ease: [0.23, 1, 0.32, 1]
+                        }}
+                        className="p-6 bg-black/2 backdrop-blur-sm rounded-2xl border border-black/5"
+                      >
+                        <h3 className="font-medium text-black mb-2">{feature.title}</h3>
+                        <p className="text-sm text-black/60 font-light">{feature.description}</p>
+                      </motion.div>
+                    ))}
+                  </motion.div>
+
+                  {/* Call to action */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.8, duration: 0.6 }}
+                    className="flex flex-col sm:flex-row gap-4 items-center"
                   >
-                    <Mic className="w-5 h-5 mr-3" />
-                    Start Voice Chat
-                  </Button>
+                    <Button
+                      onClick={handleVoiceToggle}
+                      className="bg-black text-white hover:bg-black/90 rounded-xl px-8 py-6 text-base font-medium shadow-lg shadow-black/20 transition-all duration-300 transform hover:scale-105"
+                    >
+                      <Mic className="w-5 h-5 mr-3" />
+                      Start Voice Chat
+                    </Button>
                   
-                  <p className="text-sm text-black/40 font-light">
-                    or type a message below
-                  </p>
+                    <p className="text-sm text-black/40 font-light">
+                      or type a message below
+                    </p>
+                  </motion.div>
                 </motion.div>
-              </motion.div>
-            )}
+              )}
             
-            {/* Messages */}
-            <AnimatePresence mode="popLayout">
-              {messages.map((message, index) => (
+              {/* Messages */}
+              <AnimatePresence mode="popLayout">
+                {messages.map((message, index) => (
+                  <motion.div
+                    key={message.id}
+                    initial={{ opacity: 0, y: 20, scale: 0.98 }}
+                    animate={{ opacity: 1, y: 0, scale: 1 }}
+                    exit={{ opacity: 0, y: -20, scale: 0.98 }}
+                    transition={{ 
+                      duration: 0.4,
+                      ease: [0.23, 1, 0.32, 1],
+                      delay: index * 0.05
+                    }}
+                    layout
+                  >
+                    <ChatMessage
+                      message={message}
+                      onToolResult={(toolCallId, result) => addToolResult({ toolCallId, result })}
+                      onOpenTask={onOpenTask}
+                    />
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            
+              {/* Loading message */}
+              {isLoading && (
                 <motion.div
-                  key={message.id}
-                  initial={{ opacity: 0, y: 20, scale: 0.98 }}
-                  animate={{ opacity: 1, y: 0, scale: 1 }}
-                  exit={{ opacity: 0, y: -20, scale: 0.98 }}
-                  transition={{ 
-                    duration: 0.4,
-                    ease: [0.23, 1, 0.32, 1],
-                    delay: index * 0.05
-                  }}
-                  layout
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ duration: 0.3 }}
                 >
-                  <ChatMessage message={message} />
+                  <ChatMessage 
+                    message={{ 
+                      id: 'loading', 
+                      role: 'assistant', 
+                      content: '...' 
+                    }} 
+                    isLoading 
+                  />
                 </motion.div>
-              ))}
-            </AnimatePresence>
-            
-            {/* Loading message */}
-            {isLoading && (
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.3 }}
-              >
-                <ChatMessage 
-                  message={{ 
-                    id: 'loading', 
-                    role: 'assistant', 
-                    content: '...' 
-                  }} 
-                  isLoading 
-                />
-              </motion.div>
-            )}
+              )}
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Voice Status Indicators */}
-      <AnimatePresence>
-        {voiceConversation.state.transcript && !showVoiceInterface && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            className="px-8 py-4 bg-black/2 backdrop-blur-xl border-t border-black/5"
-          >
-            <div className="flex items-center justify-between max-w-4xl mx-auto">
-              <p className="text-sm text-black/60 font-light">
-                Voice: {voiceConversation.state.transcript}
-              </p>
-              <Button
-                size="sm"
-                variant="ghost"
-                onClick={handleVoiceSubmit}
-                className="text-xs bg-black text-white hover:bg-black/90 rounded-lg px-4 py-2"
-              >
-                Send
-              </Button>
-            </div>
-          </motion.div>
-        )}
-
-        {voiceConversation.state.isProcessing && !showVoiceInterface && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            className="px-8 py-4 bg-blue-50/50 backdrop-blur-xl border-t border-blue-100/50"
-          >
-            <div className="max-w-4xl mx-auto">
-              <p className="text-sm text-blue-600 font-light animate-pulse">
-                Processing speech...
-              </p>
-            </div>
-          </motion.div>
-        )}
-
-        {voiceConversation.state.error && !showVoiceInterface && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            className="px-8 py-4 bg-red-50/50 backdrop-blur-xl border-t border-red-100/50"
-          >
-            <div className="max-w-4xl mx-auto">
-              <p className="text-sm text-red-600 font-light">
-                {voiceConversation.state.error}
-              </p>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      {/* Input */}
-      <ChatInput
-        input={input}
-        handleInputChange={handleInputChange}
-        handleSubmit={handleSubmit}
-        isLoading={isLoading}
-        voiceState={{
-          isListening: voiceConversation.state.isRecording,
-          transcript: voiceConversation.state.transcript,
-          error: voiceConversation.state.error,
-          confidence: 1,
-          isSpeaking: voiceConversation.state.isSpeaking,
-          isSupported: true
-        }}
-        onVoiceToggle={handleVoiceToggle}
-      />
-
-      {/* Voice Overlay */}
-      <VoiceOverlay
-        isOpen={showVoiceInterface}
-        isRecording={voiceConversation.state.isRecording}
-        isProcessing={voiceConversation.state.isProcessing || isLoading}
-        isSpeaking={voiceConversation.state.isSpeaking}
-        transcript={voiceConversation.state.transcript}
-        aiResponse={voiceConversation.state.aiResponse}
-        error={voiceConversation.state.error}
-        onClose={handleTextMode}
-        onToggleRecording={() => {
-          if (voiceConversation.state.isRecording) {
-            voiceConversation.stopRecording();
-          } else if (!voiceConversation.state.isSpeaking && !isLoading) {
-            voiceConversation.startConversation();
-          }
-        }}
-        onSend={handleVoiceSubmit}
-      />
+        {/* Voice Status Indicators */}
+        <AnimatePresence>
+          {voiceConversation.state.transcript && !showVoiceInterface && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="px-8 py-4 bg-black/2 backdrop-blur-xl border-t border-black/5"
+            >
+              <div className="flex items-center justify-between max-w-4xl mx-auto">
+                <p className="text-sm text-black/60 font-light">
+                  Voice: {voiceConversation.state.transcript}
+                </p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleVoiceSubmit}
+                  className="text-xs bg-black text-white hover:bg-black/90 rounded-lg px-4 py-2"
+                >
+                  Send
+                </Button>
+              </div>
+            </motion.div>
+          )}
+
+          {voiceConversation.state.isProcessing && !showVoiceInterface && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="px-8 py-4 bg-blue-50/50 backdrop-blur-xl border-t border-blue-100/50"
+            >
+              <div className="max-w-4xl mx-auto">
+                <p className="text-sm text-blue-600 font-light animate-pulse">
+                  Processing speech...
+                </p>
+              </div>
+            </motion.div>
+          )}
+
+          {error && !isLoading && !showVoiceInterface && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="px-8 py-4 bg-red-50/50 backdrop-blur-xl border-t border-red-100/50"
+            >
+              <div className="flex items-center justify-between gap-4 max-w-4xl mx-auto">
+                <p className="text-sm text-red-600 font-light">
+                  {error.message || 'Something went wrong. Please try again.'}
+                </p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => reload()}
+                  className="text-xs text-red-600 hover:bg-red-100/50 rounded-lg px-4 py-2"
+                >
+                  Try again
+                </Button>
+              </div>
+            </motion.div>
+          )}
+
+          {voiceConversation.state.error && !showVoiceInterface && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 20 }}
+              className="px-8 py-4 bg-red-50/50 backdrop-blur-xl border-t border-red-100/50"
+            >
+              <div className="max-w-4xl mx-auto">
+                <p className="text-sm text-red-600 font-light">
+                  {voiceConversation.state.error}
+                </p>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Input */}
+        <ChatInput
+          input={input}
+          handleInputChange={handleInputChange}
+          handleSubmit={submitMessage}
+          isLoading={isLoading || hasPendingConfirmation}
+          voiceState={{
+            isListening: voiceConversation.state.isRecording,
+            transcript: voiceConversation.state.transcript,
+            error: voiceConversation.state.error,
+            confidence: 1,
+            isSpeaking: voiceConversation.state.isSpeaking,
+            isSupported: true
+          }}
+          onVoiceToggle={handleVoiceToggle}
+        />
+
+        {/* Voice Overlay */}
+        <VoiceOverlay
+          isOpen={showVoiceInterface}
+          isRecording={voiceConversation.state.isRecording}
+          isProcessing={voiceConversation.state.isProcessing || isLoading}
+          isSpeaking={voiceConversation.state.isSpeaking}
+          transcript={voiceConversation.state.transcript}
+          aiResponse={voiceConversation.state.aiResponse}
+          error={voiceConversation.state.error}
+          onClose={handleTextMode}
+          onToggleRecording={() => {
+            if (voiceConversation.state.isRecording) {
+              voiceConversation.stopRecording();
+            } else if (!voiceConversation.state.isSpeaking && !isLoading) {
+              voiceConversation.startConversation();
+            }
+          }}
+          onSend={handleVoiceSubmit}
+        />
+      </div>
     </div>
   );
 }
\ No newline at end of file
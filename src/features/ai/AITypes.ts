@@ -2,9 +2,10 @@
  * AI Intelligence Types
  * 
  * Type definitions for AI-powered features using Google Gemini
- * Used by: AI service layer, task intelligence, voice processing
+ * Used by: AI service layer, task intelligence, voice processing, aiProviders.ts, chatStore.ts
  */
 
+import { Message } from 'ai';
 import { TaskFormData } from '@/features/tasks/TaskTypes';
 
 export interface AITaskAnalysis {
@@ -120,6 +121,35 @@ export interface GeminiConfig {
   };
 }
 
+// LLM Provider Configuration (see aiProviders.ts)
+export type AIProviderId = 'openai' | 'gemini' | 'openai-compatible';
+
+export type AIChatMode = 'chat' | 'scheduling';
+
+// Same generation settings as GeminiConfig, for any provider
+export type AIModelSettings = NonNullable<GeminiConfig['generationConfig']> & {
+  model: string;
+};
+
+export interface AIProviderConfig {
+  provider: AIProviderId;
+  apiKey?: string;
+  baseURL?: string; // openai-compatible only, e.g. http://localhost:11434/v1 for Ollama
+  safetySettings?: GeminiConfig['safetySettings']; // gemini only
+  modes: Record<AIChatMode, AIModelSettings>;
+}
+
+// Chat Conversations (see chatStore.ts)
+export interface ChatConversation {
+  id: string;
+  title: string;
+  isTitleGenerated: boolean; // false while the title is the first message's opening words
+  messages: Message[]; // as useChat keeps them, tool calls and results included
+  taskIds: string[]; // tasks the assistant created in this conversation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Learning and Adaptation
 export interface UserLearningData {
   userId: string;
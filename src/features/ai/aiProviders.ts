@@ -0,0 +1,179 @@
+/**
+ * AI Providers
+ *
+ * The language models the assistant can run on, chosen per deployment with
+ * environment variables:
+ * - openai: OpenAI's API (OPENAI_API_KEY)
+ * - gemini: Google Gemini (GEMINI_API_KEY), with DEFAULT_AI_CONFIG's
+ *   generation and safety settings
+ * - openai-compatible: any server speaking OpenAI's chat API, e.g. Ollama,
+ *   LM Studio or vLLM (AI_BASE_URL), so the assistant can run without an
+ *   external API. The model has to support tool calling.
+ *
+ * Each chat mode has its own model settings: the provider's defaults,
+ * overridden by AI_<SETTING> for every mode and AI_<MODE>_<SETTING> for one,
+ * e.g. AI_MODEL=gpt-4o and AI_SCHEDULING_TEMPERATURE=0.3.
+ *
+ * Server only: reads secrets from the environment.
+ *
+ * Used by: api/chat/route.ts
+ * Related: AITypes.ts (AIProviderConfig, GeminiConfig)
+ */
+
+import { LanguageModelV1 } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createGoogleGenerativeAI, GoogleGenerativeAIProvider } from '@ai-sdk/google';
+import {
+  AIChatMode,
+  AIModelSettings,
+  AIProviderConfig,
+  AIProviderId,
+  DEFAULT_AI_CONFIG,
+} from './AITypes';
+
+type Env = Record<string, string | undefined>;
+
+type GeminiSafetySettings = NonNullable<Parameters<GoogleGenerativeAIProvider>[1]>['safetySettings'];
+
+// Chat replies are short and often spoken, whatever the model allows
+const CHAT_MAX_OUTPUT_TOKENS = 1000;
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama
+
+const CHAT_MODES: AIChatMode[] = ['chat', 'scheduling'];
+
+export class AIConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIConfigError';
+  }
+}
+
+interface AIProvider {
+  name: string;
+  apiKeyEnv?: string; // required key, when the provider needs one
+  defaults: Record<AIChatMode, AIModelSettings>;
+  createModel: (config: AIProviderConfig, settings: AIModelSettings) => LanguageModelV1;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+const geminiDefaults: AIModelSettings = {
+  ...DEFAULT_AI_CONFIG.generationConfig,
+  model: DEFAULT_AI_CONFIG.model,
+  maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS,
+};
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  openai: {
+    name: 'OpenAI',
+    apiKeyEnv: 'OPENAI_API_KEY',
+    defaults: {
+      chat: { model: 'gpt-4o-mini', temperature: 0.7, maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS },
+      scheduling: { model: 'gpt-4o-mini', temperature: 0.7, maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS },
+    },
+    createModel: (config, settings) =>
+      createOpenAI({ apiKey: config.apiKey, compatibility: 'strict' })(settings.model),
+  },
+
+  gemini: {
+    name: 'Gemini',
+    apiKeyEnv: 'GEMINI_API_KEY',
+    defaults: {
+      chat: { ...geminiDefaults, model: 'gemini-1.5-flash' },
+      scheduling: geminiDefaults,
+    },
+    createModel: (config, settings) =>
+      createGoogleGenerativeAI({ apiKey: config.apiKey })(settings.model, {
+        safetySettings: config.safetySettings as GeminiSafetySettings,
+      }),
+  },
+
+  'openai-compatible': {
+    name: 'OpenAI-compatible server',
+    defaults: {
+      chat: { model: 'llama3.1', temperature: 0.7, maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS },
+      scheduling: { model: 'llama3.1', temperature: 0.7, maxOutputTokens: CHAT_MAX_OUTPUT_TOKENS },
+    },
+    // Local servers usually ignore the key, but the client always sends one
+    createModel: (config, settings) =>
+      createOpenAI({
+        name: 'openai-compatible',
+        baseURL: config.baseURL,
+        apiKey: config.apiKey || 'none',
+        compatibility: 'compatible',
+      })(settings.model),
+  },
+};
+
+const isProviderId = (id: string): id is AIProviderId => id in PROVIDERS;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+const readNumber = (env: Env, name: string): number | undefined => {
+  const value = env[name]?.trim();
+  if (!value) return undefined;
+
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new AIConfigError(`${name} must be a number, got "${value}"`);
+  return number;
+};
+
+// AI_<MODE>_<NAME> beats AI_<NAME>, which beats the provider default
+const readModeSettings = (env: Env, mode: AIChatMode, defaults: AIModelSettings): AIModelSettings => {
+  const prefix = `AI_${mode.toUpperCase()}_`;
+  const read = (name: string) => readNumber(env, `${prefix}${name}`) ?? readNumber(env, `AI_${name}`);
+
+  return {
+    ...defaults,
+    model: env[`${prefix}MODEL`] || env.AI_MODEL || defaults.model,
+    temperature: read('TEMPERATURE') ?? defaults.temperature,
+    topP: read('TOP_P') ?? defaults.topP,
+    topK: read('TOP_K') ?? defaults.topK,
+    maxOutputTokens: read('MAX_OUTPUT_TOKENS') ?? defaults.maxOutputTokens,
+  };
+};
+
+/**
+ * The deployment's provider and per-mode settings; throws AIConfigError when
+ * the configuration is unusable (unknown provider, missing key, bad number)
+ */
+export const getAIConfig = (env: Env = process.env): AIProviderConfig => {
+  const providerId = env.AI_PROVIDER?.trim() || 'openai';
+  if (!isProviderId(providerId)) {
+    throw new AIConfigError(
+      `Unknown AI_PROVIDER "${providerId}"; use one of ${Object.keys(PROVIDERS).join(', ')}`
+    );
+  }
+
+  const provider = PROVIDERS[providerId];
+  const apiKey = env.AI_API_KEY || (provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined);
+  if (provider.apiKeyEnv && !apiKey) {
+    throw new AIConfigError(`The assistant uses ${provider.name} but ${provider.apiKeyEnv} is not set`);
+  }
+
+  return {
+    provider: providerId,
+    apiKey,
+    baseURL: providerId === 'openai-compatible' ? env.AI_BASE_URL || DEFAULT_LOCAL_BASE_URL : undefined,
+    safetySettings: providerId === 'gemini' ? DEFAULT_AI_CONFIG.safetySettings : undefined,
+    modes: Object.fromEntries(
+      CHAT_MODES.map(mode => [mode, readModeSettings(env, mode, provider.defaults[mode])])
+    ) as Record<AIChatMode, AIModelSettings>,
+  };
+};
+
+/**
+ * Model and generation settings for a chat mode
+ */
+export const getChatModel = (
+  mode: AIChatMode,
+  config: AIProviderConfig = getAIConfig()
+): { model: LanguageModelV1; settings: AIModelSettings } => {
+  const settings = config.modes[mode];
+  return { model: PROVIDERS[config.provider].createModel(config, settings), settings };
+};
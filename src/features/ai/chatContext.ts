@@ -0,0 +1,151 @@
+/**
+ * Chat Context
+ *
+ * What the assistant knows about the user's week without calling a tool:
+ * - Work windows for each day of the context range
+ * - The schedule: task sessions, time blocks and synced calendar events
+ * - Open tasks, most urgent first
+ *
+ * The browser builds it (chatContextBuilder.ts) since tasks and settings live
+ * there, and sends it with every chat request. The route validates it and
+ * renders it into the system prompt in the user's time zone, dropping the
+ * least relevant lines until it fits the token budget.
+ *
+ * Used by: api/chat/route.ts, chatContextBuilder.ts
+ */
+
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { toZonedTime } from '@/features/calendar/timezone';
+
+// Days of schedule and work windows sent, starting today
+export const CHAT_CONTEXT_DAYS = 7;
+
+export const MAX_SCHEDULE_ITEMS = 200;
+export const MAX_OPEN_TASKS = 100;
+
+const MAX_TITLE_LENGTH = 80;
+
+// The rendered context's share of the prompt; tool calls can fetch the rest
+const DEFAULT_TOKEN_BUDGET = 1500;
+// Rough size of a token in English text, close enough for a budget
+const CHARS_PER_TOKEN = 4;
+// Tasks are trimmed before the schedule, but never below this many
+const MIN_OPEN_TASKS = 10;
+
+const instant = z.string().datetime({ offset: true });
+const clockTime = z.string().regex(/^\d{2}:\d{2}$/);
+
+export const chatContextSchema = z.object({
+  days: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    workWindows: z.array(z.object({ start: clockTime, end: clockTime })),
+  })).max(CHAT_CONTEXT_DAYS),
+  schedule: z.array(z.object({
+    title: z.string(),
+    start: instant,
+    end: instant,
+    kind: z.enum(['task', 'block', 'event']),
+    busy: z.boolean(),
+    taskId: z.string().optional(),
+  })).max(MAX_SCHEDULE_ITEMS),
+  openTasks: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    status: z.enum(['todo', 'in-progress']),
+    priority: z.enum(['low', 'medium', 'high']),
+    estimatedDuration: z.number(),
+    deadline: instant.optional(),
+    scheduledStart: instant.optional(),
+  })).max(MAX_OPEN_TASKS),
+});
+
+export type ChatContext = z.infer<typeof chatContextSchema>;
+export type ChatContextItem = ChatContext['schedule'][number];
+export type ChatContextTask = ChatContext['openTasks'][number];
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const shorten = (title: string) =>
+  title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+
+const formatDay = (dateKey: string) => format(parseISO(dateKey), 'EEE MMM d');
+
+const formatItem = (item: ChatContextItem, timeZone: string): string => {
+  const start = toZonedTime(new Date(item.start), timeZone);
+  const end = toZonedTime(new Date(item.end), timeZone);
+  const sameDay = format(start, 'yyyy-MM-dd') === format(end, 'yyyy-MM-dd');
+  const range = `${format(start, 'EEE MMM d HH:mm')}-${format(end, sameDay ? 'HH:mm' : 'EEE MMM d HH:mm')}`;
+
+  const kind = item.kind === 'task' ? `task ${item.taskId}` : item.kind;
+  return `- ${range} ${shorten(item.title)} (${kind}${item.busy ? '' : ', free'})`;
+};
+
+const formatTask = (task: ChatContextTask, timeZone: string): string => {
+  const details = [task.priority, `${task.estimatedDuration} min`];
+  if (task.status === 'in-progress') details.push('in progress');
+  if (task.deadline) details.push(`due ${format(toZonedTime(new Date(task.deadline), timeZone), 'EEE MMM d HH:mm')}`);
+  details.push(task.scheduledStart
+    ? `scheduled ${format(toZonedTime(new Date(task.scheduledStart), timeZone), 'EEE MMM d HH:mm')}`
+    : 'not scheduled');
+
+  return `- [${task.id}] ${shorten(task.title)}: ${details.join(', ')}`;
+};
+
+const renderSections = (
+  context: ChatContext,
+  schedule: ChatContextItem[],
+  openTasks: ChatContextTask[],
+  timeZone: string
+): string => {
+  const hiddenItems = context.schedule.length - schedule.length;
+  const hiddenTasks = context.openTasks.length - openTasks.length;
+
+  const lines = [`USER CONTEXT (times in ${timeZone}):`, 'Working hours:'];
+  lines.push(...context.days.map(day => `- ${formatDay(day.date)}: ${day.workWindows.length
+    ? day.workWindows.map(window => `${window.start}-${window.end}`).join(', ')
+    : 'off'}`));
+
+  lines.push('', 'Schedule:');
+  if (schedule.length === 0 && hiddenItems === 0) lines.push('- Nothing scheduled');
+  lines.push(...schedule.map(item => formatItem(item, timeZone)));
+  if (hiddenItems > 0) lines.push(`- ${hiddenItems} later items not shown; use findFreeSlots for free time`);
+
+  lines.push('', 'Open tasks (id in brackets):');
+  if (openTasks.length === 0 && hiddenTasks === 0) lines.push('- None');
+  lines.push(...openTasks.map(task => formatTask(task, timeZone)));
+  if (hiddenTasks > 0) lines.push(`- ${hiddenTasks} less urgent tasks not shown; use listTasks to see them`);
+
+  return lines.join('\n');
+};
+
+/**
+ * Render the context for the system prompt within a token budget.
+ * Less urgent tasks go first, then the latest schedule items, then the
+ * remaining tasks; working hours are always kept.
+ */
+export const formatChatContext = (
+  context: ChatContext,
+  timeZone: string,
+  tokenBudget = DEFAULT_TOKEN_BUDGET
+): string => {
+  const schedule = [...context.schedule]
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  const openTasks = [...context.openTasks];
+
+  let text = renderSections(context, schedule, openTasks, timeZone);
+  while (estimateTokens(text) > tokenBudget && (schedule.length > 0 || openTasks.length > 0)) {
+    if (openTasks.length > MIN_OPEN_TASKS || schedule.length === 0) {
+      openTasks.pop();
+    } else {
+      schedule.pop();
+    }
+    text = renderSections(context, schedule, openTasks, timeZone);
+  }
+
+  return text;
+};
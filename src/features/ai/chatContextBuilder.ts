@@ -0,0 +1,133 @@
+/**
+ * Chat Context Builder
+ *
+ * Collects the chat context from the browser's stores right before each
+ * chat request, so it reflects changes made since the last message
+ * (including the assistant's own tool calls):
+ * - Work windows per day, as AutoScheduler reads them
+ * - Task sessions, expanded time blocks and synced events in the range
+ * - Open tasks sorted by deadline, then priority
+ *
+ * Used by: ChatWindow.tsx
+ * Related: chatContext.ts (schema and rendering)
+ */
+
+import { Task } from '@/features/tasks/TaskTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { AutoScheduler } from '@/features/calendar/scheduling';
+import { expandTimeBlock, isBusyTimeBlock } from '@/features/calendar/recurrence';
+import { addZonedDays, getZonedDateKey, resolveTimeZone, startOfZonedDay } from '@/features/calendar/timezone';
+import { useCalendarSyncStore } from '@/features/calendar-sync/calendarSyncStore';
+import { syncedEventsToCalendarEvents } from '@/features/calendar-sync/syncedEvents';
+import {
+  CHAT_CONTEXT_DAYS,
+  MAX_OPEN_TASKS,
+  MAX_SCHEDULE_ITEMS,
+  ChatContext,
+  ChatContextItem,
+  ChatContextTask,
+} from './chatContext';
+
+const PRIORITY_ORDER: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+const compareUrgency = (a: Task, b: Task): number => {
+  const deadlineA = a.deadline?.getTime() ?? Infinity;
+  const deadlineB = b.deadline?.getTime() ?? Infinity;
+  if (deadlineA !== deadlineB) return deadlineA - deadlineB;
+  return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+};
+
+const toContextTask = (task: Task): ChatContextTask => ({
+  id: task.id,
+  title: task.title,
+  status: task.status === 'in-progress' ? 'in-progress' : 'todo',
+  priority: task.priority,
+  estimatedDuration: task.estimatedDuration,
+  deadline: task.deadline?.toISOString(),
+  scheduledStart: (task.chunks?.[0]?.start || task.scheduledStart)?.toISOString(),
+});
+
+/**
+ * Context for the next chat request, from today to CHAT_CONTEXT_DAYS ahead
+ */
+export const buildChatContext = (now = new Date()): ChatContext => {
+  useCalendarStore.getState().initializeStore();
+  useCalendarSyncStore.getState().initializeStore();
+
+  const { settings, timeBlocks, constraints } = useCalendarStore.getState();
+  const timeZone = resolveTimeZone(settings.timeZone);
+  const rangeStart = startOfZonedDay(now, timeZone);
+  const rangeEnd = addZonedDays(rangeStart, CHAT_CONTEXT_DAYS, timeZone);
+  const overlapsRange = (start: Date, end: Date) => end > rangeStart && start < rangeEnd;
+
+  // ==========================================================================
+  // WORKING HOURS
+  // ==========================================================================
+
+  const scheduler = new AutoScheduler(settings, [], timeBlocks, constraints);
+  const days = Array.from({ length: CHAT_CONTEXT_DAYS }, (_, offset) => {
+    const day = addZonedDays(rangeStart, offset, timeZone);
+    return { date: getZonedDateKey(day, timeZone), workWindows: scheduler.getWorkWindowsForDate(day) };
+  });
+
+  // ==========================================================================
+  // SCHEDULE
+  // ==========================================================================
+
+  const tasks = useTaskStore.getState().tasks;
+
+  const taskItems: ChatContextItem[] = tasks.flatMap(task => (task.chunks?.length
+    ? task.chunks
+    : task.scheduledStart && task.scheduledEnd ? [{ start: task.scheduledStart, end: task.scheduledEnd }] : []
+  )
+    .filter(session => overlapsRange(session.start, session.end))
+    .map(session => ({
+      title: task.status === 'completed' ? `${task.title} (done)` : task.title,
+      start: session.start.toISOString(),
+      end: session.end.toISOString(),
+      kind: 'task' as const,
+      busy: true,
+      taskId: task.id,
+    })));
+
+  const blockItems: ChatContextItem[] = timeBlocks
+    .flatMap(block => expandTimeBlock(block, rangeStart, rangeEnd, timeZone))
+    .map(block => ({
+      title: `${block.title} (${block.type})`,
+      start: block.start.toISOString(),
+      end: block.end.toISOString(),
+      kind: 'block' as const,
+      busy: isBusyTimeBlock(block),
+    }));
+
+  const { syncedEvents, syncSettings } = useCalendarSyncStore.getState();
+  const eventItems: ChatContextItem[] = syncedEventsToCalendarEvents(syncedEvents, {
+    calendarIds: syncSettings.readCalendarIds,
+    busyCalendarIds: syncSettings.busyCalendarIds,
+  })
+    .filter(event => overlapsRange(event.start, event.end))
+    .map(event => ({
+      title: event.isAllDay ? `${event.title} (all day)` : event.title,
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+      kind: 'event' as const,
+      busy: !!event.isBusy,
+    }));
+
+  const schedule = [...taskItems, ...blockItems, ...eventItems]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .slice(0, MAX_SCHEDULE_ITEMS);
+
+  // ==========================================================================
+  // OPEN TASKS
+  // ==========================================================================
+
+  const openTasks = tasks
+    .filter(task => task.status !== 'completed')
+    .sort(compareUrgency)
+    .slice(0, MAX_OPEN_TASKS)
+    .map(toContextTask);
+
+  return { days, schedule, openTasks };
+};
@@ -0,0 +1,336 @@
+/**
+ * Chat History Store
+ *
+ * Zustand store for the assistant's conversations, so a refresh resumes
+ * where the user left off:
+ * - Saved to Supabase when signed in, localStorage otherwise (like tasks)
+ * - Titled with the first message's opening words, then with a generated
+ *   title once the assistant has replied
+ * - Remembers the tasks each conversation created, to trace a task back to
+ *   the conversation it came from
+ *
+ * Used by: ChatWindow.tsx, ChatHistorySidebar.tsx, ModernTaskManager.tsx, page.tsx
+ * Related: api/chat/title/route.ts, chatTools.ts (getCreatedTasks), taskStore.ts
+ */
+
+import { create } from 'zustand';
+import { Message } from 'ai';
+import { ChatConversation } from './AITypes';
+import { getCreatedTasks } from './chatTools';
+import { supabase, isSupabaseConfigured, DatabaseChatConversation } from '@/lib/supabase';
+import { useAuthStore } from '@/features/auth/authStore';
+
+interface ChatStore {
+  // State
+  conversations: ChatConversation[]; // most recently updated first
+  activeConversationId: string; // may not be saved yet, until its first message
+  isLoading: boolean;
+  isInitialized: boolean;
+
+  // Conversation Actions
+  startConversation: () => void;
+  openConversation: (id: string) => void;
+  saveMessages: (id: string, messages: Message[]) => Promise<void>;
+  generateTitle: (id: string) => Promise<void>;
+  deleteConversation: (id: string) => Promise<void>;
+
+  // Utilities
+  getConversationForTask: (taskId: string) => ChatConversation | undefined;
+
+  // Data Management
+  loadUserConversations: (userId: string) => Promise<void>;
+  migrateLocalConversations: (userId: string) => Promise<void>;
+  initializeStore: () => Promise<void>;
+}
+
+const STORAGE_KEY = 'flowmotion-chat-conversations';
+
+// localStorage holds a few MB; tool results make conversations large
+const MAX_LOCAL_CONVERSATIONS = 50;
+
+const DRAFT_TITLE_LENGTH = 48;
+
+// The opening exchange is enough to name a conversation
+const TITLE_MESSAGES = 4;
+
+// Conversations whose title is being generated, so each is only asked for once
+const pendingTitles = new Set<string>();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const reviveMessages = (messages: Array<Record<string, unknown>>): Message[] =>
+  messages.map(message => ({
+    ...message,
+    createdAt: message.createdAt ? new Date(message.createdAt as string) : undefined,
+  }) as Message);
+
+const getDraftTitle = (messages: Message[]): string => {
+  const text = messages.find(message => message.role === 'user')?.content.trim().replace(/\s+/g, ' ');
+  if (!text) return 'New conversation';
+  return text.length > DRAFT_TITLE_LENGTH ? `${text.slice(0, DRAFT_TITLE_LENGTH - 1)}…` : text;
+};
+
+// A reply that failed while a tool call was streaming can't be sent to the model again
+const withoutIncompleteReply = (messages: Message[]): Message[] => {
+  const last = messages[messages.length - 1];
+  const isIncomplete = last?.role === 'assistant' && !!last.parts?.some(part =>
+    part.type === 'tool-invocation' && part.toolInvocation.state === 'partial-call'
+  );
+  return isIncomplete ? messages.slice(0, -1) : messages;
+};
+
+const getTaskIds = (messages: Message[]): string[] =>
+  [...new Set(messages.flatMap(message => getCreatedTasks(message).map(task => task.id)))];
+
+const sortByUpdated = (conversations: ChatConversation[]) =>
+  [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+// Helper functions for localStorage
+const saveToLocalStorage = (conversations: ChatConversation[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations.slice(0, MAX_LOCAL_CONVERSATIONS)));
+  } catch (error) {
+    console.error('Failed to save conversations to localStorage:', error);
+  }
+};
+
+const loadFromLocalStorage = (): ChatConversation[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((conversation: Record<string, unknown>) => ({
+        ...conversation,
+        messages: reviveMessages(conversation.messages as Array<Record<string, unknown>>),
+        taskIds: (conversation.taskIds as string[] | undefined) || [],
+        createdAt: new Date(conversation.createdAt as string),
+        updatedAt: new Date(conversation.updatedAt as string),
+      }));
+    }
+  } catch (error) {
+    console.error('Failed to load conversations from localStorage:', error);
+  }
+  return [];
+};
+
+// Helpers to convert between app and database formats
+const convertDatabaseConversation = (row: DatabaseChatConversation): ChatConversation => ({
+  id: row.id,
+  title: row.title,
+  isTitleGenerated: row.is_title_generated,
+  messages: reviveMessages(row.messages),
+  taskIds: row.task_ids || [],
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const convertToDatabase = (conversation: ChatConversation, userId: string): DatabaseChatConversation => ({
+  id: conversation.id,
+  user_id: userId,
+  title: conversation.title,
+  is_title_generated: conversation.isTitleGenerated,
+  messages: JSON.parse(JSON.stringify(conversation.messages)),
+  task_ids: conversation.taskIds,
+  created_at: conversation.createdAt.toISOString(),
+  updated_at: conversation.updatedAt.toISOString(),
+});
+
+const getCloudUserId = (): string | undefined => {
+  const userId = useAuthStore.getState().user?.id;
+  return userId && isSupabaseConfigured() ? userId : undefined;
+};
+
+export const useChatStore = create<ChatStore>((set, get) => {
+  // Save one conversation where the user's data lives
+  const persist = async (conversation: ChatConversation) => {
+    const userId = getCloudUserId();
+    if (!userId) {
+      saveToLocalStorage(get().conversations);
+      return;
+    }
+
+    try {
+      const { error } = await supabase!
+        .from('chat_conversations')
+        .upsert(convertToDatabase(conversation, userId));
+
+      if (error) throw error;
+    } catch (error) {
+      // Kept in memory; the next save of this conversation tries again
+      console.error('Failed to save conversation to cloud:', error);
+    }
+  };
+
+  const updateConversation = (conversation: ChatConversation) => set((state) => ({
+    conversations: sortByUpdated([
+      conversation,
+      ...state.conversations.filter(c => c.id !== conversation.id),
+    ]),
+  }));
+
+  return {
+    // Initial State
+    conversations: [],
+    activeConversationId: crypto.randomUUID(),
+    isLoading: false,
+    isInitialized: false,
+
+    // Initialize store - load conversations based on auth status and resume the latest
+    initializeStore: async () => {
+      if (get().isInitialized) return;
+
+      set({ isLoading: true });
+
+      try {
+        const authState = useAuthStore.getState();
+
+        if (authState.isAuthenticated && authState.user && isSupabaseConfigured()) {
+          await get().loadUserConversations(authState.user.id);
+        } else {
+          set({ conversations: sortByUpdated(loadFromLocalStorage()) });
+        }
+
+        const [latest] = get().conversations;
+        if (latest) set({ activeConversationId: latest.id });
+
+        set({ isInitialized: true, isLoading: false });
+      } catch (error) {
+        console.error('Failed to initialize chat store:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    // Load user conversations from Supabase
+    loadUserConversations: async (userId: string) => {
+      if (!isSupabaseConfigured()) return;
+
+      set({ isLoading: true });
+
+      try {
+        const { data, error } = await supabase!
+          .from('chat_conversations')
+          .select('*')
+          .eq('user_id', userId)
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+
+        set({ conversations: data?.map(convertDatabaseConversation) || [], isLoading: false });
+      } catch (error) {
+        console.error('Failed to load conversations:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    // Move conversations from this browser to the cloud when the user signs in
+    migrateLocalConversations: async (userId: string) => {
+      if (!isSupabaseConfigured()) return;
+
+      const localConversations = loadFromLocalStorage();
+      if (localConversations.length === 0) return;
+
+      try {
+        const { error } = await supabase!
+          .from('chat_conversations')
+          .upsert(localConversations.map(conversation => convertToDatabase(conversation, userId)));
+
+        if (error) throw error;
+
+        localStorage.removeItem(STORAGE_KEY);
+        await get().loadUserConversations(userId);
+      } catch (error) {
+        console.error('Failed to migrate local conversations:', error);
+      }
+    },
+
+    startConversation: () => set({ activeConversationId: crypto.randomUUID() }),
+
+    openConversation: (id: string) => set({ activeConversationId: id }),
+
+    saveMessages: async (id: string, messages: Message[]) => {
+      const kept = withoutIncompleteReply(messages);
+      if (kept.length === 0) return;
+
+      const existing = get().conversations.find(c => c.id === id);
+      if (existing && JSON.stringify(existing.messages) === JSON.stringify(kept)) return;
+
+      const now = new Date();
+      const conversation: ChatConversation = {
+        id,
+        title: existing?.isTitleGenerated ? existing.title : getDraftTitle(kept),
+        isTitleGenerated: existing?.isTitleGenerated ?? false,
+        messages: kept,
+        taskIds: getTaskIds(kept),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      updateConversation(conversation);
+      await persist(conversation);
+    },
+
+    // Ask the assistant's model for a short title once it has replied
+    generateTitle: async (id: string) => {
+      const conversation = get().conversations.find(c => c.id === id);
+      if (!conversation || conversation.isTitleGenerated || pendingTitles.has(id)) return;
+      if (!conversation.messages.some(message => message.role === 'assistant' && message.content.trim())) return;
+
+      pendingTitles.add(id);
+      try {
+        const response = await fetch('/api/chat/title', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            messages: conversation.messages.slice(0, TITLE_MESSAGES).map(({ role, content }) => ({ role, content })),
+          }),
+        });
+        if (!response.ok) throw new Error(`Title request failed with status ${response.status}`);
+
+        const { title } = await response.json();
+        const current = get().conversations.find(c => c.id === id);
+        if (!current || typeof title !== 'string' || !title) return;
+
+        const titled = { ...current, title, isTitleGenerated: true };
+        set((state) => ({
+          conversations: state.conversations.map(c => c.id === id ? titled : c),
+        }));
+        await persist(titled);
+      } catch (error) {
+        // The draft title stays; the next reply tries again
+        console.warn('Failed to generate a conversation title:', error);
+      } finally {
+        pendingTitles.delete(id);
+      }
+    },
+
+    deleteConversation: async (id: string) => {
+      set((state) => ({
+        conversations: state.conversations.filter(c => c.id !== id),
+        activeConversationId: state.activeConversationId === id ? crypto.randomUUID() : state.activeConversationId,
+      }));
+
+      const userId = getCloudUserId();
+      if (!userId) {
+        saveToLocalStorage(get().conversations);
+        return;
+      }
+
+      try {
+        const { error } = await supabase!
+          .from('chat_conversations')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId);
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Failed to delete conversation from cloud:', error);
+      }
+    },
+
+    getConversationForTask: (taskId: string) =>
+      get().conversations.find(conversation => conversation.taskIds.includes(taskId)),
+  };
+});
@@ -0,0 +1,276 @@
+/**
+ * Chat Tool Runner
+ *
+ * Runs the assistant's tool calls in the browser, where the data lives:
+ * - Tasks are read and written through the task store
+ * - Free slots and automatic scheduling come from AutoScheduler, which sees
+ *   scheduled tasks, time blocks and busy synced events like the calendar does
+ *
+ * Arguments are validated again with the tools' schemas, and every failure is
+ * returned as { error } so the model can explain it or try again.
+ *
+ * Used by: ChatWindow.tsx, ChatToolInvocation.tsx
+ * Related: chatTools.ts (definitions), api/chat/route.ts
+ */
+
+import { addDays, addMinutes } from 'date-fns';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { Task } from '@/features/tasks/TaskTypes';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { CalendarEvent } from '@/features/calendar/CalendarTypes';
+import { AutoScheduler } from '@/features/calendar/scheduling';
+import { useCalendarSyncStore } from '@/features/calendar-sync/calendarSyncStore';
+import { syncedEventsToCalendarEvents } from '@/features/calendar-sync/syncedEvents';
+import {
+  ChatToolArgs,
+  ChatToolName,
+  ChatToolResult,
+  chatTools,
+  formatSchemaIssues,
+  isChatToolName,
+  toTaskSummary,
+} from './chatTools';
+
+const MAX_LISTED_TASKS = 50;
+const DEFAULT_SLOT_LIMIT = 5;
+const DEFAULT_SEARCH_DAYS = 7;
+
+class ChatToolError extends Error {}
+
+const parseDate = (value: string, field: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new ChatToolError(`${field} is not a valid date: ${value}`);
+  return date;
+};
+
+const getTask = (taskId: string): Task => {
+  const task = useTaskStore.getState().getTaskById(taskId);
+  if (!task) throw new ChatToolError(`No task with id ${taskId}`);
+  return task;
+};
+
+// Slots start on the quarter hour, like the calendar's
+const nextQuarterHour = (date: Date): Date => {
+  const rounded = new Date(date);
+  rounded.setSeconds(0, 0);
+  const minutes = rounded.getMinutes();
+  return minutes % 15 === 0 ? rounded : addMinutes(rounded, 15 - (minutes % 15));
+};
+
+/**
+ * Scheduler over everything that takes time, except the tasks being placed
+ */
+const createScheduler = (exceptTaskId?: string): AutoScheduler => {
+  useCalendarStore.getState().initializeStore();
+  useCalendarSyncStore.getState().initializeStore();
+
+  const taskEvents: CalendarEvent[] = useTaskStore.getState().tasks
+    .filter(task => task.id !== exceptTaskId)
+    .flatMap(task => (task.chunks?.length
+      ? task.chunks
+      : task.scheduledStart && task.scheduledEnd ? [{ start: task.scheduledStart, end: task.scheduledEnd }] : []
+    ).map(session => ({
+      id: `task-${task.id}`,
+      title: task.title,
+      start: session.start,
+      end: session.end,
+      type: 'task' as const,
+      taskId: task.id,
+      isFlexible: task.isFlexible,
+    })));
+
+  const { syncSettings } = useCalendarSyncStore.getState();
+  const busyEvents = syncedEventsToCalendarEvents(useCalendarSyncStore.getState().syncedEvents, {
+    calendarIds: syncSettings.readCalendarIds,
+    busyCalendarIds: syncSettings.busyCalendarIds,
+  }).filter(event => event.isBusy);
+
+  const { settings, timeBlocks, constraints } = useCalendarStore.getState();
+  return new AutoScheduler(settings, [...taskEvents, ...busyEvents], timeBlocks, constraints);
+};
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+const listTasks = ({ status, query, from, to }: ChatToolArgs<'listTasks'>): ChatToolResult => {
+  const rangeStart = from ? parseDate(from, 'from') : undefined;
+  const rangeEnd = to ? parseDate(to, 'to') : undefined;
+  const text = query?.toLowerCase();
+
+  const inRange = (date?: Date) =>
+    !!date && (!rangeStart || date >= rangeStart) && (!rangeEnd || date <= rangeEnd);
+
+  const sortKey = (task: Task) => (task.scheduledStart || task.deadline || task.createdAt).getTime();
+
+  const tasks = useTaskStore.getState().tasks
+    .filter(task => !status || task.status === status)
+    .filter(task => !text ||
+      task.title.toLowerCase().includes(text) ||
+      !!task.description?.toLowerCase().includes(text))
+    .filter(task => (!rangeStart && !rangeEnd) || inRange(task.scheduledStart) || inRange(task.deadline))
+    .sort((a, b) => sortKey(a) - sortKey(b));
+
+  return { tasks: tasks.slice(0, MAX_LISTED_TASKS).map(toTaskSummary), total: tasks.length };
+};
+
+const findFreeSlots = ({ durationMinutes, from, to, limit }: ChatToolArgs<'findFreeSlots'>): ChatToolResult => {
+  const now = new Date();
+  const requestedStart = from ? parseDate(from, 'from') : now;
+  const start = nextQuarterHour(requestedStart > now ? requestedStart : now);
+  const end = to ? parseDate(to, 'to') : addDays(start, DEFAULT_SEARCH_DAYS);
+
+  const slots = createScheduler().findFreeSlots(start, end, durationMinutes, limit || DEFAULT_SLOT_LIMIT);
+  return { slots: slots.map(slot => ({ start: slot.start.toISOString(), end: slot.end.toISOString() })) };
+};
+
+const createTask = async (args: ChatToolArgs<'createTask'>): Promise<ChatToolResult> => {
+  const task = await useTaskStore.getState().createTask({
+    title: args.title,
+    description: args.description || '',
+    estimatedDuration: args.estimatedDuration,
+    priority: args.priority,
+    category: args.category,
+    deadline: args.deadline ? parseDate(args.deadline, 'deadline') : undefined,
+    isFlexible: args.isFlexible,
+  });
+
+  if (!task) throw new ChatToolError('The task could not be saved');
+  return { task: toTaskSummary(task) };
+};
+
+const updateTask = async ({ taskId, deadline, ...changes }: ChatToolArgs<'updateTask'>): Promise<ChatToolResult> => {
+  getTask(taskId);
+
+  const update: Partial<Task> = { ...changes };
+  if (deadline !== undefined) {
+    update.deadline = deadline === null ? undefined : parseDate(deadline, 'deadline');
+  }
+
+  await useTaskStore.getState().updateTask(taskId, update);
+  return { task: toTaskSummary(getTask(taskId)) };
+};
+
+const scheduleTask = async ({ taskId, start, end }: ChatToolArgs<'scheduleTask'>): Promise<ChatToolResult> => {
+  const task = getTask(taskId);
+  const store = useTaskStore.getState();
+
+  if (start) {
+    const startDate = parseDate(start, 'start');
+    const endDate = end ? parseDate(end, 'end') : addMinutes(startDate, task.estimatedDuration);
+    if (endDate <= startDate) throw new ChatToolError('end must be after start');
+
+    await store.scheduleTask(taskId, startDate, endDate);
+    return { task: toTaskSummary(getTask(taskId)) };
+  }
+
+  // The user asked for this task, so place it even if it's not normally moved automatically
+  const result = createScheduler(taskId).scheduleAllTasks([{ ...task, isFlexible: true }]);
+  const placed = result.scheduledTasks[0];
+  if (!placed) {
+    const reason = result.conflicts.find(conflict => conflict.taskId === taskId)?.reason;
+    throw new ChatToolError(`No free time found${reason ? `: ${reason}` : ''}`);
+  }
+
+  if (placed.chunks) {
+    await store.scheduleTaskChunks(taskId, placed.chunks);
+  } else {
+    await store.scheduleTask(taskId, placed.start, placed.end);
+  }
+
+  return {
+    task: toTaskSummary(getTask(taskId)),
+    sessions: placed.chunks?.map(chunk => ({ start: chunk.start.toISOString(), end: chunk.end.toISOString() })),
+  };
+};
+
+/**
+ * Where a suggested task goes: its suggested time when that and its preparation
+ * time are free, otherwise the scheduler's pick. Both leave room for preparation.
+ */
+const placeSuggestion = (task: Task, suggestedTime: string): { start: Date; end: Date } => {
+  const preparation = task.preparationTime || 0;
+  const length = preparation + task.estimatedDuration;
+  const scheduler = createScheduler(task.id);
+
+  const start = parseDate(suggestedTime, 'suggestedTime');
+  const preparationStart = addMinutes(start, -preparation);
+  const { bufferTime } = useCalendarStore.getState().settings;
+  const [slot] = scheduler.findFreeSlots(preparationStart, addMinutes(start, task.estimatedDuration + bufferTime), length, 1);
+  if (slot?.start.getTime() === preparationStart.getTime()) {
+    return { start, end: addMinutes(start, task.estimatedDuration) };
+  }
+
+  // Taken or outside working hours: find the next free time for task and preparation
+  const result = scheduler.scheduleAllTasks([{ ...task, estimatedDuration: length, isFlexible: true }]);
+  const placed = result.scheduledTasks[0];
+  if (!placed) {
+    const reason = result.conflicts.find(conflict => conflict.taskId === task.id)?.reason;
+    throw new ChatToolError(`No free time found for "${task.title}"${reason ? `: ${reason}` : ''}`);
+  }
+
+  const placedStart = addMinutes(placed.start, preparation);
+  return { start: placedStart, end: addMinutes(placedStart, task.estimatedDuration) };
+};
+
+/**
+ * Add the suggested tasks (or the ones the user kept), each at its suggested
+ * time when it's still free
+ */
+const suggestSchedule = async ({ tasks }: ChatToolArgs<'suggestSchedule'>): Promise<ChatToolResult> => {
+  const store = useTaskStore.getState();
+  const added: Task[] = [];
+
+  for (const suggestion of tasks) {
+    const task = await store.createTask({
+      title: suggestion.title,
+      description: suggestion.description,
+      estimatedDuration: suggestion.estimatedDuration,
+      preparationTime: suggestion.preparationTime || undefined,
+      priority: suggestion.priority,
+      category: suggestion.category,
+      deadline: suggestion.deadline ? parseDate(suggestion.deadline, 'deadline') : undefined,
+      isFlexible: suggestion.isFlexible,
+    });
+    if (!task) {
+      throw new ChatToolError(`Added ${added.length} of ${tasks.length} tasks; "${suggestion.title}" could not be saved`);
+    }
+
+    const { start, end } = placeSuggestion(task, suggestion.suggestedTime);
+    await store.scheduleTask(task.id, start, end);
+    added.push(getTask(task.id));
+  }
+
+  return { tasks: added.map(toTaskSummary), total: added.length };
+};
+
+const runners: { [T in ChatToolName]: (args: ChatToolArgs<T>) => ChatToolResult | Promise<ChatToolResult> } = {
+  listTasks,
+  findFreeSlots,
+  createTask,
+  updateTask,
+  suggestSchedule,
+  scheduleTask,
+};
+
+/**
+ * Run a tool call from the model. Never throws: failures become { error }.
+ */
+export const runChatTool = async (toolName: string, args: unknown): Promise<ChatToolResult> => {
+  if (!isChatToolName(toolName)) {
+    return { error: `Unknown tool: ${toolName}` };
+  }
+
+  const parsed = chatTools[toolName].parameters.safeParse(args);
+  if (!parsed.success) {
+    return { error: `Invalid arguments: ${formatSchemaIssues(parsed.error)}` };
+  }
+
+  try {
+    const run = runners[toolName] as (args: unknown) => ChatToolResult | Promise<ChatToolResult>;
+    return await run(parsed.data);
+  } catch (error) {
+    if (!(error instanceof ChatToolError)) console.error(`Chat tool ${toolName} failed:`, error);
+    return { error: error instanceof Error ? error.message : 'The action failed' };
+  }
+};
@@ -0,0 +1,201 @@
+/**
+ * Chat Tools
+ *
+ * Typed tools the assistant can call from /api/chat. They are declared without
+ * an execute function because tasks and the schedule live in the browser:
+ * chatToolRunner.ts runs them against the task store and AutoScheduler.
+ * - Read-only tools (listTasks, findFreeSlots) run as soon as they are called
+ * - Tools that change tasks wait for the user to confirm in the chat
+ * - suggestSchedule is the assistant's structured schedule proposal: its
+ *   arguments stream in as a partial object (rendered as task cards while they
+ *   arrive) and are validated against the schema before the user can add them
+ *
+ * Dates are ISO 8601 strings both ways, since arguments and results are JSON.
+ *
+ * Used by: api/chat/route.ts, chatToolRunner.ts, ChatToolInvocation.tsx,
+ *          ChatScheduleSuggestion.tsx, ChatMessage.tsx, chatStore.ts
+ */
+
+import { Message, tool } from 'ai';
+import { z } from 'zod';
+import { DEFAULT_CATEGORIES, Task } from '@/features/tasks/TaskTypes';
+
+const DATE_TIME_FORMAT = 'ISO 8601 date-time with UTC offset, e.g. 2025-03-14T15:00:00+01:00';
+
+const dateTime = z.string().describe(DATE_TIME_FORMAT);
+
+const priority = z.enum(['low', 'medium', 'high']);
+const status = z.enum(['todo', 'in-progress', 'completed']);
+
+const category = z.string().describe(
+  `Task category: ${DEFAULT_CATEGORIES.map(known => known.id).join(', ')}`
+);
+
+const duration = z.number().int().min(5).max(8 * 60).describe('Length in minutes');
+
+// Stricter than dateTime: proposals are shown and saved as they are, so they must be exact
+const exactDateTime = z.string().datetime({ offset: true }).describe(DATE_TIME_FORMAT);
+
+// ============================================================================
+// SCHEDULE SUGGESTIONS
+// ============================================================================
+
+/**
+ * A proposed task: the fields of TaskFormData plus when to do it
+ */
+export const suggestedTaskSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  estimatedDuration: duration,
+  priority,
+  category,
+  deadline: exactDateTime.optional(),
+  isFlexible: z.boolean().default(true).describe('Whether the auto-scheduler may move it later'),
+  suggestedTime: exactDateTime.describe('When to start it'),
+  preparationTime: z.number().int().min(0).max(120).default(0).describe('Minutes to set aside before it'),
+  conflicts: z.array(z.string()).default([]).describe('What this time clashes with, if anything'),
+  alternatives: z.array(exactDateTime).max(3).default([]).describe('Other start times that would work'),
+});
+
+export const scheduleSuggestionSchema = z.object({
+  tasks: z.array(suggestedTaskSchema).min(1).max(10),
+});
+
+export type SuggestedTask = z.infer<typeof suggestedTaskSchema>;
+
+export const formatSchemaIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || 'value'}: ${issue.message}`).join('; ');
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+export const chatTools = {
+  listTasks: tool({
+    description: 'List the user\'s tasks. Filters are combined; a date range matches tasks scheduled or due in it.',
+    parameters: z.object({
+      status: status.optional(),
+      query: z.string().optional().describe('Text to look for in titles and descriptions'),
+      from: dateTime.optional(),
+      to: dateTime.optional(),
+    }),
+  }),
+
+  findFreeSlots: tool({
+    description: 'Find free time in the user\'s working hours, around scheduled tasks, time blocks and busy calendar events.',
+    parameters: z.object({
+      durationMinutes: duration,
+      from: dateTime.optional().describe('Start of the search, defaults to now'),
+      to: dateTime.optional().describe('End of the search, defaults to 7 days after the start'),
+      limit: z.number().int().min(1).max(10).optional().describe('Most slots to return, defaults to 5'),
+    }),
+  }),
+
+  createTask: tool({
+    description: 'Create a task. The user confirms before it is added.',
+    parameters: z.object({
+      title: z.string().min(1),
+      description: z.string().optional(),
+      estimatedDuration: duration,
+      priority: priority.default('medium'),
+      category: category.default('work'),
+      deadline: dateTime.optional(),
+      isFlexible: z.boolean().default(true).describe('Whether the auto-scheduler may move it'),
+    }),
+  }),
+
+  updateTask: tool({
+    description: 'Change a task found with listTasks. The user confirms before it is changed.',
+    parameters: z.object({
+      taskId: z.string(),
+      title: z.string().min(1).optional(),
+      description: z.string().optional(),
+      estimatedDuration: duration.optional(),
+      priority: priority.optional(),
+      category: category.optional(),
+      status: status.optional(),
+      deadline: dateTime.nullable().optional().describe('null removes the deadline'),
+    }),
+  }),
+
+  suggestSchedule: tool({
+    description: 'Propose tasks with start times as cards the user can add to their calendar in one step. ' +
+      'Check free time with findFreeSlots first. Use it instead of listing a plan in text.',
+    parameters: scheduleSuggestionSchema,
+  }),
+
+  scheduleTask: tool({
+    description: 'Put a task on the calendar at a time, or let the auto-scheduler pick the best free slot. The user confirms first.',
+    parameters: z.object({
+      taskId: z.string(),
+      start: dateTime.optional().describe('Omit to let the auto-scheduler choose'),
+      end: dateTime.optional().describe('Defaults to start plus the task\'s estimated duration'),
+    }),
+  }),
+};
+
+export type ChatToolName = keyof typeof chatTools;
+
+export type ChatToolArgs<T extends ChatToolName> = z.infer<(typeof chatTools)[T]['parameters']>;
+
+// Tools that change tasks; these wait for the user's confirmation
+export const CONFIRMED_TOOLS: ChatToolName[] = ['createTask', 'updateTask', 'scheduleTask', 'suggestSchedule'];
+
+export const isChatToolName = (name: string): name is ChatToolName => name in chatTools;
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface ChatTaskSummary {
+  id: string;
+  title: string;
+  status: Task['status'];
+  priority: Task['priority'];
+  category: string;
+  estimatedDuration: number;
+  deadline?: string;
+  scheduledStart?: string;
+  scheduledEnd?: string;
+}
+
+export interface ChatTimeSlot {
+  start: string;
+  end: string;
+}
+
+export type ChatToolResult =
+  | { tasks: ChatTaskSummary[]; total: number } // listTasks, suggestSchedule
+  | { slots: ChatTimeSlot[] } // findFreeSlots
+  | { task: ChatTaskSummary; sessions?: ChatTimeSlot[] } // createTask, updateTask, scheduleTask
+  | { declined: true }
+  | { error: string };
+
+// Tools whose results are tasks the assistant created
+const CREATING_TOOLS: ChatToolName[] = ['createTask', 'suggestSchedule'];
+
+/**
+ * Tasks an assistant message created, from its tool results
+ */
+export const getCreatedTasks = (message: Message): ChatTaskSummary[] =>
+  (message.parts || []).flatMap(part => {
+    if (part.type !== 'tool-invocation') return [];
+
+    const invocation = part.toolInvocation;
+    if (invocation.state !== 'result' || !CREATING_TOOLS.includes(invocation.toolName as ChatToolName)) return [];
+
+    const result = invocation.result as ChatToolResult;
+    return 'task' in result ? [result.task] : 'tasks' in result ? result.tasks : [];
+  });
+
+export const toTaskSummary = (task: Task): ChatTaskSummary => ({
+  id: task.id,
+  title: task.title,
+  status: task.status,
+  priority: task.priority,
+  category: task.category,
+  estimatedDuration: task.estimatedDuration,
+  deadline: task.deadline?.toISOString(),
+  scheduledStart: task.scheduledStart?.toISOString(),
+  scheduledEnd: task.scheduledEnd?.toISOString(),
+});
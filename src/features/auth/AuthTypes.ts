@@ -13,7 +13,6 @@ export interface FlowMotionUser {
   name?: string;
   image?: string;
   googleCalendarConnected: boolean;
-  googleRefreshToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -62,8 +61,7 @@ declare module 'next-auth' {
       name?: string;
       image?: string;
     };
-    accessToken?: string;
-    refreshToken?: string;
+    error?: 'RefreshAccessTokenError'; // Google access could not be renewed; sign in again
   }
 
   interface User {
@@ -78,6 +76,8 @@ declare module 'next-auth/jwt' {
   interface JWT {
     id: string;
     accessToken?: string;
-    refreshToken?: string;
+    accessTokenExpires?: number; // GoogleCalendarCredentials.expiry_date
+    refreshToken?: string; // only when Supabase isn't configured server-side
+    error?: 'RefreshAccessTokenError';
   }
 }
\ No newline at end of file
@@ -12,6 +12,7 @@ import { create } from 'zustand';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import { signIn as nextAuthSignIn, signOut as nextAuthSignOut } from 'next-auth/react';
 import { FlowMotionUser, AuthState, AuthActions } from './AuthTypes';
+import { googleCalendarService } from '@/features/calendar-sync/googleCalendar';
 
 interface AuthStore extends AuthState, AuthActions {}
 
@@ -126,6 +127,11 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
+      // Stop push notifications; the channels expire on their own if this fails
+      await googleCalendarService.stopWatching().catch(error => {
+        console.warn('Failed to stop calendar watch channels:', error);
+      });
+
       const { error } = await supabase!
         .from('users')
         .update({
@@ -141,7 +147,6 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         user: { 
           ...user, 
           googleCalendarConnected: false,
-          googleRefreshToken: undefined,
           updatedAt: new Date() 
         },
         isLoading: false 
@@ -176,6 +181,9 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
   },
 }));
 
+// Columns the browser may read; google_refresh_token stays server-side (googleTokens.ts)
+const USER_COLUMNS = 'id, email, name, avatar_url, google_calendar_connected, created_at, updated_at';
+
 // Helper function to create user in Supabase after first sign-in
 export const createUserInDatabase = async (userData: {
   id: string;
@@ -200,7 +208,7 @@ export const createUserInDatabase = async (userData: {
     // Check if user already exists
     const { data: existingUser } = await supabase!
       .from('users')
-      .select('*')
+      .select('id')
       .eq('id', userData.id)
       .single();
 
@@ -214,7 +222,7 @@ export const createUserInDatabase = async (userData: {
           updated_at: new Date().toISOString(),
         })
         .eq('id', userData.id)
-        .select()
+        .select(USER_COLUMNS)
         .single();
 
       if (error) throw error;
@@ -225,7 +233,6 @@ export const createUserInDatabase = async (userData: {
         name: updatedUser.name,
         image: updatedUser.avatar_url,
         googleCalendarConnected: updatedUser.google_calendar_connected,
-        googleRefreshToken: updatedUser.google_refresh_token,
         createdAt: new Date(updatedUser.created_at),
         updatedAt: new Date(updatedUser.updated_at),
       };
@@ -242,7 +249,7 @@ export const createUserInDatabase = async (userData: {
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
-        .select()
+        .select(USER_COLUMNS)
         .single();
 
       if (error) throw error;
@@ -253,7 +260,6 @@ export const createUserInDatabase = async (userData: {
         name: newUser.name,
         image: newUser.avatar_url,
         googleCalendarConnected: newUser.google_calendar_connected,
-        googleRefreshToken: newUser.google_refresh_token,
         createdAt: new Date(newUser.created_at),
         updatedAt: new Date(newUser.updated_at),
       };
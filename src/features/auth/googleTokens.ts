@@ -0,0 +1,175 @@
+/**
+ * Google OAuth Tokens (server only)
+ *
+ * Keeps Google access tokens fresh without exposing them to the browser:
+ * - The refresh token is stored in Supabase (users.google_refresh_token);
+ *   without server-side Supabase it stays in the encrypted NextAuth JWT cookie
+ * - Access tokens are refreshed shortly before their expiry_date
+ * - Refreshed credentials are cached per user, so the session callback and
+ *   the calendar proxy don't each refresh the same token
+ *
+ * Used by: api/auth/[...nextauth]/route.ts (jwt callback), api/calendar routes
+ * Related: supabaseAdmin.ts, AuthTypes.ts (GoogleCalendarCredentials)
+ */
+
+import { JWT } from 'next-auth/jwt';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabaseAdmin';
+import { GoogleCalendarCredentials } from './AuthTypes';
+
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+// Refresh a minute early so a token doesn't expire mid-request
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const credentialsCache = new Map<string, GoogleCalendarCredentials>(); // by user id
+
+export const isTokenExpired = (expiryDate?: number): boolean =>
+  !expiryDate || Date.now() >= expiryDate - EXPIRY_MARGIN_MS;
+
+// ============================================================================
+// REFRESH TOKEN STORAGE
+// ============================================================================
+
+export const saveGoogleRefreshToken = async (userId: string, refreshToken: string): Promise<void> => {
+  const { error } = await supabaseAdmin!
+    .from('users')
+    .update({
+      google_refresh_token: refreshToken,
+      google_calendar_connected: true,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+export const getGoogleRefreshToken = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabaseAdmin!
+    .from('users')
+    .select('google_refresh_token')
+    .eq('id', userId)
+    .single();
+
+  if (error) throw error;
+  return data?.google_refresh_token || null;
+};
+
+/**
+ * Keep a refresh token server-side: in Supabase when configured, otherwise in the JWT
+ */
+export const storeRefreshToken = async (token: JWT, refreshToken: string): Promise<JWT> => {
+  if (!isSupabaseAdminConfigured()) {
+    return { ...token, refreshToken };
+  }
+
+  try {
+    await saveGoogleRefreshToken(token.id, refreshToken);
+    const stored = { ...token };
+    delete stored.refreshToken;
+    return stored;
+  } catch (error) {
+    console.error('Failed to save Google refresh token:', error);
+    return { ...token, refreshToken };
+  }
+};
+
+// ============================================================================
+// ACCESS TOKEN REFRESH
+// ============================================================================
+
+export const refreshGoogleAccessToken = async (refreshToken: string): Promise<GoogleCalendarCredentials> => {
+  const response = await fetch(GOOGLE_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID!,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Failed to refresh Google access token: ${data.error || response.status}`);
+  }
+
+  return {
+    access_token: data.access_token,
+    refresh_token: data.refresh_token || refreshToken, // Google rarely rotates it
+    scope: data.scope,
+    token_type: data.token_type,
+    expiry_date: Date.now() + data.expires_in * 1000,
+  };
+};
+
+/**
+ * Fresh credentials for a user, from the cache or a refresh
+ */
+const getFreshCredentials = async (
+  token: Pick<JWT, 'id' | 'refreshToken'>,
+  force = false
+): Promise<GoogleCalendarCredentials> => {
+  const cached = credentialsCache.get(token.id);
+  if (cached && !force && !isTokenExpired(cached.expiry_date)) {
+    return cached;
+  }
+
+  const refreshToken = token.refreshToken ||
+    (isSupabaseAdminConfigured() ? await getGoogleRefreshToken(token.id) : null);
+  if (!refreshToken) {
+    throw new Error('No Google refresh token available');
+  }
+
+  const credentials = await refreshGoogleAccessToken(refreshToken);
+  if (credentials.refresh_token !== refreshToken && !token.refreshToken) {
+    await saveGoogleRefreshToken(token.id, credentials.refresh_token);
+  }
+
+  credentialsCache.set(token.id, credentials);
+  return credentials;
+};
+
+/**
+ * Refresh the JWT's access token when it has expired (jwt callback)
+ */
+export const refreshJwtAccessToken = async (token: JWT): Promise<JWT> => {
+  if (!isTokenExpired(token.accessTokenExpires)) {
+    return token;
+  }
+
+  try {
+    const credentials = await getFreshCredentials(token);
+    return {
+      ...token,
+      accessToken: credentials.access_token,
+      accessTokenExpires: credentials.expiry_date,
+      refreshToken: token.refreshToken && credentials.refresh_token,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error('Failed to refresh Google access token:', error);
+    return { ...token, error: 'RefreshAccessTokenError' };
+  }
+};
+
+/**
+ * A usable access token for API calls. `force` skips tokens Google has already rejected.
+ */
+export const getValidAccessToken = async (token: JWT, force = false): Promise<string> => {
+  if (!force && token.accessToken && !isTokenExpired(token.accessTokenExpires)) {
+    return token.accessToken;
+  }
+
+  const credentials = await getFreshCredentials(token, force);
+  return credentials.access_token;
+};
+
+/**
+ * Access token for a user without a request, e.g. renewing watch channels from a
+ * webhook. Needs the refresh token stored in Supabase.
+ */
+export const getAccessTokenForUser = async (userId: string): Promise<string> => {
+  const credentials = await getFreshCredentials({ id: userId });
+  return credentials.access_token;
+};
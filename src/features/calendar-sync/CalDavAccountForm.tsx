@@ -0,0 +1,156 @@
+/**
+ * CalDAV Account Form
+ *
+ * Connects a CalDAV account (server address, username, app password) or shows
+ * the connected one with a way to disconnect. The password is only sent to
+ * /api/caldav/account, which keeps it server-side.
+ *
+ * Used by: CalendarSync.tsx
+ * Related: caldavCalendar.ts, api/caldav/account/route.ts
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { caldavCalendarService, CalDavAccountStatus } from './caldavCalendar';
+import { Server, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface CalDavAccountFormProps {
+  onConnectionChange: (connected: boolean) => void;
+}
+
+export const CalDavAccountForm = ({ onConnectionChange }: CalDavAccountFormProps) => {
+  const [account, setAccount] = useState<CalDavAccountStatus | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    caldavCalendarService.getAccount()
+      .then(setAccount)
+      .catch(() => setAccount({ connected: false }));
+  }, []);
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const connected = await caldavCalendarService.connect(serverUrl, username, password);
+      setAccount(connected);
+      setPassword('');
+      onConnectionChange(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to connect');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    setIsSubmitting(true);
+    try {
+      await caldavCalendarService.disconnect();
+      setAccount({ connected: false });
+      onConnectionChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to disconnect');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!account) {
+    return null;
+  }
+
+  if (account.connected) {
+    return (
+      <div className="flex items-center justify-between p-3 mb-4 border rounded-lg">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Server className="w-4 h-4 text-gray-500" />
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-900 truncate">{account.username}</div>
+            <div className="text-xs text-gray-500 truncate">{account.serverUrl}</div>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDisconnect}
+          disabled={isSubmitting}
+          className="gap-2"
+        >
+          <LogOut className="w-4 h-4" />
+          <span>Disconnect</span>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConnect} className="space-y-3 mb-4">
+      <div>
+        <label htmlFor="caldav-server" className="block text-sm font-medium text-gray-700 mb-1">
+          Server address
+        </label>
+        <Input
+          id="caldav-server"
+          type="url"
+          required
+          placeholder="https://caldav.fastmail.com"
+          value={serverUrl}
+          onChange={(e) => setServerUrl(e.target.value)}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Fastmail: https://caldav.fastmail.com · iCloud: https://caldav.icloud.com ·
+          Nextcloud: https://your-server/remote.php/dav
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="caldav-username" className="block text-sm font-medium text-gray-700 mb-1">
+            Username
+          </label>
+          <Input
+            id="caldav-username"
+            required
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+        </div>
+        <div>
+          <label htmlFor="caldav-password" className="block text-sm font-medium text-gray-700 mb-1">
+            App password
+          </label>
+          <Input
+            id="caldav-password"
+            type="password"
+            required
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded text-sm text-red-600">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" disabled={isSubmitting} className="gap-2">
+        <Server className="w-4 h-4" />
+        <span>{isSubmitting ? 'Connecting...' : 'Connect'}</span>
+      </Button>
+    </form>
+  );
+};
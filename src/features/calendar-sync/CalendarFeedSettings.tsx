@@ -0,0 +1,165 @@
+/**
+ * Calendar Feed Settings Component
+ *
+ * Shares the schedule as a read-only calendar other apps subscribe to:
+ * - Creates the feed and shows its secret URL to copy, or open as webcal://
+ * - Privacy: full details, or busy time only (no titles)
+ * - A new link makes the old one stop working; turning the feed off deletes it
+ *
+ * Used by: Settings page (page.tsx)
+ * Related: useCalendarFeed.ts, api/calendar/feed/route.ts
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Rss, Copy, Check, RefreshCw, Trash2, AlertCircle, CalendarPlus } from 'lucide-react';
+import { useCalendarFeed } from './useCalendarFeed';
+import { CalendarFeedPrivacy } from './CalendarSyncTypes';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const PRIVACY_LABELS: Record<CalendarFeedPrivacy, string> = {
+  full: 'Full details',
+  busy: 'Busy time only',
+};
+
+const PRIVACY_DESCRIPTIONS: Record<CalendarFeedPrivacy, string> = {
+  full: 'Titles, descriptions, priorities and all time blocks',
+  busy: 'Every item shows as "Busy"; work blocks and details are left out',
+};
+
+export const CalendarFeedSettings = () => {
+  const { status, isLoading, error, enableFeed, rotateFeed, setPrivacy, revokeFeed } = useCalendarFeed();
+  const [newPrivacy, setNewPrivacy] = useState<CalendarFeedPrivacy>('busy');
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!status?.url) return;
+    await navigator.clipboard.writeText(status.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRotate = () => {
+    if (confirm('Create a new link? Calendars subscribed to the current link will stop updating.')) {
+      rotateFeed();
+    }
+  };
+
+  const handleRevoke = () => {
+    if (confirm('Turn off the calendar feed? Calendars subscribed to it will stop updating.')) {
+      revokeFeed();
+    }
+  };
+
+  const privacy = status?.privacy || newPrivacy;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-3">
+          <Rss className="w-6 h-6 text-blue-600" />
+          <div>
+            <CardTitle className="text-lg">Subscribe from other apps</CardTitle>
+            <p className="text-gray-600">
+              A private link to your scheduled tasks and time blocks that stays up to date
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {status && !status.available && (
+          <div className="flex items-center space-x-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>Calendar feeds need Supabase with a service role key on the server.</span>
+          </div>
+        )}
+
+        {status?.available && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Show</label>
+              <Select
+                value={privacy}
+                onValueChange={(value) => status.enabled
+                  ? setPrivacy(value as CalendarFeedPrivacy)
+                  : setNewPrivacy(value as CalendarFeedPrivacy)}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRIVACY_LABELS) as CalendarFeedPrivacy[]).map(option => (
+                    <SelectItem key={option} value={option}>{PRIVACY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">{PRIVACY_DESCRIPTIONS[privacy]}</p>
+            </div>
+
+            {status.enabled && status.url ? (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="calendar-feed-url" className="block text-sm font-medium text-gray-700 mb-1">
+                    Feed link
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <Input id="calendar-feed-url" readOnly value={status.url} onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" onClick={handleCopy} className="gap-2 flex-shrink-0">
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      <span>{copied ? 'Copied' : 'Copy'}</span>
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Anyone with this link can see your calendar.
+                    {status.createdAt && ` Created ${format(new Date(status.createdAt), 'MMM d, yyyy')}.`}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button variant="outline" asChild className="gap-2">
+                    <a href={status.url.replace(/^https?:/, 'webcal:')}>
+                      <CalendarPlus className="w-4 h-4" />
+                      <span>Open in calendar app</span>
+                    </a>
+                  </Button>
+                  <Button variant="outline" onClick={handleRotate} disabled={isLoading} className="gap-2">
+                    <RefreshCw className="w-4 h-4" />
+                    <span>New link</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleRevoke}
+                    disabled={isLoading}
+                    className="gap-2 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>Turn off</span>
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button onClick={() => enableFeed(newPrivacy)} disabled={isLoading} className="gap-2">
+                <Rss className="w-4 h-4" />
+                <span>{isLoading ? 'Creating...' : 'Create feed link'}</span>
+              </Button>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
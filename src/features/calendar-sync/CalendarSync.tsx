@@ -1,22 +1,36 @@
 /**
  * Calendar Sync Component
  * 
- * Main interface for Google Calendar integration
- * Handles sync settings, status display, and manual sync operations
+ * Main interface for calendar integration with the chosen provider (Google
+ * Calendar or a CalDAV account)
+ * Handles the provider choice, sync settings, status display, and manual sync operations
+ * Synced events are stored in calendarSyncStore for CalendarView and the auto-scheduler;
+ * tasks and their events are reconciled by syncEngine.ts; changes that couldn't
+ * reach the calendar wait in the outbox and are replayed when the connection returns
  * 
  * Used by: Settings page, Calendar view
- * Related: googleCalendar.ts, authStore.ts
+ * Related: calendarProviders.ts, CalDavAccountForm.tsx, authStore.ts, calendarSyncStore.ts,
+ * calendarSyncRunner.ts, syncEngine.ts, calendarOutbox.ts
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/features/auth/authStore';
-import { googleCalendarService } from './googleCalendar';
+import { calendarProviders, getCalendarProvider, switchCalendarProvider } from './calendarProviders';
+import { getCalendarErrorMessage } from './calendarApiClient';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import { syncCalendarEvents, syncTargetCalendar } from './calendarSyncRunner';
+import { replayOutbox, retryOutboxItem } from './calendarOutbox';
+import { getCalendarColor } from './syncedEvents';
+import { CalDavAccountForm } from './CalDavAccountForm';
 import { 
   CalendarSyncState, 
   DEFAULT_SYNC_SETTINGS,
-  CalendarSyncResult 
+  CalendarSyncResult,
+  CalendarOutboxItem,
+  CalendarProviderId,
+  SyncConflictResolution
 } from './CalendarSyncTypes';
 import { 
   Calendar, 
@@ -27,7 +41,9 @@ import {
   Clock,
   RotateCcw,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  CloudOff,
+  X
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -36,6 +52,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 
+const OUTBOX_ITEM_LABELS: Record<CalendarOutboxItem['type'], string> = {
+  create: 'Add event',
+  update: 'Update event',
+  delete: 'Remove event',
+};
+
+const CONFLICT_RESOLUTION_LABELS: Record<SyncConflictResolution, string> = {
+  'newest-wins': 'Most recent change wins',
+  'task-wins': 'FlowMotion wins',
+  'calendar-wins': 'Calendar wins',
+};
+
+// e.g. "2 events added · 1 task updated"
+const describeSyncResult = (result: CalendarSyncResult): string => {
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  const parts = [
+    result.eventsAdded && `${plural(result.eventsAdded, 'event')} added`,
+    result.eventsUpdated && `${plural(result.eventsUpdated, 'event')} updated`,
+    result.eventsRemoved && `${plural(result.eventsRemoved, 'event')} removed`,
+    result.tasksCreated && `${plural(result.tasksCreated, 'task')} created`,
+    result.tasksUpdated && `${plural(result.tasksUpdated, 'task')} updated`,
+    result.conflictsResolved && `${plural(result.conflictsResolved, 'conflict')} resolved`,
+    result.operationsQueued && `${plural(result.operationsQueued, 'change')} waiting to sync`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'Everything up to date';
+};
+
 interface CalendarSyncProps {
   variant?: 'full' | 'compact' | 'status-only';
   onSyncComplete?: (result: CalendarSyncResult) => void;
@@ -46,6 +89,14 @@ export const CalendarSync = ({
   onSyncComplete 
 }: CalendarSyncProps) => {
   const { user, isAuthenticated } = useAuthStore();
+  const { 
+    syncSettings, 
+    outbox, 
+    removeCalendar, 
+    updateSyncSettings, 
+    removeOutboxItem, 
+    initializeStore: initializeCalendarSyncStore 
+  } = useCalendarSyncStore();
   
   const [syncState, setSyncState] = useState<CalendarSyncState>({
     isConnected: false,
@@ -56,19 +107,39 @@ export const CalendarSync = ({
   
   const [isExpanded, setIsExpanded] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [lastResult, setLastResult] = useState<CalendarSyncResult | null>(null);
+  const [retryingItemId, setRetryingItemId] = useState<string | null>(null);
+
+  const provider = getCalendarProvider(syncSettings.provider);
+  // Google Calendar access comes with signing in; other providers connect here
+  const needsGoogleSignIn = provider.id === 'google' && !user?.googleCalendarConnected;
+
+  useEffect(() => {
+    initializeCalendarSyncStore();
+  }, [initializeCalendarSyncStore]);
+
+  // Send queued changes once the calendar is reachable again
+  useEffect(() => {
+    if (!syncState.isConnected) return;
 
-  // Check connection status on mount
+    replayOutbox();
+    const handleOnline = () => replayOutbox();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncState.isConnected]);
+
+  // Check connection status on mount and when the provider changes
   useEffect(() => {
-    if (isAuthenticated && user?.googleCalendarConnected) {
+    if (isAuthenticated && !needsGoogleSignIn) {
       checkConnectionStatus();
     }
-  }, [isAuthenticated, user?.googleCalendarConnected]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [isAuthenticated, needsGoogleSignIn, provider.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const checkConnectionStatus = async () => {
     setSyncState(prev => ({ ...prev, isLoading: true }));
     
     try {
-      const hasPermissions = await googleCalendarService.hasCalendarPermissions();
+      const hasPermissions = await provider.hasCalendarPermissions();
       setSyncState(prev => ({ 
         ...prev, 
         isConnected: hasPermissions,
@@ -83,27 +154,97 @@ export const CalendarSync = ({
         ...prev, 
         isConnected: false,
         isLoading: false,
-        error: error instanceof Error ? error.message : 'Connection check failed'
+        error: getCalendarErrorMessage(error)
       }));
     }
   };
 
   const loadCalendars = async () => {
     try {
-      const calendars = await googleCalendarService.getCalendars();
+      const calendars = await provider.getCalendars();
+      const { syncSettings: settings } = useCalendarSyncStore.getState();
+      const targetCalendarId = settings.targetCalendarId || calendars.find(c => c.primary)?.id;
+
+      // First time: read the calendars shown in the provider, and let the user's own ones block time
+      if (!settings.readCalendarIds) {
+        updateSyncSettings({
+          readCalendarIds: calendars.filter(c => c.selected || c.primary).map(c => c.id),
+          busyCalendarIds: calendars.filter(c => c.accessRole === 'owner').map(c => c.id),
+        });
+      }
+
       setSyncState(prev => ({ 
         ...prev, 
         calendars,
-        selectedCalendarId: prev.selectedCalendarId || calendars.find(c => c.primary)?.id
+        selectedCalendarId: prev.selectedCalendarId || targetCalendarId
       }));
     } catch (error) {
       setSyncState(prev => ({ 
         ...prev, 
-        error: error instanceof Error ? error.message : 'Failed to load calendars'
+        error: getCalendarErrorMessage(error)
       }));
     }
   };
 
+  const handleProviderChange = async (id: CalendarProviderId) => {
+    if (id === provider.id) return;
+    if (!confirm(`Sync with ${getCalendarProvider(id).name} instead? Task events stay in ${provider.name}, and tasks are added to the new calendar on the next sync.`)) {
+      return;
+    }
+
+    await switchCalendarProvider(id);
+    setLastResult(null);
+    setSyncState(prev => ({
+      ...prev,
+      isConnected: false,
+      calendars: [],
+      selectedCalendarId: undefined,
+      error: undefined,
+    }));
+  };
+
+  const handleCalDavConnectionChange = (connected: boolean) => {
+    if (connected) {
+      checkConnectionStatus();
+    } else {
+      setSyncState(prev => ({ ...prev, isConnected: false, calendars: [], selectedCalendarId: undefined }));
+    }
+  };
+
+  const readCalendarIds = syncSettings.readCalendarIds || [];
+  const busyCalendarIds = syncSettings.busyCalendarIds || [];
+
+  const handleTargetCalendarChange = (calendarId: string) => {
+    setSyncState(prev => ({ ...prev, selectedCalendarId: calendarId }));
+    updateSyncSettings({ targetCalendarId: calendarId });
+  };
+
+  const toggleReadCalendar = (calendarId: string, isRead: boolean) => {
+    updateSyncSettings({
+      readCalendarIds: isRead
+        ? [...readCalendarIds, calendarId]
+        : readCalendarIds.filter(id => id !== calendarId),
+    });
+    // The target calendar is still synced for task events
+    if (!isRead && calendarId !== syncState.selectedCalendarId) {
+      removeCalendar(calendarId);
+    }
+  };
+
+  const toggleBusyCalendar = (calendarId: string, isBusy: boolean) => {
+    updateSyncSettings({
+      busyCalendarIds: isBusy
+        ? [...busyCalendarIds, calendarId]
+        : busyCalendarIds.filter(id => id !== calendarId),
+    });
+  };
+
+  const handleRetryOutboxItem = async (id: string) => {
+    setRetryingItemId(id);
+    await retryOutboxItem(id);
+    setRetryingItemId(null);
+  };
+
   const performSync = async () => {
     if (!syncState.isConnected || !syncState.selectedCalendarId) {
       return;
@@ -113,47 +254,40 @@ export const CalendarSync = ({
     setSyncState(prev => ({ ...prev, error: undefined }));
 
     try {
-      // Get events from the last 30 days and next 90 days
-      const timeMin = new Date();
-      timeMin.setDate(timeMin.getDate() - 30);
-      
-      const timeMax = new Date();
-      timeMax.setDate(timeMax.getDate() + 90);
-
-      const events = await googleCalendarService.getEvents(
-        syncState.selectedCalendarId,
-        timeMin,
-        timeMax
-      );
+      // Earlier changes go first; whatever still can't be sent stays queued
+      await replayOutbox();
+
+      const targetCalendar = syncState.calendars.find(c => c.id === syncState.selectedCalendarId);
+      if (!targetCalendar) throw new Error('Selected calendar not found');
+
+      // Read calendars sync independently, so one failing doesn't stop the rest
+      const readErrors: string[] = [];
+      const calendars = syncState.calendars.filter(c => readCalendarIds.includes(c.id) && c.id !== targetCalendar.id);
+      for (const calendar of calendars) {
+        try {
+          await syncCalendarEvents(calendar);
+        } catch (error) {
+          readErrors.push(`${calendar.summary}: ${getCalendarErrorMessage(error)}`);
+        }
+      }
 
-      // Convert to our format
-      const selectedCalendar = syncState.calendars.find(c => c.id === syncState.selectedCalendarId);
-      if (!selectedCalendar) throw new Error('Selected calendar not found');
+      // Reconcile tasks with their events on the target calendar in both directions
+      const result = await syncTargetCalendar(targetCalendar);
 
-      const syncedEvents = googleCalendarService.convertToSyncedEvents(events, selectedCalendar);
+      result.errors.unshift(...readErrors);
+      result.success = result.errors.length === 0;
 
       // Update sync state
       setSyncState(prev => ({
         ...prev,
-        lastSyncTime: new Date()
+        lastSyncTime: new Date(),
+        error: result.errors.length > 0 ? result.errors.join('; ') : undefined,
       }));
-
-      // Create sync result
-      const result: CalendarSyncResult = {
-        success: true,
-        eventsAdded: syncedEvents.length,
-        eventsUpdated: 0,
-        eventsRemoved: 0,
-        tasksCreated: 0,
-        tasksUpdated: 0,
-        errors: []
-      };
+      setLastResult(result);
 
       onSyncComplete?.(result);
-
-      console.log(`Synced ${syncedEvents.length} events from Google Calendar`);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Sync failed';
+      const errorMessage = getCalendarErrorMessage(error);
       setSyncState(prev => ({ ...prev, error: errorMessage }));
       
       const result: CalendarSyncResult = {
@@ -163,6 +297,8 @@ export const CalendarSync = ({
         eventsRemoved: 0,
         tasksCreated: 0,
         tasksUpdated: 0,
+        conflictsResolved: 0,
+        operationsQueued: 0,
         errors: [errorMessage]
       };
 
@@ -172,26 +308,9 @@ export const CalendarSync = ({
     }
   };
 
-  const updateSyncSettings = (updates: Partial<CalendarSyncState['syncSettings']>) => {
-    setSyncState(prev => ({
-      ...prev,
-      syncSettings: { ...prev.syncSettings, ...updates }
-    }));
-    
-    // Save to localStorage or user preferences
-    try {
-      localStorage.setItem('calendar-sync-settings', JSON.stringify({
-        ...syncState.syncSettings,
-        ...updates
-      }));
-    } catch (error) {
-      console.error('Failed to save sync settings:', error);
-    }
-  };
-
   // Status-only variant
   if (variant === 'status-only') {
-    if (!isAuthenticated || !user?.googleCalendarConnected) {
+    if (!isAuthenticated || needsGoogleSignIn) {
       return null;
     }
 
@@ -226,10 +345,15 @@ export const CalendarSync = ({
             <div className="flex items-center space-x-3">
               <Calendar className="w-5 h-5 text-blue-600" />
               <div>
-                <h4 className="font-medium text-gray-900">Google Calendar</h4>
+                <h4 className="font-medium text-gray-900">{provider.name}</h4>
                 <p className="text-sm text-gray-600">
                   {syncState.isConnected ? 'Connected' : 'Not connected'}
                 </p>
+                {outbox.length > 0 && (
+                  <p className="text-xs text-amber-600">
+                    {outbox.length} {outbox.length === 1 ? 'change' : 'changes'} waiting to sync
+                  </p>
+                )}
               </div>
             </div>
             
@@ -265,9 +389,9 @@ export const CalendarSync = ({
             <div className="flex items-center space-x-3">
               <Calendar className="w-6 h-6 text-blue-600" />
               <div>
-                <CardTitle className="text-lg">Google Calendar Sync</CardTitle>
+                <CardTitle className="text-lg">{provider.name} Sync</CardTitle>
                 <p className="text-gray-600">
-                  Sync your tasks with Google Calendar for seamless scheduling
+                  Sync your tasks with {provider.name} for seamless scheduling
                 </p>
               </div>
             </div>
@@ -283,29 +407,62 @@ export const CalendarSync = ({
         </CardHeader>
 
         <CardContent>
+          {/* Provider */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Calendar service
+            </label>
+            <Select
+              value={provider.id}
+              onValueChange={(value: CalendarProviderId) => handleProviderChange(value)}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {calendarProviders.map(calendarProvider => (
+                  <SelectItem key={calendarProvider.id} value={calendarProvider.id}>
+                    {calendarProvider.id === 'caldav'
+                      ? 'CalDAV (Fastmail, Nextcloud, iCloud)'
+                      : calendarProvider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {provider.id === 'caldav' && (
+            <CalDavAccountForm onConnectionChange={handleCalDavConnectionChange} />
+          )}
+
+          {needsGoogleSignIn && (
+            <p className="mb-4 text-sm text-gray-600">
+              Connect Google Calendar from your account to start syncing.
+            </p>
+          )}
+
           {syncState.isConnected && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-              {/* Calendar Selection */}
+              {/* Target Calendar */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Default Calendar
+                  Add task events to
                 </label>
                 <Select
                   value={syncState.selectedCalendarId || ''}
-                  onValueChange={(value) => setSyncState(prev => ({ 
-                    ...prev, 
-                    selectedCalendarId: value 
-                  }))}
+                  onValueChange={handleTargetCalendarChange}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select calendar" />
                   </SelectTrigger>
                   <SelectContent>
-                    {syncState.calendars.map(calendar => (
-                      <SelectItem key={calendar.id} value={calendar.id}>
-                        {calendar.summary} {calendar.primary ? '(Primary)' : ''}
-                      </SelectItem>
-                    ))}
+                    {syncState.calendars
+                      .filter(calendar => calendar.accessRole === 'owner' || calendar.accessRole === 'writer')
+                      .map(calendar => (
+                        <SelectItem key={calendar.id} value={calendar.id}>
+                          {calendar.summary} {calendar.primary ? '(Primary)' : ''}
+                        </SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -326,6 +483,50 @@ export const CalendarSync = ({
             </div>
           )}
 
+          {/* Calendars to Read */}
+          {syncState.isConnected && syncState.calendars.length > 0 && (
+            <div className="mb-4">
+              <div className="text-sm font-medium text-gray-700 mb-2">Calendars</div>
+              <div className="space-y-2">
+                {syncState.calendars.map(calendar => {
+                  const isRead = readCalendarIds.includes(calendar.id);
+
+                  return (
+                    <div key={calendar.id} className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`read-calendar-${calendar.id}`}
+                          checked={isRead}
+                          onCheckedChange={(checked) => toggleReadCalendar(calendar.id, !!checked)}
+                        />
+                        <span
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: getCalendarColor({ calendarId: calendar.id, calendarColor: calendar.backgroundColor }) }}
+                        />
+                        <label htmlFor={`read-calendar-${calendar.id}`} className="text-sm">
+                          {calendar.summary}
+                        </label>
+                      </div>
+
+                      {isRead && (
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`busy-calendar-${calendar.id}`}
+                            checked={busyCalendarIds.includes(calendar.id)}
+                            onCheckedChange={(checked) => toggleBusyCalendar(calendar.id, !!checked)}
+                          />
+                          <label htmlFor={`busy-calendar-${calendar.id}`} className="text-xs text-gray-600">
+                            Blocks my time
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Sync Button */}
           <div className="flex items-center space-x-3">
             <Button
@@ -348,6 +549,13 @@ export const CalendarSync = ({
             </Button>
           </div>
 
+          {lastResult?.success && (
+            <div className="mt-3 flex items-center space-x-2 text-sm text-gray-600">
+              <CheckCircle className="w-4 h-4 text-green-500" />
+              <span>{describeSyncResult(lastResult)}</span>
+            </div>
+          )}
+
           {syncState.error && (
             <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
               <div className="flex items-center space-x-2">
@@ -359,6 +567,72 @@ export const CalendarSync = ({
         </CardContent>
       </Card>
 
+      {/* Outbox */}
+      {outbox.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <CloudOff className="w-5 h-5 text-amber-600" />
+                <CardTitle className="text-base">Waiting to sync ({outbox.length})</CardTitle>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => replayOutbox()}
+                disabled={!syncState.isConnected || retryingItemId !== null}
+                className="gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>Retry all</span>
+              </Button>
+            </div>
+            <p className="text-sm text-gray-600">
+              These changes couldn&apos;t reach {provider.name} and will be sent when the connection returns
+            </p>
+          </CardHeader>
+
+          <CardContent className="space-y-2">
+            {outbox.map(item => (
+              <div key={item.id} className="flex items-center justify-between p-2 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {OUTBOX_ITEM_LABELS[item.type]} · {item.taskTitle}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Queued {item.createdAt.toLocaleString()}
+                    {item.attempts > 0 && ` · ${item.attempts} ${item.attempts === 1 ? 'attempt' : 'attempts'}`}
+                  </div>
+                  {item.lastError && (
+                    <div className="text-xs text-red-600">{item.lastError}</div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRetryOutboxItem(item.id)}
+                    disabled={retryingItemId !== null}
+                    title="Retry"
+                  >
+                    <RotateCcw className={`w-4 h-4 ${retryingItemId === item.id ? 'animate-spin' : ''}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeOutboxItem(item.id)}
+                    title="Discard"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Sync Settings */}
       {syncState.isConnected && (
         <Card>
@@ -386,7 +660,7 @@ export const CalendarSync = ({
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="sync-tasks-to-calendar"
-                  checked={syncState.syncSettings.syncTasksToCalendar}
+                  checked={syncSettings.syncTasksToCalendar}
                   onCheckedChange={(checked) => updateSyncSettings({ 
                     syncTasksToCalendar: !!checked 
                   })}
@@ -396,7 +670,7 @@ export const CalendarSync = ({
                     htmlFor="sync-tasks-to-calendar"
                     className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                   >
-                    Sync FlowMotion tasks to Google Calendar
+                    Sync FlowMotion tasks to {provider.name}
                   </label>
                   <p className="text-xs text-gray-600">
                     Create calendar events when you schedule tasks
@@ -407,7 +681,7 @@ export const CalendarSync = ({
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="sync-calendar-to-tasks"
-                  checked={syncState.syncSettings.syncCalendarToTasks}
+                  checked={syncSettings.syncCalendarToTasks}
                   onCheckedChange={(checked) => updateSyncSettings({ 
                     syncCalendarToTasks: !!checked 
                   })}
@@ -417,19 +691,43 @@ export const CalendarSync = ({
                     htmlFor="sync-calendar-to-tasks"
                     className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                   >
-                    Block time for Google Calendar events
+                    Apply {provider.name} changes to tasks
                   </label>
                   <p className="text-xs text-gray-600">
-                    Show calendar events as blocked time in FlowMotion
+                    Moving, renaming or deleting a task&apos;s event in the calendar updates the task
                   </p>
                 </div>
               </div>
 
+              {/* Conflict Resolution */}
+              {syncSettings.syncTasksToCalendar && syncSettings.syncCalendarToTasks && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    When a task and its event both changed
+                  </label>
+                  <Select
+                    value={syncSettings.conflictResolution}
+                    onValueChange={(value: SyncConflictResolution) => updateSyncSettings({ 
+                      conflictResolution: value 
+                    })}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONFLICT_RESOLUTION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Other Settings */}
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="include-completed-tasks"
-                  checked={syncState.syncSettings.includeCompletedTasks}
+                  checked={syncSettings.includeCompletedTasks}
                   onCheckedChange={(checked) => updateSyncSettings({ 
                     includeCompletedTasks: !!checked 
                   })}
@@ -454,7 +752,7 @@ export const CalendarSync = ({
                   min="15"
                   max="480"
                   step="15"
-                  value={syncState.syncSettings.defaultTaskDuration}
+                  value={syncSettings.defaultTaskDuration}
                   onChange={(e) => updateSyncSettings({ 
                     defaultTaskDuration: parseInt(e.target.value) || 60 
                   })}
@@ -1,12 +1,20 @@
 /**
  * Calendar Sync Types
  * 
- * Type definitions for Google Calendar integration
- * Used by: CalendarSync.tsx, googleCalendar.ts
+ * Type definitions for calendar integration: the provider interface, Google
+ * Calendar's API shapes and what FlowMotion stores about synced calendars
+ * Used by: CalendarSync.tsx, googleCalendar.ts, caldavCalendar.ts, calendarProviders.ts,
+ * calendarSyncStore.ts, syncedEvents.ts, syncEngine.ts, calendarOutbox.ts, watchChannels.ts,
+ * calendarFeeds.ts, useCalendarFeed.ts
  */
 
+import { Task } from '@/features/tasks/TaskTypes';
+import { TimeBlock } from '@/features/calendar/CalendarTypes';
+import { CalendarApiError } from './calendarApiClient';
+
 export interface GoogleCalendarEvent {
   id: string;
+  iCalUID?: string; // shared by copies of the event on other calendars
   summary: string;
   description?: string;
   start: {
@@ -20,6 +28,7 @@ export interface GoogleCalendarEvent {
     timeZone?: string;
   };
   status: 'confirmed' | 'tentative' | 'cancelled';
+  updated?: string; // RFC 3339 time of the last change
   transparency?: 'opaque' | 'transparent';
   visibility?: 'default' | 'public' | 'private' | 'confidential';
   creator?: {
@@ -42,6 +51,7 @@ export interface GoogleCalendarEvent {
   };
 }
 
+// A calendar list entry. Other providers describe their calendars in the same shape.
 export interface GoogleCalendar {
   id: string;
   summary: string;
@@ -59,16 +69,24 @@ export interface CalendarSyncState {
   lastSyncTime?: Date;
   error?: string;
   calendars: GoogleCalendar[];
-  selectedCalendarId?: string;
+  selectedCalendarId?: string; // target calendar for task events
   syncSettings: {
+    provider: CalendarProviderId; // the service calendars are synced with
     syncTasksToCalendar: boolean;
     syncCalendarToTasks: boolean;
     defaultTaskDuration: number; // minutes
     includeCompletedTasks: boolean;
     taskCalendarColor?: string;
+    conflictResolution: SyncConflictResolution;
+    targetCalendarId?: string; // where task events go; defaults to the primary calendar
+    readCalendarIds?: string[]; // calendars synced into FlowMotion; unset until first chosen
+    busyCalendarIds?: string[]; // read calendars whose events block time for scheduling
   };
 }
 
+// Who wins when a task and its event both changed since the last sync
+export type SyncConflictResolution = 'newest-wins' | 'task-wins' | 'calendar-wins';
+
 export interface CalendarSyncActions {
   connectCalendar: () => Promise<void>;
   disconnectCalendar: () => Promise<void>;
@@ -84,14 +102,19 @@ export interface CalendarSyncActions {
 
 export interface SyncedCalendarEvent {
   id: string;
-  googleEventId: string;
+  googleEventId: string; // the provider's event id (Google event id, CalDAV resource path)
+  iCalUID?: string;
   title: string;
   start: Date;
   end: Date;
   isAllDay: boolean;
   calendarId: string;
   calendarName: string;
+  calendarColor?: string; // the source calendar's backgroundColor
   status: 'confirmed' | 'tentative' | 'cancelled';
+  transparency: 'opaque' | 'transparent'; // transparent = shown as free
+  taskId?: string; // set when the event was created from a FlowMotion task
+  updatedAt?: Date; // last change in the calendar
   isFromGoogleCalendar: true;
   type: 'meeting' | 'event' | 'block';
   description?: string;
@@ -99,6 +122,7 @@ export interface SyncedCalendarEvent {
   attendees?: string[];
 }
 
+// Changes a sync made on each side; events are counted in the calendar, tasks in FlowMotion
 export interface CalendarSyncResult {
   success: boolean;
   eventsAdded: number;
@@ -106,9 +130,72 @@ export interface CalendarSyncResult {
   eventsRemoved: number;
   tasksCreated: number;
   tasksUpdated: number;
+  conflictsResolved: number;
+  operationsQueued: number; // changes that couldn't reach the calendar, left in the outbox
   errors: string[];
 }
 
+// Where the next incremental sync of a calendar resumes from
+export interface CalendarSyncToken {
+  token: string;
+  timeMin: Date; // start of the full sync the token continues; stored events cover from here on
+}
+
+/**
+ * What a task and its event agreed on at the last sync.
+ * A side that no longer matches changed since then.
+ */
+export interface TaskSyncRecord {
+  taskId: string;
+  googleEventId: string;
+  calendarId: string;
+  title: string;
+  start: Date;
+  end: Date;
+  syncedAt: Date;
+}
+
+/**
+ * A task's calendar change that couldn't reach its calendar (offline, signed out,
+ * rate limited), kept until it can be replayed. Creates and updates send the
+ * task as it is at replay time.
+ */
+export interface CalendarOutboxItem {
+  id: string;
+  type: 'create' | 'update' | 'delete';
+  taskId: string;
+  taskTitle: string; // shown even after the task is deleted
+  provider: CalendarProviderId; // the change is only replayed through the provider it was made with
+  calendarId: string;
+  eventId?: string; // event to update or delete
+  createdAt: Date;
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * A Google Calendar push channel (events.watch) for one user's calendar.
+ * Google echoes the token with every notification; it's checked before trusting one.
+ */
+export interface WatchChannel {
+  id: string;
+  userId: string;
+  calendarId: string;
+  resourceId: string; // Google's id for the watched resource, needed to stop the channel
+  token: string;
+  expiration: Date;
+  syncToken?: string; // where the server's next incremental sync of the calendar starts
+  syncTasks: boolean; // the target calendar with calendar-to-task sync on: its changes move tasks
+  renewingAt?: Date; // when a request claimed the channel to renew it
+}
+
+// Sent to open clients when a watched calendar changed, after the server synced it
+export interface CalendarChangeNotification {
+  calendarId: string;
+  tasksUpdated: number; // tasks the server changed, which clients should reload
+  receivedAt: string; // ISO time
+}
+
 export interface GoogleCalendarAPI {
   calendars: {
     list: () => Promise<{ items: GoogleCalendar[] }>;
@@ -138,11 +225,88 @@ export interface GoogleCalendarAPI {
   };
 }
 
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export type CalendarProviderId = 'google' | 'caldav';
+
+// A change to a task's event, as sent by the sync engine and the outbox
+export type CalendarEventOperation =
+  | { type: 'create'; task: Task }
+  | { type: 'update'; eventId: string; task: Task }
+  | { type: 'delete'; eventId: string };
+
+export type CalendarEventOperationResult =
+  | { ok: true; eventId?: string } // id of the created event
+  | { ok: false; error: CalendarApiError };
+
+// A calendar's events since the last sync, in FlowMotion's format
+export interface CalendarChanges {
+  changed: SyncedCalendarEvent[];
+  removedEventIds: string[]; // only on incremental syncs
+  nextSyncToken?: string;
+  isFullSync: boolean; // true when changed is everything and replaces what was stored
+  timeMax?: Date; // end of the range a full sync covers, open-ended without it
+}
+
+/**
+ * A calendar service tasks can be synced with (Google Calendar, CalDAV servers).
+ * The sync actions (loading calendars, syncing events, writing task events) go
+ * through the provider chosen in the sync settings; see calendarProviders.ts.
+ * Failures throw CalendarApiErrors naming the service.
+ */
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  name: string; // shown in the UI, e.g. 'Google Calendar'
+  supportsPushNotifications: boolean; // whether useCalendarNotifications.ts can watch its calendars
+  hasCalendarPermissions(): Promise<boolean>;
+  getCalendars(): Promise<GoogleCalendar[]>;
+  syncCalendar(calendar: GoogleCalendar, syncToken: string | undefined, timeMin: Date): Promise<CalendarChanges>;
+  createEventFromTask(task: Task, calendarId: string): Promise<{ id: string }>;
+  updateEvent(eventId: string, task: Task, calendarId: string): Promise<unknown>;
+  deleteEvent(eventId: string, calendarId: string): Promise<void>; // missing events count as deleted
+  applyEventOperations(operations: CalendarEventOperation[], calendarId: string): Promise<CalendarEventOperationResult[]>;
+}
+
+// ============================================================================
+// FEEDS
+// ============================================================================
+
+// 'busy' hides titles and details, and leaves out time that isn't busy
+export type CalendarFeedPrivacy = 'full' | 'busy';
+
+/**
+ * A user's subscribable .ics feed. Anyone with the token can read it.
+ * Time blocks only live in the browser, so clients send a copy whenever they change.
+ */
+export interface CalendarFeed {
+  userId: string;
+  token: string;
+  privacy: CalendarFeedPrivacy;
+  timeZone: string; // recurring items repeat in this zone
+  timeBlocks: TimeBlock[];
+  etag?: string; // of the content last served
+  contentUpdatedAt: Date; // when the served content last changed (Last-Modified)
+  createdAt: Date;
+}
+
+// What Settings shows about the feed
+export interface CalendarFeedStatus {
+  available: boolean; // feeds need server-side Supabase
+  enabled: boolean;
+  url?: string;
+  privacy?: CalendarFeedPrivacy;
+  createdAt?: string; // ISO time the current link was made
+}
+
 // Default sync settings
 export const DEFAULT_SYNC_SETTINGS: CalendarSyncState['syncSettings'] = {
+  provider: 'google',
   syncTasksToCalendar: true,
   syncCalendarToTasks: false, // Start with one-way sync
   defaultTaskDuration: 60,
   includeCompletedTasks: false,
   taskCalendarColor: '#4285f4',
+  conflictResolution: 'newest-wins',
 };
\ No newline at end of file
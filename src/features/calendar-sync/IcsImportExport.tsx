@@ -0,0 +1,318 @@
+/**
+ * ICS Import & Export Component
+ *
+ * Moves tasks and time blocks in and out of FlowMotion as iCalendar (.ics) files:
+ * - Export downloads scheduled and due tasks, optionally with time blocks
+ * - Import reads a file into a preview where each item can be picked,
+ *   and events imported as tasks or as busy time; items imported before
+ *   (same UID) are unticked and update the existing task or block if picked
+ *
+ * Used by: Settings page (page.tsx)
+ * Related: icsExport.ts, icsImport.ts, taskStore.ts (importTasks), calendarStore.ts
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { resolveTimeZone } from '@/features/calendar/timezone';
+import { formatRecurrence } from '@/features/tasks/taskUtils';
+import { exportToICal } from './icsExport';
+import {
+  ICalImportItem,
+  ICalImportKind,
+  ICalImportResult,
+  importICalItems,
+  readICalImport,
+} from './icsImport';
+import { format } from 'date-fns';
+import { Download, Upload, FileText, AlertCircle, CheckCircle, Repeat } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const KIND_LABELS: Record<ICalImportKind, string> = {
+  task: 'Task',
+  timeBlock: 'Busy time',
+};
+
+const formatItemDate = (item: ICalImportItem): string => {
+  if (!item.start) return 'No date';
+  if (item.isAllDay) return format(item.start, 'EEE, MMM d, yyyy');
+
+  const start = format(item.start, 'EEE, MMM d, yyyy h:mm a');
+  return item.end && item.end > item.start ? `${start} – ${format(item.end, 'h:mm a')}` : start;
+};
+
+// Import Preview Row Component
+const ImportItemRow = ({
+  item,
+  isSelected,
+  kind,
+  onSelectedChange,
+  onKindChange,
+}: {
+  item: ICalImportItem;
+  isSelected: boolean;
+  kind: ICalImportKind;
+  onSelectedChange: (selected: boolean) => void;
+  onKindChange: (kind: ICalImportKind) => void;
+}) => (
+  <div className="flex items-start space-x-3 p-3 border-b border-gray-100 last:border-b-0">
+    <Checkbox
+      id={`ics-item-${item.uid}`}
+      checked={isSelected}
+      onCheckedChange={(checked) => onSelectedChange(!!checked)}
+      className="mt-1"
+    />
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center flex-wrap gap-2">
+        <label htmlFor={`ics-item-${item.uid}`} className="text-sm font-medium text-gray-900 truncate">
+          {item.title}
+        </label>
+        <Badge variant="outline">{item.source === 'VTODO' ? 'To-do' : 'Event'}</Badge>
+        {item.existing && (
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800">Already imported</Badge>
+        )}
+      </div>
+      <div className="flex items-center space-x-2 text-xs text-gray-500 mt-1">
+        <span>{formatItemDate(item)}</span>
+        {item.recurrence && (
+          <span className="flex items-center space-x-1">
+            <Repeat className="w-3 h-3" />
+            <span>{formatRecurrence(item.recurrence)}</span>
+          </span>
+        )}
+      </div>
+      {item.existing && (
+        <p className="text-xs text-gray-500 mt-1">
+          Importing it again updates the existing {item.existing.kind === 'task' ? 'task' : 'time block'}
+        </p>
+      )}
+      {item.warnings.map(warning => (
+        <p key={warning} className="text-xs text-amber-700 mt-1">{warning}</p>
+      ))}
+    </div>
+
+    {/* Events can be tasks or busy time; items imported before stay what they were */}
+    {item.timeBlock && !item.existing && (
+      <Select value={kind} onValueChange={(value) => onKindChange(value as ICalImportKind)}>
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(KIND_LABELS) as ICalImportKind[]).map(option => (
+            <SelectItem key={option} value={option}>{KIND_LABELS[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+  </div>
+);
+
+export const IcsImportExport = () => {
+  const { tasks } = useTaskStore();
+  const { timeBlocks, settings, initializeStore } = useCalendarStore();
+
+  const [includeTimeBlocks, setIncludeTimeBlocks] = useState(true);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [items, setItems] = useState<ICalImportItem[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [kinds, setKinds] = useState<Record<string, ICalImportKind>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ICalImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    initializeStore();
+  }, [initializeStore]);
+
+  const selectedItems = items.filter(item => selected[item.uid]);
+  const duplicateCount = items.filter(item => item.existing).length;
+
+  const handleExport = () => {
+    const text = exportToICal(tasks, {
+      timeZone: resolveTimeZone(settings.timeZone),
+      timeBlocks: includeTimeBlocks ? timeBlocks : undefined,
+    });
+
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `flowmotion-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const resetPreview = () => {
+    setFileName(null);
+    setItems([]);
+    setSelected({});
+    setKinds({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+
+    try {
+      const parsed = readICalImport(await file.text(), {
+        tasks,
+        timeBlocks,
+        timeZone: resolveTimeZone(settings.timeZone),
+        defaultTaskDuration: settings.defaultTaskDuration,
+      });
+      if (parsed.length === 0) {
+        throw new Error('This file has no events or to-dos to import');
+      }
+
+      setFileName(file.name);
+      setItems(parsed);
+      // Only new items are picked to start with
+      setSelected(Object.fromEntries(parsed.map(item => [item.uid, !item.existing])));
+      setKinds(Object.fromEntries(parsed.map(item => [item.uid, item.existing?.kind || item.suggestedKind])));
+    } catch (error) {
+      resetPreview();
+      setError(error instanceof Error ? error.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const importResult = await importICalItems(
+        selectedItems.map(item => ({ item, kind: kinds[item.uid] }))
+      );
+      setResult(importResult);
+      resetPreview();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Download className="w-6 h-6 text-blue-600" />
+            <div>
+              <CardTitle className="text-lg">Export</CardTitle>
+              <p className="text-gray-600">
+                Download an .ics file of your scheduled tasks and tasks with deadlines
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="ics-include-time-blocks"
+              checked={includeTimeBlocks}
+              onCheckedChange={(checked) => setIncludeTimeBlocks(!!checked)}
+            />
+            <label htmlFor="ics-include-time-blocks" className="text-sm font-medium leading-none">
+              Include time blocks
+            </label>
+          </div>
+
+          <Button onClick={handleExport} className="gap-2">
+            <Download className="w-4 h-4" />
+            <span>Export .ics</span>
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Import */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Upload className="w-6 h-6 text-blue-600" />
+            <div>
+              <CardTitle className="text-lg">Import</CardTitle>
+              <p className="text-gray-600">
+                Add events and to-dos from another calendar app as tasks or busy time
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            className="block text-sm text-gray-600 file:mr-3 file:rounded-md file:border file:border-gray-200 file:bg-white file:px-3 file:py-1.5 file:text-sm file:font-medium hover:file:bg-gray-50"
+          />
+
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {result && (
+            <div className="flex items-center space-x-2 p-3 bg-green-50 border border-green-200 rounded text-sm text-green-700">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              <span>
+                {result.created} added, {result.updated} updated
+                {result.failed > 0 && `, ${result.failed} couldn't be saved`}
+              </span>
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <FileText className="w-4 h-4" />
+                <span>
+                  {fileName}: {items.length} items
+                  {duplicateCount > 0 && `, ${duplicateCount} already imported`}
+                </span>
+              </div>
+
+              <div className="border rounded-lg max-h-96 overflow-y-auto">
+                {items.map(item => (
+                  <ImportItemRow
+                    key={item.uid}
+                    item={item}
+                    isSelected={!!selected[item.uid]}
+                    kind={kinds[item.uid]}
+                    onSelectedChange={(isSelected) => setSelected(prev => ({ ...prev, [item.uid]: isSelected }))}
+                    onKindChange={(kind) => setKinds(prev => ({ ...prev, [item.uid]: kind }))}
+                  />
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Button onClick={handleImport} disabled={isImporting || selectedItems.length === 0} className="gap-2">
+                  <Upload className="w-4 h-4" />
+                  <span>{isImporting ? 'Importing...' : `Import ${selectedItems.length} selected`}</span>
+                </Button>
+                <Button variant="outline" onClick={resetPreview} disabled={isImporting}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
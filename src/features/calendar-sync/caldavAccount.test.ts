@@ -0,0 +1,168 @@
+/**
+ * CalDAV Account Tests
+ *
+ * Which addresses the CalDAV proxy may connect to: hosts resolving to private,
+ * loopback, link-local, carrier-grade NAT or metadata addresses are refused
+ * before a connection is made (DNS answers are mocked), and servers found
+ * during discovery are allowed. Discovery runs against a local server, with
+ * localhost and 127.0.0.1 standing in for iCloud's two hosts.
+ */
+
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  CalDavAccount,
+  CalDavAddressError,
+  calDavFetch,
+  discoverAccountOrigins,
+  isAccountUrl,
+  isBlockedAddress,
+  lookupPublicAddress,
+  readPropertyHrefs,
+} from './caldavAccount';
+
+const account = (serverUrl: string): CalDavAccount => ({
+  userId: 'user-1',
+  serverUrl,
+  username: 'ada',
+  password: 'app-password',
+});
+
+// Answers every lookup with these addresses
+const resolveTo = (...addresses: string[]) => {
+  const answer: LookupAddress[] = addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  return mock.method(dns, 'lookup', (_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+    callback(null, answer);
+  });
+};
+
+const lookup = (hostname: string, all: boolean) =>
+  new Promise<{ error: Error | null; address: string | LookupAddress[] }>(resolve => {
+    lookupPublicAddress(hostname, { all }, (error, address) => resolve({ error, address }));
+  });
+
+describe('isBlockedAddress', () => {
+  it('blocks private, loopback, link-local, CGNAT and metadata addresses', () => {
+    [
+      '10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.10', '100.64.0.1',
+      '100.100.100.200', '0.0.0.0', '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:10.0.0.1',
+      'not-an-address',
+    ].forEach(address => assert.equal(isBlockedAddress(address), true, address));
+  });
+
+  it('allows public addresses', () => {
+    ['17.253.144.10', '8.8.8.8', '172.32.0.1', '2a00:1450:4001:80b::200e']
+      .forEach(address => assert.equal(isBlockedAddress(address), false, address));
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('passes on public answers, one or all of them', async () => {
+    resolveTo('17.253.144.10', '2a00:1450:4001:80b::200e');
+
+    assert.deepEqual(await lookup('caldav.icloud.com', false), { error: null, address: '17.253.144.10' });
+    assert.equal(((await lookup('caldav.icloud.com', true)).address as LookupAddress[]).length, 2);
+  });
+
+  it('fails when any answer is private', async () => {
+    resolveTo('17.253.144.10', '10.0.0.5');
+
+    const { error } = await lookup('rebound.example.com', true);
+    assert.ok(error instanceof CalDavAddressError);
+  });
+});
+
+describe('calDavFetch', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('refuses hosts that resolve to a private address without connecting', async () => {
+    const lookupMock = resolveTo('192.168.0.8');
+
+    await assert.rejects(calDavFetch(account('https://caldav.example.com/'), { method: 'PROPFIND', url: '/' }), CalDavAddressError);
+    assert.equal(lookupMock.mock.callCount(), 1);
+  });
+
+  it('refuses metadata and loopback IP addresses', async () => {
+    const lookupMock = resolveTo('17.253.144.10');
+
+    for (const serverUrl of ['https://169.254.169.254/', 'https://[::1]/', 'https://[::ffff:127.0.0.1]/']) {
+      await assert.rejects(calDavFetch(account(serverUrl), { method: 'GET', url: '/' }), CalDavAddressError);
+    }
+    assert.equal(lookupMock.mock.callCount(), 0);
+  });
+});
+
+// Answers like iCloud: the principal and calendar home are on another host
+const multistatus = (property: string, namespace: string, href: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<multistatus xmlns="DAV:"><response><href>/</href><propstat><prop>
+<${property} xmlns="${namespace}"><href xmlns="DAV:">${href}</href></${property}>
+</prop><status>HTTP/1.1 200 OK</status></propstat></response></multistatus>`;
+
+describe('readPropertyHrefs', () => {
+  it('reads hrefs with or without namespace prefixes', () => {
+    assert.deepEqual(readPropertyHrefs(multistatus('current-user-principal', 'DAV:', '/123/principal/'), 'current-user-principal'), ['/123/principal/']);
+    assert.deepEqual(
+      readPropertyHrefs('<d:prop><c:calendar-home-set><d:href> /home/a&amp;b/ </d:href></c:calendar-home-set></d:prop>', 'calendar-home-set'),
+      ['/home/a&b/']
+    );
+    assert.deepEqual(readPropertyHrefs('<d:prop><d:displayname>Work</d:displayname></d:prop>', 'calendar-home-set'), []);
+  });
+});
+
+describe('discoverAccountOrigins', () => {
+  let server: http.Server;
+  let port: number;
+  let principalHref: string;
+  const nodeEnv = process.env.NODE_ENV;
+
+  before(async () => {
+    Object.assign(process.env, { NODE_ENV: 'development' }); // lets requests go to localhost
+    server = http.createServer((request, response) => {
+      if (request.headers.authorization !== `Basic ${Buffer.from('ada:app-password').toString('base64')}`) {
+        response.writeHead(401).end();
+        return;
+      }
+      const body = request.url === '/'
+        ? multistatus('current-user-principal', 'DAV:', principalHref)
+        : multistatus('calendar-home-set', 'urn:ietf:params:xml:ns:caldav', `http://127.0.0.1:${port}/123/calendars/`);
+      response.writeHead(207, { 'Content-Type': 'application/xml' }).end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.close();
+    Object.assign(process.env, { NODE_ENV: nodeEnv });
+  });
+
+  it('allows the servers the principal and calendar home are on', async () => {
+    principalHref = `http://127.0.0.1:${port}/123/principal/`;
+    const connected = account(`http://localhost:${port}/`);
+
+    const discoveredOrigins = await discoverAccountOrigins(connected);
+
+    assert.deepEqual(discoveredOrigins, [`http://127.0.0.1:${port}`]);
+    const calendarUrl = new URL(`http://127.0.0.1:${port}/123/calendars/work/`);
+    assert.equal(isAccountUrl(connected, calendarUrl), false);
+    assert.equal(isAccountUrl({ ...connected, discoveredOrigins }, calendarUrl), true);
+    assert.equal(isAccountUrl({ ...connected, discoveredOrigins }, new URL(`http://127.0.0.2:${port}/`)), false);
+  });
+
+  it('adds nothing when discovery stays on the server', async () => {
+    principalHref = '/123/principal/';
+
+    assert.deepEqual(await discoverAccountOrigins(account(`http://127.0.0.1:${port}/`)), []);
+  });
+
+  it('refuses servers named without HTTPS', async () => {
+    principalHref = 'http://p01-caldav.example.com/123/principal/';
+
+    await assert.rejects(discoverAccountOrigins(account(`http://localhost:${port}/`)), /must use HTTPS/);
+  });
+});
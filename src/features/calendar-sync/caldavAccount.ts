@@ -0,0 +1,317 @@
+/**
+ * CalDAV Accounts (server only)
+ *
+ * Keeps a user's CalDAV credentials out of the browser:
+ * - The server URL, username and app password are sealed (AES-256-GCM, keyed
+ *   from NEXTAUTH_SECRET) into an httpOnly cookie only sent to /api/caldav
+ * - An account belongs to the user who connected it; anyone else's cookie is ignored
+ * - Requests only go to the host the user entered or its subdomains, and to
+ *   the servers it named during the authenticated discovery at connect time
+ *   (iCloud keeps each user's calendars on their own pNN-caldav.icloud.com),
+ *   over HTTPS, except to localhost in development
+ * - Never to private, loopback, link-local, carrier-grade NAT or cloud metadata
+ *   addresses: every connection checks the addresses the host resolves to as
+ *   it connects, so a DNS answer can't change between the check and the request
+ * - Redirects are followed here, and only within the same host, so the
+ *   credentials never follow a redirect to another server
+ *
+ * Used by: api/caldav/route.ts (proxy), api/caldav/account/route.ts
+ * Related: caldavCalendar.ts
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import dns, { LookupAddress, LookupOptions } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { NextRequest, NextResponse } from 'next/server';
+
+export interface CalDavAccount {
+  userId: string;
+  serverUrl: string;
+  username: string;
+  password: string; // usually an app-specific password
+  discoveredOrigins?: string[]; // other servers the principal or calendar home is on
+}
+
+const CALDAV_COOKIE = 'flowmotion-caldav';
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+const MAX_REDIRECTS = 5;
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+export const PRINCIPAL_QUERY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:current-user-principal/></d:prop></d:propfind>`;
+
+const HOME_SET_QUERY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop><c:calendar-home-set/></d:prop></d:propfind>`;
+
+// Addresses no CalDAV server should be at; IPv4-mapped IPv6 addresses match the IPv4 rules
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT, and Alibaba Cloud's metadata service
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, and most clouds' metadata service
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, and broadcast
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], // unspecified and loopback
+  ['fc00::', 7], // unique local, and AWS's IPv6 metadata service
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export class CalDavAddressError extends Error {
+  name = 'CalDavAddressError';
+
+  constructor(hostname: string) {
+    super(`Refusing to connect to ${hostname}: it isn't a public address`);
+  }
+}
+
+// ============================================================================
+// CREDENTIALS COOKIE
+// ============================================================================
+
+const getKey = () => createHash('sha256').update(`flowmotion-caldav:${process.env.NEXTAUTH_SECRET}`).digest();
+
+const sealAccount = (account: CalDavAccount): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(account), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+};
+
+const openAccount = (sealed: string): CalDavAccount | null => {
+  try {
+    const data = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const json = Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+    return JSON.parse(json);
+  } catch {
+    return null; // tampered with, or sealed with another secret
+  }
+};
+
+/**
+ * The signed-in user's CalDAV account, if they connected one
+ */
+export const getCalDavAccount = (request: NextRequest, userId: string): CalDavAccount | null => {
+  const sealed = request.cookies.get(CALDAV_COOKIE)?.value;
+  const account = sealed ? openAccount(sealed) : null;
+  return account?.userId === userId ? account : null;
+};
+
+export const setCalDavAccountCookie = (response: NextResponse, account: CalDavAccount): void => {
+  response.cookies.set(CALDAV_COOKIE, sealAccount(account), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/caldav',
+    maxAge: COOKIE_MAX_AGE_SECONDS,
+  });
+};
+
+export const clearCalDavAccountCookie = (response: NextResponse): void => {
+  response.cookies.set(CALDAV_COOKIE, '', { path: '/api/caldav', maxAge: 0 });
+};
+
+// ============================================================================
+// SERVER REQUESTS
+// ============================================================================
+
+const isLocalHost = (hostname: string) => hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+
+// Localhost is only reachable in development, for a local test server
+const mayConnectTo = (hostname: string, address: string): boolean =>
+  (process.env.NODE_ENV === 'development' && isLocalHost(hostname)) || !isBlockedAddress(address);
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise reserved
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * dns.lookup for outgoing connections, failing when the host resolves to any
+ * address FlowMotion may not connect to
+ */
+export const lookupPublicAddress = (
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || !addresses.every(({ address }) => mayConnectTo(hostname, address))) {
+      return callback(new CalDavAddressError(hostname), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * The server URL a user entered, if FlowMotion may connect to it
+ */
+export const parseServerUrl = (value: string): URL => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error('Enter the full server address, e.g. https://caldav.fastmail.com');
+  }
+
+  const allowHttp = process.env.NODE_ENV === 'development' && isLocalHost(url.hostname);
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && allowHttp)) {
+    throw new Error('CalDAV servers must use HTTPS');
+  }
+  return url;
+};
+
+/**
+ * Whether a URL is on the account's server: its host, or a subdomain of it
+ * (never a sibling, since hosts under a public suffix like co.uk or github.io
+ * belong to different owners), or a server found during discovery
+ */
+export const isAccountUrl = (account: CalDavAccount, url: URL): boolean => {
+  if (account.discoveredOrigins?.includes(url.origin)) return true;
+
+  const server = new URL(account.serverUrl);
+  if (url.protocol !== server.protocol || url.port !== server.port) return false;
+  return url.hostname === server.hostname || url.hostname.endsWith(`.${server.hostname}`);
+};
+
+export interface CalDavRequest {
+  method: string;
+  url: string; // absolute, or relative to the account's server URL
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * One request, without following redirects. Connections are only made to
+ * public addresses; IP literals skip DNS, so they're checked here.
+ */
+const send = (target: URL, method: string, headers: Record<string, string>, body?: string): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const hostname = target.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (isIP(hostname) && !mayConnectTo(target.hostname, hostname)) {
+      reject(new CalDavAddressError(target.hostname));
+      return;
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method,
+      headers,
+      lookup: lookupPublicAddress,
+    }, incoming => {
+      const chunks: Buffer[] = [];
+      incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+      incoming.on('error', reject);
+      incoming.on('end', () => {
+        const status = incoming.statusCode || 502;
+        const responseHeaders = new Headers();
+        Object.entries(incoming.headers).forEach(([name, value]) => {
+          if (value !== undefined) responseHeaders.set(name, Array.isArray(value) ? value.join(', ') : value);
+        });
+        const hasBody = status !== 204 && status !== 304;
+        resolve(new Response(hasBody ? Buffer.concat(chunks) : null, { status, headers: responseHeaders }));
+      });
+    });
+
+    request.on('error', reject);
+    request.setTimeout(REQUEST_TIMEOUT_MS, () => request.destroy(new Error(`${target.host} didn't respond`)));
+    request.end(body);
+  });
+
+/**
+ * Send a request to the account's server with its credentials.
+ * Resolves with the response and the URL it finally came from.
+ */
+export const calDavFetch = async (
+  account: CalDavAccount,
+  { method, url, headers = {}, body }: CalDavRequest
+): Promise<{ response: Response; url: string }> => {
+  let target = new URL(url, account.serverUrl);
+  const authorization = `Basic ${Buffer.from(`${account.username}:${account.password}`).toString('base64')}`;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!isAccountUrl(account, target)) {
+      throw new Error(`Refusing to send CalDAV credentials to ${target.host}`);
+    }
+
+    const response = await send(target, method, { ...headers, Authorization: authorization }, body);
+
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location && redirects < MAX_REDIRECTS) {
+      const next = new URL(location, target);
+      if (next.host !== target.host) {
+        throw new Error(`Refusing to follow a redirect to ${next.host} with CalDAV credentials`);
+      }
+      target = next;
+      continue;
+    }
+
+    return { response, url: target.toString() };
+  }
+};
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * The hrefs inside a property of a PROPFIND response, whatever its namespace prefix
+ */
+export const readPropertyHrefs = (xml: string, property: string): string[] => {
+  const element = new RegExp(`<(?:[\\w.-]+:)?${property}\\b[^>]*>([\\s\\S]*?)</(?:[\\w.-]+:)?${property}>`, 'i').exec(xml);
+  if (!element) return [];
+
+  return [...element[1].matchAll(/<(?:[\w.-]+:)?href\b[^>]*>([^<]*)</gi)]
+    .map(match => match[1].trim().replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]));
+};
+
+/**
+ * Follow the account's principal and calendar home, with its credentials, and
+ * return the origins they're on besides the account's server. Only the server
+ * the user connected to can name them, and only over HTTPS.
+ */
+export const discoverAccountOrigins = async (account: CalDavAccount): Promise<string[]> => {
+  const discovered: CalDavAccount = { ...account, discoveredOrigins: [...(account.discoveredOrigins || [])] };
+
+  const findHrefs = async (url: string, query: string, property: string): Promise<URL[]> => {
+    const { response, url: answeredUrl } = await calDavFetch(discovered, {
+      method: 'PROPFIND',
+      url,
+      headers: { 'Depth': '0', 'Content-Type': 'application/xml; charset=utf-8' },
+      body: query,
+    });
+    if (response.status !== 207) return [];
+
+    const hrefs = readPropertyHrefs(await response.text(), property).map(href => new URL(href, answeredUrl));
+    for (const href of hrefs) {
+      if (!isAccountUrl(discovered, href)) {
+        discovered.discoveredOrigins!.push(parseServerUrl(href.toString()).origin);
+      }
+    }
+    return hrefs;
+  };
+
+  const [principal] = await findHrefs(account.serverUrl, PRINCIPAL_QUERY, 'current-user-principal');
+  if (principal) {
+    await findHrefs(principal.toString(), HOME_SET_QUERY, 'calendar-home-set');
+  }
+  return discovered.discoveredOrigins!;
+};
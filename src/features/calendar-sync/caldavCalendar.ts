@@ -0,0 +1,595 @@
+/**
+ * CalDAV Calendar Integration
+ *
+ * Calendar provider for CalDAV servers (Fastmail, Nextcloud, iCloud, Radicale, ...)
+ * Calls go through /api/caldav, which adds the user's credentials server-side
+ *
+ * - Discovery: current-user-principal -> calendar-home-set -> the calendar
+ *   collections there that hold events
+ * - Reading: a calendar-query REPORT for events in the year from timeMin, with
+ *   recurring events expanded by the server. CalDAV has no equivalent of Google's sync
+ *   tokens for expanded ranges, so every sync is a full sync.
+ * - Writing: a task's event is its own VEVENT resource. Creates PUT with
+ *   If-None-Match: *, updates and deletes send If-Match with the ETag from the
+ *   last read, so an event changed on the server meanwhile isn't overwritten
+ *   (412 -> CalendarConflictError). Updates keep the properties FlowMotion
+ *   doesn't manage.
+ *
+ * Event ids are resource URLs; expanded occurrences add #RECURRENCE-ID.
+ * Times are written in UTC and read in the user's configured time zone.
+ *
+ * Used by: calendarProviders.ts, CalDavAccountForm.tsx
+ * Related: api/caldav/route.ts (proxy), api/caldav/account/route.ts, ics.ts
+ */
+
+import {
+  CalendarChanges,
+  CalendarEventOperation,
+  CalendarEventOperationResult,
+  CalendarProvider,
+  GoogleCalendar,
+  SyncedCalendarEvent,
+} from './CalendarSyncTypes';
+import { Task } from '@/features/tasks/TaskTypes';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { addZonedDays, resolveTimeZone } from '@/features/calendar/timezone';
+import { CalendarApiError, CalendarConflictError, fetchWithRetry, isIdempotentRequest } from './calendarApiClient';
+import { formatTaskDescription } from './taskEvents';
+import {
+  ICalComponent,
+  escapeText,
+  formatICalDateTime,
+  getProperty,
+  getText,
+  parseICal,
+  parseICalDate,
+  parseICalDuration,
+  serializeICal,
+  setProperty,
+  removeProperty,
+} from './ics';
+
+const SERVICE_NAME = 'the CalDAV server'; // as named in error messages
+
+const DAV_NS = 'DAV:';
+const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+const APPLE_NS = 'http://apple.com/ns/ical/';
+
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+// Links an event back to the task it was created from
+const TASK_ID_PROPERTY = 'X-FLOWMOTION-TASK-ID';
+
+// How far past timeMin events are fetched (the server needs an end to expand recurring ones)
+const EXPAND_DAYS = 365;
+
+export interface CalDavAccountStatus {
+  connected: boolean;
+  serverUrl?: string;
+  username?: string;
+}
+
+interface CalDavResponse {
+  url: string; // where the server answered, after redirects
+  etag?: string;
+  body: string;
+}
+
+interface CalDavRequestOptions {
+  depth?: '0' | '1';
+  body?: string;
+  contentType?: string;
+  ifMatch?: string;
+  ifNoneMatch?: string;
+}
+
+// One <response> of a 207 Multi-Status, with the properties that were found
+interface DavResource {
+  href: string; // absolute URL
+  props: Element[];
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+const propfindBody = (props: string) => `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/">
+  <d:prop>${props}</d:prop>
+</d:propfind>`;
+
+const getChild = (parent: Element, ns: string, name: string): Element | undefined =>
+  [...parent.children].find(child => child.namespaceURI === ns && child.localName === name);
+
+const parseMultiStatus = (xml: string, baseUrl: string): DavResource[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  return [...doc.getElementsByTagNameNS(DAV_NS, 'response')].flatMap(response => {
+    const href = getChild(response, DAV_NS, 'href')?.textContent?.trim();
+    if (!href) return [];
+
+    // Properties the server couldn't return come in propstats with a 404 status
+    const props = [...response.getElementsByTagNameNS(DAV_NS, 'propstat')]
+      .filter(propstat => / 2\d\d /.test(getChild(propstat, DAV_NS, 'status')?.textContent || ''))
+      .map(propstat => getChild(propstat, DAV_NS, 'prop'))
+      .filter((prop): prop is Element => !!prop);
+
+    return [{ href: new URL(href, baseUrl).toString(), props }];
+  });
+};
+
+const findProp = (resource: DavResource, ns: string, name: string): Element | undefined => {
+  for (const prop of resource.props) {
+    const element = getChild(prop, ns, name);
+    if (element) return element;
+  }
+  return undefined;
+};
+
+const getPropText = (resource: DavResource, ns: string, name: string): string | undefined =>
+  findProp(resource, ns, name)?.textContent?.trim() || undefined;
+
+const hasDescendant = (element: Element | undefined, ns: string, name: string): boolean =>
+  !!element && element.getElementsByTagNameNS(ns, name).length > 0;
+
+const ensureTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+class CalDavCalendarService implements CalendarProvider {
+  readonly id = 'caldav' as const;
+  readonly name = 'CalDAV';
+  readonly supportsPushNotifications = false;
+
+  private proxyUrl = '/api/caldav'; // authenticated proxy to the user's CalDAV server
+  private accountUrl = '/api/caldav/account';
+  private calendarHomeUrl: string | null = null;
+  private etags = new Map<string, string>(); // by resource URL, from the last read or write
+
+  /**
+   * The user's configured time zone, falling back to the browser's
+   */
+  private getTimeZone(): string {
+    return resolveTimeZone(useCalendarStore.getState().settings.timeZone);
+  }
+
+  // ============================================================================
+  // ACCOUNT
+  // ============================================================================
+
+  async getAccount(): Promise<CalDavAccountStatus> {
+    const response = await fetchWithRetry(this.accountUrl, {}, SERVICE_NAME);
+    return response.json();
+  }
+
+  /**
+   * Check and store the user's credentials. Errors carry the server's reason.
+   */
+  async connect(serverUrl: string, username: string, password: string): Promise<CalDavAccountStatus> {
+    const response = await fetchWithRetry(this.accountUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverUrl, username, password }),
+    }, SERVICE_NAME);
+
+    this.resetCache();
+    return response.json();
+  }
+
+  async disconnect(): Promise<void> {
+    await fetchWithRetry(this.accountUrl, { method: 'DELETE' }, SERVICE_NAME);
+    this.resetCache();
+  }
+
+  private resetCache() {
+    this.calendarHomeUrl = null;
+    this.etags.clear();
+  }
+
+  // ============================================================================
+  // REQUESTS
+  // ============================================================================
+
+  /**
+   * Make a request to the CalDAV server through the proxy, which adds the credentials.
+   * Transient failures of idempotent methods are retried; others throw typed
+   * errors (calendarApiClient.ts).
+   */
+  private async request(method: string, url: string, options: CalDavRequestOptions = {}): Promise<CalDavResponse> {
+    const headers: Record<string, string> = {
+      'X-CalDAV-Method': method,
+      'X-CalDAV-URL': url,
+    };
+    if (options.depth) headers['Depth'] = options.depth;
+    if (options.contentType) headers['Content-Type'] = options.contentType;
+    if (options.ifMatch) headers['If-Match'] = options.ifMatch;
+    if (options.ifNoneMatch) headers['If-None-Match'] = options.ifNoneMatch;
+
+    // The proxy is always POSTed to; whether it can be repeated depends on the CalDAV method
+    const response = await fetchWithRetry(this.proxyUrl, {
+      method: 'POST',
+      headers,
+      body: options.body,
+    }, SERVICE_NAME, isIdempotentRequest(method, headers));
+
+    return {
+      url: response.headers.get('X-CalDAV-URL') || url,
+      etag: response.headers.get('ETag') || undefined,
+      body: response.status === 204 ? '' : await response.text(),
+    };
+  }
+
+  private async propfind(url: string, depth: '0' | '1', props: string): Promise<DavResource[]> {
+    const response = await this.request('PROPFIND', url, {
+      depth,
+      body: propfindBody(props),
+      contentType: XML_CONTENT_TYPE,
+    });
+    return parseMultiStatus(response.body, response.url);
+  }
+
+  /**
+   * An href-valued property of a single resource, e.g. its principal
+   */
+  private async getHrefProperty(url: string, ns: string, name: string, prop: string): Promise<string | undefined> {
+    const [resource] = await this.propfind(url, '0', prop);
+    const href = resource && findProp(resource, ns, name);
+    const value = href && getChild(href, DAV_NS, 'href')?.textContent?.trim();
+    return value ? new URL(value, resource.href).toString() : undefined;
+  }
+
+  /**
+   * The collection holding the user's calendars (RFC 4791 section 6.2.1)
+   */
+  private async discoverCalendarHome(): Promise<string> {
+    if (this.calendarHomeUrl) return this.calendarHomeUrl;
+
+    const account = await this.getAccount();
+    if (!account.connected || !account.serverUrl) {
+      throw new CalendarApiError('No CalDAV account connected', 401, { service: SERVICE_NAME });
+    }
+
+    const principalUrl = await this.getHrefProperty(
+      account.serverUrl, DAV_NS, 'current-user-principal', '<d:current-user-principal/>'
+    ) || account.serverUrl;
+    const homeUrl = await this.getHrefProperty(
+      principalUrl, CALDAV_NS, 'calendar-home-set', '<c:calendar-home-set/>'
+    );
+    if (!homeUrl) {
+      throw new CalendarApiError("The server didn't say where your calendars are", 400, { service: SERVICE_NAME });
+    }
+
+    this.calendarHomeUrl = homeUrl;
+    return homeUrl;
+  }
+
+  // ============================================================================
+  // CALENDARS
+  // ============================================================================
+
+  /**
+   * Get the user's calendars that hold events. The first writable one is
+   * treated as primary, since CalDAV has no such notion.
+   */
+  async getCalendars(): Promise<GoogleCalendar[]> {
+    try {
+      const homeUrl = await this.discoverCalendarHome();
+      const resources = await this.propfind(homeUrl, '1', `
+        <d:resourcetype/><d:displayname/><d:current-user-privilege-set/>
+        <c:calendar-description/><c:supported-calendar-component-set/><a:calendar-color/>`);
+
+      const calendars = resources
+        .filter(resource => hasDescendant(findProp(resource, DAV_NS, 'resourcetype'), CALDAV_NS, 'calendar'))
+        .filter(resource => {
+          // Servers that don't list components accept any
+          const components = findProp(resource, CALDAV_NS, 'supported-calendar-component-set');
+          return !components || [...components.getElementsByTagNameNS(CALDAV_NS, 'comp')]
+            .some(comp => comp.getAttribute('name') === 'VEVENT');
+        })
+        .map((resource): GoogleCalendar => {
+          const privileges = findProp(resource, DAV_NS, 'current-user-privilege-set');
+          const canWrite = !privileges || ['all', 'write', 'write-content']
+            .some(privilege => hasDescendant(privileges, DAV_NS, privilege));
+          const color = getPropText(resource, APPLE_NS, 'calendar-color');
+
+          return {
+            id: resource.href,
+            summary: getPropText(resource, DAV_NS, 'displayname') ||
+              decodeURIComponent(resource.href.replace(/\/$/, '').split('/').pop() || 'Calendar'),
+            description: getPropText(resource, CALDAV_NS, 'calendar-description'),
+            accessRole: canWrite ? 'owner' : 'reader',
+            selected: true,
+            backgroundColor: color?.slice(0, 7), // Apple's colors can be #RRGGBBAA
+          };
+        });
+
+      const primary = calendars.find(calendar => calendar.accessRole === 'owner');
+      return calendars.map(calendar => ({ ...calendar, primary: calendar === primary }));
+    } catch (error) {
+      console.error('Failed to fetch CalDAV calendars:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the account is connected and its calendars can be listed
+   */
+  async hasCalendarPermissions(): Promise<boolean> {
+    try {
+      await this.getCalendars();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // EVENTS
+  // ============================================================================
+
+  /**
+   * Every event in the year from timeMin, with recurring ones expanded.
+   * Always a full sync; the sync token is ignored.
+   */
+  async syncCalendar(
+    calendar: GoogleCalendar,
+    _syncToken: string | undefined,
+    timeMin: Date
+  ): Promise<CalendarChanges> {
+    const timeMax = new Date(timeMin.getTime() + EXPAND_DAYS * 24 * 60 * 60 * 1000);
+    const start = formatICalDateTime(timeMin);
+    const end = formatICalDateTime(timeMax);
+
+    try {
+      const response = await this.request('REPORT', calendar.id, {
+        depth: '1',
+        contentType: XML_CONTENT_TYPE,
+        body: `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag/>
+    <c:calendar-data><c:expand start="${start}" end="${end}"/></c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT"><c:time-range start="${start}" end="${end}"/></c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+      });
+
+      const changed = parseMultiStatus(response.body, response.url).flatMap(resource => {
+        const etag = getPropText(resource, DAV_NS, 'getetag');
+        if (etag) this.etags.set(resource.href, etag);
+
+        const data = getPropText(resource, CALDAV_NS, 'calendar-data') || '';
+        return parseICal(data)
+          .flatMap(root => root.components.filter(component => component.name === 'VEVENT'))
+          .map(vevent => this.convertToSyncedEvent(vevent, resource.href, calendar))
+          .filter((event): event is SyncedCalendarEvent => !!event);
+      });
+
+      return { changed, removedEventIds: [], isFullSync: true, timeMax };
+    } catch (error) {
+      console.error('Failed to sync CalDAV events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a VEVENT to our calendar event format; cancelled and undated events are skipped
+   */
+  private convertToSyncedEvent(
+    vevent: ICalComponent,
+    href: string,
+    calendar: GoogleCalendar
+  ): SyncedCalendarEvent | null {
+    const timeZone = this.getTimeZone();
+    const start = parseICalDate(getProperty(vevent, 'DTSTART'), timeZone);
+    const status = getProperty(vevent, 'STATUS')?.value.toLowerCase();
+    if (!start || status === 'cancelled') return null;
+
+    // Without DTEND: DURATION, else one day for dates and no length for times
+    const duration = getProperty(vevent, 'DURATION');
+    const durationMs = duration ? parseICalDuration(duration.value) : null;
+    const end = parseICalDate(getProperty(vevent, 'DTEND'), timeZone)?.date ||
+      (durationMs !== null ? new Date(start.date.getTime() + durationMs) : null) ||
+      (start.isAllDay ? addZonedDays(start.date, 1, timeZone) : start.date);
+
+    const recurrenceId = getProperty(vevent, 'RECURRENCE-ID')?.value;
+    const eventId = recurrenceId ? `${href}#${recurrenceId}` : href;
+    const transparency = getProperty(vevent, 'TRANSP')?.value === 'TRANSPARENT' ? 'transparent' : 'opaque';
+    const attendees = vevent.properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => property.value.replace(/^mailto:/i, ''));
+
+    return {
+      id: `caldav-${eventId}`,
+      googleEventId: eventId,
+      iCalUID: getText(vevent, 'UID'),
+      title: getText(vevent, 'SUMMARY') || 'Untitled Event',
+      start: start.date,
+      end,
+      isAllDay: start.isAllDay,
+      calendarId: calendar.id,
+      calendarName: calendar.summary,
+      calendarColor: calendar.backgroundColor,
+      status: status === 'tentative' ? 'tentative' : 'confirmed',
+      transparency,
+      taskId: getText(vevent, TASK_ID_PROPERTY),
+      updatedAt: parseICalDate(getProperty(vevent, 'LAST-MODIFIED'), timeZone)?.date,
+      isFromGoogleCalendar: true as const,
+      type: attendees.length > 1 ? 'meeting' : transparency === 'transparent' ? 'block' : 'event',
+      description: getText(vevent, 'DESCRIPTION'),
+      location: getText(vevent, 'LOCATION'),
+      attendees,
+    };
+  }
+
+  /**
+   * Write the task's title, times and details into a VEVENT
+   */
+  private applyTask(vevent: ICalComponent, task: Task): void {
+    if (!task.scheduledStart || !task.scheduledEnd) {
+      throw new Error('Task must be scheduled to have a calendar event');
+    }
+
+    const now = formatICalDateTime(new Date());
+    const sequence = parseInt(getProperty(vevent, 'SEQUENCE')?.value || '-1');
+
+    setProperty(vevent, 'SUMMARY', escapeText(task.title));
+    setProperty(vevent, 'DESCRIPTION', escapeText(formatTaskDescription(task)));
+    setProperty(vevent, 'DTSTART', formatICalDateTime(task.scheduledStart));
+    setProperty(vevent, 'DTEND', formatICalDateTime(task.scheduledEnd));
+    removeProperty(vevent, 'DURATION');
+    setProperty(vevent, 'DTSTAMP', now);
+    setProperty(vevent, 'LAST-MODIFIED', now);
+    setProperty(vevent, 'SEQUENCE', String(isNaN(sequence) ? 0 : sequence + 1));
+  }
+
+  // The resource an event id belongs to (occurrence ids carry a #RECURRENCE-ID)
+  private getResourceUrl(eventId: string): string {
+    return eventId.split('#')[0];
+  }
+
+  private rememberEtag(url: string, etag?: string) {
+    if (etag) {
+      this.etags.set(url, etag);
+    } else {
+      // Some servers don't return one for writes; the next update reads it
+      this.etags.delete(url);
+    }
+  }
+
+  /**
+   * Create a calendar event from a task, as a new resource in the calendar
+   */
+  async createEventFromTask(task: Task, calendarId: string): Promise<{ id: string }> {
+    const uid = crypto.randomUUID();
+    const url = new URL(`${uid}.ics`, ensureTrailingSlash(calendarId)).toString();
+
+    const vevent: ICalComponent = {
+      name: 'VEVENT',
+      properties: [
+        { name: 'UID', params: {}, value: uid },
+        { name: TASK_ID_PROPERTY, params: {}, value: escapeText(task.id) },
+      ],
+      components: [],
+    };
+    this.applyTask(vevent, task);
+
+    const vcalendar: ICalComponent = {
+      name: 'VCALENDAR',
+      properties: [
+        { name: 'VERSION', params: {}, value: '2.0' },
+        { name: 'PRODID', params: {}, value: '-//FlowMotion//FlowMotion//EN' },
+      ],
+      components: [vevent],
+    };
+
+    try {
+      const response = await this.request('PUT', url, {
+        body: serializeICal(vcalendar),
+        contentType: ICS_CONTENT_TYPE,
+        ifNoneMatch: '*',
+      });
+      this.rememberEtag(url, response.etag);
+      return { id: url };
+    } catch (error) {
+      // The URL is new, so it only exists if an earlier attempt got through
+      if (error instanceof CalendarConflictError) return { id: url };
+      console.error('Failed to create CalDAV event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing event from its task. Fails with a conflict if the event
+   * changed on the server since it was last read.
+   */
+  async updateEvent(eventId: string, task: Task): Promise<void> {
+    const url = this.getResourceUrl(eventId);
+
+    try {
+      const current = await this.request('GET', url);
+      const vcalendar = parseICal(current.body).find(component => component.name === 'VCALENDAR');
+      const vevent = vcalendar?.components.find(component =>
+        component.name === 'VEVENT' && !getProperty(component, 'RECURRENCE-ID')
+      );
+      if (!vcalendar || !vevent) {
+        throw new CalendarApiError('The event has no VEVENT to update', 422, { service: SERVICE_NAME });
+      }
+
+      this.applyTask(vevent, task);
+      const response = await this.request('PUT', url, {
+        body: serializeICal(vcalendar),
+        contentType: ICS_CONTENT_TYPE,
+        ifMatch: this.etags.get(url) || current.etag,
+      });
+      this.rememberEtag(url, response.etag);
+    } catch (error) {
+      console.error('Failed to update CalDAV event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event's resource; events that are already gone count as deleted
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    const url = this.getResourceUrl(eventId);
+
+    try {
+      await this.request('DELETE', url, { ifMatch: this.etags.get(url) });
+      this.etags.delete(url);
+    } catch (error) {
+      if (error instanceof CalendarApiError && (error.status === 404 || error.status === 410)) {
+        this.etags.delete(url);
+        return;
+      }
+      console.error('Failed to delete CalDAV event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply many changes one by one (CalDAV has no batch requests).
+   * Results are in operation order.
+   */
+  async applyEventOperations(
+    operations: CalendarEventOperation[],
+    calendarId: string
+  ): Promise<CalendarEventOperationResult[]> {
+    const results: CalendarEventOperationResult[] = [];
+
+    for (const operation of operations) {
+      try {
+        switch (operation.type) {
+          case 'create': {
+            const event = await this.createEventFromTask(operation.task, calendarId);
+            results.push({ ok: true, eventId: event.id });
+            break;
+          }
+          case 'update':
+            await this.updateEvent(operation.eventId, operation.task);
+            results.push({ ok: true });
+            break;
+          case 'delete':
+            await this.deleteEvent(operation.eventId);
+            results.push({ ok: true });
+            break;
+        }
+      } catch (error) {
+        results.push({
+          ok: false,
+          error: error instanceof CalendarApiError
+            ? error
+            : new CalendarApiError(error instanceof Error ? error.message : 'Calendar change failed', 400, { service: SERVICE_NAME }),
+        });
+      }
+    }
+
+    return results;
+  }
+}
+
+export const caldavCalendarService = new CalDavCalendarService();
@@ -0,0 +1,64 @@
+/**
+ * Calendar API Client Tests
+ *
+ * Which requests are retried: only idempotent ones, or ones the caller made
+ * safe to repeat, and only on transient failures
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalendarNetworkError, fetchWithRetry, isIdempotentRequest } from './calendarApiClient';
+
+// Serves the responses in order; a missing one is a network failure
+const serve = (...statuses: number[]) => {
+  const fetchMock = mock.method(globalThis, 'fetch', async () => {
+    const status = statuses[fetchMock.mock.callCount()];
+    if (status === undefined) throw new TypeError('Failed to fetch');
+    return new Response(status === 204 ? null : '{}', { status });
+  });
+  return fetchMock;
+};
+
+describe('isIdempotentRequest', () => {
+  it('accepts reads, PUT and DELETE, and PATCH only with If-Match', () => {
+    assert.deepEqual(
+      ['GET', 'get', 'PUT', 'DELETE', 'PROPFIND', 'REPORT', 'POST', 'PATCH'].map(method => isIdempotentRequest(method)),
+      [true, true, true, true, true, true, false, false]
+    );
+    assert.equal(isIdempotentRequest('PATCH', { 'If-Match': '"etag"' }), true);
+    assert.equal(isIdempotentRequest(undefined), true);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('retries idempotent requests after server errors', async () => {
+    const fetchMock = serve(503, 200);
+    const response = await fetchWithRetry('/api/calendar/events', { method: 'PUT' });
+
+    assert.equal(response.status, 200);
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it('sends POSTs once, since the first may have gone through', async () => {
+    const fetchMock = serve();
+
+    await assert.rejects(fetchWithRetry('/api/calendar/events', { method: 'POST' }), CalendarNetworkError);
+    assert.equal(fetchMock.mock.callCount(), 1);
+  });
+
+  it('retries POSTs the caller marks as safe to repeat', async () => {
+    const fetchMock = serve(500, 200);
+    await fetchWithRetry('/api/calendar/events', { method: 'POST' }, undefined, true);
+
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it('doesn\'t retry errors that won\'t go away', async () => {
+    const fetchMock = serve(404, 200);
+
+    await assert.rejects(fetchWithRetry('/api/calendar/events/missing', {}), { status: 404 });
+    assert.equal(fetchMock.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Calendar API Errors and Retries
+ *
+ * Shared by every calendar provider:
+ * - Failed responses become typed errors (auth, quota, not found, conflict)
+ *   that carry a message the UI can show as-is, naming the provider's service
+ * - Rate limits (429, 403 rateLimitExceeded), server errors (5xx) and network
+ *   failures are retried with exponential backoff and full jitter, waiting at
+ *   least as long as Retry-After asks
+ * - Only idempotent requests are retried, since a failed one may still have
+ *   reached the server: a repeated POST could create a second event
+ *
+ * Used by: googleApiClient.ts, caldavCalendar.ts, calendarOutbox.ts, syncEngine.ts
+ * Related: CalendarSync.tsx (error messages)
+ */
+
+export const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30 * 1000;
+
+const DEFAULT_SERVICE = 'Google Calendar';
+
+// Methods that have the same effect when sent twice, including WebDAV's reads
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'PROPFIND', 'REPORT'];
+
+// 403 reasons that mean "slow down" rather than "not allowed"
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const QUOTA_REASONS = [...RATE_LIMIT_REASONS, 'quotaExceeded', 'dailyLimitExceeded'];
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export interface CalendarErrorDetails {
+  reason?: string; // the service's error reason, e.g. Google's 'rateLimitExceeded'
+  retryAfterMs?: number;
+  service?: string; // named in user messages, e.g. 'Google Calendar'
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export class CalendarApiError extends Error {
+  reason?: string;
+  retryAfterMs?: number;
+  service: string;
+
+  constructor(
+    message: string,
+    public status: number,
+    details: CalendarErrorDetails = {}
+  ) {
+    super(message);
+    this.name = 'CalendarApiError';
+    this.reason = details.reason;
+    this.retryAfterMs = details.retryAfterMs;
+    this.service = details.service || DEFAULT_SERVICE;
+  }
+
+  get isRetryable(): boolean {
+    return this.status >= 500;
+  }
+
+  get userMessage(): string {
+    return this.status >= 500
+      ? `${capitalize(this.service)} is having problems right now. Try again in a few minutes.`
+      : `${capitalize(this.service)} rejected the request: ${this.message}`;
+  }
+}
+
+export class CalendarAuthError extends CalendarApiError {
+  name = 'CalendarAuthError';
+
+  get userMessage(): string {
+    return this.status === 401
+      ? `Your access to ${this.service} has expired. Sign in again to keep syncing.`
+      : `FlowMotion doesn't have permission for this calendar. Reconnect ${this.service} or pick a calendar you can edit.`;
+  }
+}
+
+export class CalendarQuotaError extends CalendarApiError {
+  name = 'CalendarQuotaError';
+
+  // Daily quotas don't recover within a retry window
+  get isRetryable(): boolean {
+    return this.status === 429 || RATE_LIMIT_REASONS.includes(this.reason || '');
+  }
+
+  get userMessage(): string {
+    return this.isRetryable
+      ? `${capitalize(this.service)} is limiting how fast FlowMotion can sync. Wait a minute and sync again.`
+      : `FlowMotion has reached its ${this.service} quota for today. Syncing will resume tomorrow.`;
+  }
+}
+
+export class CalendarNotFoundError extends CalendarApiError {
+  name = 'CalendarNotFoundError';
+
+  get userMessage(): string {
+    return `The calendar or event no longer exists in ${this.service}. Refresh your calendars and sync again.`;
+  }
+}
+
+export class CalendarConflictError extends CalendarApiError {
+  name = 'CalendarConflictError';
+
+  get userMessage(): string {
+    return `The event was changed in ${this.service} at the same time. Sync again to pick up the latest version.`;
+  }
+}
+
+export class CalendarNetworkError extends CalendarApiError {
+  name = 'CalendarNetworkError';
+
+  constructor(message: string, service?: string) {
+    super(message, 0, { service });
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+
+  get userMessage(): string {
+    return `Couldn't reach ${this.service}. Check your connection and try again.`;
+  }
+}
+
+/**
+ * Message to show the user for any error thrown by a calendar call
+ */
+export const getCalendarErrorMessage = (error: unknown): string => {
+  if (error instanceof CalendarApiError) return error.userMessage;
+  return error instanceof Error ? error.message : 'Something went wrong syncing your calendar';
+};
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Typed error for a failed response. Reads Google's error body
+ * ({ error: { message, errors: [{ reason }] } }) or the proxies' ({ error: message });
+ * other bodies (e.g. a CalDAV server's) are kept as the message.
+ */
+export const createApiError = (
+  status: number,
+  body: string,
+  retryAfter: string | null = null,
+  service = DEFAULT_SERVICE
+): CalendarApiError => {
+  let message = body || `HTTP ${status}`;
+  let reason: string | undefined;
+
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed.error === 'string') {
+      message = parsed.error;
+    } else if (parsed.error) {
+      message = parsed.error.message || message;
+      reason = parsed.error.errors?.[0]?.reason || parsed.error.status;
+    }
+  } catch {
+    // Not JSON; keep the raw text
+  }
+
+  const details: CalendarErrorDetails = { reason, retryAfterMs: parseRetryAfter(retryAfter), service };
+
+  if (status === 429 || (status === 403 && QUOTA_REASONS.includes(reason || ''))) {
+    return new CalendarQuotaError(message, status, details);
+  }
+  if (status === 401 || status === 403) {
+    return new CalendarAuthError(message, status, details);
+  }
+  if (status === 404 || status === 410) {
+    return new CalendarNotFoundError(message, status, details);
+  }
+  if (status === 409 || status === 412) {
+    return new CalendarConflictError(message, status, details);
+  }
+  return new CalendarApiError(message, status, details);
+};
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter, but never sooner than Retry-After
+ */
+export const getRetryDelay = (attempt: number, retryAfterMs = 0): number => {
+  const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.max(retryAfterMs, backoff);
+};
+
+/**
+ * Whether a request may be sent again: idempotent methods, and PATCHes that
+ * only apply to the version they were made for (If-Match)
+ */
+export const isIdempotentRequest = (method = 'GET', headers?: HeadersInit): boolean => {
+  const name = method.toUpperCase();
+  return IDEMPOTENT_METHODS.includes(name) || (name === 'PATCH' && new Headers(headers).has('If-Match'));
+};
+
+/**
+ * fetch that retries transient failures and throws typed errors for the rest.
+ * `service` names the provider in error messages. Requests that aren't
+ * idempotent fail on the first error unless the caller made them safe to
+ * repeat (e.g. a create with a client-generated id) and says so.
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit,
+  service = DEFAULT_SERVICE,
+  idempotent = isIdempotentRequest(init.method, init.headers)
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    let error: CalendarApiError;
+
+    try {
+      const response = await fetch(url, init);
+      if (response.ok) return response;
+      error = createApiError(response.status, await response.text(), response.headers.get('Retry-After'), service);
+    } catch (fetchError) {
+      error = new CalendarNetworkError(fetchError instanceof Error ? fetchError.message : 'Network request failed', service);
+    }
+
+    if (!idempotent || !error.isRetryable || attempt >= MAX_RETRIES) throw error;
+    await sleep(getRetryDelay(attempt, error.retryAfterMs));
+  }
+};
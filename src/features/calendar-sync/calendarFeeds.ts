@@ -0,0 +1,239 @@
+/**
+ * Calendar Feeds (server only)
+ *
+ * A read-only .ics URL per user that other calendar apps can subscribe to:
+ * - The URL holds a random secret token; rotating it makes a new URL and
+ *   revoking it deletes the feed, so old links stop working
+ * - The feed serves scheduled tasks (from Supabase) and the time blocks the
+ *   client last published, either in full or as anonymous busy time
+ * - Each render is hashed into an ETag; when the hash changes the feed's
+ *   Last-Modified moves to now, so unchanged feeds can be answered with 304
+ *
+ * Feeds are stored in Supabase (calendar_feeds) and need server-side access,
+ * since the tasks they serve are only readable there.
+ *
+ * Used by: api/calendar/feed routes
+ * Related: icsExport.ts, useCalendarFeed.ts, taskDatabase.ts
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabaseAdmin';
+import { DatabaseCalendarFeed, DatabaseTask } from '@/lib/supabase';
+import { Task } from '@/features/tasks/TaskTypes';
+import { TimeBlock } from '@/features/calendar/CalendarTypes';
+import { convertDatabaseTask } from '@/features/tasks/taskDatabase';
+import { CalendarFeed, CalendarFeedPrivacy } from './CalendarSyncTypes';
+import { exportToICal } from './icsExport';
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+const HISTORY_DAYS = 30; // past items kept in the feed
+const REFRESH_MINUTES = 15;
+
+const TIME_BLOCK_TYPES: TimeBlock['type'][] = ['work', 'break', 'meeting', 'focus', 'unavailable'];
+
+export const FEED_PRIVACY_OPTIONS: CalendarFeedPrivacy[] = ['full', 'busy'];
+
+export const isCalendarFeedAvailable = (): boolean => isSupabaseAdminConfigured();
+
+export const getFeedUrl = (feed: CalendarFeed): string =>
+  `${process.env.NEXTAUTH_URL}/api/calendar/feed/${feed.token}.ics`;
+
+/**
+ * The token in a feed URL segment, which may end in .ics. Null when it can't be a feed token.
+ */
+export const parseFeedToken = (segment: string): string | null => {
+  const token = segment.replace(/\.ics$/i, '');
+  return TOKEN_PATTERN.test(token) ? token : null;
+};
+
+const isValidDate = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+/**
+ * Time blocks from JSON (a request body or the stored copy), or null if any is malformed
+ */
+export const parseTimeBlocks = (value: unknown): TimeBlock[] | null => {
+  if (!Array.isArray(value)) return null;
+
+  const blocks: TimeBlock[] = [];
+  for (const block of value as Record<string, unknown>[]) {
+    if (
+      typeof block !== 'object' || block === null ||
+      typeof block.id !== 'string' || typeof block.title !== 'string' ||
+      !TIME_BLOCK_TYPES.includes(block.type as TimeBlock['type']) ||
+      !isValidDate(block.start) || !isValidDate(block.end)
+    ) {
+      return null;
+    }
+
+    const pattern = block.recurringPattern as Record<string, unknown> | undefined;
+    blocks.push({
+      ...block,
+      start: new Date(block.start as string),
+      end: new Date(block.end as string),
+      isRecurring: !!block.isRecurring,
+      recurringPattern: pattern ? {
+        ...pattern,
+        endDate: pattern.endDate ? new Date(pattern.endDate as string) : undefined,
+        exceptions: (pattern.exceptions as string[] | undefined)?.map(d => new Date(d)),
+      } : undefined,
+    } as TimeBlock);
+  }
+  return blocks;
+};
+
+// ============================================================================
+// FEED STORAGE
+// ============================================================================
+
+const dbFeedToFeed = (feed: DatabaseCalendarFeed): CalendarFeed => ({
+  userId: feed.user_id,
+  token: feed.token,
+  privacy: feed.privacy,
+  timeZone: feed.time_zone,
+  timeBlocks: parseTimeBlocks(feed.time_blocks) || [],
+  etag: feed.etag,
+  contentUpdatedAt: new Date(feed.content_updated_at),
+  createdAt: new Date(feed.created_at),
+});
+
+const findFeed = async (column: 'user_id' | 'token', value: string): Promise<CalendarFeed | null> => {
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_feeds')
+    .select('*')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? dbFeedToFeed(data) : null;
+};
+
+export const getFeedForUser = (userId: string): Promise<CalendarFeed | null> => findFeed('user_id', userId);
+
+export const getFeedByToken = (token: string): Promise<CalendarFeed | null> => findFeed('token', token);
+
+export interface CalendarFeedSettings {
+  privacy: CalendarFeedPrivacy;
+  timeZone: string;
+  timeBlocks: TimeBlock[];
+}
+
+/**
+ * Start the user's feed under a new token. Replaces any existing feed, so it also rotates the URL.
+ */
+export const createFeed = async (userId: string, settings: CalendarFeedSettings): Promise<CalendarFeed> => {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_feeds')
+    .upsert({
+      user_id: userId,
+      token: randomBytes(24).toString('base64url'),
+      privacy: settings.privacy,
+      time_zone: settings.timeZone,
+      time_blocks: settings.timeBlocks,
+      etag: null,
+      content_updated_at: now,
+      created_at: now,
+    }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return dbFeedToFeed(data);
+};
+
+/**
+ * Change what the feed serves. Null when the user has no feed.
+ */
+export const updateFeed = async (userId: string, changes: Partial<CalendarFeedSettings>): Promise<CalendarFeed | null> => {
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_feeds')
+    .update({
+      ...(changes.privacy && { privacy: changes.privacy }),
+      ...(changes.timeZone && { time_zone: changes.timeZone }),
+      ...(changes.timeBlocks && { time_blocks: changes.timeBlocks }),
+    })
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? dbFeedToFeed(data) : null;
+};
+
+export const deleteFeed = async (userId: string): Promise<void> => {
+  const { error } = await supabaseAdmin!
+    .from('calendar_feeds')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Scheduled tasks that ended recently or are still to come, plus recurring ones
+ */
+const getFeedTasks = async (userId: string, since: Date): Promise<Task[]> => {
+  const { data, error } = await supabaseAdmin!
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .not('scheduled_start', 'is', null)
+    .or(`scheduled_end.gte.${since.toISOString()},recurrence.not.is.null`);
+
+  if (error) throw error;
+  return (data || []).map((task: DatabaseTask) => convertDatabaseTask(task));
+};
+
+const isRecentTimeBlock = (block: TimeBlock, since: Date): boolean => {
+  if (block.isRecurring && block.recurringPattern) {
+    return !block.recurringPattern.endDate || block.recurringPattern.endDate >= since;
+  }
+  return block.end >= since;
+};
+
+export interface RenderedFeed {
+  body: string;
+  etag: string; // quoted, ready for the ETag header
+  lastModified: Date;
+}
+
+/**
+ * The feed's current .ics text. DTSTAMPs are the time the content last changed,
+ * so the same content always renders the same bytes.
+ */
+export const renderFeed = async (feed: CalendarFeed): Promise<RenderedFeed> => {
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const tasks = await getFeedTasks(feed.userId, since);
+
+  const render = (stamp: Date) => exportToICal(tasks, {
+    timeZone: feed.timeZone,
+    timeBlocks: feed.timeBlocks.filter(block => isRecentTimeBlock(block, since)),
+    busyOnly: feed.privacy === 'busy',
+    stamp,
+    refreshMinutes: REFRESH_MINUTES,
+  });
+
+  // Hashed with a fixed stamp, so the hash only changes with the content
+  const etag = `"${createHash('sha256').update(render(feed.createdAt)).digest('base64url')}"`;
+  let lastModified = feed.contentUpdatedAt;
+
+  if (etag !== feed.etag) {
+    // HTTP dates have whole seconds
+    lastModified = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+    const { error } = await supabaseAdmin!
+      .from('calendar_feeds')
+      .update({ etag, content_updated_at: lastModified.toISOString() })
+      .eq('user_id', feed.userId);
+
+    if (error) console.warn('Failed to record calendar feed change:', error);
+  }
+
+  return { body: render(lastModified), etag, lastModified };
+};
@@ -0,0 +1,141 @@
+/**
+ * Calendar Outbox
+ *
+ * Replays task calendar changes that couldn't reach the calendar when they were made
+ * (offline, signed out, rate limited). The outbox itself lives in
+ * calendarSyncStore, which also collapses redundant changes as they're queued.
+ *
+ * - Items are sent oldest first, each through the provider it was queued for;
+ *   replay stops at the first failure that would
+ *   hit every later item too (still offline or signed out)
+ * - Creates and updates send the task as it is now; if it was deleted or
+ *   unscheduled since, there's nothing left to send
+ * - A sent item updates the task's googleEventId and its sync record, like a sync would
+ *
+ * Used by: CalendarSync.tsx (replay on reconnect, retry/discard), syncEngine.ts (queueing)
+ * Related: calendarSyncStore.ts, calendarProviders.ts, calendarApiClient.ts
+ */
+
+import { getCalendarProvider } from './calendarProviders';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import { CalendarOutboxItem } from './CalendarSyncTypes';
+import { CalendarAuthError, CalendarApiError, getCalendarErrorMessage } from './calendarApiClient';
+import { Task } from '@/features/tasks/TaskTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+
+export interface OutboxReplayResult {
+  sent: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Whether a failed change should wait in the outbox rather than be reported:
+ * the request may well succeed once the network, sign-in or quota is back
+ */
+export const shouldQueueOperation = (error: unknown): boolean =>
+  error instanceof CalendarApiError &&
+  (error.isRetryable || (error instanceof CalendarAuthError && error.status === 401));
+
+const saveTaskRecord = (task: Task, googleEventId: string, calendarId: string) => {
+  useCalendarSyncStore.getState().saveSyncRecord({
+    taskId: task.id,
+    googleEventId,
+    calendarId,
+    title: task.title,
+    start: task.scheduledStart!,
+    end: task.scheduledEnd!,
+    syncedAt: new Date(),
+  });
+};
+
+const sendOutboxItem = async (item: CalendarOutboxItem): Promise<void> => {
+  const taskStore = useTaskStore.getState();
+  const task = taskStore.getTaskById(item.taskId);
+  const isScheduled = !!task?.scheduledStart && !!task.scheduledEnd;
+  const provider = getCalendarProvider(item.provider);
+
+  switch (item.type) {
+    case 'create': {
+      if (!task || !isScheduled) return;
+      const event = await provider.createEventFromTask(task, item.calendarId);
+      await taskStore.updateTask(task.id, { googleEventId: event.id });
+      saveTaskRecord(task, event.id, item.calendarId);
+      return;
+    }
+    case 'update': {
+      if (!task || !isScheduled) return;
+      await provider.updateEvent(item.eventId!, task, item.calendarId);
+      saveTaskRecord(task, item.eventId!, item.calendarId);
+      return;
+    }
+    case 'delete': {
+      await provider.deleteEvent(item.eventId!, item.calendarId);
+      useCalendarSyncStore.getState().removeSyncRecord(item.taskId, item.calendarId);
+      if (task?.googleEventId === item.eventId) {
+        await taskStore.updateTask(task!.id, { googleEventId: undefined });
+      }
+      return;
+    }
+  }
+};
+
+/**
+ * Send one item; it stays in the outbox with its error if that fails
+ */
+const trySendOutboxItem = async (item: CalendarOutboxItem): Promise<unknown> => {
+  const store = useCalendarSyncStore.getState();
+
+  try {
+    await sendOutboxItem(item);
+    store.removeOutboxItem(item.id);
+    return null;
+  } catch (error) {
+    store.updateOutboxItem(item.id, {
+      attempts: item.attempts + 1,
+      lastError: getCalendarErrorMessage(error),
+    });
+    return error;
+  }
+};
+
+let activeReplay: Promise<OutboxReplayResult> | null = null;
+
+const runReplay = async (): Promise<OutboxReplayResult> => {
+  let sent = 0;
+  let failed = 0;
+
+  for (const item of useCalendarSyncStore.getState().outbox) {
+    const error = await trySendOutboxItem(item);
+    if (!error) {
+      sent++;
+      continue;
+    }
+
+    failed++;
+    if (shouldQueueOperation(error)) break;
+  }
+
+  return { sent, failed, remaining: useCalendarSyncStore.getState().outbox.length };
+};
+
+/**
+ * Send everything in the outbox, in order. Concurrent calls share one replay.
+ */
+export const replayOutbox = (): Promise<OutboxReplayResult> => {
+  if (!activeReplay) {
+    activeReplay = runReplay().finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+};
+
+/**
+ * Send a single item now, e.g. after fixing what made it fail
+ */
+export const retryOutboxItem = async (id: string): Promise<boolean> => {
+  const item = useCalendarSyncStore.getState().outbox.find(pending => pending.id === id);
+  if (!item) return true;
+  return !(await trySendOutboxItem(item));
+};
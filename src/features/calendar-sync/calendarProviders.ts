@@ -0,0 +1,62 @@
+/**
+ * Calendar Providers
+ *
+ * The calendar services tasks can be synced with, and which one is in use
+ * (syncSettings.provider). Everything that reads or writes calendars goes
+ * through getActiveCalendarProvider, except outbox items, which stay with the
+ * provider they were queued for.
+ *
+ * Switching providers starts over: what was synced from the old provider's
+ * calendars and changes still waiting for it are dropped, and tasks forget
+ * their old events, so the first sync adds them to the new calendar.
+ *
+ * Used by: CalendarSync.tsx, calendarSyncRunner.ts, calendarOutbox.ts, useCalendarNotifications.ts
+ * Related: googleCalendar.ts, caldavCalendar.ts, CalendarSyncTypes.ts (CalendarProvider)
+ */
+
+import { googleCalendarService } from './googleCalendar';
+import { caldavCalendarService } from './caldavCalendar';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import { CalendarProvider, CalendarProviderId } from './CalendarSyncTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+
+const PROVIDERS: Record<CalendarProviderId, CalendarProvider> = {
+  google: googleCalendarService,
+  caldav: caldavCalendarService,
+};
+
+export const calendarProviders: CalendarProvider[] = Object.values(PROVIDERS);
+
+export const getCalendarProvider = (id: CalendarProviderId): CalendarProvider =>
+  PROVIDERS[id] || googleCalendarService;
+
+export const getActiveCalendarProvider = (): CalendarProvider =>
+  getCalendarProvider(useCalendarSyncStore.getState().syncSettings.provider);
+
+export const switchCalendarProvider = async (id: CalendarProviderId): Promise<void> => {
+  const store = useCalendarSyncStore.getState();
+  if (store.syncSettings.provider === id) return;
+
+  const calendarIds = new Set([
+    ...store.syncedEvents.map(event => event.calendarId),
+    ...store.syncRecords.map(record => record.calendarId),
+    ...Object.keys(store.syncTokens),
+  ]);
+  calendarIds.forEach(calendarId => {
+    store.removeCalendar(calendarId);
+    store.setSyncRecords(calendarId, []);
+  });
+  store.outbox.forEach(item => store.removeOutboxItem(item.id));
+
+  const taskStore = useTaskStore.getState();
+  for (const task of taskStore.tasks.filter(task => task.googleEventId)) {
+    await taskStore.updateTask(task.id, { googleEventId: undefined });
+  }
+
+  store.updateSyncSettings({
+    provider: id,
+    targetCalendarId: undefined,
+    readCalendarIds: undefined,
+    busyCalendarIds: undefined,
+  });
+};
@@ -0,0 +1,80 @@
+/**
+ * Calendar Sync Runner
+ *
+ * Runs syncs of individual calendars of the active provider, one at a time,
+ * so a manual sync and a refresh after a push notification never interleave:
+ * - syncCalendarEvents: fetch a calendar's changes since its sync token into the store
+ * - syncTargetCalendar: the same for the target calendar, then reconcile tasks
+ *   with their events (syncEngine.ts)
+ *
+ * Used by: CalendarSync.tsx (manual sync), useCalendarNotifications.ts (push)
+ * Related: calendarProviders.ts, calendarSyncStore.ts, syncEngine.ts
+ */
+
+import { getActiveCalendarProvider } from './calendarProviders';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import { syncTasksWithCalendar, TwoWaySyncOptions } from './syncEngine';
+import { CalendarSyncResult, GoogleCalendar } from './CalendarSyncTypes';
+
+// A full sync starts this many days back
+const FULL_SYNC_DAYS = 30;
+
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(run: () => Promise<T>): Promise<T> => {
+  const next = syncQueue.then(run);
+  syncQueue = next.catch(() => undefined);
+  return next;
+};
+
+/**
+ * Fetch one calendar's changes into the store.
+ * Returns the range its stored events cover.
+ */
+const fetchCalendarChanges = async (calendar: GoogleCalendar): Promise<TwoWaySyncOptions['window']> => {
+  const store = useCalendarSyncStore.getState();
+  const previousToken = store.syncTokens[calendar.id];
+  const fullSyncTimeMin = new Date();
+  fullSyncTimeMin.setDate(fullSyncTimeMin.getDate() - FULL_SYNC_DAYS);
+
+  const { changed, removedEventIds, nextSyncToken, isFullSync, timeMax } = await getActiveCalendarProvider().syncCalendar(
+    calendar,
+    previousToken?.token,
+    fullSyncTimeMin
+  );
+
+  if (isFullSync) {
+    store.setCalendarEvents(calendar.id, changed);
+  } else {
+    store.applyEventChanges(calendar.id, changed, removedEventIds);
+  }
+
+  const timeMin = isFullSync || !previousToken ? fullSyncTimeMin : previousToken.timeMin;
+  store.setSyncToken(calendar.id, nextSyncToken ? { token: nextSyncToken, timeMin } : null);
+  // Only full syncs can be bounded; incremental ones continue an open-ended range
+  return { start: timeMin, end: isFullSync ? timeMax : undefined };
+};
+
+export const syncCalendarEvents = (calendar: GoogleCalendar): Promise<TwoWaySyncOptions['window']> =>
+  runExclusive(() => fetchCalendarChanges(calendar));
+
+/**
+ * Sync the target calendar and reconcile tasks with their events in both directions
+ */
+export const syncTargetCalendar = (calendar: GoogleCalendar): Promise<CalendarSyncResult> =>
+  runExclusive(async () => {
+    const fetched = await fetchCalendarChanges(calendar);
+    const { syncedEvents, syncRecords, syncSettings, setSyncRecords } = useCalendarSyncStore.getState();
+
+    const { result, records } = await syncTasksWithCalendar({
+      provider: getActiveCalendarProvider(),
+      calendar,
+      events: syncedEvents.filter(event => event.calendarId === calendar.id),
+      window: fetched,
+      records: syncRecords,
+      settings: syncSettings,
+    });
+    setSyncRecords(calendar.id, records);
+
+    return result;
+  });
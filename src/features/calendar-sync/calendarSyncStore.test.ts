@@ -0,0 +1,81 @@
+/**
+ * Calendar Sync Store Tests
+ *
+ * How queued outbox changes fold into a task's pending change, so a replay
+ * sends each task's net change once
+ */
+
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NewOutboxItem, useCalendarSyncStore } from './calendarSyncStore';
+
+// The store saves to localStorage, which Node doesn't have
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, value),
+  removeItem: (key: string) => void storage.delete(key),
+} as Storage;
+
+const change = (type: NewOutboxItem['type'], fields: Partial<NewOutboxItem> = {}): NewOutboxItem => ({
+  type,
+  taskId: 'report',
+  taskTitle: 'Report',
+  provider: 'google',
+  calendarId: 'primary',
+  eventId: type === 'create' ? undefined : 'event-1',
+  ...fields,
+});
+
+const enqueue = (...changes: NewOutboxItem[]) => {
+  changes.forEach(item => useCalendarSyncStore.getState().enqueueOutboxItem(item));
+  return useCalendarSyncStore.getState().outbox;
+};
+
+const summarize = (outbox: ReturnType<typeof enqueue>) =>
+  outbox.map(item => [item.type, item.taskId, item.eventId]);
+
+describe('enqueueOutboxItem', () => {
+  beforeEach(() => {
+    storage.clear();
+    useCalendarSyncStore.setState({ outbox: [] });
+  });
+
+  it('keeps one create for a task created then updated', () => {
+    const outbox = enqueue(change('create'), change('update', { eventId: undefined, taskTitle: 'Final report' }));
+
+    assert.deepEqual(summarize(outbox), [['create', 'report', undefined]]);
+    assert.equal(outbox[0].taskTitle, 'Final report');
+  });
+
+  it('drops both changes for a task created then deleted', () => {
+    assert.deepEqual(enqueue(change('create'), change('update'), change('delete', { eventId: undefined })), []);
+  });
+
+  it('keeps one update for a task updated twice', () => {
+    assert.deepEqual(summarize(enqueue(change('update'), change('update'))), [['update', 'report', 'event-1']]);
+  });
+
+  it('turns an update then delete into a delete of the same event, queued last', () => {
+    const outbox = enqueue(change('update'), change('update', { taskId: 'email' }), change('delete', { eventId: undefined }));
+
+    assert.deepEqual(summarize(outbox), [['update', 'email', 'event-1'], ['delete', 'report', 'event-1']]);
+  });
+
+  it('doesn\'t fold changes for other tasks or calendars', () => {
+    const outbox = enqueue(change('create'), change('delete', { taskId: 'email' }), change('delete', { calendarId: 'team' }));
+
+    assert.deepEqual(outbox.map(item => [item.type, item.taskId, item.calendarId]), [
+      ['create', 'report', 'primary'],
+      ['delete', 'email', 'primary'],
+      ['delete', 'report', 'team'],
+    ]);
+  });
+
+  it('saves the outbox after every change', () => {
+    const outbox = enqueue(change('update'));
+
+    assert.equal(storage.size, 1);
+    assert.deepEqual(JSON.parse([...storage.values()][0]).map((item: { id: string }) => item.id), [outbox[0].id]);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Calendar Sync State Management Store
+ *
+ * Zustand store for events pulled from the synced calendars, so they can be shown
+ * and scheduled around outside the sync settings screen
+ * Handles: synced events per source calendar, per-calendar sync tokens for
+ * incremental sync, sync settings, task/event sync records for two-way sync,
+ * the outbox of calendar changes waiting to be sent, localStorage persistence
+ *
+ * Used by: CalendarSync.tsx (writes after each sync), CalendarView.tsx
+ * Related: syncedEvents.ts for turning synced events into CalendarEvents,
+ * syncEngine.ts for reconciling tasks with events, calendarOutbox.ts for replaying the outbox
+ */
+
+import { create } from 'zustand';
+import { 
+  CalendarOutboxItem, 
+  CalendarSyncState, 
+  CalendarSyncToken, 
+  SyncedCalendarEvent, 
+  TaskSyncRecord, 
+  DEFAULT_SYNC_SETTINGS 
+} from './CalendarSyncTypes';
+
+type SyncSettings = CalendarSyncState['syncSettings'];
+
+export type NewOutboxItem = Omit<CalendarOutboxItem, 'id' | 'createdAt' | 'attempts'>;
+
+interface CalendarSyncStore {
+  // State
+  syncedEvents: SyncedCalendarEvent[];
+  syncTokens: Record<string, CalendarSyncToken>; // by calendar id
+  syncRecords: TaskSyncRecord[];
+  syncSettings: SyncSettings;
+  outbox: CalendarOutboxItem[]; // oldest first
+  isInitialized: boolean;
+
+  // Event Actions
+  setCalendarEvents: (calendarId: string, events: SyncedCalendarEvent[]) => void;
+  applyEventChanges: (calendarId: string, changed: SyncedCalendarEvent[], removedEventIds: string[]) => void;
+  removeCalendar: (calendarId: string) => void;
+
+  // Sync Actions
+  setSyncToken: (calendarId: string, syncToken: CalendarSyncToken | null) => void;
+  setSyncRecords: (calendarId: string, records: TaskSyncRecord[]) => void;
+  saveSyncRecord: (record: TaskSyncRecord) => void;
+  removeSyncRecord: (taskId: string, calendarId: string) => void;
+  updateSyncSettings: (settings: Partial<SyncSettings>) => void;
+
+  // Outbox Actions
+  enqueueOutboxItem: (item: NewOutboxItem) => void;
+  updateOutboxItem: (id: string, updates: Partial<CalendarOutboxItem>) => void;
+  removeOutboxItem: (id: string) => void;
+
+  // Data Management
+  initializeStore: () => void;
+}
+
+// Helper functions for localStorage
+const SYNCED_EVENTS_STORAGE_KEY = 'flowmotion-synced-events';
+const SYNC_RECORDS_STORAGE_KEY = 'flowmotion-sync-records';
+const SYNC_TOKENS_STORAGE_KEY = 'flowmotion-sync-tokens';
+const SYNC_SETTINGS_STORAGE_KEY = 'calendar-sync-settings';
+const OUTBOX_STORAGE_KEY = 'flowmotion-calendar-outbox';
+
+const saveSyncSettings = (settings: SyncSettings) => {
+  try {
+    localStorage.setItem(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save sync settings to localStorage:', error);
+  }
+};
+
+const loadSyncSettings = (): SyncSettings => {
+  try {
+    const stored = localStorage.getItem(SYNC_SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load sync settings from localStorage:', error);
+  }
+  return DEFAULT_SYNC_SETTINGS;
+};
+
+const saveSyncTokens = (tokens: Record<string, CalendarSyncToken>) => {
+  try {
+    localStorage.setItem(SYNC_TOKENS_STORAGE_KEY, JSON.stringify(tokens));
+  } catch (error) {
+    console.error('Failed to save sync tokens to localStorage:', error);
+  }
+};
+
+const loadSyncTokens = (): Record<string, CalendarSyncToken> => {
+  try {
+    const stored = localStorage.getItem(SYNC_TOKENS_STORAGE_KEY);
+    if (stored) {
+      const parsed: Record<string, { token: string; timeMin: string }> = JSON.parse(stored);
+      return Object.fromEntries(Object.entries(parsed).map(([calendarId, syncToken]) => [
+        calendarId,
+        { token: syncToken.token, timeMin: new Date(syncToken.timeMin) },
+      ]));
+    }
+  } catch (error) {
+    console.error('Failed to load sync tokens from localStorage:', error);
+  }
+  return {};
+};
+
+const saveSyncRecords = (records: TaskSyncRecord[]) => {
+  try {
+    localStorage.setItem(SYNC_RECORDS_STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('Failed to save sync records to localStorage:', error);
+  }
+};
+
+const loadSyncRecords = (): TaskSyncRecord[] => {
+  try {
+    const stored = localStorage.getItem(SYNC_RECORDS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((record: Record<string, unknown>) => ({
+        ...record,
+        start: new Date(record.start as string),
+        end: new Date(record.end as string),
+        syncedAt: new Date(record.syncedAt as string),
+      }));
+    }
+  } catch (error) {
+    console.error('Failed to load sync records from localStorage:', error);
+  }
+  return [];
+};
+
+const saveSyncedEvents = (events: SyncedCalendarEvent[]) => {
+  try {
+    localStorage.setItem(SYNCED_EVENTS_STORAGE_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.error('Failed to save synced events to localStorage:', error);
+  }
+};
+
+const loadSyncedEvents = (): SyncedCalendarEvent[] => {
+  try {
+    const stored = localStorage.getItem(SYNCED_EVENTS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((event: Record<string, unknown>) => ({
+        ...event,
+        start: new Date(event.start as string),
+        end: new Date(event.end as string),
+        updatedAt: event.updatedAt ? new Date(event.updatedAt as string) : undefined,
+      }));
+    }
+  } catch (error) {
+    console.error('Failed to load synced events from localStorage:', error);
+  }
+  return [];
+};
+
+const saveOutbox = (outbox: CalendarOutboxItem[]) => {
+  try {
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  } catch (error) {
+    console.error('Failed to save calendar outbox to localStorage:', error);
+  }
+};
+
+const loadOutbox = (): CalendarOutboxItem[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((item: Record<string, unknown>) => ({
+        ...item,
+        provider: item.provider || 'google', // queued before other providers existed
+        createdAt: new Date(item.createdAt as string),
+      }));
+    }
+  } catch (error) {
+    console.error('Failed to load calendar outbox from localStorage:', error);
+  }
+  return [];
+};
+
+/**
+ * Add an item, folding it into the task's pending change when they overlap:
+ * create + update -> create, create + delete -> nothing,
+ * update + update -> update, update + delete -> delete
+ */
+const collapseOutbox = (outbox: CalendarOutboxItem[], item: CalendarOutboxItem): CalendarOutboxItem[] => {
+  const previous = [...outbox].reverse().find((pending) =>
+    pending.taskId === item.taskId && pending.calendarId === item.calendarId
+  );
+  if (!previous) return [...outbox, item];
+
+  const withoutPrevious = outbox.filter((pending) => pending.id !== previous.id);
+  switch (`${previous.type}+${item.type}`) {
+    case 'create+create':
+    case 'create+update':
+    case 'update+update':
+      // Creates and updates send the task as it is when replayed
+      return outbox.map((pending) => pending.id === previous.id ? { ...pending, taskTitle: item.taskTitle } : pending);
+    case 'create+delete':
+      return withoutPrevious;
+    case 'update+delete':
+      return [...withoutPrevious, { ...item, eventId: item.eventId || previous.eventId }];
+    default:
+      return [...outbox, item];
+  }
+};
+
+export const useCalendarSyncStore = create<CalendarSyncStore>((set, get) => ({
+  // Initial State
+  syncedEvents: [],
+  syncTokens: {},
+  syncRecords: [],
+  syncSettings: DEFAULT_SYNC_SETTINGS,
+  outbox: [],
+  isInitialized: false,
+
+  // Initialize store - load events, tokens and records from the last sync, sync settings and the outbox
+  initializeStore: () => {
+    if (get().isInitialized) return;
+    set({ 
+      syncedEvents: loadSyncedEvents(), 
+      syncTokens: loadSyncTokens(), 
+      syncRecords: loadSyncRecords(), 
+      syncSettings: loadSyncSettings(), 
+      outbox: loadOutbox(), 
+      isInitialized: true 
+    });
+  },
+
+  // Replace everything previously synced from one calendar
+  setCalendarEvents: (calendarId: string, events: SyncedCalendarEvent[]) => {
+    set((state) => ({
+      syncedEvents: [
+        ...state.syncedEvents.filter((event) => event.calendarId !== calendarId),
+        ...events,
+      ],
+    }));
+    saveSyncedEvents(get().syncedEvents);
+  },
+
+  // Merge an incremental sync: changed events replace their old copies, cancelled ones go
+  applyEventChanges: (calendarId: string, changed: SyncedCalendarEvent[], removedEventIds: string[]) => {
+    const replacedIds = new Set([...removedEventIds, ...changed.map((event) => event.googleEventId)]);
+    set((state) => ({
+      syncedEvents: [
+        ...state.syncedEvents.filter((event) =>
+          event.calendarId !== calendarId || !replacedIds.has(event.googleEventId)
+        ),
+        ...changed,
+      ],
+    }));
+    saveSyncedEvents(get().syncedEvents);
+  },
+
+  // Forget a calendar that is no longer synced; a later sync starts from scratch
+  removeCalendar: (calendarId: string) => {
+    get().setCalendarEvents(calendarId, []);
+    get().setSyncToken(calendarId, null);
+  },
+
+  // Sync Actions
+  setSyncToken: (calendarId: string, syncToken: CalendarSyncToken | null) => {
+    set((state) => {
+      const syncTokens = { ...state.syncTokens };
+      if (syncToken) {
+        syncTokens[calendarId] = syncToken;
+      } else {
+        delete syncTokens[calendarId];
+      }
+      return { syncTokens };
+    });
+    saveSyncTokens(get().syncTokens);
+  },
+
+  setSyncRecords: (calendarId: string, records: TaskSyncRecord[]) => {
+    set((state) => ({
+      syncRecords: [
+        ...state.syncRecords.filter((record) => record.calendarId !== calendarId),
+        ...records,
+      ],
+    }));
+    saveSyncRecords(get().syncRecords);
+  },
+
+  saveSyncRecord: (record: TaskSyncRecord) => {
+    get().removeSyncRecord(record.taskId, record.calendarId);
+    set((state) => ({ syncRecords: [...state.syncRecords, record] }));
+    saveSyncRecords(get().syncRecords);
+  },
+
+  removeSyncRecord: (taskId: string, calendarId: string) => {
+    set((state) => ({
+      syncRecords: state.syncRecords.filter((record) =>
+        record.taskId !== taskId || record.calendarId !== calendarId
+      ),
+    }));
+    saveSyncRecords(get().syncRecords);
+  },
+
+  updateSyncSettings: (settings: Partial<SyncSettings>) => {
+    set((state) => ({
+      syncSettings: { ...state.syncSettings, ...settings },
+    }));
+    saveSyncSettings(get().syncSettings);
+  },
+
+  // Outbox Actions
+  enqueueOutboxItem: (item: NewOutboxItem) => {
+    const outboxItem: CalendarOutboxItem = {
+      ...item,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      attempts: 0,
+    };
+    set((state) => ({ outbox: collapseOutbox(state.outbox, outboxItem) }));
+    saveOutbox(get().outbox);
+  },
+
+  updateOutboxItem: (id: string, updates: Partial<CalendarOutboxItem>) => {
+    set((state) => ({
+      outbox: state.outbox.map((item) => item.id === id ? { ...item, ...updates } : item),
+    }));
+    saveOutbox(get().outbox);
+  },
+
+  removeOutboxItem: (id: string) => {
+    set((state) => ({ outbox: state.outbox.filter((item) => item.id !== id) }));
+    saveOutbox(get().outbox);
+  },
+}));
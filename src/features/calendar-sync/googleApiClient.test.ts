@@ -0,0 +1,69 @@
+/**
+ * Google API Request Layer Tests
+ *
+ * Batch requests: results in request order, and only idempotent calls (or
+ * creates with their own id) sent again after transient failures
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BatchRequest, googleBatchRequest } from './googleApiClient';
+
+const BOUNDARY = 'batch_response';
+
+// A batch response with the given status for each request index
+const batchResponse = (statuses: Map<number, number>) => {
+  const parts = [...statuses].map(([index, status]) => [
+    `--${BOUNDARY}`,
+    'Content-Type: application/http',
+    `Content-ID: <response-item-${index}>`,
+    '',
+    `HTTP/1.1 ${status} ${status < 300 ? 'OK' : 'Service Unavailable'}`,
+    'Content-Type: application/json',
+    '',
+    status < 300 ? JSON.stringify({ id: `event-${index}` }) : '{"error":{"message":"Backend Error"}}',
+  ].join('\r\n'));
+
+  return new Response(`${parts.join('\r\n')}\r\n--${BOUNDARY}--`, {
+    headers: { 'Content-Type': `multipart/mixed; boundary=${BOUNDARY}` },
+  });
+};
+
+// Indexes of the calls in a batch request body
+const sentIndexes = (body: string) => [...body.matchAll(/Content-ID: <item-(\d+)>/g)].map(match => Number(match[1]));
+
+describe('googleBatchRequest', () => {
+  afterEach(() => mock.restoreAll());
+
+  const requests: BatchRequest[] = [
+    { method: 'POST', path: '/calendars/primary/events', body: { summary: 'Without id' } },
+    { method: 'POST', path: '/calendars/primary/events', body: { id: 'abc123', summary: 'With id' }, idempotent: true },
+    { method: 'PATCH', path: '/calendars/primary/events/event-2', body: { summary: 'Renamed' } },
+    { method: 'DELETE', path: '/calendars/primary/events/event-3' },
+  ];
+
+  it('sends again only the failed calls that are safe to repeat', async () => {
+    const batches: number[][] = [];
+    mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+      const indexes = sentIndexes(init.body as string);
+      batches.push(indexes);
+      // Everything fails the first time
+      return batchResponse(new Map(indexes.map(index => [index, batches.length === 1 ? 503 : 200])));
+    });
+
+    const results = await googleBatchRequest<{ id: string }>('/api/calendar/batch', '/calendar/v3', requests);
+
+    assert.deepEqual(batches, [[0, 1, 2, 3], [1, 3]]);
+    assert.deepEqual(results.map(result => result.ok), [false, true, false, true]);
+    assert.deepEqual(results[1], { ok: true, data: { id: 'event-1' } });
+  });
+
+  it('doesn\'t resend a whole batch with calls that aren\'t safe to repeat', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () => new Response('', { status: 503 }));
+
+    const results = await googleBatchRequest('/api/calendar/batch', '/calendar/v3', requests);
+
+    assert.equal(fetchMock.mock.callCount(), 1);
+    assert.ok(results.every(result => !result.ok && result.error.status === 503));
+  });
+});
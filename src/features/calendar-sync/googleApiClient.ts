@@ -0,0 +1,195 @@
+/**
+ * Google API Request Layer
+ *
+ * Requests to the Google Calendar API (through the /api/calendar proxy), with the
+ * shared retries and typed errors (calendarApiClient.ts):
+ * - JSON requests for single calls
+ * - Bulk calls are sent as Google batch requests of up to 50 calls; only the
+ *   calls that hit a retryable error are sent again
+ * - Like single requests, only idempotent calls are retried; a batch is only
+ *   resent whole when every call in it is
+ *
+ * Used by: googleCalendar.ts
+ * Related: calendarApiClient.ts, api/calendar/[...path]/route.ts
+ */
+
+import {
+  CalendarApiError,
+  CalendarNetworkError,
+  MAX_RETRIES,
+  createApiError,
+  fetchWithRetry,
+  getRetryDelay,
+  isIdempotentRequest,
+  sleep,
+} from './calendarApiClient';
+
+const BATCH_SIZE = 50; // Google's limit per batch request
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/**
+ * JSON request with retries; resolves to undefined for empty (204) responses.
+ * `idempotent` marks requests that are safe to repeat whatever their method.
+ */
+export const googleApiRequest = async <T>(
+  url: string,
+  options: RequestInit = {},
+  idempotent = isIdempotentRequest(options.method, options.headers)
+): Promise<T> => {
+  const response = await fetchWithRetry(url, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+  }, undefined, idempotent);
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  return response.json();
+};
+
+// ============================================================================
+// BATCH REQUESTS
+// ============================================================================
+
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string; // relative to the API root, e.g. /calendars/primary/events
+  body?: unknown;
+  idempotent?: boolean; // safe to repeat whatever the method, e.g. a create with its own id
+}
+
+const canRetry = (request: BatchRequest): boolean =>
+  request.idempotent ?? isIdempotentRequest(request.method);
+
+export type BatchResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: CalendarApiError };
+
+interface BatchPartResponse {
+  status: number;
+  retryAfter: string | null;
+  body: string;
+}
+
+const splitOnBlankLine = (text: string): [string, string] => {
+  const match = /\r?\n\r?\n/.exec(text);
+  return match ? [text.slice(0, match.index), text.slice(match.index + match[0].length)] : [text, ''];
+};
+
+const buildBatchBody = (requests: BatchRequest[], indexes: number[], apiPath: string, boundary: string): string => {
+  const parts = indexes.map(index => {
+    const request = requests[index];
+    const lines = [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item-${index}>`,
+      '',
+      `${request.method} ${apiPath}${request.path} HTTP/1.1`,
+    ];
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(request.body));
+    } else {
+      lines.push('');
+    }
+    return lines.join('\r\n');
+  });
+
+  return `${parts.join('\r\n')}\r\n--${boundary}--`;
+};
+
+// Responses by request index, read from the multipart/mixed body
+const parseBatchResponse = (text: string, contentType: string): Map<number, BatchPartResponse> => {
+  const boundary = /boundary="?([^";]+)"?/.exec(contentType)?.[1];
+  const responses = new Map<number, BatchPartResponse>();
+  if (!boundary) return responses;
+
+  text.split(`--${boundary}`).forEach(part => {
+    const [outerHeaders, http] = splitOnBlankLine(part.trim());
+    const index = /Content-ID:\s*<response-item-(\d+)>/i.exec(outerHeaders)?.[1];
+    if (index === undefined) return;
+
+    const [httpHeaders, body] = splitOnBlankLine(http);
+    const status = /^HTTP\/[\d.]+\s+(\d+)/.exec(httpHeaders)?.[1];
+    responses.set(parseInt(index), {
+      status: status ? parseInt(status) : 500,
+      retryAfter: /^Retry-After:\s*(.+)$/im.exec(httpHeaders)?.[1]?.trim() || null,
+      body: body.trim(),
+    });
+  });
+
+  return responses;
+};
+
+/**
+ * Send many calls as batch requests. Results come back in request order;
+ * idempotent calls that hit rate limits or server errors are retried with backoff.
+ */
+export const googleBatchRequest = async <T>(
+  batchUrl: string,
+  apiPath: string, // path of the API inside the batch, e.g. /calendar/v3
+  requests: BatchRequest[]
+): Promise<BatchResult<T>[]> => {
+  const results: BatchResult<T>[] = new Array(requests.length);
+  let pending = requests.map((_, index) => index);
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const retry: number[] = [];
+    let retryAfterMs = 0;
+
+    for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+      const indexes = pending.slice(start, start + BATCH_SIZE);
+      const boundary = `batch_flowmotion_${Date.now()}_${start}`;
+
+      let responses: Map<number, BatchPartResponse>;
+      try {
+        const response = await fetchWithRetry(batchUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+          body: buildBatchBody(requests, indexes, apiPath, boundary),
+        }, undefined, indexes.every(index => canRetry(requests[index])));
+        responses = parseBatchResponse(await response.text(), response.headers.get('Content-Type') || '');
+      } catch (error) {
+        // The whole batch failed after its own retries
+        const apiError = error instanceof CalendarApiError
+          ? error
+          : new CalendarNetworkError(error instanceof Error ? error.message : 'Batch request failed');
+        indexes.forEach(index => { results[index] = { ok: false, error: apiError }; });
+        continue;
+      }
+
+      indexes.forEach(index => {
+        const part = responses.get(index);
+        const status = part?.status ?? 500;
+
+        if (part && status >= 200 && status < 300) {
+          results[index] = { ok: true, data: (part.body ? JSON.parse(part.body) : undefined) as T };
+          return;
+        }
+
+        const error = part
+          ? createApiError(status, part.body, part.retryAfter)
+          : new CalendarApiError('Missing response in batch', 500);
+        results[index] = { ok: false, error };
+
+        if (error.isRetryable && attempt < MAX_RETRIES && canRetry(requests[index])) {
+          retry.push(index);
+          retryAfterMs = Math.max(retryAfterMs, error.retryAfterMs || 0);
+        }
+      });
+    }
+
+    if (retry.length > 0) {
+      await sleep(getRetryDelay(attempt, retryAfterMs));
+    }
+    pending = retry;
+  }
+
+  return results;
+};
@@ -1,61 +1,85 @@
 /**
  * Google Calendar API Integration
  * 
- * Handles direct Google Calendar API operations
- * Manages authentication and API calls
+ * Handles Google Calendar API operations
+ * Calls go through /api/calendar, which authenticates them server-side
  * 
- * Used by: CalendarSync.tsx, calendar sync store
- * Related: authStore.ts for authentication tokens
+ * Events are written in the user's configured time zone (CalendarSettings.timeZone);
+ * all-day events are read as whole days in that zone
+ * 
+ * Listing follows nextPageToken; syncEvents fetches only what changed since the
+ * last sync token, falling back to a full sync when Google expires it (410)
+ * 
+ * Requests retry rate limits and server errors and throw typed errors
+ * (calendarApiClient.ts); applyEventOperations sends bulk changes as batches.
+ * New events get an id chosen here, so a create can be retried: if an earlier
+ * attempt got through, Google answers 409 instead of adding a duplicate.
+ * 
+ * One of the calendar providers (calendarProviders.ts), and the only one with
+ * push notifications (watch channels)
+ * 
+ * Used by: calendarProviders.ts, useCalendarNotifications.ts, authStore.ts (stopWatching)
+ * Related: api/calendar/[...path]/route.ts (proxy), calendarStore.ts for settings
  */
 
-import { GoogleCalendarEvent, GoogleCalendar, SyncedCalendarEvent } from './CalendarSyncTypes';
+import { 
+  GoogleCalendarEvent, 
+  GoogleCalendar, 
+  SyncedCalendarEvent, 
+  CalendarChanges, 
+  CalendarEventOperation, 
+  CalendarEventOperationResult, 
+  CalendarProvider 
+} from './CalendarSyncTypes';
 import { Task } from '@/features/tasks/TaskTypes';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { resolveTimeZone, startOfZonedDateKey } from '@/features/calendar/timezone';
+import { CalendarApiError, CalendarConflictError, CalendarNotFoundError } from './calendarApiClient';
+import { BatchRequest, googleApiRequest, googleBatchRequest } from './googleApiClient';
+import { formatTaskDescription } from './taskEvents';
+
+// Marks events created from tasks, so synced copies can be matched back to them
+const TASK_SOURCE_TITLE = 'FlowMotion Task';
+
+const EVENTS_PAGE_SIZE = '250';
+
+// Event ids are 5-1024 characters of base32hex (0-9, a-v); a UUID's hex digits qualify
+const createEventId = (): string => crypto.randomUUID().replace(/-/g, '');
+
+// Our own id is taken: an earlier attempt at the same create went through
+const isAlreadyCreated = (error: unknown): boolean =>
+  error instanceof CalendarConflictError && error.status === 409;
 
-class GoogleCalendarService {
-  private baseUrl = 'https://www.googleapis.com/calendar/v3';
+export interface EventSyncResponse {
+  events: GoogleCalendarEvent[]; // on incremental syncs, includes cancelled (deleted) events
+  nextSyncToken?: string;
+  isFullSync: boolean; // true when everything was refetched and replaces what was stored
+}
+
+class GoogleCalendarService implements CalendarProvider {
+  readonly id = 'google' as const;
+  readonly name = 'Google Calendar';
+  readonly supportsPushNotifications = true;
+
+  private baseUrl = '/api/calendar'; // authenticated proxy to the Google Calendar API
 
   /**
-   * Get access token from session
+   * The user's configured time zone, falling back to the browser's
    */
-  private async getAccessToken(): Promise<string | null> {
-    try {
-      const response = await fetch('/api/auth/session');
-      const session = await response.json();
-      return session?.accessToken || null;
-    } catch (error) {
-      console.error('Failed to get access token:', error);
-      return null;
-    }
+  private getTimeZone(): string {
+    return resolveTimeZone(useCalendarStore.getState().settings.timeZone);
   }
 
   /**
-   * Make authenticated API request to Google Calendar
+   * Make API request to Google Calendar through the proxy, which adds the user's token.
+   * Transient failures are retried; others throw typed errors (googleApiClient.ts).
    */
   private async apiRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    idempotent?: boolean
   ): Promise<T> {
-    const token = await this.getAccessToken();
-    if (!token) {
-      throw new Error('No access token available');
-    }
-
-    const url = `${this.baseUrl}${endpoint}`;
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} ${errorText}`);
-    }
-
-    return response.json();
+    return googleApiRequest<T>(`${this.baseUrl}${endpoint}`, options, idempotent);
   }
 
   /**
@@ -63,7 +87,7 @@ class GoogleCalendarService {
    */
   async getCalendars(): Promise<GoogleCalendar[]> {
     try {
-      const response = await this.apiRequest<{ items: GoogleCalendar[] }>('/calendars');
+      const response = await this.apiRequest<{ items: GoogleCalendar[] }>('/users/me/calendarList');
       return response.items || [];
     } catch (error) {
       console.error('Failed to fetch calendars:', error);
@@ -71,6 +95,37 @@ class GoogleCalendarService {
     }
   }
 
+  /**
+   * List events across every page, returning the sync token from the last page
+   */
+  private async listAllEvents(
+    calendarId: string,
+    params: URLSearchParams
+  ): Promise<{ items: GoogleCalendarEvent[]; nextSyncToken?: string }> {
+    const items: GoogleCalendarEvent[] = [];
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+
+    do {
+      const pageParams = new URLSearchParams(params);
+      if (pageToken) {
+        pageParams.set('pageToken', pageToken);
+      }
+
+      const response = await this.apiRequest<{
+        items?: GoogleCalendarEvent[];
+        nextPageToken?: string;
+        nextSyncToken?: string;
+      }>(`/calendars/${encodeURIComponent(calendarId)}/events?${pageParams}`);
+
+      items.push(...(response.items || []));
+      pageToken = response.nextPageToken;
+      nextSyncToken = response.nextSyncToken;
+    } while (pageToken);
+
+    return { items, nextSyncToken };
+  }
+
   /**
    * Get calendar events within a date range
    */
@@ -83,7 +138,7 @@ class GoogleCalendarService {
       const params = new URLSearchParams({
         singleEvents: 'true',
         orderBy: 'startTime',
-        maxResults: '250',
+        maxResults: EVENTS_PAGE_SIZE,
       });
 
       if (timeMin) {
@@ -94,11 +149,8 @@ class GoogleCalendarService {
         params.append('timeMax', timeMax.toISOString());
       }
 
-      const response = await this.apiRequest<{ items: GoogleCalendarEvent[] }>(
-        `/calendars/${encodeURIComponent(calendarId)}/events?${params}`
-      );
-
-      return response.items || [];
+      const { items } = await this.listAllEvents(calendarId, params);
+      return items;
     } catch (error) {
       console.error('Failed to fetch calendar events:', error);
       throw error;
@@ -106,44 +158,119 @@ class GoogleCalendarService {
   }
 
   /**
-   * Create a calendar event from a task
+   * Get events changed since syncToken, or every event from timeMin onwards
+   * when there is no token or Google has expired it
    */
-  async createEventFromTask(
-    task: Task,
-    calendarId: string = 'primary'
-  ): Promise<GoogleCalendarEvent> {
+  async syncEvents(
+    calendarId: string = 'primary',
+    syncToken: string | undefined,
+    timeMin: Date
+  ): Promise<EventSyncResponse> {
+    // Sync tokens can't be combined with timeMin/timeMax or orderBy
+    const params = new URLSearchParams({
+      singleEvents: 'true',
+      maxResults: EVENTS_PAGE_SIZE,
+    });
+
+    if (syncToken) {
+      params.append('syncToken', syncToken);
+    } else {
+      params.append('timeMin', timeMin.toISOString());
+    }
+
+    try {
+      const { items, nextSyncToken } = await this.listAllEvents(calendarId, params);
+      return { events: items, nextSyncToken, isFullSync: !syncToken };
+    } catch (error) {
+      if (syncToken && error instanceof CalendarApiError && error.status === 410) {
+        console.warn('Calendar sync token expired, running a full sync');
+        return this.syncEvents(calendarId, undefined, timeMin);
+      }
+      console.error('Failed to sync calendar events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A calendar's changes since syncToken in FlowMotion's format;
+   * cancelled events are deletions
+   */
+  async syncCalendar(
+    calendar: GoogleCalendar,
+    syncToken: string | undefined,
+    timeMin: Date
+  ): Promise<CalendarChanges> {
+    const { events, nextSyncToken, isFullSync } = await this.syncEvents(calendar.id, syncToken, timeMin);
+
+    return {
+      changed: this.convertToSyncedEvents(events, calendar),
+      removedEventIds: isFullSync ? [] : events.filter(event => event.status === 'cancelled').map(event => event.id),
+      nextSyncToken,
+      isFullSync,
+    };
+  }
+
+  /**
+   * Event body for a task; only new events get an id and the source link back to the task
+   */
+  private buildTaskEvent(task: Task, isNew: boolean): Partial<GoogleCalendarEvent> {
     if (!task.scheduledStart || !task.scheduledEnd) {
-      throw new Error('Task must be scheduled to create calendar event');
+      throw new Error('Task must be scheduled to have a calendar event');
     }
 
     const event: Partial<GoogleCalendarEvent> = {
       summary: task.title,
-      description: this.formatTaskDescription(task),
+      description: formatTaskDescription(task),
       start: {
         dateTime: task.scheduledStart.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone: this.getTimeZone(),
       },
       end: {
         dateTime: task.scheduledEnd.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      source: {
-        title: 'FlowMotion Task',
-        url: `${window.location.origin}?task=${task.id}`,
+        timeZone: this.getTimeZone(),
       },
     };
 
+    if (isNew) {
+      event.id = createEventId();
+      event.source = {
+        title: TASK_SOURCE_TITLE,
+        url: `${window.location.origin}?task=${task.id}`,
+      };
+    }
+
+    return event;
+  }
+
+  private getEventPath(calendarId: string, eventId?: string): string {
+    const eventsPath = `/calendars/${encodeURIComponent(calendarId)}/events`;
+    return eventId ? `${eventsPath}/${encodeURIComponent(eventId)}` : eventsPath;
+  }
+
+  /**
+   * Create a calendar event from a task
+   */
+  async createEventFromTask(
+    task: Task,
+    calendarId: string = 'primary'
+  ): Promise<GoogleCalendarEvent> {
+    const event = this.buildTaskEvent(task, true);
+
     try {
       const response = await this.apiRequest<GoogleCalendarEvent>(
-        `/calendars/${encodeURIComponent(calendarId)}/events`,
+        this.getEventPath(calendarId),
         {
           method: 'POST',
           body: JSON.stringify(event),
-        }
+        },
+        true
       );
 
       return response;
     } catch (error) {
+      if (isAlreadyCreated(error)) {
+        return this.apiRequest<GoogleCalendarEvent>(this.getEventPath(calendarId, event.id));
+      }
       console.error('Failed to create calendar event:', error);
       throw error;
     }
@@ -157,28 +284,13 @@ class GoogleCalendarService {
     task: Task,
     calendarId: string = 'primary'
   ): Promise<GoogleCalendarEvent> {
-    if (!task.scheduledStart || !task.scheduledEnd) {
-      throw new Error('Task must be scheduled to update calendar event');
-    }
-
-    const event: Partial<GoogleCalendarEvent> = {
-      summary: task.title,
-      description: this.formatTaskDescription(task),
-      start: {
-        dateTime: task.scheduledStart.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: task.scheduledEnd.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-    };
+    const event = this.buildTaskEvent(task, false);
 
     try {
       const response = await this.apiRequest<GoogleCalendarEvent>(
-        `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+        this.getEventPath(calendarId, eventId),
         {
-          method: 'PUT',
+          method: 'PATCH',
           body: JSON.stringify(event),
         }
       );
@@ -191,7 +303,7 @@ class GoogleCalendarService {
   }
 
   /**
-   * Delete a calendar event
+   * Delete a calendar event; events that are already gone count as deleted
    */
   async deleteEvent(
     eventId: string,
@@ -199,17 +311,68 @@ class GoogleCalendarService {
   ): Promise<void> {
     try {
       await this.apiRequest(
-        `/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+        this.getEventPath(calendarId, eventId),
         {
           method: 'DELETE',
         }
       );
     } catch (error) {
+      if (error instanceof CalendarNotFoundError) return;
       console.error('Failed to delete calendar event:', error);
       throw error;
     }
   }
 
+  /**
+   * Create, update and delete many events in batch requests.
+   * Results are in operation order; deletes of missing events and creates
+   * that an earlier attempt already made succeed.
+   */
+  async applyEventOperations(
+    operations: CalendarEventOperation[],
+    calendarId: string = 'primary'
+  ): Promise<CalendarEventOperationResult[]> {
+    if (operations.length === 0) return [];
+
+    const requests: BatchRequest[] = operations.map(operation => {
+      switch (operation.type) {
+        case 'create':
+          return { method: 'POST', path: this.getEventPath(calendarId), body: this.buildTaskEvent(operation.task, true), idempotent: true };
+        case 'update':
+          return { method: 'PATCH', path: this.getEventPath(calendarId, operation.eventId), body: this.buildTaskEvent(operation.task, false) };
+        case 'delete':
+          return { method: 'DELETE', path: this.getEventPath(calendarId, operation.eventId) };
+      }
+    });
+
+    const results = await googleBatchRequest<GoogleCalendarEvent>(`${this.baseUrl}/batch`, '/calendar/v3', requests);
+    return results.map((result, index): CalendarEventOperationResult => {
+      if (result.ok) return { ok: true, eventId: result.data?.id };
+      if (operations[index].type === 'create' && isAlreadyCreated(result.error)) {
+        return { ok: true, eventId: (requests[index].body as Partial<GoogleCalendarEvent>).id };
+      }
+      return operations[index].type === 'delete' && result.error instanceof CalendarNotFoundError
+        ? { ok: true }
+        : result;
+    });
+  }
+
+  /**
+   * Ask Google to notify the server when these calendars change (watch channels),
+   * which then syncs them; changes to taskCalendarId also move tasks.
+   * Calendars left out stop being watched.
+   */
+  async watchCalendars(calendarIds: string[], taskCalendarId?: string): Promise<{ errors: string[] }> {
+    return this.apiRequest<{ errors: string[] }>('/watch', {
+      method: 'POST',
+      body: JSON.stringify({ calendarIds, taskCalendarId }),
+    });
+  }
+
+  async stopWatching(): Promise<void> {
+    await this.apiRequest('/watch', { method: 'DELETE' });
+  }
+
   /**
    * Convert Google Calendar events to our calendar event format
    */
@@ -220,24 +383,32 @@ class GoogleCalendarService {
     return googleEvents
       .filter(event => event.status !== 'cancelled')
       .map(event => {
+        // dateTime carries its own offset; all-day dates are whole days in the user's zone
+        // (Google's end date is exclusive, so it's the midnight the event ends at)
+        const timeZone = this.getTimeZone();
         const start = event.start.dateTime 
           ? new Date(event.start.dateTime)
-          : new Date(event.start.date + 'T00:00:00');
+          : startOfZonedDateKey(event.start.date!, timeZone);
         
         const end = event.end.dateTime
           ? new Date(event.end.dateTime)
-          : new Date(event.end.date + 'T23:59:59');
+          : startOfZonedDateKey(event.end.date!, timeZone);
 
         return {
           id: `google-${event.id}`,
           googleEventId: event.id,
+          iCalUID: event.iCalUID,
           title: event.summary || 'Untitled Event',
           start,
           end,
           isAllDay: !!event.start.date,
           calendarId: calendar.id,
           calendarName: calendar.summary,
+          calendarColor: calendar.backgroundColor,
           status: event.status,
+          transparency: event.transparency || 'opaque',
+          taskId: this.getSourceTaskId(event),
+          updatedAt: event.updated ? new Date(event.updated) : undefined,
           isFromGoogleCalendar: true as const,
           type: this.categorizeEvent(event),
           description: event.description,
@@ -246,6 +417,19 @@ class GoogleCalendarService {
       });
   }
 
+  /**
+   * Task id of an event created by createEventFromTask, read back from its source link
+   */
+  private getSourceTaskId(event: GoogleCalendarEvent): string | undefined {
+    if (event.source?.title !== TASK_SOURCE_TITLE) return undefined;
+    
+    try {
+      return new URL(event.source.url).searchParams.get('task') || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Categorize event type based on Google Calendar event data
    */
@@ -261,29 +445,6 @@ class GoogleCalendarService {
     return 'event';
   }
 
-  /**
-   * Format task description for Google Calendar
-   */
-  private formatTaskDescription(task: Task): string {
-    let description = '';
-    
-    if (task.description) {
-      description += task.description + '\n\n';
-    }
-    
-    description += `Priority: ${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}\n`;
-    description += `Category: ${task.category}\n`;
-    description += `Duration: ${task.estimatedDuration} minutes\n`;
-    
-    if (task.deadline) {
-      description += `Deadline: ${task.deadline.toLocaleDateString()}\n`;
-    }
-    
-    description += '\n---\nCreated by FlowMotion';
-    
-    return description;
-  }
-
   /**
    * Check if the user has granted calendar permissions
    */
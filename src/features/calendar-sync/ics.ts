@@ -0,0 +1,415 @@
+/**
+ * iCalendar (RFC 5545) Parsing and Writing
+ *
+ * Reads and writes iCalendar data as a tree of components (VCALENDAR, VEVENT, ...)
+ * with their properties, so unknown properties survive a read-modify-write:
+ * - Content lines are unfolded on read and folded at 75 octets on write
+ * - TEXT values are escaped/unescaped (\\ \; \, \n)
+ * - DATE and DATE-TIME values are read as UTC, TZID-local or floating times;
+ *   floating times and unknown TZIDs use the given time zone
+ * - RRULEs convert to and from RecurringPattern; rules it can't express
+ *   (yearly, "second Tuesday", ...) are reported as unsupported
+ *
+ * Used by: caldavCalendar.ts, icsExport.ts, icsImport.ts
+ * Related: timezone.ts (TZID conversion), recurrence.ts
+ */
+
+import { RecurringPattern } from '@/features/calendar/CalendarTypes';
+import { getNextOccurrence } from '@/features/calendar/recurrence';
+import {
+  endOfZonedDay,
+  getZonedDateKey,
+  getZonedParts,
+  isValidTimeZone,
+  startOfZonedDateKey,
+  zonedTimeToUtc,
+} from '@/features/calendar/timezone';
+
+export interface ICalProperty {
+  name: string; // upper case, e.g. 'DTSTART'
+  params: Record<string, string>; // upper-case names, e.g. { TZID: 'Europe/Berlin' }
+  value: string; // raw value, still escaped for TEXT properties
+}
+
+export interface ICalComponent {
+  name: string; // upper case, e.g. 'VEVENT'
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export interface ICalDate {
+  date: Date;
+  isAllDay: boolean; // a DATE value rather than a DATE-TIME
+}
+
+const MAX_LINE_OCTETS = 75;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// COUNT is turned into an end date by walking the occurrences; give up past this
+const MAX_RRULE_COUNT = 1000;
+
+// ============================================================================
+// TEXT VALUES
+// ============================================================================
+
+export const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+
+const unquote = (value: string) =>
+  value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+/**
+ * One content line: NAME;PARAM=value;PARAM="quoted:value":VALUE
+ */
+const parseContentLine = (line: string): ICalProperty | null => {
+  let inQuotes = false;
+  let valueStart = -1;
+  const separators: number[] = [];
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    if (char === ';') separators.push(i);
+    if (char === ':') {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart < 0) return null;
+
+  const nameEnd = separators[0] ?? valueStart;
+  const bounds = [...separators, valueStart];
+  const params: Record<string, string> = {};
+  for (let i = 0; i < separators.length; i++) {
+    const param = line.slice(bounds[i] + 1, bounds[i + 1]);
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = unquote(param.slice(equals + 1));
+    }
+  }
+
+  return {
+    name: line.slice(0, nameEnd).toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1),
+  };
+};
+
+/**
+ * Top-level components in the text, usually a single VCALENDAR.
+ * Malformed lines are skipped; unclosed components are closed at the end.
+ */
+export const parseICal = (text: string): ICalComponent[] => {
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      (stack.length > 0 ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const index = stack.map(component => component.name).lastIndexOf(property.value.trim().toUpperCase());
+      if (index >= 0) stack.length = index;
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return roots;
+};
+
+/**
+ * Every component with the given name, at any depth
+ */
+export const findComponents = (components: ICalComponent[], name: string): ICalComponent[] =>
+  components.flatMap(component => [
+    ...(component.name === name ? [component] : []),
+    ...findComponents(component.components, name),
+  ]);
+
+export const getProperty = (component: ICalComponent, name: string): ICalProperty | undefined =>
+  component.properties.find(property => property.name === name);
+
+/**
+ * Unescaped value of a TEXT property such as SUMMARY or DESCRIPTION
+ */
+export const getText = (component: ICalComponent, name: string): string | undefined => {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+};
+
+/**
+ * Replace every property with this name by a single one
+ */
+export const setProperty = (
+  component: ICalComponent,
+  name: string,
+  value: string,
+  params: Record<string, string> = {}
+): void => {
+  const index = component.properties.findIndex(property => property.name === name);
+  const property = { name, params, value };
+  removeProperty(component, name);
+
+  if (index >= 0) {
+    component.properties.splice(index, 0, property);
+  } else {
+    component.properties.push(property);
+  }
+};
+
+export const removeProperty = (component: ICalComponent, name: string): void => {
+  component.properties = component.properties.filter(property => property.name !== name);
+};
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Zone a DATE-TIME property's wall-clock time is in: UTC, its TZID, or for
+ * floating times (and zones Intl doesn't know) the user's
+ */
+export const getICalTimeZone = (property: ICalProperty, timeZone: string): string => {
+  if (property.value.trim().endsWith('Z')) return 'UTC';
+  const tzid = property.params.TZID;
+  return tzid && isValidTimeZone(tzid) ? tzid : timeZone;
+};
+
+/**
+ * Instant of a DTSTART/DTEND-style property. All-day dates start at midnight in timeZone.
+ */
+export const parseICalDate = (property: ICalProperty | undefined, timeZone: string): ICalDate | null => {
+  if (!property) return null;
+
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours || property.params.VALUE === 'DATE') {
+    return { date: startOfZonedDateKey(`${year}-${month}-${day}`, timeZone), isAllDay: true };
+  }
+
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)),
+      isAllDay: false,
+    };
+  }
+
+  const zone = getICalTimeZone(property, timeZone);
+
+  const date = zonedTimeToUtc({ year: +year, month: +month, day: +day, hours: +hours, minutes: +minutes }, zone);
+  return { date: new Date(date.getTime() + +seconds * 1000), isAllDay: false };
+};
+
+/**
+ * Length of a DURATION value in milliseconds, e.g. PT1H30M or P1D
+ */
+export const parseICalDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    (+(weeks || 0) * 7 + +(days || 0)) * 86400 +
+    +(hours || 0) * 3600 +
+    +(minutes || 0) * 60 +
+    +(seconds || 0);
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+};
+
+/**
+ * UTC DATE-TIME value, e.g. 20250314T090000Z
+ */
+export const formatICalDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Wall-clock DATE-TIME value in a zone, for use with TZID, e.g. 20250314T090000
+ */
+export const formatICalLocalDateTime = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}` +
+    `T${pad(parts.hours)}${pad(parts.minutes)}${pad(parts.seconds)}`;
+};
+
+/**
+ * DATE value of the zone's calendar day, e.g. 20250314
+ */
+export const formatICalDate = (date: Date, timeZone: string): string =>
+  getZonedDateKey(date, timeZone).replace(/-/g, '');
+
+// ============================================================================
+// RECURRENCE RULES
+// ============================================================================
+
+/**
+ * RRULE value for a pattern repeating in `timeZone`. Exceptions aren't part
+ * of the rule (see EXDATE).
+ */
+export const formatRRule = (pattern: RecurringPattern, timeZone: string): string => {
+  const parts = [`FREQ=${pattern.frequency.toUpperCase()}`];
+
+  if (pattern.interval > 1) {
+    parts.push(`INTERVAL=${pattern.interval}`);
+  }
+  if (pattern.frequency === 'weekly' && pattern.daysOfWeek?.length) {
+    parts.push(`BYDAY=${[...pattern.daysOfWeek].sort().map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (pattern.endDate) {
+    // recurrence.ts ends a series after the end date's last moment in the zone
+    parts.push(`UNTIL=${formatICalDateTime(endOfZonedDay(pattern.endDate, timeZone))}`);
+  }
+
+  return parts.join(';');
+};
+
+export type ParsedRRule =
+  | { pattern: RecurringPattern; unsupported?: undefined }
+  | { pattern?: undefined; unsupported: string }; // why it can't be imported as is
+
+/**
+ * RecurringPattern for an RRULE whose series starts at `start`, a wall-clock
+ * time in `timeZone` (see getICalTimeZone). RecurringPattern weekdays are
+ * in the zone the pattern repeats in (recurrence.ts), so BYDAY days are
+ * moved to match.
+ */
+export const parseRRule = (
+  value: string,
+  start: Date,
+  timeZone: string,
+  patternTimeZone: string // the user's, which recurrence.ts expands in
+): ParsedRRule => {
+  const rule: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [name, ruleValue] = part.split('=');
+    if (name && ruleValue) rule[name.trim().toUpperCase()] = ruleValue.trim().toUpperCase();
+  });
+
+  const frequency = rule.FREQ?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly') {
+    return { unsupported: `Repeats ${frequency || 'in an unknown way'}` };
+  }
+
+  const unknownParts = Object.keys(rule)
+    .filter(name => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'].includes(name));
+  if (unknownParts.length > 0) {
+    return { unsupported: `Uses ${unknownParts.join(', ')} in its repeat rule` };
+  }
+
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1') || 1);
+  const pattern: RecurringPattern = { frequency, interval };
+
+  if (rule.BYDAY) {
+    const days = rule.BYDAY.split(',').map(code => WEEKDAY_CODES.indexOf(code));
+    if (days.includes(-1)) {
+      return { unsupported: 'Repeats on a weekday of the month' }; // e.g. 2TU, -1FR
+    }
+    if (frequency === 'monthly' || (frequency === 'daily' && interval > 1)) {
+      return { unsupported: `Repeats ${frequency} on certain weekdays` };
+    }
+    // Daily on some weekdays is weekly on those days
+    const shift = getZonedParts(start, patternTimeZone).dayOfWeek - getZonedParts(start, timeZone).dayOfWeek;
+    pattern.frequency = 'weekly';
+    pattern.daysOfWeek = days.map(day => (day + shift + 7) % 7).sort();
+  }
+
+  if (rule.BYMONTHDAY && (frequency !== 'monthly' || parseInt(rule.BYMONTHDAY) !== getZonedParts(start, timeZone).day)) {
+    return { unsupported: 'Repeats on days of the month other than its first date' };
+  }
+
+  if (rule.UNTIL) {
+    const until = parseICalDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }, timeZone);
+    if (!until) return { unsupported: 'Has an unreadable end date' };
+    pattern.endDate = until.date;
+  } else if (rule.COUNT) {
+    const count = parseInt(rule.COUNT);
+    if (!(count > 0) || count > MAX_RRULE_COUNT) {
+      return { unsupported: `Repeats ${rule.COUNT} times` };
+    }
+    let last = start;
+    for (let i = 1; i < count; i++) {
+      const next = getNextOccurrence(start, pattern, last, patternTimeZone);
+      if (!next) break;
+      last = next;
+    }
+    pattern.endDate = last;
+  }
+
+  return { pattern };
+};
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+const quoteParam = (value: string) => (/[;:,]/.test(value) ? `"${value}"` : value);
+
+// Continuation lines start with a space, which counts towards their 75 octets
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  return [...lines, current].join('\r\n');
+};
+
+const serializeProperty = (property: ICalProperty): string => {
+  const params = Object.entries(property.params)
+    .map(([name, value]) => `;${name}=${quoteParam(value)}`)
+    .join('');
+  return foldLine(`${property.name}${params}:${property.value}`);
+};
+
+const serializeComponent = (component: ICalComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(serializeProperty),
+  ...component.components.flatMap(serializeComponent),
+  `END:${component.name}`,
+];
+
+/**
+ * iCalendar text for a component, with CRLF line endings
+ */
+export const serializeICal = (component: ICalComponent): string =>
+  `${serializeComponent(component).join('\r\n')}\r\n`;
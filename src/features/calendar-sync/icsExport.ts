@@ -0,0 +1,227 @@
+/**
+ * iCalendar Export
+ *
+ * Turns tasks and time blocks into an .ics file other calendar apps can open:
+ * - Scheduled tasks become VEVENTs at their scheduled time
+ * - Unscheduled tasks with a deadline (or a due occurrence) become VTODOs due then
+ * - Time blocks become VEVENTs; 'work' blocks show as free time
+ * - Priority, category and status travel as PRIORITY, CATEGORIES and STATUS,
+ *   plus X-FLOWMOTION-* properties for what iCalendar has no field for
+ * - Recurring tasks and blocks carry an RRULE, with EXDATEs for skipped dates.
+ *   Their times are written with a TZID (the user's time zone, without a
+ *   VTIMEZONE) so occurrences keep their wall-clock time across DST changes.
+ * - busyOnly (for shared feeds) keeps only busy time, titled "Busy", without
+ *   descriptions or FlowMotion's fields: no to-dos and no 'work' blocks
+ *
+ * UIDs are stable, so importing an export again updates rather than duplicates.
+ * Free of browser and store dependencies, so it can run on the server too.
+ *
+ * Used by: IcsImportExport.tsx, icsImport.ts (UIDs for dedupe), calendarFeeds.ts
+ * Related: ics.ts, icsImport.ts (the reverse mapping)
+ */
+
+import { Task, DEFAULT_CATEGORIES } from '@/features/tasks/TaskTypes';
+import { RecurringPattern, TimeBlock } from '@/features/calendar/CalendarTypes';
+import { getZonedParts, setZonedTime } from '@/features/calendar/timezone';
+import {
+  ICalComponent,
+  ICalProperty,
+  escapeText,
+  formatICalDateTime,
+  formatICalLocalDateTime,
+  formatRRule,
+  serializeICal,
+} from './ics';
+
+export interface ICalExportOptions {
+  timeZone: string; // zone recurring items repeat in
+  timeBlocks?: TimeBlock[]; // omit to export tasks only
+  calendarName?: string;
+  busyOnly?: boolean;
+  stamp?: Date; // DTSTAMP of every item, defaults to now
+  refreshMinutes?: number; // how often subscribed clients should re-fetch
+}
+
+const BUSY_TITLE = 'Busy';
+
+// Properties iCalendar has no equivalent for, read back by icsImport.ts
+export const ICAL_STATUS_PROPERTY = 'X-FLOWMOTION-STATUS';
+export const ICAL_DURATION_PROPERTY = 'X-FLOWMOTION-DURATION'; // estimated minutes
+export const ICAL_FLEXIBLE_PROPERTY = 'X-FLOWMOTION-FLEXIBLE';
+export const ICAL_BLOCK_TYPE_PROPERTY = 'X-FLOWMOTION-BLOCK-TYPE';
+
+const UID_DOMAIN = 'flowmotion';
+
+// RFC 5545 PRIORITY: 1 is highest, 9 lowest
+const PRIORITY_VALUES: Record<Task['priority'], number> = { high: 1, medium: 5, low: 9 };
+
+const TODO_STATUS: Record<Task['status'], string> = {
+  todo: 'NEEDS-ACTION',
+  'in-progress': 'IN-PROCESS',
+  completed: 'COMPLETED',
+};
+
+/**
+ * UID of a task's iCalendar item: the one it was imported with, if any
+ */
+export const getTaskUid = (task: Task): string => task.iCalUid || `${task.id}@${UID_DOMAIN}`;
+
+export const getTimeBlockUid = (block: TimeBlock): string => block.iCalUid || `block-${block.id}@${UID_DOMAIN}`;
+
+// ============================================================================
+// PROPERTIES
+// ============================================================================
+
+const property = (name: string, value: string, params: Record<string, string> = {}): ICalProperty =>
+  ({ name, params, value });
+
+/**
+ * DTSTART-style property: UTC for one-off items, wall-clock time in the zone for recurring ones
+ */
+const dateTimeProperty = (name: string, date: Date, isRecurring: boolean, timeZone: string): ICalProperty =>
+  isRecurring
+    ? property(name, formatICalLocalDateTime(date, timeZone), { TZID: timeZone })
+    : property(name, formatICalDateTime(date));
+
+/**
+ * RRULE plus an EXDATE for the skipped dates. Occurrences start at the
+ * anchor's wall-clock time in the zone (see recurrence.ts), so exceptions do too.
+ */
+const recurrenceProperties = (anchor: Date, pattern: RecurringPattern, timeZone: string): ICalProperty[] => {
+  const properties = [property('RRULE', formatRRule(pattern, timeZone))];
+
+  if (pattern.exceptions?.length) {
+    const { hours, minutes } = getZonedParts(anchor, timeZone);
+    const time = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+    const values = pattern.exceptions.map(exception =>
+      formatICalLocalDateTime(setZonedTime(exception, time, timeZone), timeZone)
+    );
+    properties.push(property('EXDATE', values.join(','), { TZID: timeZone }));
+  }
+
+  return properties;
+};
+
+const getCategoryName = (category: string): string =>
+  DEFAULT_CATEGORIES.find(known => known.id === category)?.name || category;
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+/**
+ * VEVENT for a scheduled task, VTODO for one with a due date, null otherwise
+ */
+const taskToComponent = (task: Task, options: ICalExportOptions, stamp: string): ICalComponent | null => {
+  const { timeZone, busyOnly } = options;
+  const isScheduled = !!task.scheduledStart && !!task.scheduledEnd;
+  const due = task.deadline || (task.recurrence ? task.occurrenceDate || task.recurrence.startDate : undefined);
+  if (!isScheduled && (!due || busyOnly)) return null;
+
+  const isRecurring = !!task.recurrence;
+  const properties: ICalProperty[] = [
+    property('UID', getTaskUid(task)),
+    property('DTSTAMP', stamp),
+    property('CREATED', formatICalDateTime(task.createdAt)),
+    property('LAST-MODIFIED', formatICalDateTime(task.updatedAt)),
+    property('SUMMARY', escapeText(busyOnly ? BUSY_TITLE : task.title)),
+  ];
+
+  if (task.description && !busyOnly) {
+    properties.push(property('DESCRIPTION', escapeText(task.description)));
+  }
+
+  if (isScheduled) {
+    properties.push(
+      dateTimeProperty('DTSTART', task.scheduledStart!, isRecurring, timeZone),
+      dateTimeProperty('DTEND', task.scheduledEnd!, isRecurring, timeZone),
+      property('STATUS', 'CONFIRMED')
+    );
+  } else {
+    properties.push(
+      dateTimeProperty('DUE', due!, isRecurring, timeZone),
+      property('STATUS', TODO_STATUS[task.status])
+    );
+  }
+
+  if (busyOnly) {
+    properties.push(property('CLASS', 'PRIVATE'));
+  } else {
+    properties.push(
+      ...(isScheduled ? [property(ICAL_STATUS_PROPERTY, task.status)] : []),
+      property('PRIORITY', String(PRIORITY_VALUES[task.priority])),
+      property('CATEGORIES', escapeText(getCategoryName(task.category))),
+      property(ICAL_DURATION_PROPERTY, String(task.estimatedDuration)),
+      property(ICAL_FLEXIBLE_PROPERTY, task.isFlexible ? 'TRUE' : 'FALSE')
+    );
+  }
+
+  if (task.recurrence) {
+    properties.push(...recurrenceProperties(isScheduled ? task.scheduledStart! : due!, task.recurrence, timeZone));
+  }
+
+  return { name: isScheduled ? 'VEVENT' : 'VTODO', properties, components: [] };
+};
+
+const timeBlockToComponent = (block: TimeBlock, options: ICalExportOptions, stamp: string): ICalComponent | null => {
+  const { timeZone, busyOnly } = options;
+  // Work blocks are time set aside for tasks, not busy time
+  const isBusy = block.type !== 'work';
+  if (busyOnly && !isBusy) return null;
+
+  const isRecurring = block.isRecurring && !!block.recurringPattern;
+  const properties: ICalProperty[] = [
+    property('UID', getTimeBlockUid(block)),
+    property('DTSTAMP', stamp),
+    property('SUMMARY', escapeText(busyOnly ? BUSY_TITLE : block.title)),
+    dateTimeProperty('DTSTART', block.start, isRecurring, timeZone),
+    dateTimeProperty('DTEND', block.end, isRecurring, timeZone),
+    property('TRANSP', isBusy ? 'OPAQUE' : 'TRANSPARENT'),
+  ];
+
+  if (busyOnly) {
+    properties.push(property('CLASS', 'PRIVATE'));
+  } else {
+    properties.push(property(ICAL_BLOCK_TYPE_PROPERTY, block.type));
+    if (block.description) {
+      properties.push(property('DESCRIPTION', escapeText(block.description)));
+    }
+  }
+
+  if (isRecurring) {
+    properties.push(...recurrenceProperties(block.start, block.recurringPattern!, timeZone));
+  }
+
+  return { name: 'VEVENT', properties, components: [] };
+};
+
+/**
+ * The .ics text for the tasks (and time blocks) that have a time or a due date
+ */
+export const exportToICal = (tasks: Task[], options: ICalExportOptions): string => {
+  const stamp = formatICalDateTime(options.stamp || new Date());
+
+  const components = [
+    ...tasks.map(task => taskToComponent(task, options, stamp)),
+    ...(options.timeBlocks || []).map(block => timeBlockToComponent(block, options, stamp)),
+  ].filter((component): component is ICalComponent => !!component);
+
+  const properties = [
+    property('VERSION', '2.0'),
+    property('PRODID', '-//FlowMotion//FlowMotion//EN'),
+    property('CALSCALE', 'GREGORIAN'),
+    property('X-WR-CALNAME', escapeText(options.calendarName || 'FlowMotion')),
+    property('X-WR-TIMEZONE', options.timeZone),
+  ];
+
+  if (options.refreshMinutes) {
+    // RFC 7986, plus the older name Outlook reads
+    const interval = `PT${options.refreshMinutes}M`;
+    properties.push(
+      property('REFRESH-INTERVAL', interval, { VALUE: 'DURATION' }),
+      property('X-PUBLISHED-TTL', interval)
+    );
+  }
+
+  return serializeICal({ name: 'VCALENDAR', properties, components });
+};
@@ -0,0 +1,199 @@
+/**
+ * iCalendar Import Tests
+ *
+ * Round trips through icsExport.ts: tasks and time blocks read back with the
+ * same fields, recurring ones with the same occurrences across a DST change,
+ * and an export imported again matched to what it came from. The process
+ * runs in another zone so the browser's zone can't leak in.
+ */
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ICalImportContext, readICalImport } from './icsImport';
+import { exportToICal } from './icsExport';
+import { expandRecurrence } from '@/features/calendar/recurrence';
+import { RecurringPattern, TimeBlock } from '@/features/calendar/CalendarTypes';
+import { Task } from '@/features/tasks/TaskTypes';
+
+process.env.TZ = 'Asia/Tokyo';
+
+const ZONE = 'America/New_York';
+const NOW = new Date('2025-03-01T00:00:00Z'); // a week before New York's DST change
+
+const task = (id: string, fields: Partial<Task>): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  estimatedDuration: 60,
+  category: 'work',
+  status: 'todo',
+  createdAt: NOW,
+  updatedAt: NOW,
+  isFlexible: true,
+  ...fields,
+});
+
+const tasks: Task[] = [
+  task('launch', {
+    title: 'Plan; review, ship\nlaunch',
+    description: 'Line one\nLine, two',
+    priority: 'high',
+    estimatedDuration: 120, // longer than its slot, e.g. split
+    status: 'in-progress',
+    scheduledStart: new Date('2025-03-03T14:00:00Z'),
+    scheduledEnd: new Date('2025-03-03T15:30:00Z'),
+  }),
+  task('taxes', {
+    title: 'Taxes',
+    priority: 'low',
+    estimatedDuration: 45,
+    category: 'personal',
+    deadline: new Date('2025-04-15T21:00:00Z'),
+  }),
+  task('stretch', {
+    title: 'Stretch',
+    estimatedDuration: 15,
+    category: 'health',
+    isFlexible: false,
+    scheduledStart: new Date('2025-03-03T12:00:00Z'), // 07:00 EST
+    scheduledEnd: new Date('2025-03-03T12:15:00Z'),
+    recurrence: {
+      frequency: 'daily',
+      interval: 2,
+      endDate: new Date('2025-03-20T04:00:00Z'),
+      startDate: new Date('2025-03-03T12:00:00Z'),
+    },
+  }),
+];
+
+const timeBlocks: TimeBlock[] = [
+  {
+    id: 'standup',
+    title: 'Stand-up',
+    start: new Date('2025-03-03T14:00:00Z'), // 09:00 EST
+    end: new Date('2025-03-03T14:15:00Z'),
+    type: 'meeting',
+    color: '#10b981',
+    isRecurring: true,
+    recurringPattern: { frequency: 'weekly', interval: 1, daysOfWeek: [1, 3], exceptions: [new Date('2025-03-12T13:00:00Z')] },
+  },
+  {
+    id: 'deep-work',
+    title: 'Deep work',
+    start: new Date('2025-03-04T14:00:00Z'),
+    end: new Date('2025-03-04T17:00:00Z'),
+    type: 'work',
+    color: '#3b82f6',
+    isRecurring: false,
+  },
+];
+
+const context: ICalImportContext = { tasks: [], timeBlocks: [], timeZone: ZONE, defaultTaskDuration: 60 };
+
+const roundTrip = (importContext = context) =>
+  readICalImport(exportToICal(tasks, { timeZone: ZONE, timeBlocks, stamp: NOW }), importContext);
+
+const itemFor = (uid: string) => {
+  const item = roundTrip().find(imported => imported.uid === uid);
+  assert.ok(item, `${uid} wasn't imported`);
+  return item;
+};
+
+// Occurrence starts over March, across the DST change on the 9th
+const occurrences = (start: Date, end: Date, pattern: RecurringPattern) =>
+  expandRecurrence(start, end, pattern, NOW, new Date('2025-04-01T00:00:00Z'), ZONE)
+    .map(occurrence => occurrence.start.toISOString());
+
+describe('iCalendar export and import', () => {
+  before(() => mock.timers.enable({ apis: ['Date'], now: NOW }));
+  after(() => mock.timers.reset());
+
+  it('reads back every task and block once', () => {
+    assert.deepEqual(roundTrip().map(item => item.uid).sort(), [
+      'block-deep-work@flowmotion',
+      'block-standup@flowmotion',
+      'launch@flowmotion',
+      'stretch@flowmotion',
+      'taxes@flowmotion',
+    ]);
+  });
+
+  it('keeps the fields of scheduled tasks', () => {
+    const item = itemFor('launch@flowmotion');
+
+    assert.equal(item.suggestedKind, 'task');
+    assert.deepEqual(item.task, {
+      title: 'Plan; review, ship\nlaunch',
+      description: 'Line one\nLine, two',
+      priority: 'high',
+      estimatedDuration: 120,
+      deadline: undefined,
+      category: 'work',
+      status: 'in-progress',
+      scheduledStart: new Date('2025-03-03T14:00:00Z'),
+      scheduledEnd: new Date('2025-03-03T15:30:00Z'),
+      isFlexible: true,
+      syncToCalendar: false,
+      iCalUid: 'launch@flowmotion',
+    });
+  });
+
+  it('keeps unscheduled tasks as to-dos due at their deadline', () => {
+    const item = itemFor('taxes@flowmotion');
+
+    assert.equal(item.source, 'VTODO');
+    assert.equal(item.suggestedKind, 'task');
+    assert.deepEqual(
+      [item.task.deadline, item.task.priority, item.task.category, item.task.estimatedDuration, item.task.scheduledStart],
+      [new Date('2025-04-15T21:00:00Z'), 'low', 'personal', 45, undefined]
+    );
+  });
+
+  it('keeps the occurrences of recurring tasks, up to their end date', () => {
+    const original = tasks.find(original => original.id === 'stretch')!;
+    const item = itemFor('stretch@flowmotion');
+
+    assert.equal(item.task.isFlexible, false);
+    assert.deepEqual(
+      occurrences(item.task.scheduledStart!, item.task.scheduledEnd!, item.task.recurrence!),
+      occurrences(original.scheduledStart!, original.scheduledEnd!, original.recurrence!)
+    );
+  });
+
+  it('keeps the type, times and skipped dates of recurring blocks', () => {
+    const original = timeBlocks[0];
+    const { timeBlock, suggestedKind } = itemFor('block-standup@flowmotion');
+    const imported = occurrences(timeBlock!.start, timeBlock!.end, timeBlock!.recurringPattern!);
+
+    assert.equal(suggestedKind, 'timeBlock');
+    assert.equal(timeBlock!.type, 'meeting');
+    assert.deepEqual(imported, occurrences(original.start, original.end, original.recurringPattern!));
+    // Still 09:00 after the change, without the 12th
+    assert.ok(imported.includes('2025-03-10T13:00:00.000Z'));
+    assert.ok(!imported.includes('2025-03-12T13:00:00.000Z'));
+  });
+
+  it('keeps work blocks as free time', () => {
+    const { timeBlock } = itemFor('block-deep-work@flowmotion');
+
+    assert.deepEqual(
+      [timeBlock!.type, timeBlock!.start, timeBlock!.end],
+      ['work', new Date('2025-03-04T14:00:00Z'), new Date('2025-03-04T17:00:00Z')]
+    );
+  });
+
+  it('matches an export imported again to the tasks and blocks it came from', () => {
+    const items = roundTrip({ ...context, tasks, timeBlocks });
+
+    assert.deepEqual(
+      Object.fromEntries(items.map(item => [item.uid, item.existing])),
+      {
+        'launch@flowmotion': { kind: 'task', id: 'launch' },
+        'taxes@flowmotion': { kind: 'task', id: 'taxes' },
+        'stretch@flowmotion': { kind: 'task', id: 'stretch' },
+        'block-standup@flowmotion': { kind: 'timeBlock', id: 'standup' },
+        'block-deep-work@flowmotion': { kind: 'timeBlock', id: 'deep-work' },
+      }
+    );
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * iCalendar Import
+ *
+ * Reads an .ics file into items the user previews before anything is saved:
+ * - VTODOs become tasks due at DUE (or DTSTART)
+ * - VEVENTs become either tasks at their time, or busy time blocks
+ *   (the default, except for events FlowMotion exported as tasks)
+ * - PRIORITY, CATEGORIES, STATUS and the X-FLOWMOTION-* properties from
+ *   icsExport.ts are read back; RRULE/EXDATE become a repeat pattern
+ * - Each item is matched by UID against existing tasks and blocks (imported
+ *   ones by their stored UID, FlowMotion's own by the UID it exports), so an
+ *   item imported before is offered as an update instead of a duplicate
+ *
+ * Cancelled items are left out. Changed occurrences of a recurring event
+ * (RECURRENCE-ID) aren't imported; the series keeps its regular times.
+ * Repeat rules RecurringPattern can't express import as their first
+ * occurrence, with a warning.
+ *
+ * Used by: IcsImportExport.tsx
+ * Related: ics.ts, icsExport.ts (UIDs and X-FLOWMOTION-* properties)
+ */
+
+import { Task, DEFAULT_CATEGORIES } from '@/features/tasks/TaskTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+import { EVENT_COLORS, RecurringPattern, TimeBlock } from '@/features/calendar/CalendarTypes';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { getNextOccurrence } from '@/features/calendar/recurrence';
+import { addZonedDays } from '@/features/calendar/timezone';
+import {
+  ICalComponent,
+  findComponents,
+  getICalTimeZone,
+  getProperty,
+  getText,
+  parseICal,
+  parseICalDate,
+  parseICalDuration,
+  parseRRule,
+  unescapeText,
+} from './ics';
+import {
+  ICAL_BLOCK_TYPE_PROPERTY,
+  ICAL_DURATION_PROPERTY,
+  ICAL_FLEXIBLE_PROPERTY,
+  ICAL_STATUS_PROPERTY,
+  getTaskUid,
+  getTimeBlockUid,
+} from './icsExport';
+
+export type ICalImportKind = 'task' | 'timeBlock';
+
+// What an item becomes as a task, before it gets an id
+export type ImportedTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'userId' | 'googleEventId'>;
+
+export interface ICalImportItem {
+  uid: string;
+  source: 'VEVENT' | 'VTODO';
+  title: string;
+  start?: Date; // event start, or task due date
+  end?: Date; // events only
+  isAllDay: boolean;
+  recurrence?: RecurringPattern;
+  task: ImportedTask;
+  timeBlock?: Omit<TimeBlock, 'id'>; // events only
+  suggestedKind: ICalImportKind;
+  existing?: { kind: ICalImportKind; id: string }; // already in FlowMotion under this UID
+  warnings: string[];
+}
+
+export interface ICalImportContext {
+  tasks: Task[];
+  timeBlocks: TimeBlock[];
+  timeZone: string; // for floating times and all-day dates
+  defaultTaskDuration: number; // in minutes, when the item doesn't say
+}
+
+export interface ICalImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+const TASK_STATUSES: Task['status'][] = ['todo', 'in-progress', 'completed'];
+const BLOCK_TYPES: TimeBlock['type'][] = ['work', 'break', 'meeting', 'focus', 'unavailable'];
+
+const TODO_STATUSES: Record<string, Task['status']> = {
+  'NEEDS-ACTION': 'todo',
+  'IN-PROCESS': 'in-progress',
+  COMPLETED: 'completed',
+};
+
+const BLOCK_COLORS: Record<TimeBlock['type'], string> = {
+  work: EVENT_COLORS.task,
+  break: EVENT_COLORS.break,
+  meeting: EVENT_COLORS.meeting,
+  focus: EVENT_COLORS.block,
+  unavailable: EVENT_COLORS.unavailable,
+};
+
+// ============================================================================
+// FIELD MAPPING
+// ============================================================================
+
+// RFC 5545 PRIORITY: 1-4 high, 5 (or unset) medium, 6-9 low
+const parsePriority = (value?: string): Task['priority'] => {
+  const priority = parseInt(value || '0');
+  if (priority >= 1 && priority <= 4) return 'high';
+  if (priority >= 6 && priority <= 9) return 'low';
+  return 'medium';
+};
+
+// First category, as one of ours when the name matches
+const parseCategory = (component: ICalComponent): string => {
+  const value = getProperty(component, 'CATEGORIES')?.value;
+  const name = value ? unescapeText(value.split(/(?<!\\),/)[0]).trim() : '';
+  if (!name) return DEFAULT_CATEGORIES[0].id;
+
+  const known = DEFAULT_CATEGORIES.find(category =>
+    category.id === name.toLowerCase() || category.name.toLowerCase() === name.toLowerCase()
+  );
+  return known?.id || name;
+};
+
+const parseTaskStatus = (component: ICalComponent): Task['status'] => {
+  const exported = getProperty(component, ICAL_STATUS_PROPERTY)?.value.toLowerCase() as Task['status'];
+  if (TASK_STATUSES.includes(exported)) return exported;
+  return TODO_STATUSES[getProperty(component, 'STATUS')?.value.toUpperCase() || ''] || 'todo';
+};
+
+/**
+ * Dates listed in every EXDATE property (values may be comma-separated)
+ */
+const parseExceptions = (component: ICalComponent, timeZone: string): Date[] =>
+  component.properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseICalDate({ ...property, value }, timeZone)))
+    .filter(date => !!date)
+    .map(date => date!.date);
+
+/**
+ * Repeat pattern of a recurring item, or a warning when it can't be kept
+ */
+const parseRecurrence = (
+  component: ICalComponent,
+  start: Date,
+  startTimeZone: string, // zone of the start's wall-clock time
+  timeZone: string,
+  warnings: string[]
+): RecurringPattern | undefined => {
+  const rrule = getProperty(component, 'RRULE')?.value;
+  if (!rrule) return undefined;
+
+  const parsed = parseRRule(rrule, start, startTimeZone, timeZone);
+  if (!parsed.pattern) {
+    warnings.push(`${parsed.unsupported}; only the first occurrence is imported`);
+    return undefined;
+  }
+
+  const exceptions = parseExceptions(component, timeZone);
+  return exceptions.length > 0 ? { ...parsed.pattern, exceptions } : parsed.pattern;
+};
+
+// ============================================================================
+// READING
+// ============================================================================
+
+const readComponent = (component: ICalComponent, uid: string, context: ICalImportContext): ICalImportItem | null => {
+  const { timeZone } = context;
+  const source = component.name as ICalImportItem['source'];
+  const status = getProperty(component, 'STATUS')?.value.toUpperCase();
+  if (status === 'CANCELLED') return null;
+
+  const warnings: string[] = [];
+  const title = getText(component, 'SUMMARY')?.trim() || 'Untitled';
+  const startDate = parseICalDate(getProperty(component, 'DTSTART'), timeZone);
+  const isAllDay = startDate?.isAllDay ?? false;
+
+  let start: Date | undefined;
+  let end: Date | undefined;
+  if (source === 'VEVENT') {
+    if (!startDate) return null;
+    start = startDate.date;
+
+    // Without DTEND: DURATION, else one day for dates and no length for times
+    const duration = getProperty(component, 'DURATION');
+    const durationMs = duration ? parseICalDuration(duration.value) : null;
+    end = parseICalDate(getProperty(component, 'DTEND'), timeZone)?.date ||
+      (durationMs !== null ? new Date(start.getTime() + durationMs) : undefined) ||
+      (isAllDay ? addZonedDays(start, 1, timeZone) : start);
+  } else {
+    start = parseICalDate(getProperty(component, 'DUE'), timeZone)?.date || startDate?.date;
+  }
+
+  const startProperty = getProperty(component, source === 'VEVENT' ? 'DTSTART' : 'DUE') || getProperty(component, 'DTSTART');
+  const recurrence = start && startProperty
+    ? parseRecurrence(component, start, getICalTimeZone(startProperty, timeZone), timeZone, warnings)
+    : undefined;
+  const exportedDuration = parseInt(getProperty(component, ICAL_DURATION_PROPERTY)?.value || '');
+  const flexible = getProperty(component, ICAL_FLEXIBLE_PROPERTY)?.value.toUpperCase();
+  const isTimed = source === 'VEVENT' && !isAllDay;
+
+  const estimatedDuration = exportedDuration > 0
+    ? exportedDuration
+    : isTimed && end! > start!
+      ? Math.round((end!.getTime() - start!.getTime()) / 60000)
+      : context.defaultTaskDuration;
+
+  // Timed events keep their slot; all-day events and to-dos are due by their date
+  const task: ImportedTask = {
+    title,
+    description: getText(component, 'DESCRIPTION'),
+    priority: parsePriority(getProperty(component, 'PRIORITY')?.value),
+    estimatedDuration,
+    deadline: isTimed ? undefined : source === 'VEVENT' ? end : start,
+    category: parseCategory(component),
+    status: parseTaskStatus(component),
+    scheduledStart: isTimed ? start : undefined,
+    scheduledEnd: isTimed ? end : undefined,
+    isFlexible: flexible ? flexible === 'TRUE' : !isTimed,
+    syncToCalendar: false, // it came from a calendar; don't copy it into the synced one
+    iCalUid: uid,
+  };
+
+  if (recurrence && start) {
+    // The task is due at the series' next occurrence, keeping its time slot
+    const anchor = isTimed ? start : task.deadline || start;
+    const next = getNextOccurrence(anchor, recurrence, new Date(Date.now() - 1), timeZone) || anchor;
+    const shiftMs = next.getTime() - anchor.getTime();
+
+    task.recurrence = { ...recurrence, startDate: anchor };
+    task.occurrenceDate = next;
+    task.deadline = task.deadline && new Date(task.deadline.getTime() + shiftMs);
+    task.scheduledStart = task.scheduledStart && new Date(task.scheduledStart.getTime() + shiftMs);
+    task.scheduledEnd = task.scheduledEnd && new Date(task.scheduledEnd.getTime() + shiftMs);
+  }
+
+  if (!start) {
+    warnings.push('Has no date; imported as an unscheduled task');
+  }
+
+  const blockType = getProperty(component, ICAL_BLOCK_TYPE_PROPERTY)?.value.toLowerCase() as TimeBlock['type'];
+  const attendees = component.properties.filter(property => property.name === 'ATTENDEE').length;
+  const type = BLOCK_TYPES.includes(blockType) ? blockType : attendees > 1 ? 'meeting' : 'unavailable';
+
+  const timeBlock: Omit<TimeBlock, 'id'> | undefined = source === 'VEVENT' ? {
+    title,
+    description: task.description,
+    start: start!,
+    end: end!,
+    type,
+    color: BLOCK_COLORS[type],
+    isRecurring: !!recurrence,
+    recurringPattern: recurrence,
+    iCalUid: uid,
+  } : undefined;
+
+  return {
+    uid,
+    source,
+    title,
+    start,
+    end,
+    isAllDay,
+    recurrence,
+    task,
+    timeBlock,
+    // FlowMotion's own task events say what they were; other events are usually busy time
+    suggestedKind: source === 'VEVENT' && !getProperty(component, ICAL_STATUS_PROPERTY) ? 'timeBlock' : 'task',
+    warnings,
+  };
+};
+
+/**
+ * Everything in an .ics file that can be imported, matched against what's
+ * already there. Throws if the text isn't an iCalendar file.
+ */
+export const readICalImport = (text: string, context: ICalImportContext): ICalImportItem[] => {
+  const calendars = parseICal(text).filter(component => component.name === 'VCALENDAR');
+  if (calendars.length === 0) {
+    throw new Error("This doesn't look like an iCalendar (.ics) file");
+  }
+
+  const existing = new Map<string, ICalImportItem['existing']>([
+    ...context.tasks.map(task => [getTaskUid(task), { kind: 'task' as const, id: task.id }] as const),
+    ...context.timeBlocks.map(block => [getTimeBlockUid(block), { kind: 'timeBlock' as const, id: block.id }] as const),
+  ]);
+
+  const seen = new Set<string>();
+  const components = [...findComponents(calendars, 'VEVENT'), ...findComponents(calendars, 'VTODO')]
+    .filter(component => !getProperty(component, 'RECURRENCE-ID'));
+
+  return components.flatMap(component => {
+    // Items without a UID get one, so once imported they can be recognized
+    const uid = getText(component, 'UID') || `import-${crypto.randomUUID()}@flowmotion`;
+    if (seen.has(uid)) return [];
+    seen.add(uid);
+
+    const item = readComponent(component, uid, context);
+    if (!item) return [];
+
+    // A to-do can't update a time block
+    const match = existing.get(uid);
+    item.existing = match && (match.kind === 'task' || item.timeBlock) ? match : undefined;
+    return [item];
+  });
+};
+
+// ============================================================================
+// IMPORTING
+// ============================================================================
+
+/**
+ * Save the chosen items: new ones are added, ones already imported are
+ * updated in place (as whatever they were imported as before)
+ */
+export const importICalItems = async (
+  choices: { item: ICalImportItem; kind: ICalImportKind }[]
+): Promise<ICalImportResult> => {
+  const taskStore = useTaskStore.getState();
+  const calendarStore = useCalendarStore.getState();
+  const result: ICalImportResult = { created: 0, updated: 0, failed: 0 };
+  const newTasks: Task[] = [];
+
+  for (const { item, kind } of choices) {
+    if (item.existing?.kind === 'task') {
+      await taskStore.updateTask(item.existing.id, item.task);
+      result.updated++;
+    } else if (item.existing?.kind === 'timeBlock' && item.timeBlock) {
+      calendarStore.updateTimeBlock(item.existing.id, item.timeBlock);
+      result.updated++;
+    } else if (kind === 'timeBlock' && item.timeBlock) {
+      calendarStore.addTimeBlock(item.timeBlock);
+      result.created++;
+    } else {
+      const now = new Date();
+      newTasks.push({ ...item.task, id: crypto.randomUUID(), createdAt: now, updatedAt: now });
+    }
+  }
+
+  if (await taskStore.importTasks(newTasks)) {
+    result.created += newTasks.length;
+  } else {
+    result.failed += newTasks.length;
+  }
+
+  return result;
+};
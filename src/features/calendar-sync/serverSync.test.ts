@@ -0,0 +1,130 @@
+/**
+ * Server-Side Calendar Sync Tests
+ *
+ * Which event changes move a task, and how a watched calendar's sync token
+ * is kept between notifications. Channels are kept in memory, since Supabase
+ * isn't configured here.
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTaskChangesFromEvent, syncWatchedCalendar } from './serverSync';
+import { getChannel, syncWatchChannels } from './watchChannels';
+import { DatabaseTask } from '@/lib/supabase';
+import { GoogleCalendarEvent } from './CalendarSyncTypes';
+
+const task: DatabaseTask = {
+  id: 'report',
+  user_id: 'user-1',
+  title: 'Report',
+  priority: 'medium',
+  estimated_duration: 60,
+  category: 'work',
+  status: 'todo',
+  created_at: '2025-06-01T08:00:00.000Z',
+  updated_at: '2025-06-02T08:00:00.000Z',
+  scheduled_start: '2025-06-02T09:00:00.000Z',
+  scheduled_end: '2025-06-02T10:00:00.000Z',
+  is_flexible: true,
+  google_event_id: 'event-1',
+  sync_to_calendar: true,
+};
+
+const event = (fields: Partial<GoogleCalendarEvent> = {}): GoogleCalendarEvent => ({
+  id: 'event-1',
+  summary: 'Report',
+  start: { dateTime: '2025-06-02T09:00:00Z' },
+  end: { dateTime: '2025-06-02T10:00:00Z' },
+  status: 'confirmed',
+  updated: '2025-06-02T08:30:00.000Z',
+  ...fields,
+});
+
+describe('getTaskChangesFromEvent', () => {
+  it('moves and renames the task to match a newer event', () => {
+    const changes = getTaskChangesFromEvent(task, event({
+      summary: 'Final report',
+      start: { dateTime: '2025-06-02T13:00:00+02:00' },
+      end: { dateTime: '2025-06-02T14:30:00+02:00' },
+    }));
+
+    assert.deepEqual(changes, {
+      title: 'Final report',
+      scheduled_start: '2025-06-02T11:00:00.000Z',
+      scheduled_end: '2025-06-02T12:30:00.000Z',
+    });
+  });
+
+  it('moves the sessions of split tasks with it', () => {
+    const split = {
+      ...task,
+      chunks: [
+        { id: 'a', start: '2025-06-02T09:00:00.000Z', end: '2025-06-02T09:30:00.000Z' },
+        { id: 'b', start: '2025-06-02T11:00:00.000Z', end: '2025-06-02T11:30:00.000Z' },
+      ],
+    };
+    const changes = getTaskChangesFromEvent(split, event({
+      start: { dateTime: '2025-06-02T10:00:00Z' },
+      end: { dateTime: '2025-06-02T10:30:00Z' },
+    }));
+
+    assert.deepEqual(changes?.chunks, [
+      { id: 'a', start: '2025-06-02T10:00:00.000Z', end: '2025-06-02T10:30:00.000Z' },
+      { id: 'b', start: '2025-06-02T12:00:00.000Z', end: '2025-06-02T12:30:00.000Z' },
+    ]);
+    assert.equal(changes?.scheduled_end, '2025-06-02T12:30:00.000Z');
+  });
+
+  it('unschedules the task when its event was deleted', () => {
+    assert.deepEqual(getTaskChangesFromEvent(task, event({ status: 'cancelled' })), {
+      google_event_id: null,
+      scheduled_start: null,
+      scheduled_end: null,
+      chunks: null,
+    });
+  });
+
+  it('leaves tasks edited after their event, or whose event didn\'t change', () => {
+    const moved = { start: { dateTime: '2025-06-02T13:00:00Z' }, end: { dateTime: '2025-06-02T14:00:00Z' } };
+
+    assert.equal(getTaskChangesFromEvent(task, event({ ...moved, updated: '2025-06-02T07:00:00.000Z' })), null);
+    assert.equal(getTaskChangesFromEvent(task, event({ ...moved, updated: undefined })), null);
+    assert.equal(getTaskChangesFromEvent(task, event({ status: 'cancelled', updated: undefined })), null);
+    assert.equal(getTaskChangesFromEvent(task, event()), null);
+  });
+});
+
+describe('syncWatchedCalendar', () => {
+  afterEach(() => mock.restoreAll());
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  it('continues from the channel\'s sync token and starts over when Google expires it', async () => {
+    mock.method(globalThis, 'fetch', async () => json({ resourceId: 'resource-1' }));
+    const { channels: [channel] } = await syncWatchChannels('user-1', ['primary'], 'access-token', 'primary');
+    assert.equal(channel.syncTasks, true);
+
+    const requests: URL[] = [];
+    const responses = [
+      json({ items: [event()], nextPageToken: 'page-2' }),
+      json({ items: [], nextSyncToken: 'token-1' }),
+      json({ error: { message: 'Sync token is no longer valid' } }, 410),
+      json({ items: [], nextSyncToken: 'token-2' }),
+    ];
+    mock.method(globalThis, 'fetch', async (url: string) => {
+      requests.push(new URL(url));
+      return responses.shift()!;
+    });
+
+    assert.equal(await syncWatchedCalendar(channel, 'access-token'), 0);
+    assert.equal((await getChannel(channel.id))?.syncToken, 'token-1');
+
+    await syncWatchedCalendar(channel, 'access-token');
+    assert.deepEqual(
+      requests.map(url => [url.searchParams.get('syncToken'), url.searchParams.has('timeMin'), url.searchParams.get('pageToken')]),
+      [[null, true, null], [null, true, 'page-2'], ['token-1', false, null], [null, true, null]]
+    );
+    assert.equal((await getChannel(channel.id))?.syncToken, 'token-2');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Server-Side Calendar Sync (server only)
+ *
+ * Runs when the webhook hears that a watched Google calendar changed, so the
+ * change is picked up even when no client is open:
+ * - Fetches the calendar's changes since the channel's sync token (a listing
+ *   from FULL_SYNC_DAYS back without one, or once Google expires it) and
+ *   stores the next token on the channel
+ * - On the target calendar (WatchChannel.syncTasks), moves, renames and
+ *   unschedules the tasks whose events changed, like the two-way sync's pull.
+ *   Only edits made after the task's own are applied; the rest wait for the
+ *   client's two-way sync and its conflict policy.
+ * - Syncs of the same channel run one at a time
+ *
+ * Tasks are only updated with server-side Supabase access, since that's where
+ * they live; clients are told to refresh either way.
+ *
+ * Used by: api/calendar/webhook/route.ts
+ * Related: watchChannels.ts, googleTokens.ts, syncEngine.ts (client-side two-way sync)
+ */
+
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabaseAdmin';
+import { DatabaseTask } from '@/lib/supabase';
+import { GoogleCalendarEvent, WatchChannel } from './CalendarSyncTypes';
+import { CalendarNotFoundError, fetchWithRetry } from './calendarApiClient';
+import { getChannel, GOOGLE_CALENDAR_API, updateChannel } from './watchChannels';
+
+// A full sync starts this many days back, like the client's
+const FULL_SYNC_DAYS = 30;
+const EVENTS_PAGE_SIZE = '250';
+
+// Columns of a task row to change; null clears one
+type TaskRowChanges = { [Column in keyof DatabaseTask]?: DatabaseTask[Column] | null };
+
+// Shared across route bundles, which may each load this module
+const globalState = globalThis as typeof globalThis & {
+  flowmotionChannelSyncs?: Map<string, Promise<unknown>>;
+};
+const channelSyncs = globalState.flowmotionChannelSyncs ??= new Map<string, Promise<unknown>>();
+
+const runForChannel = <T>(channelId: string, run: () => Promise<T>): Promise<T> => {
+  const next = (channelSyncs.get(channelId) || Promise.resolve()).then(run);
+  const settled = next.catch(() => undefined);
+  channelSyncs.set(channelId, settled);
+  settled.then(() => {
+    if (channelSyncs.get(channelId) === settled) channelSyncs.delete(channelId);
+  });
+  return next;
+};
+
+/**
+ * Events changed since syncToken (cancelled ones are deletions), or every event
+ * from FULL_SYNC_DAYS back when there is no token or Google has expired it
+ */
+const listEventChanges = async (
+  calendarId: string,
+  syncToken: string | undefined,
+  accessToken: string
+): Promise<{ events: GoogleCalendarEvent[]; nextSyncToken?: string }> => {
+  // Sync tokens can't be combined with timeMin
+  const params = new URLSearchParams({ singleEvents: 'true', maxResults: EVENTS_PAGE_SIZE });
+  if (syncToken) {
+    params.set('syncToken', syncToken);
+  } else {
+    const timeMin = new Date();
+    timeMin.setDate(timeMin.getDate() - FULL_SYNC_DAYS);
+    params.set('timeMin', timeMin.toISOString());
+  }
+
+  const events: GoogleCalendarEvent[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+
+  try {
+    do {
+      const pageParams = new URLSearchParams(params);
+      if (pageToken) pageParams.set('pageToken', pageToken);
+
+      const response = await fetchWithRetry(
+        `${GOOGLE_CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events?${pageParams}`,
+        { headers: { 'Authorization': `Bearer ${accessToken}` } }
+      );
+      const page: { items?: GoogleCalendarEvent[]; nextPageToken?: string; nextSyncToken?: string } =
+        await response.json();
+
+      events.push(...(page.items || []));
+      pageToken = page.nextPageToken;
+      nextSyncToken = page.nextSyncToken;
+    } while (pageToken);
+  } catch (error) {
+    if (syncToken && error instanceof CalendarNotFoundError && error.status === 410) {
+      console.warn('Calendar sync token expired, running a full sync');
+      return listEventChanges(calendarId, undefined, accessToken);
+    }
+    throw error;
+  }
+
+  return { events, nextSyncToken };
+};
+
+/**
+ * How a task changes to match its event, or null when it shouldn't: the event
+ * is unchanged, or wasn't edited after the task (deleted events may not say when)
+ */
+export const getTaskChangesFromEvent = (task: DatabaseTask, event: GoogleCalendarEvent): TaskRowChanges | null => {
+  if (!event.updated || new Date(event.updated) <= new Date(task.updated_at)) return null;
+
+  if (event.status === 'cancelled') {
+    return { google_event_id: null, scheduled_start: null, scheduled_end: null, chunks: null };
+  }
+
+  // Task events always have times; an all-day event can't be a task's time
+  if (!event.start.dateTime || !event.end.dateTime) return null;
+
+  // Split tasks move as a whole and keep their sessions
+  const start = new Date(event.start.dateTime);
+  const offset = task.scheduled_start ? start.getTime() - new Date(task.scheduled_start).getTime() : 0;
+  const shift = (date: string) => new Date(new Date(date).getTime() + offset).toISOString();
+  const chunks = task.chunks?.length
+    ? task.chunks.map(chunk => ({ ...chunk, start: shift(chunk.start), end: shift(chunk.end) }))
+    : undefined;
+
+  const changes: TaskRowChanges = {
+    title: event.summary || task.title,
+    scheduled_start: start.toISOString(),
+    scheduled_end: chunks ? chunks[chunks.length - 1].end : new Date(event.end.dateTime).toISOString(),
+    ...(chunks && { chunks }),
+  };
+
+  const isSameTime = (a?: string | null, b?: string) => !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+  if (
+    changes.title === task.title &&
+    isSameTime(changes.scheduled_start, task.scheduled_start) &&
+    isSameTime(changes.scheduled_end, task.scheduled_end)
+  ) {
+    return null;
+  }
+  return changes;
+};
+
+/**
+ * Make the user's tasks match their changed events. Returns how many tasks changed.
+ */
+const applyEventChangesToTasks = async (userId: string, events: GoogleCalendarEvent[]): Promise<number> => {
+  if (events.length === 0) return 0;
+
+  const { data, error } = await supabaseAdmin!
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .not('google_event_id', 'is', null);
+
+  if (error) throw error;
+
+  const tasksByEventId = new Map((data as DatabaseTask[]).map(task => [task.google_event_id!, task]));
+  let tasksUpdated = 0;
+
+  for (const event of events) {
+    const task = tasksByEventId.get(event.id);
+    const changes = task && getTaskChangesFromEvent(task, event);
+    if (!changes) continue;
+
+    // Only if the task wasn't edited since it was read
+    const { data: updated, error: updateError } = await supabaseAdmin!
+      .from('tasks')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', task.id)
+      .eq('updated_at', task.updated_at)
+      .select('id');
+
+    if (updateError) throw updateError;
+    tasksUpdated += updated?.length || 0;
+  }
+
+  return tasksUpdated;
+};
+
+/**
+ * Incremental sync of a watched calendar after a notification.
+ * Returns how many tasks changed.
+ */
+export const syncWatchedCalendar = (channel: WatchChannel, accessToken: string): Promise<number> =>
+  runForChannel(channel.id, async () => {
+    // Read the channel again: an earlier sync may have moved its token on
+    const { syncToken, syncTasks } = await getChannel(channel.id) || channel;
+    const { events, nextSyncToken } = await listEventChanges(channel.calendarId, syncToken, accessToken);
+
+    const tasksUpdated = syncTasks && isSupabaseAdminConfigured()
+      ? await applyEventChangesToTasks(channel.userId, events)
+      : 0;
+
+    await updateChannel(channel.id, { syncToken: nextSyncToken });
+    return tasksUpdated;
+  });
@@ -0,0 +1,232 @@
+/**
+ * Two-Way Sync Engine Tests
+ *
+ * Which side wins when a task, its event or both changed since the last sync,
+ * under each conflict policy and sync direction, and events outside the
+ * fetched window. Runs against the real task and sync stores with a provider
+ * that records the event changes it's asked to make.
+ */
+
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { syncTasksWithCalendar, TwoWaySyncOptions } from './syncEngine';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import {
+  CalendarEventOperation,
+  CalendarProvider,
+  CalendarSyncState,
+  DEFAULT_SYNC_SETTINGS,
+  SyncedCalendarEvent,
+  TaskSyncRecord,
+} from './CalendarSyncTypes';
+import { Task } from '@/features/tasks/TaskTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+
+// The stores save to localStorage, which Node doesn't have
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, value),
+  removeItem: (key: string) => void storage.delete(key),
+} as Storage;
+
+const calendar = { id: 'primary', summary: 'Work', accessRole: 'owner' as const };
+
+const at = (time: string) => new Date(`2025-06-02T${time}:00Z`);
+
+// Synced at 09:00-10:00; the task was last edited at 08:00
+const record: TaskSyncRecord = {
+  taskId: 'report',
+  googleEventId: 'event-1',
+  calendarId: calendar.id,
+  title: 'Report',
+  start: at('09:00'),
+  end: at('10:00'),
+  syncedAt: at('08:00'),
+};
+
+const task = (fields: Partial<Task> = {}): Task => ({
+  id: 'report',
+  title: 'Report',
+  priority: 'medium',
+  estimatedDuration: 60,
+  category: 'work',
+  status: 'todo',
+  createdAt: at('07:00'),
+  updatedAt: at('08:00'),
+  isFlexible: true,
+  scheduledStart: at('09:00'),
+  scheduledEnd: at('10:00'),
+  googleEventId: 'event-1',
+  ...fields,
+});
+
+const event = (fields: Partial<SyncedCalendarEvent> = {}): SyncedCalendarEvent => ({
+  id: 'event-1',
+  googleEventId: 'event-1',
+  title: 'Report',
+  start: at('09:00'),
+  end: at('10:00'),
+  isAllDay: false,
+  calendarId: calendar.id,
+  calendarName: 'Work',
+  status: 'confirmed',
+  transparency: 'opaque',
+  taskId: 'report',
+  updatedAt: at('08:00'),
+  isFromGoogleCalendar: true,
+  type: 'event',
+  ...fields,
+});
+
+const createProvider = () => {
+  const operations: CalendarEventOperation[] = [];
+  const provider = {
+    id: 'google',
+    applyEventOperations: async (batch: CalendarEventOperation[]) => {
+      operations.push(...batch);
+      return batch.map(operation => ({ ok: true as const, eventId: operation.type === 'create' ? 'event-2' : undefined }));
+    },
+  } as unknown as CalendarProvider;
+  return { provider, operations };
+};
+
+const sync = async (
+  tasks: Task[],
+  events: SyncedCalendarEvent[],
+  settings: Partial<CalendarSyncState['syncSettings']> = {},
+  window: TwoWaySyncOptions['window'] = { start: at('00:00'), end: new Date('2025-06-09T00:00:00Z') }
+) => {
+  useTaskStore.setState({ tasks });
+  const { provider, operations } = createProvider();
+  const outcome = await syncTasksWithCalendar({
+    provider,
+    calendar,
+    events,
+    window,
+    records: [record],
+    settings: { ...DEFAULT_SYNC_SETTINGS, syncCalendarToTasks: true, ...settings },
+  });
+  return { ...outcome, operations, task: useTaskStore.getState().getTaskById('report') };
+};
+
+const operationTypes = (operations: CalendarEventOperation[]) => operations.map(operation => operation.type);
+
+describe('syncTasksWithCalendar', () => {
+  beforeEach(() => {
+    storage.clear();
+    useCalendarSyncStore.setState({ outbox: [] });
+  });
+
+  it('leaves both sides alone when neither changed', async () => {
+    const { operations, result, records } = await sync([task()], [event()]);
+
+    assert.deepEqual(operations, []);
+    assert.equal(result.tasksUpdated, 0);
+    assert.deepEqual(records.map(saved => [saved.start, saved.end]), [[at('09:00'), at('10:00')]]);
+  });
+
+  it('pushes tasks that changed to their event', async () => {
+    const { operations, result } = await sync([task({ scheduledStart: at('11:00'), scheduledEnd: at('12:00') })], [event()]);
+
+    assert.deepEqual(operationTypes(operations), ['update']);
+    assert.equal(result.conflictsResolved, 0);
+  });
+
+  it('pulls events that changed into their task', async () => {
+    const { operations, task: pulled, records } = await sync([task()], [event({ start: at('13:00'), end: at('14:00') })]);
+
+    assert.deepEqual(operations, []);
+    assert.deepEqual([pulled?.scheduledStart, pulled?.scheduledEnd], [at('13:00'), at('14:00')]);
+    assert.deepEqual(records.map(saved => saved.start), [at('13:00')]);
+  });
+
+  it('overwrites calendar edits when only pushing', async () => {
+    const { operations, task: kept } = await sync(
+      [task()],
+      [event({ start: at('13:00'), end: at('14:00') })],
+      { syncCalendarToTasks: false }
+    );
+
+    assert.deepEqual(operationTypes(operations), ['update']);
+    assert.deepEqual(kept?.scheduledStart, at('09:00'));
+  });
+
+  describe('when both changed', () => {
+    const movedTask = task({ scheduledStart: at('11:00'), scheduledEnd: at('12:00'), updatedAt: at('08:30') });
+    const olderEvent = event({ start: at('13:00'), end: at('14:00'), updatedAt: at('08:15') });
+    const newerEvent = event({ start: at('13:00'), end: at('14:00'), updatedAt: at('08:45') });
+
+    it('takes the newer side by default', async () => {
+      const taskWins = await sync([movedTask], [olderEvent]);
+      const calendarWins = await sync([movedTask], [newerEvent]);
+
+      assert.deepEqual(operationTypes(taskWins.operations), ['update']);
+      assert.equal(taskWins.result.conflictsResolved, 1);
+      assert.deepEqual(calendarWins.operations, []);
+      assert.deepEqual(calendarWins.task?.scheduledStart, at('13:00'));
+      assert.equal(calendarWins.result.conflictsResolved, 1);
+    });
+
+    it('keeps the task with task-wins', async () => {
+      const { operations, task: kept } = await sync([movedTask], [newerEvent], { conflictResolution: 'task-wins' });
+
+      assert.deepEqual(operationTypes(operations), ['update']);
+      assert.deepEqual(kept?.scheduledStart, at('11:00'));
+    });
+
+    it('keeps the event with calendar-wins', async () => {
+      const { operations, task: pulled } = await sync([movedTask], [olderEvent], { conflictResolution: 'calendar-wins' });
+
+      assert.deepEqual(operations, []);
+      assert.deepEqual(pulled?.scheduledStart, at('13:00'));
+    });
+
+    it('keeps the task when its event was deleted', async () => {
+      const { operations } = await sync([movedTask], []);
+
+      assert.deepEqual(operationTypes(operations), ['create']);
+    });
+  });
+
+  it('unschedules tasks whose unchanged event was deleted', async () => {
+    const { operations, task: unscheduled, records } = await sync([task()], []);
+
+    assert.deepEqual(operations, []);
+    assert.equal(unscheduled?.scheduledStart, undefined);
+    assert.equal(unscheduled?.googleEventId, undefined);
+    assert.deepEqual(records, []);
+  });
+
+  it('deletes the events of deleted tasks', async () => {
+    const { operations } = await sync([], [event()]);
+
+    assert.deepEqual(operations, [{ type: 'delete', eventId: 'event-1' }]);
+  });
+
+  it('keeps events outside the fetched window that weren\'t listed', async () => {
+    const { operations, task: kept, records } = await sync([task()], [], {}, { start: at('12:00') });
+
+    assert.deepEqual(operations, []);
+    assert.deepEqual(kept?.scheduledStart, at('09:00'));
+    assert.deepEqual(records, [record]);
+  });
+
+  it('leaves tasks with a change in the outbox to it', async () => {
+    useCalendarSyncStore.setState({ outbox: [{
+      id: 'pending',
+      type: 'update',
+      taskId: 'report',
+      taskTitle: 'Report',
+      provider: 'google',
+      calendarId: calendar.id,
+      eventId: 'event-1',
+      createdAt: at('08:30'),
+      attempts: 1,
+    }] });
+    const { operations, records } = await sync([task({ scheduledStart: at('11:00'), scheduledEnd: at('12:00') })], [event()]);
+
+    assert.deepEqual(operations, []);
+    assert.deepEqual(records, [record]);
+  });
+});
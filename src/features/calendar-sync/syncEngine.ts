@@ -0,0 +1,400 @@
+/**
+ * Two-Way Sync Engine
+ *
+ * Reconciles tasks with their events in a calendar of any provider:
+ * - Pushes new, moved, renamed, unscheduled and deleted tasks to the calendar
+ * - Pulls events moved, renamed or deleted in the calendar back into tasks
+ *   (when syncCalendarToTasks is on)
+ * - Compares both sides with the snapshot from the last sync (TaskSyncRecord)
+ *   to tell which one changed; when both did, the conflict policy picks a winner
+ * - Recreates tasks for FlowMotion events whose task isn't on this device
+ * - Sends all event changes together (batch requests for Google); a change that
+ *   couldn't reach the calendar goes to the outbox (calendarOutbox.ts), other failures are retried
+ *   on the next sync. Tasks with a change in the outbox are left to it.
+ *
+ * Used by: CalendarSync.tsx (performSync)
+ * Related: calendarProviders.ts, calendarSyncStore.ts (sync records), taskStore.ts
+ */
+
+import { getCalendarErrorMessage } from './calendarApiClient';
+import { shouldQueueOperation } from './calendarOutbox';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import {
+  CalendarEventOperation,
+  CalendarProvider,
+  CalendarSyncState,
+  CalendarSyncResult,
+  GoogleCalendar,
+  SyncedCalendarEvent,
+  TaskSyncRecord,
+} from './CalendarSyncTypes';
+import { Task, DEFAULT_CATEGORIES } from '@/features/tasks/TaskTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+
+interface SyncSnapshot {
+  title: string;
+  start: Date;
+  end: Date;
+}
+
+export interface TwoWaySyncOptions {
+  provider: CalendarProvider; // the service the calendar belongs to
+  calendar: GoogleCalendar;
+  events: SyncedCalendarEvent[]; // everything fetched from the calendar for the window
+  window: { start: Date; end?: Date }; // range the events cover, open-ended without an end
+  records: TaskSyncRecord[]; // records from previous syncs, any calendar
+  settings: CalendarSyncState['syncSettings'];
+}
+
+interface QueuedPush {
+  taskId: string;
+  operation: CalendarEventOperation;
+  onSuccess: (eventId?: string) => Promise<void>;
+}
+
+export interface TwoWaySyncOutcome {
+  result: CalendarSyncResult;
+  records: TaskSyncRecord[]; // records for options.calendar after this sync
+}
+
+const isSameSnapshot = (a: SyncSnapshot | null, b: SyncSnapshot | null): boolean => {
+  if (!a || !b) return a === b;
+  return a.title === b.title &&
+    a.start.getTime() === b.start.getTime() &&
+    a.end.getTime() === b.end.getTime();
+};
+
+const overlapsWindow = (snapshot: SyncSnapshot, window: TwoWaySyncOptions['window']): boolean =>
+  (!window.end || snapshot.start < window.end) && snapshot.end > window.start;
+
+/**
+ * Sync tasks with one calendar. Task changes are applied through taskStore.
+ */
+export const syncTasksWithCalendar = async ({
+  provider,
+  calendar,
+  events,
+  window,
+  records,
+  settings,
+}: TwoWaySyncOptions): Promise<TwoWaySyncOutcome> => {
+  const taskStore = useTaskStore.getState();
+  const canPush = settings.syncTasksToCalendar;
+  const canPull = settings.syncCalendarToTasks;
+
+  const result: CalendarSyncResult = {
+    success: true,
+    eventsAdded: 0,
+    eventsUpdated: 0,
+    eventsRemoved: 0,
+    tasksCreated: 0,
+    tasksUpdated: 0,
+    conflictsResolved: 0,
+    operationsQueued: 0,
+    errors: [],
+  };
+
+  const calendarRecords = records.filter(record => record.calendarId === calendar.id);
+  const otherCalendarTaskIds = new Set(
+    records.filter(record => record.calendarId !== calendar.id).map(record => record.taskId)
+  );
+  const recordsByTaskId = new Map(calendarRecords.map(record => [record.taskId, record]));
+  const eventsById = new Map(events.map(event => [event.googleEventId, event]));
+  const nextRecords = new Map<string, TaskSyncRecord>();
+  const outboxTaskIds = new Set(
+    useCalendarSyncStore.getState().outbox
+      .filter(item => item.calendarId === calendar.id)
+      .map(item => item.taskId)
+  );
+
+  // What the task wants in the calendar; null means it shouldn't have an event
+  const getTaskSnapshot = (task?: Task): SyncSnapshot | null => {
+    if (!task?.scheduledStart || !task.scheduledEnd || task.syncToCalendar === false) return null;
+    if (task.status === 'completed' && !settings.includeCompletedTasks) return null;
+    return { title: task.title, start: task.scheduledStart, end: task.scheduledEnd };
+  };
+
+  const saveRecord = (taskId: string, googleEventId: string, snapshot: SyncSnapshot) => {
+    nextRecords.set(taskId, {
+      taskId,
+      googleEventId,
+      calendarId: calendar.id,
+      ...snapshot,
+      syncedAt: new Date(),
+    });
+  };
+
+  // Make the calendar match the task. Changes are queued and sent together.
+  const pushQueue: QueuedPush[] = [];
+
+  const pushTask = async (taskId: string, task: Task | undefined, eventId: string | undefined) => {
+    const snapshot = getTaskSnapshot(task);
+    const event = eventId ? eventsById.get(eventId) : undefined;
+
+    if (!snapshot) {
+      if (event) {
+        pushQueue.push({
+          taskId,
+          operation: { type: 'delete', eventId: event.googleEventId },
+          onSuccess: async () => {
+            result.eventsRemoved++;
+            if (task?.googleEventId) {
+              await taskStore.updateTask(taskId, { googleEventId: undefined });
+            }
+          },
+        });
+      } else if (task?.googleEventId) {
+        await taskStore.updateTask(taskId, { googleEventId: undefined });
+      }
+      return;
+    }
+
+    if (event) {
+      pushQueue.push({
+        taskId,
+        operation: { type: 'update', eventId: event.googleEventId, task: task! },
+        onSuccess: async () => {
+          result.eventsUpdated++;
+          saveRecord(taskId, event.googleEventId, snapshot);
+        },
+      });
+      return;
+    }
+
+    pushQueue.push({
+      taskId,
+      operation: { type: 'create', task: task! },
+      onSuccess: async (createdEventId) => {
+        result.eventsAdded++;
+        await taskStore.updateTask(taskId, { googleEventId: createdEventId! });
+        saveRecord(taskId, createdEventId!, snapshot);
+      },
+    });
+  };
+
+  // Make the task match the calendar. Split tasks move as a whole and keep their sessions.
+  const pullEvent = async (task: Task, event: SyncedCalendarEvent | undefined) => {
+    if (!event) {
+      await taskStore.updateTask(task.id, {
+        googleEventId: undefined,
+        scheduledStart: undefined,
+        scheduledEnd: undefined,
+        chunks: undefined,
+      });
+      result.tasksUpdated++;
+      return;
+    }
+
+    const offset = event.start.getTime() - (task.scheduledStart?.getTime() ?? event.start.getTime());
+    const shift = (date: Date) => new Date(date.getTime() + offset);
+    const chunks = task.chunks?.length ? task.chunks.map(chunk => ({
+      ...chunk,
+      start: shift(chunk.start),
+      end: shift(chunk.end),
+    })) : undefined;
+    const snapshot = {
+      title: event.title,
+      start: event.start,
+      end: chunks ? chunks[chunks.length - 1].end : event.end,
+    };
+
+    await taskStore.updateTask(task.id, {
+      title: snapshot.title,
+      scheduledStart: snapshot.start,
+      scheduledEnd: snapshot.end,
+      chunks,
+      googleEventId: event.googleEventId,
+    });
+    result.tasksUpdated++;
+    saveRecord(task.id, event.googleEventId, snapshot);
+  };
+
+  const resolveConflict = (task: Task, event: SyncedCalendarEvent | undefined): 'task' | 'calendar' => {
+    if (!canPull) return 'task';
+    if (!canPush) return 'calendar';
+
+    switch (settings.conflictResolution) {
+      case 'task-wins':
+        return 'task';
+      case 'calendar-wins':
+        return 'calendar';
+      default:
+        // Deleted events have no edit time, so the task wins
+        return event?.updatedAt && event.updatedAt > task.updatedAt ? 'calendar' : 'task';
+    }
+  };
+
+  const syncTask = async (taskId: string) => {
+    const task = taskStore.getTaskById(taskId);
+    const record = recordsByTaskId.get(taskId);
+    const eventId = record?.googleEventId || task?.googleEventId;
+    const event = eventId ? eventsById.get(eventId) : undefined;
+    const taskSnapshot = getTaskSnapshot(task);
+
+    // A linked event that wasn't listed is deleted, unless it lies outside the fetched window
+    const expected = record || taskSnapshot;
+    if (eventId && !event && expected && !overlapsWindow(expected, window)) {
+      if (record) nextRecords.set(taskId, record);
+      return;
+    }
+
+    // Deleting a task always removes its event
+    if (!task) {
+      if (canPush) {
+        await pushTask(taskId, undefined, eventId);
+      } else if (record) {
+        nextRecords.set(taskId, record);
+      }
+      return;
+    }
+
+    const eventSnapshot = event ? { title: event.title, start: event.start, end: event.end } : null;
+    if (!eventId && !taskSnapshot) return;
+
+    // Without a record both sides count as changed, so any difference is a conflict
+    const base = record || null;
+    const taskChanged = !base || !isSameSnapshot(taskSnapshot, base);
+    const eventChanged = !!eventId && (!base || !isSameSnapshot(eventSnapshot, base));
+
+    if (isSameSnapshot(taskSnapshot, eventSnapshot)) {
+      if (event && taskSnapshot) {
+        saveRecord(taskId, event.googleEventId, taskSnapshot);
+      } else if (task.googleEventId) {
+        await taskStore.updateTask(taskId, { googleEventId: undefined });
+      }
+      return;
+    }
+
+    let winner: 'task' | 'calendar';
+    if (taskChanged && eventChanged) {
+      winner = resolveConflict(task, event);
+      result.conflictsResolved++;
+    } else if (eventChanged) {
+      // One-way sync overwrites edits made in the calendar
+      winner = canPull ? 'calendar' : 'task';
+    } else {
+      winner = 'task';
+    }
+
+    if (winner === 'calendar' && canPull) {
+      await pullEvent(task, event);
+    } else if (winner === 'task' && canPush) {
+      await pushTask(taskId, task, eventId);
+    } else if (record) {
+      // Neither side may be changed; compare against the same snapshot next time
+      nextRecords.set(taskId, record);
+    }
+  };
+
+  const taskIds = new Set<string>([
+    ...calendarRecords.map(record => record.taskId),
+    ...taskStore.tasks
+      .filter(task => !otherCalendarTaskIds.has(task.id))
+      .filter(task => task.googleEventId || (canPush && getTaskSnapshot(task)))
+      .map(task => task.id),
+  ]);
+
+  // Compare against the previous record again next time
+  const keepRecord = (taskId: string) => {
+    const record = recordsByTaskId.get(taskId);
+    if (record) nextRecords.set(taskId, record);
+  };
+
+  // A failed task keeps its previous record, so the next sync retries it
+  const handleTaskError = (taskId: string, error: unknown) => {
+    const title = taskStore.getTaskById(taskId)?.title || taskId;
+    result.errors.push(`"${title}": ${getCalendarErrorMessage(error)}`);
+    keepRecord(taskId);
+  };
+
+  // Keep a change that couldn't reach the calendar to replay later
+  const queuePush = (push: QueuedPush) => {
+    const { operation } = push;
+    const task = taskStore.getTaskById(push.taskId);
+    const record = recordsByTaskId.get(push.taskId);
+
+    useCalendarSyncStore.getState().enqueueOutboxItem({
+      type: operation.type,
+      taskId: push.taskId,
+      taskTitle: task?.title || record?.title || push.taskId,
+      provider: provider.id,
+      calendarId: calendar.id,
+      eventId: operation.type === 'create' ? undefined : operation.eventId,
+    });
+    result.operationsQueued++;
+    keepRecord(push.taskId);
+  };
+
+  for (const taskId of taskIds) {
+    // A change for this task is still waiting in the outbox; comparing now would redo it
+    if (outboxTaskIds.has(taskId)) {
+      keepRecord(taskId);
+      continue;
+    }
+
+    try {
+      await syncTask(taskId);
+    } catch (error) {
+      handleTaskError(taskId, error);
+    }
+  }
+
+  const outcomes = await provider.applyEventOperations(
+    pushQueue.map(push => push.operation),
+    calendar.id
+  );
+  for (const [index, outcome] of outcomes.entries()) {
+    const push = pushQueue[index];
+    if (!outcome.ok && shouldQueueOperation(outcome.error)) {
+      queuePush(push);
+      continue;
+    }
+
+    try {
+      if (!outcome.ok) throw outcome.error;
+      await push.onSuccess(outcome.eventId);
+    } catch (error) {
+      handleTaskError(push.taskId, error);
+    }
+  }
+
+  // FlowMotion events whose task isn't here (e.g. created on another device)
+  if (canPull) {
+    const linkedEventIds = new Set([
+      ...nextRecords.values(),
+      ...calendarRecords,
+    ].map(record => record.googleEventId));
+    useTaskStore.getState().tasks.forEach(task => task.googleEventId && linkedEventIds.add(task.googleEventId));
+
+    const orphanedEvents = events.filter(event =>
+      event.taskId && !linkedEventIds.has(event.googleEventId) && !taskStore.getTaskById(event.taskId)
+    );
+
+    for (const event of orphanedEvents) {
+      try {
+        const task = await taskStore.createTask({
+          title: event.title,
+          description: '',
+          priority: 'medium',
+          estimatedDuration: Math.round((event.end.getTime() - event.start.getTime()) / 60000),
+          category: DEFAULT_CATEGORIES[0].id,
+          isFlexible: false,
+        });
+        if (!task) throw new Error('Task could not be saved');
+
+        await taskStore.updateTask(task.id, {
+          scheduledStart: event.start,
+          scheduledEnd: event.end,
+          googleEventId: event.googleEventId,
+        });
+        result.tasksCreated++;
+        saveRecord(task.id, event.googleEventId, { title: event.title, start: event.start, end: event.end });
+      } catch (error) {
+        result.errors.push(`"${event.title}": ${getCalendarErrorMessage(error)}`);
+      }
+    }
+  }
+
+  result.success = result.errors.length === 0;
+  return { result, records: [...nextRecords.values()] };
+};
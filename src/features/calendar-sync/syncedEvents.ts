@@ -0,0 +1,84 @@
+/**
+ * Synced Event Helpers
+ *
+ * Turns events synced from Google Calendar into CalendarEvents:
+ * - Busy time: confirmed or tentative events that aren't marked free, from
+ *   calendars that block the user's time; all-day events block the whole
+ *   day(s) in the user's time zone
+ * - Copies of FlowMotion's own tasks are skipped, the task is shown instead
+ * - The same event in several calendars (e.g. an invite on a shared calendar)
+ *   is shown once, busy if any of its calendars blocks time
+ * - Each source calendar keeps its own color
+ *
+ * Used by: CalendarView.tsx (rendering and AutoScheduler busy time)
+ * Related: googleCalendar.ts (convertToSyncedEvents), calendarSyncStore.ts
+ */
+
+import { SyncedCalendarEvent } from './CalendarSyncTypes';
+import { CalendarEvent } from '@/features/calendar/CalendarTypes';
+
+// Fallback colors for calendars without a backgroundColor
+const CALENDAR_PALETTE = ['#0ea5e9', '#14b8a6', '#f97316', '#ec4899', '#84cc16', '#6366f1'];
+
+export const getCalendarColor = (event: Pick<SyncedCalendarEvent, 'calendarId' | 'calendarColor'>): string => {
+  if (event.calendarColor) return event.calendarColor;
+
+  const hash = [...event.calendarId].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return CALENDAR_PALETTE[hash % CALENDAR_PALETTE.length];
+};
+
+/**
+ * Whether an event should keep tasks out of its time
+ */
+export const isBusySyncedEvent = (event: SyncedCalendarEvent): boolean => {
+  return event.status !== 'cancelled' && event.transparency !== 'transparent' && !event.taskId;
+};
+
+export interface SyncedEventOptions {
+  calendarIds?: string[]; // calendars to show, in order of preference for duplicates; all when omitted
+  busyCalendarIds?: string[]; // calendars that block time; all when omitted
+}
+
+// Copies of one event share its iCalUID; recurring instances also need the start
+const getDuplicateKey = (event: SyncedCalendarEvent): string =>
+  `${event.iCalUID || event.googleEventId}|${event.start.getTime()}`;
+
+export const syncedEventsToCalendarEvents = (
+  events: SyncedCalendarEvent[],
+  { calendarIds, busyCalendarIds }: SyncedEventOptions = {}
+): CalendarEvent[] => {
+  const calendarRank = (event: SyncedCalendarEvent) => {
+    const index = calendarIds?.indexOf(event.calendarId) ?? 0;
+    return index === -1 ? Infinity : index;
+  };
+  const blocksTime = (event: SyncedCalendarEvent) =>
+    isBusySyncedEvent(event) && (!busyCalendarIds || busyCalendarIds.includes(event.calendarId));
+
+  const copiesByKey = new Map<string, SyncedCalendarEvent[]>();
+  events
+    .filter(event => event.status !== 'cancelled' && !event.taskId && event.end > event.start)
+    .filter(event => calendarRank(event) !== Infinity)
+    .forEach(event => {
+      const key = getDuplicateKey(event);
+      copiesByKey.set(key, [...(copiesByKey.get(key) || []), event]);
+    });
+
+  return [...copiesByKey.values()].map(copies => {
+    const event = copies.reduce((best, copy) => calendarRank(copy) < calendarRank(best) ? copy : best);
+
+    return {
+      id: event.id,
+      title: event.title,
+      start: event.start,
+      end: event.end,
+      type: event.type === 'meeting' ? 'meeting' : 'block',
+      calendarId: event.calendarId,
+      isAllDay: event.isAllDay,
+      isBusy: copies.some(blocksTime),
+      color: getCalendarColor(event),
+      isFlexible: false,
+      description: event.description,
+      location: event.location,
+    };
+  });
+};
@@ -0,0 +1,32 @@
+/**
+ * Task Event Content
+ *
+ * What every provider writes into a task's calendar event besides its times
+ *
+ * Used by: googleCalendar.ts, caldavCalendar.ts
+ */
+
+import { Task } from '@/features/tasks/TaskTypes';
+
+/**
+ * Format the task details shown in its event's description
+ */
+export const formatTaskDescription = (task: Task): string => {
+  let description = '';
+
+  if (task.description) {
+    description += task.description + '\n\n';
+  }
+
+  description += `Priority: ${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}\n`;
+  description += `Category: ${task.category}\n`;
+  description += `Duration: ${task.estimatedDuration} minutes\n`;
+
+  if (task.deadline) {
+    description += `Deadline: ${task.deadline.toLocaleDateString()}\n`;
+  }
+
+  description += '\n---\nCreated by FlowMotion';
+
+  return description;
+};
@@ -0,0 +1,133 @@
+/**
+ * Calendar Feed Hooks
+ *
+ * Client side of the subscribable .ics feed:
+ * - useCalendarFeed: the feed's status plus enable, rotate, privacy and
+ *   revoke actions for Settings
+ * - useCalendarFeedPublisher: sends the feed a copy of the time blocks and
+ *   time zone whenever they change, since they only live in this browser
+ *
+ * Both share one store, so a feed enabled in Settings starts publishing at once.
+ *
+ * Used by: CalendarFeedSettings.tsx, page.tsx
+ * Related: api/calendar/feed/route.ts, calendarFeeds.ts (server)
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { resolveTimeZone } from '@/features/calendar/timezone';
+import { CalendarFeedPrivacy, CalendarFeedStatus } from './CalendarSyncTypes';
+import { fetchWithRetry } from './calendarApiClient';
+
+const FEED_URL = '/api/calendar/feed';
+const SERVICE_NAME = 'Calendar feed';
+
+// Time blocks often change several times in a row, e.g. while dragging
+const PUBLISH_DELAY_MS = 2000;
+
+const getPublishedContent = () => {
+  const { timeBlocks, settings } = useCalendarStore.getState();
+  return { timeBlocks, timeZone: resolveTimeZone(settings.timeZone) };
+};
+
+const feedRequest = async (method: string, body?: unknown): Promise<CalendarFeedStatus> => {
+  const response = await fetchWithRetry(FEED_URL, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  }, SERVICE_NAME);
+  return response.json();
+};
+
+interface CalendarFeedStore {
+  status: CalendarFeedStatus | null; // null until loaded
+  isLoading: boolean;
+  error: string | null;
+
+  loadStatus: () => Promise<void>;
+  enableFeed: (privacy: CalendarFeedPrivacy) => Promise<void>;
+  rotateFeed: () => Promise<void>;
+  setPrivacy: (privacy: CalendarFeedPrivacy) => Promise<void>;
+  revokeFeed: () => Promise<void>;
+  publish: () => Promise<void>;
+}
+
+const useCalendarFeedStore = create<CalendarFeedStore>((set, get) => {
+  const run = async (request: () => Promise<CalendarFeedStatus>) => {
+    set({ isLoading: true, error: null });
+    try {
+      set({ status: await request(), isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Calendar feed request failed',
+        isLoading: false,
+      });
+    }
+  };
+
+  return {
+    status: null,
+    isLoading: false,
+    error: null,
+
+    loadStatus: () => run(() => feedRequest('GET')),
+
+    enableFeed: (privacy) => run(() => feedRequest('POST', { privacy, ...getPublishedContent() })),
+
+    // A new token with the same settings; the old URL stops working
+    rotateFeed: () => run(() => feedRequest('POST', getPublishedContent())),
+
+    setPrivacy: (privacy) => run(() => feedRequest('PATCH', { privacy })),
+
+    revokeFeed: () => run(async () => {
+      await fetchWithRetry(FEED_URL, { method: 'DELETE' }, SERVICE_NAME);
+      return { available: true, enabled: false };
+    }),
+
+    publish: async () => {
+      if (!get().status?.enabled) return;
+      try {
+        await feedRequest('PATCH', getPublishedContent());
+      } catch (error) {
+        console.warn('Failed to publish time blocks to the calendar feed:', error);
+      }
+    },
+  };
+});
+
+export const useCalendarFeed = () => {
+  const store = useCalendarFeedStore();
+  const { loadStatus } = store;
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  return store;
+};
+
+export const useCalendarFeedPublisher = (enabled: boolean) => {
+  const { status, loadStatus, publish } = useCalendarFeedStore();
+  const { timeBlocks, settings, initializeStore } = useCalendarStore();
+
+  useEffect(() => {
+    initializeStore();
+  }, [initializeStore]);
+
+  useEffect(() => {
+    if (enabled) loadStatus();
+  }, [enabled, loadStatus]);
+
+  const isPublishing = enabled && !!status?.enabled;
+
+  // Publish on load too: blocks may have changed while the feed wasn't listening
+  useEffect(() => {
+    if (!isPublishing) return;
+
+    const timer = setTimeout(publish, PUBLISH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isPublishing, timeBlocks, settings.timeZone, publish]);
+};
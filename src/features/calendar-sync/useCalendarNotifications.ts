@@ -0,0 +1,112 @@
+/**
+ * Calendar Push Notifications Hook
+ *
+ * Keeps synced calendars up to date without a manual sync:
+ * - Registers watch channels for the read and target calendars, again when
+ *   they change and twice a day so channels are renewed before they expire.
+ *   The server syncs a calendar when it changes (serverSync.ts), moving tasks
+ *   when it's the target and calendar-to-task sync is on.
+ * - Listens to the server's notification stream and refreshes: reloads tasks
+ *   the server changed, and fetches the changed calendars' events for display
+ *
+ * Only Google Calendar sends push notifications; with other providers this does nothing.
+ *
+ * Used by: page.tsx
+ * Related: watchChannels.ts and serverSync.ts (server), calendarSyncRunner.ts, api/calendar/notifications/route.ts
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { googleCalendarService } from './googleCalendar';
+import { getCalendarProvider } from './calendarProviders';
+import { useCalendarSyncStore } from './calendarSyncStore';
+import { syncCalendarEvents } from './calendarSyncRunner';
+import { CalendarChangeNotification, GoogleCalendar } from './CalendarSyncTypes';
+import { useTaskStore } from '@/features/tasks/taskStore';
+
+// Google often sends several notifications for one change
+const REFRESH_DELAY_MS = 2000;
+const REWATCH_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+export const useCalendarNotifications = (enabled: boolean) => {
+  const { syncSettings, initializeStore } = useCalendarSyncStore();
+
+  useEffect(() => {
+    initializeStore();
+  }, [initializeStore]);
+
+  const isWatching = enabled && getCalendarProvider(syncSettings.provider).supportsPushNotifications;
+
+  const watchedCalendarIds = [...new Set([
+    ...(syncSettings.readCalendarIds || []),
+    ...(syncSettings.targetCalendarId ? [syncSettings.targetCalendarId] : []),
+  ])].sort().join(',');
+  const taskCalendarId = syncSettings.syncCalendarToTasks ? syncSettings.targetCalendarId : undefined;
+
+  // Register (and renew) watch channels for the synced calendars
+  useEffect(() => {
+    if (!isWatching || !watchedCalendarIds) return;
+
+    const watch = () => {
+      googleCalendarService.watchCalendars(watchedCalendarIds.split(','), taskCalendarId)
+        .then(({ errors }) => {
+          if (errors.length > 0) console.warn('Some calendars could not be watched:', errors);
+        })
+        .catch(error => console.warn('Failed to watch calendars:', error));
+    };
+
+    watch();
+    const interval = setInterval(watch, REWATCH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isWatching, watchedCalendarIds, taskCalendarId]);
+
+  // Refresh what the server synced
+  useEffect(() => {
+    if (!isWatching) return;
+
+    const changedCalendarIds = new Set<string>();
+    let tasksChanged = false;
+    let calendars: GoogleCalendar[] | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = async () => {
+      const calendarIds = [...changedCalendarIds];
+      const reloadTasks = tasksChanged;
+      changedCalendarIds.clear();
+      tasksChanged = false;
+
+      if (reloadTasks) {
+        await useTaskStore.getState().syncWithCloud();
+      }
+
+      calendars ??= await googleCalendarService.getCalendars();
+      const { syncSettings: settings } = useCalendarSyncStore.getState();
+      const targetCalendarId = settings.targetCalendarId || calendars.find(calendar => calendar.primary)?.id;
+
+      for (const calendarId of calendarIds) {
+        const calendar = calendars.find(c => c.id === calendarId);
+        if (calendar && (calendarId === targetCalendarId || settings.readCalendarIds?.includes(calendarId))) {
+          await syncCalendarEvents(calendar);
+        }
+      }
+    };
+
+    const source = new EventSource('/api/calendar/notifications');
+    source.addEventListener('calendar-changed', (event) => {
+      const { calendarId, tasksUpdated } = JSON.parse((event as MessageEvent).data) as CalendarChangeNotification;
+      changedCalendarIds.add(calendarId);
+      tasksChanged ||= tasksUpdated > 0;
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        refresh().catch(error => console.error('Background calendar refresh failed:', error));
+      }, REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      source.close();
+      clearTimeout(timer);
+    };
+  }, [isWatching]);
+};
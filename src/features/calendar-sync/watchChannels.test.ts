@@ -0,0 +1,58 @@
+/**
+ * Watch Channel Tests
+ *
+ * Renewals racing each other: only the request that claims a channel replaces
+ * it, and a failed renewal lets the next one try. Channels are kept in memory,
+ * since Supabase isn't configured here.
+ */
+
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getUserChannels, renewChannel, syncWatchChannels } from './watchChannels';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Google's side: watch creates a channel, stop succeeds
+const mockGoogle = () => mock.method(globalThis, 'fetch', async (url: string) =>
+  url.endsWith('/channels/stop') ? new Response(null, { status: 204 }) : json({ resourceId: 'resource-1' })
+);
+
+const watchedPaths = (fetchMock: ReturnType<typeof mockGoogle>) =>
+  fetchMock.mock.calls.map(call => new URL(call.arguments[0] as string).pathname.split('/').pop());
+
+describe('renewChannel', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('replaces a channel once when renewals race', async () => {
+    mockGoogle();
+    const { channels: [channel] } = await syncWatchChannels('racing-user', ['primary'], 'access-token', 'primary');
+    const fetchMock = mockGoogle();
+
+    const results = await Promise.all([
+      renewChannel(channel, 'access-token'),
+      renewChannel(channel, 'access-token'),
+    ]);
+
+    assert.equal(results.filter(Boolean).length, 1);
+    assert.deepEqual(watchedPaths(fetchMock), ['watch', 'stop']);
+
+    const channels = await getUserChannels('racing-user');
+    assert.deepEqual(channels.map(current => current.id), [results.find(Boolean)!.id]);
+    assert.equal(channels[0].syncTasks, true);
+  });
+
+  it('lets the next request renew after a renewal fails', async () => {
+    mockGoogle();
+    const { channels: [channel] } = await syncWatchChannels('failing-user', ['primary'], 'access-token');
+
+    mock.method(globalThis, 'fetch', async () => json({ error: { message: 'Backend Error' } }, 500));
+    await assert.rejects(renewChannel(channel, 'access-token'), { status: 500 });
+
+    mockGoogle();
+    const renewed = await renewChannel(channel, 'access-token');
+
+    assert.ok(renewed);
+    assert.deepEqual((await getUserChannels('failing-user')).map(current => current.id), [renewed.id]);
+  });
+});
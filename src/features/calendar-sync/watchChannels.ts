@@ -0,0 +1,388 @@
+/**
+ * Google Calendar Watch Channels (server only)
+ *
+ * Push notifications instead of waiting for the user to click sync:
+ * - Registers an events.watch channel per watched calendar, each with its own
+ *   secret token, and stops channels for calendars no longer watched
+ * - Renews channels a day before they expire: whenever the client re-registers,
+ *   and from the webhook when the user's refresh token is stored in Supabase.
+ *   A renewal first claims the channel (renewing_at), so concurrent requests
+ *   don't each create a replacement.
+ * - Verifies webhook notifications against the stored channel (id, token, resource)
+ * - Keeps each channel's sync token and whether its calendar's changes move
+ *   tasks, for the webhook's server-side sync (serverSync.ts)
+ * - Notifies the user's open clients (server-sent events) that a calendar was
+ *   synced, so they refresh
+ *
+ * Channels are stored in Supabase (calendar_watch_channels) when configured,
+ * otherwise in memory. Notifications reach clients connected to the same server
+ * process. GOOGLE_CALENDAR_API_URL can point at a local stub server.
+ *
+ * Used by: api/calendar/watch, api/calendar/webhook, api/calendar/notifications routes
+ * Related: googleTokens.ts, serverSync.ts, useCalendarNotifications.ts
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabaseAdmin';
+import { DatabaseWatchChannel } from '@/lib/supabase';
+import { CalendarChangeNotification, WatchChannel } from './CalendarSyncTypes';
+import { createApiError } from './calendarApiClient';
+
+export const GOOGLE_CALENDAR_API = process.env.GOOGLE_CALENDAR_API_URL || 'https://www.googleapis.com/calendar/v3';
+
+const CHANNEL_TTL_SECONDS = 7 * 24 * 60 * 60; // the longest Google allows for events
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const RENEWAL_CLAIM_MS = 5 * 60 * 1000; // a claim older than this was left by a renewal that died
+
+type ChangeListener = (notification: CalendarChangeNotification) => void;
+
+// Shared across route bundles, which may each load this module
+const globalState = globalThis as typeof globalThis & {
+  flowmotionWatchChannels?: Map<string, WatchChannel>;
+  flowmotionChangeListeners?: Map<string, Set<ChangeListener>>;
+};
+const memoryChannels = globalState.flowmotionWatchChannels ??= new Map<string, WatchChannel>();
+const changeListeners = globalState.flowmotionChangeListeners ??= new Map<string, Set<ChangeListener>>();
+
+export const getWebhookUrl = (): string =>
+  process.env.CALENDAR_WEBHOOK_URL || `${process.env.NEXTAUTH_URL}/api/calendar/webhook`;
+
+export const needsRenewal = (channel: WatchChannel): boolean =>
+  channel.expiration.getTime() - Date.now() < RENEW_BEFORE_MS;
+
+// ============================================================================
+// CHANNEL STORAGE
+// ============================================================================
+
+const dbChannelToChannel = (channel: DatabaseWatchChannel): WatchChannel => ({
+  id: channel.id,
+  userId: channel.user_id,
+  calendarId: channel.calendar_id,
+  resourceId: channel.resource_id,
+  token: channel.token,
+  expiration: new Date(channel.expiration),
+  syncToken: channel.sync_token || undefined,
+  syncTasks: !!channel.sync_tasks,
+  renewingAt: channel.renewing_at ? new Date(channel.renewing_at) : undefined,
+});
+
+const saveChannel = async (channel: WatchChannel): Promise<void> => {
+  if (!isSupabaseAdminConfigured()) {
+    memoryChannels.set(channel.id, channel);
+    return;
+  }
+
+  const { error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .insert({
+      id: channel.id,
+      user_id: channel.userId,
+      calendar_id: channel.calendarId,
+      resource_id: channel.resourceId,
+      token: channel.token,
+      expiration: channel.expiration.toISOString(),
+      sync_token: channel.syncToken ?? null,
+      sync_tasks: channel.syncTasks,
+    });
+
+  if (error) throw error;
+};
+
+export const updateChannel = async (
+  channelId: string,
+  fields: Partial<Pick<WatchChannel, 'syncToken' | 'syncTasks'>>
+): Promise<void> => {
+  if (!isSupabaseAdminConfigured()) {
+    const channel = memoryChannels.get(channelId);
+    if (channel) memoryChannels.set(channelId, { ...channel, ...fields });
+    return;
+  }
+
+  const { error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .update({
+      ...('syncToken' in fields && { sync_token: fields.syncToken ?? null }),
+      ...('syncTasks' in fields && { sync_tasks: fields.syncTasks }),
+    })
+    .eq('id', channelId);
+
+  if (error) throw error;
+};
+
+const deleteChannel = async (channelId: string): Promise<void> => {
+  if (!isSupabaseAdminConfigured()) {
+    memoryChannels.delete(channelId);
+    return;
+  }
+
+  const { error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .delete()
+    .eq('id', channelId);
+
+  if (error) throw error;
+};
+
+/**
+ * Claim a channel for renewal. Returns the channel as stored, or null when it's
+ * gone or another request is renewing it.
+ */
+const claimRenewal = async (channelId: string): Promise<WatchChannel | null> => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - RENEWAL_CLAIM_MS);
+
+  if (!isSupabaseAdminConfigured()) {
+    const channel = memoryChannels.get(channelId);
+    if (!channel || (channel.renewingAt && channel.renewingAt > staleBefore)) return null;
+    memoryChannels.set(channelId, { ...channel, renewingAt: now });
+    return channel;
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .update({ renewing_at: now.toISOString() })
+    .eq('id', channelId)
+    .or(`renewing_at.is.null,renewing_at.lt.${staleBefore.toISOString()}`)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? dbChannelToChannel(data) : null;
+};
+
+// Let another request renew the channel after this one failed
+const releaseRenewal = async (channelId: string): Promise<void> => {
+  if (!isSupabaseAdminConfigured()) {
+    const channel = memoryChannels.get(channelId);
+    if (channel) memoryChannels.set(channelId, { ...channel, renewingAt: undefined });
+    return;
+  }
+
+  const { error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .update({ renewing_at: null })
+    .eq('id', channelId);
+
+  if (error) throw error;
+};
+
+export const getChannel = async (channelId: string): Promise<WatchChannel | null> => {
+  if (!isSupabaseAdminConfigured()) {
+    return memoryChannels.get(channelId) || null;
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .select('*')
+    .eq('id', channelId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? dbChannelToChannel(data) : null;
+};
+
+export const getUserChannels = async (userId: string): Promise<WatchChannel[]> => {
+  if (!isSupabaseAdminConfigured()) {
+    return [...memoryChannels.values()].filter(channel => channel.userId === userId);
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('calendar_watch_channels')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(dbChannelToChannel);
+};
+
+// ============================================================================
+// GOOGLE CHANNEL API
+// ============================================================================
+
+const googleRequest = async <T>(accessToken: string, path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${GOOGLE_CALENDAR_API}${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw createApiError(response.status, await response.text(), response.headers.get('Retry-After'));
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+const createChannel = async (
+  userId: string,
+  calendarId: string,
+  accessToken: string,
+  sync: Pick<WatchChannel, 'syncToken' | 'syncTasks'>
+): Promise<WatchChannel> => {
+  const id = randomUUID();
+  const token = randomBytes(32).toString('hex');
+
+  const response = await googleRequest<{ resourceId: string; expiration?: string }>(
+    accessToken,
+    `/calendars/${encodeURIComponent(calendarId)}/events/watch`,
+    {
+      id,
+      type: 'web_hook',
+      address: getWebhookUrl(),
+      token,
+      params: { ttl: String(CHANNEL_TTL_SECONDS) },
+    }
+  );
+
+  const channel: WatchChannel = {
+    id,
+    userId,
+    calendarId,
+    resourceId: response.resourceId,
+    token,
+    expiration: new Date(response.expiration ? Number(response.expiration) : Date.now() + CHANNEL_TTL_SECONDS * 1000),
+    ...sync,
+  };
+
+  await saveChannel(channel);
+  return channel;
+};
+
+/**
+ * Stop a channel at Google and forget it. Channels Google no longer knows are just forgotten.
+ */
+export const stopChannel = async (channel: WatchChannel, accessToken: string): Promise<void> => {
+  try {
+    await googleRequest(accessToken, '/channels/stop', { id: channel.id, resourceId: channel.resourceId });
+  } catch (error) {
+    console.warn('Failed to stop calendar watch channel:', error);
+  }
+  await deleteChannel(channel.id);
+};
+
+/**
+ * Replace a channel that is about to expire. The new one starts before the old one stops,
+ * and continues its sync where the old one got to. Returns null without renewing
+ * when another request already is.
+ */
+export const renewChannel = async (
+  channel: WatchChannel,
+  accessToken: string,
+  syncTasks?: boolean
+): Promise<WatchChannel | null> => {
+  const claimed = await claimRenewal(channel.id);
+  if (!claimed) return null;
+
+  let renewed: WatchChannel;
+  try {
+    renewed = await createChannel(claimed.userId, claimed.calendarId, accessToken, {
+      syncToken: claimed.syncToken,
+      syncTasks: syncTasks ?? claimed.syncTasks,
+    });
+  } catch (error) {
+    await releaseRenewal(claimed.id);
+    throw error;
+  }
+
+  await stopChannel(claimed, accessToken);
+  return renewed;
+};
+
+export interface WatchResult {
+  channels: WatchChannel[];
+  errors: string[]; // e.g. calendars that don't support push notifications
+}
+
+/**
+ * Make the user's channels match the calendars they sync: watch new calendars,
+ * renew channels close to expiry, stop the rest. Only changes to taskCalendarId
+ * move tasks.
+ */
+export const syncWatchChannels = async (
+  userId: string,
+  calendarIds: string[],
+  accessToken: string,
+  taskCalendarId?: string
+): Promise<WatchResult> => {
+  const existing = await getUserChannels(userId);
+  const channels: WatchChannel[] = [];
+  const errors: string[] = [];
+
+  for (const channel of existing.filter(channel => !calendarIds.includes(channel.calendarId))) {
+    await stopChannel(channel, accessToken);
+  }
+
+  for (const calendarId of calendarIds) {
+    const current = existing.find(channel => channel.calendarId === calendarId);
+    const syncTasks = calendarId === taskCalendarId;
+
+    try {
+      if (current && !needsRenewal(current)) {
+        if (current.syncTasks !== syncTasks) await updateChannel(current.id, { syncTasks });
+        channels.push({ ...current, syncTasks });
+      } else if (current) {
+        // Another request may be renewing it; the current channel works until then
+        channels.push(await renewChannel(current, accessToken, syncTasks) || current);
+      } else {
+        channels.push(await createChannel(userId, calendarId, accessToken, { syncTasks }));
+      }
+    } catch (error) {
+      errors.push(`${calendarId}: ${error instanceof Error ? error.message : 'Failed to watch calendar'}`);
+    }
+  }
+
+  return { channels, errors };
+};
+
+export const stopAllChannels = async (userId: string, accessToken: string): Promise<void> => {
+  for (const channel of await getUserChannels(userId)) {
+    await stopChannel(channel, accessToken);
+  }
+};
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+const tokensMatch = (expected: string, received: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * The stored channel a webhook notification belongs to, or null when it can't be trusted
+ */
+export const verifyNotification = async (headers: Headers): Promise<WatchChannel | null> => {
+  const channelId = headers.get('X-Goog-Channel-ID');
+  const token = headers.get('X-Goog-Channel-Token');
+  const resourceId = headers.get('X-Goog-Resource-ID');
+  if (!channelId || !token || !resourceId) return null;
+
+  const channel = await getChannel(channelId);
+  if (!channel || channel.resourceId !== resourceId || !tokensMatch(channel.token, token)) {
+    return null;
+  }
+  return channel;
+};
+
+export const subscribeToCalendarChanges = (userId: string, listener: ChangeListener): (() => void) => {
+  const listeners = changeListeners.get(userId) || new Set<ChangeListener>();
+  listeners.add(listener);
+  changeListeners.set(userId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) changeListeners.delete(userId);
+  };
+};
+
+export const notifyCalendarChanged = (userId: string, calendarId: string, tasksUpdated = 0): number => {
+  const listeners = changeListeners.get(userId);
+  const notification: CalendarChangeNotification = { calendarId, tasksUpdated, receivedAt: new Date().toISOString() };
+  listeners?.forEach(listener => listener(notification));
+  return listeners?.size || 0;
+};
@@ -2,7 +2,7 @@
  * Calendar-related TypeScript types and interfaces
  * 
  * Contains all type definitions for the calendar and scheduling system
- * Used by: CalendarView.tsx, scheduling.ts, TaskManager.tsx
+ * Used by: CalendarView.tsx, scheduling.ts, recurrence.ts, calendarStore.ts, TaskManager.tsx
  */
 
 export interface CalendarEvent {
@@ -12,6 +12,11 @@ export interface CalendarEvent {
   end: Date;
   type: 'task' | 'meeting' | 'block' | 'break';
   taskId?: string;
+  timeBlockId?: string; // source TimeBlock for expanded (recurring) blocks
+  chunkId?: string; // session of a split task; sibling sessions share taskId
+  calendarId?: string; // source Google calendar for synced events
+  isAllDay?: boolean;
+  isBusy?: boolean; // synced events: false when the event shows as free
   color?: string;
   isFlexible: boolean;
   description?: string;
@@ -28,6 +33,7 @@ export interface TimeBlock {
   color: string;
   isRecurring: boolean;
   recurringPattern?: RecurringPattern;
+  iCalUid?: string; // UID of the iCalendar event the block was imported from
 }
 
 export interface RecurringPattern {
@@ -51,34 +57,66 @@ export interface WorkingHours {
   daysOfWeek: number[]; // 0-6, Sunday-Saturday
 }
 
+export interface WorkWindow {
+  start: string; // HH:MM format
+  end: string; // HH:MM format
+}
+
+// Work windows per weekday (0-6, Sunday-Saturday); a missing or empty day is not worked
+export type WeeklySchedule = Partial<Record<number, WorkWindow[]>>;
+
+export interface WorkingHoursOverride {
+  date: string; // yyyy-MM-dd, local to the calendar
+  windows: WorkWindow[]; // empty = day off (holiday)
+  label?: string;
+}
+
 export interface CalendarSettings {
-  workingHours: WorkingHours;
+  workingHours: WorkingHours; // simple hours, used when weeklySchedule is not set
+  weeklySchedule?: WeeklySchedule;
+  workingHoursOverrides?: WorkingHoursOverride[]; // holidays, half days, etc.
   timeZone: string;
   defaultTaskDuration: number; // in minutes
   breakDuration: number; // in minutes
   bufferTime: number; // in minutes between tasks
   weekStartsOn: number; // 0-6, Sunday-Saturday
+  schedulingStrategy?: SchedulingStrategy; // defaults to 'greedy'
 }
 
+// 'greedy' places tasks one at a time in priority order,
+// 'optimized' searches task orderings for the best overall schedule
+export type SchedulingStrategy = 'greedy' | 'optimized';
+
 export interface SchedulingConstraint {
   id: string;
   type: 'before' | 'after' | 'during' | 'not_during';
-  time?: Date;
-  timeRange?: {
+  time?: Date; // for 'before' / 'after'
+  timeRange?: { // for 'during' / 'not_during'
     start: Date;
     end: Date;
   };
-  taskId?: string;
-  priority: number;
+  taskId?: string; // omit to apply to every task
+  priority: number; // 1-10, weight of a soft constraint
+  isHard?: boolean; // hard constraints filter slots, soft ones only affect scoring
+}
+
+export interface SchedulingScore {
+  total: number; // higher is better, used to compare strategies
+  placementScore: number; // priority-weighted slot scores of placed tasks
+  missedDeadlines: number; // tasks with a deadline that couldn't be placed before it
+  fragmentation: number; // short idle gaps left between events
 }
 
 export interface SchedulingResult {
   success: boolean;
+  strategy?: SchedulingStrategy;
+  score?: SchedulingScore;
   scheduledTasks: {
     taskId: string;
     start: Date;
     end: Date;
     confidence: number; // 0-1, how confident the scheduler is
+    chunks?: { start: Date; end: Date }[]; // sessions when the task was split
   }[];
   unscheduledTasks: string[]; // task IDs that couldn't be scheduled
   conflicts: {
@@ -88,11 +126,35 @@ export interface SchedulingResult {
   }[];
   suggestions: {
     message: string;
-    actionType: 'extend_hours' | 'reduce_tasks' | 'adjust_deadlines';
+    actionType: 'extend_hours' | 'reduce_tasks' | 'adjust_deadlines' | 'split_task';
     data?: Record<string, unknown>;
   }[];
 }
 
+// A change to the current plan that may require moving scheduled tasks
+export type ScheduleChange =
+  | { type: 'time_block'; block: TimeBlock } // new busy time, e.g. a meeting
+  | { type: 'task_overrun'; taskId: string; end: Date } // task running late
+  | { type: 'deadline_change'; taskId: string; deadline?: Date };
+
+export interface RescheduleMove {
+  taskId: string;
+  from: { start: Date; end: Date };
+  to?: { // missing when no new slot was found
+    start: Date;
+    end: Date;
+    chunks?: { start: Date; end: Date }[];
+  };
+  reason: string; // why the task had to move
+}
+
+export interface RescheduleResult {
+  success: boolean; // every moved task found a new slot
+  change: ScheduleChange;
+  moves: RescheduleMove[];
+  conflicts: SchedulingResult['conflicts'];
+}
+
 export interface DraggedEvent {
   event: CalendarEvent;
   start: Date;
@@ -136,6 +198,7 @@ export const EVENT_COLORS = {
   block: '#8b5cf6',
   break: '#f59e0b',
   unavailable: '#ef4444',
+  completed: '#9ca3af',
 } as const;
 
 export const CALENDAR_VIEWS = [
@@ -4,28 +4,42 @@
  * Complete calendar implementation with:
  * - Multiple view modes (day, week, month, agenda)
  * - Drag-and-drop task scheduling
- * - Auto-scheduler integration
- * - Time block management
+ * - Auto-scheduler integration (greedy or optimized strategy, side-by-side comparison)
+ * - Time block management (one-off and recurring)
+ * - Split tasks shown as linked sessions with per-session completion
+ * - Incremental rescheduling preview when busy time is added, a task runs
+ *   late or a deadline moves
+ * - Rendering in CalendarSettings.timeZone rather than the browser's zone
+ * - Google Calendar events shown per source calendar and scheduled around as busy time
  * - Real-time updates from task store
  * 
- * State: Integrates with taskStore and internal calendar state
- * Related: TaskManager, scheduling.ts, taskStore.ts
+ * State: Integrates with taskStore, calendarStore, calendarSyncStore and internal calendar state
+ * Related: TaskManager, scheduling.ts, recurrence.ts, timezone.ts, taskStore.ts, syncedEvents.ts
  */
 
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useTaskStore } from '../tasks/taskStore';
+import { useCalendarStore } from './calendarStore';
 import { AutoScheduler } from './scheduling';
+import { timeBlocksToEvents } from './recurrence';
+import { resolveTimeZone, toZonedTime, fromZonedTime } from './timezone';
+import { useCalendarSyncStore } from '../calendar-sync/calendarSyncStore';
+import { syncedEventsToCalendarEvents, getCalendarColor } from '../calendar-sync/syncedEvents';
 import { 
   CalendarEvent, 
   CalendarView as CalendarViewType, 
-  CalendarSettings, 
-  DEFAULT_CALENDAR_SETTINGS,
+  RecurringPattern,
+  RescheduleResult,
+  ScheduleChange,
+  SchedulingResult,
+  SchedulingStrategy,
+  TimeBlock,
   EVENT_COLORS,
   CALENDAR_VIEWS 
 } from './CalendarTypes';
-import { formatTaskDuration } from '../tasks/taskUtils';
+import { formatTaskDuration, getTaskProgress } from '../tasks/taskUtils';
 import { 
   format, 
   addDays, 
@@ -42,18 +56,67 @@ import {
   getHours,
   getMinutes,
   setHours,
-  setMinutes
+  setMinutes,
+  addMinutes
 } from 'date-fns';
 import { 
   ChevronLeft, 
   ChevronRight, 
   Zap,
+  Scale,
   X
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STRATEGY_LABELS: Record<SchedulingStrategy, string> = {
+  greedy: 'Greedy',
+  optimized: 'Optimized',
+};
+
+// Visible date range for a view, used to expand recurring blocks
+const getVisibleRange = (type: CalendarViewType['type'], date: Date): { start: Date; end: Date } => {
+  switch (type) {
+    case 'day':
+      return { start: startOfDay(date), end: endOfDay(date) };
+    case 'month':
+      return { start: startOfWeek(startOfMonth(date)), end: endOfWeek(endOfMonth(date)) };
+    default:
+      return { start: startOfWeek(date), end: endOfWeek(date) };
+  }
+};
+
+const getTimeBlockColor = (type: TimeBlock['type']): string => {
+  switch (type) {
+    case 'meeting':
+      return EVENT_COLORS.meeting;
+    case 'break':
+      return EVENT_COLORS.break;
+    case 'unavailable':
+      return EVENT_COLORS.unavailable;
+    default:
+      return EVENT_COLORS.block;
+  }
+};
+
+// All-day events cover [start, end), so multi-day events appear on each of their days
+const isAllDayOn = (event: CalendarEvent, day: Date): boolean =>
+  !!event.isAllDay && event.start <= endOfDay(day) && event.end > startOfDay(day);
+
+interface TimeBlockFormData {
+  title: string;
+  type: TimeBlock['type'];
+  duration: number; // in minutes
+  frequency: 'none' | RecurringPattern['frequency'];
+  interval: number;
+  daysOfWeek: number[];
+}
 
 // Calendar Event Component
 const CalendarEventComponent = ({ 
@@ -75,6 +138,7 @@ const CalendarEventComponent = ({
         absolute rounded-md px-2 py-1 text-xs text-white cursor-pointer
         hover:shadow-md transition-shadow z-10
         ${event.type === 'task' ? 'border-l-4' : ''}
+        ${event.isBusy === false ? 'opacity-60 border border-dashed border-white' : ''}
       `}
       style={{
         backgroundColor: eventColor,
@@ -96,6 +160,30 @@ const CalendarEventComponent = ({
   );
 };
 
+// All-Day Events Component
+const AllDayEvents = ({
+  events,
+  onEventClick,
+}: {
+  events: CalendarEvent[];
+  onEventClick: (event: CalendarEvent) => void;
+}) => (
+  <div className="space-y-1">
+    {events.map(event => (
+      <div
+        key={event.id}
+        className={`text-xs px-1 py-0.5 rounded truncate cursor-pointer text-white ${
+          event.isBusy === false ? 'opacity-60' : ''
+        }`}
+        style={{ backgroundColor: event.color || EVENT_COLORS[event.type] }}
+        onClick={() => onEventClick(event)}
+      >
+        {event.title}
+      </div>
+    ))}
+  </div>
+);
+
 // Day View Component
 const DayView = ({ 
   currentDate, 
@@ -109,7 +197,8 @@ const DayView = ({
   onTimeSlotClick: (date: Date) => void;
 }) => {
   const hours = Array.from({ length: 24 }, (_, i) => i);
-  const dayEvents = events.filter(event => isSameDay(event.start, currentDate));
+  const dayEvents = events.filter(event => !event.isAllDay && isSameDay(event.start, currentDate));
+  const allDayEvents = events.filter(event => isAllDayOn(event, currentDate));
   
   const getEventPosition = (event: CalendarEvent) => {
     const startMinutes = getHours(event.start) * 60 + getMinutes(event.start);
@@ -131,10 +220,19 @@ const DayView = ({
           <CardTitle className="text-lg">
             {format(currentDate, 'EEEE, MMMM d, yyyy')}
           </CardTitle>
-          <Badge variant="outline">{dayEvents.length} events</Badge>
+          <Badge variant="outline">{dayEvents.length + allDayEvents.length} events</Badge>
         </div>
       </CardHeader>
       
+      {allDayEvents.length > 0 && (
+        <div className="flex border-b p-2">
+          <div className="w-14 flex-shrink-0 text-xs text-gray-500">All day</div>
+          <div className="flex-1">
+            <AllDayEvents events={allDayEvents} onEventClick={onEventClick} />
+          </div>
+        </div>
+      )}
+      
       <CardContent className="flex-1 overflow-y-auto p-0">
         <div className="relative">
           {hours.map(hour => (
@@ -187,6 +285,7 @@ const WeekView = ({
   const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
   
   const hours = Array.from({ length: 24 }, (_, i) => i);
+  const hasAllDayEvents = weekDays.some(day => events.some(event => isAllDayOn(event, day)));
   
   return (
     <Card className="flex flex-col h-full">
@@ -214,6 +313,21 @@ const WeekView = ({
         ))}
       </div>
       
+      {/* All-day row */}
+      {hasAllDayEvents && (
+        <div className="flex border-b">
+          <div className="w-16 flex-shrink-0 text-xs text-gray-500 p-2">All day</div>
+          {weekDays.map(day => (
+            <div key={day.toISOString()} className="flex-1 p-1 border-r">
+              <AllDayEvents
+                events={events.filter(event => isAllDayOn(event, day))}
+                onEventClick={onEventClick}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      
       {/* Week grid */}
       <CardContent className="flex-1 overflow-y-auto p-0">
         <div className="relative">
@@ -234,7 +348,7 @@ const WeekView = ({
                   {/* Render events for this day and hour */}
                   {events
                     .filter(event => 
-                      isSameDay(event.start, day) && getHours(event.start) === hour
+                      !event.isAllDay && isSameDay(event.start, day) && getHours(event.start) === hour
                     )
                     .map(event => (
                       <CalendarEventComponent
@@ -284,7 +398,7 @@ const MonthView = ({
   }
   
   const getDayEvents = (day: Date) => {
-    return events.filter(event => isSameDay(event.start, day));
+    return events.filter(event => event.isAllDay ? isAllDayOn(event, day) : isSameDay(event.start, day));
   };
   
   return (
@@ -329,7 +443,9 @@ const MonthView = ({
                     {dayEvents.slice(0, 3).map(event => (
                       <div
                         key={event.id}
-                        className="text-xs px-1 py-0.5 rounded truncate"
+                        className={`text-xs px-1 py-0.5 rounded truncate ${
+                          event.isBusy === false ? 'opacity-60' : ''
+                        }`}
                         style={{ 
                           backgroundColor: event.color || EVENT_COLORS[event.type],
                           color: 'white' 
@@ -360,7 +476,29 @@ const MonthView = ({
 
 // Main Calendar Component
 export const CalendarView = () => {
-  const { tasks, scheduleTask, unscheduleTask } = useTaskStore();
+  const { 
+    tasks, 
+    updateTask, 
+    scheduleTask, 
+    scheduleTaskChunks, 
+    toggleChunkCompleted, 
+    unscheduleTask 
+  } = useTaskStore();
+  const { 
+    timeBlocks, 
+    settings,
+    constraints,
+    addTimeBlock, 
+    deleteTimeBlock, 
+    skipOccurrence, 
+    updateSettings,
+    initializeStore: initializeCalendarStore 
+  } = useCalendarStore();
+  const { 
+    syncedEvents, 
+    syncSettings, 
+    initializeStore: initializeCalendarSyncStore 
+  } = useCalendarSyncStore();
   
   const [currentView, setCurrentView] = useState<CalendarViewType>({
     type: 'week',
@@ -369,16 +507,48 @@ export const CalendarView = () => {
     endDate: endOfWeek(new Date()),
   });
   
-  const [settings] = useState<CalendarSettings>(DEFAULT_CALENDAR_SETTINGS);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [isScheduling, setIsScheduling] = useState(false);
+  const [comparison, setComparison] = useState<SchedulingResult[] | null>(null);
+  const [reschedulePreview, setReschedulePreview] = useState<RescheduleResult | null>(null);
+  const [deadlineDraft, setDeadlineDraft] = useState('');
+  const [newBlockStart, setNewBlockStart] = useState<Date | null>(null);
+  const [blockForm, setBlockForm] = useState<TimeBlockFormData>({
+    title: '',
+    type: 'focus',
+    duration: 60,
+    frequency: 'none',
+    interval: 1,
+    daysOfWeek: [],
+  });
+  
+  useEffect(() => {
+    initializeCalendarStore();
+    initializeCalendarSyncStore();
+  }, [initializeCalendarStore, initializeCalendarSyncStore]);
   
   // Convert tasks to calendar events
-  const events = useMemo(() => {
+  const taskEvents = useMemo(() => {
     const calendarEvents: CalendarEvent[] = [];
     
     tasks.forEach(task => {
-      if (task.scheduledStart && task.scheduledEnd) {
+      // Split tasks show one linked event per session
+      if (task.chunks?.length) {
+        task.chunks.forEach((chunk, index) => {
+          calendarEvents.push({
+            id: `task-${task.id}-chunk-${chunk.id}`,
+            title: `${task.title} (${index + 1}/${task.chunks!.length})`,
+            start: chunk.start,
+            end: chunk.end,
+            type: 'task',
+            taskId: task.id,
+            chunkId: chunk.id,
+            isFlexible: task.isFlexible,
+            description: task.description,
+            color: chunk.completedAt ? EVENT_COLORS.completed : EVENT_COLORS.task,
+          });
+        });
+      } else if (task.scheduledStart && task.scheduledEnd) {
         calendarEvents.push({
           id: `task-${task.id}`,
           title: task.title,
@@ -396,10 +566,53 @@ export const CalendarView = () => {
     return calendarEvents;
   }, [tasks]);
   
+  // Google Calendar events from the calendars being read; the busy ones are fixed time for the scheduler
+  const externalEvents = useMemo(() => syncedEventsToCalendarEvents(syncedEvents, {
+    calendarIds: syncSettings.readCalendarIds,
+    busyCalendarIds: syncSettings.busyCalendarIds,
+  }), [syncedEvents, syncSettings.readCalendarIds, syncSettings.busyCalendarIds]);
+  
+  // One legend entry per source calendar
+  const syncedCalendars = useMemo(() => {
+    const calendars = new Map<string, { name: string; color: string }>();
+    syncedEvents
+      .filter(event => !syncSettings.readCalendarIds || syncSettings.readCalendarIds.includes(event.calendarId))
+      .forEach(event => {
+        if (!calendars.has(event.calendarId)) {
+          calendars.set(event.calendarId, { name: event.calendarName, color: getCalendarColor(event) });
+        }
+      });
+    return [...calendars.entries()].map(([id, calendar]) => ({ id, ...calendar }));
+  }, [syncedEvents, syncSettings.readCalendarIds]);
+  
+  const timeZone = resolveTimeZone(settings.timeZone);
+  
+  // Format an instant as wall-clock time in the calendar's zone
+  const formatInZone = (date: Date, pattern: string) => format(toZonedTime(date, timeZone), pattern);
+  
+  // Expand time blocks for the visible range and merge with task events.
+  // The range is padded a day each side since it is in display time.
+  const events = useMemo(() => {
+    const range = getVisibleRange(currentView.type, currentView.currentDate);
+    return [
+      ...taskEvents,
+      ...externalEvents,
+      ...timeBlocksToEvents(timeBlocks, addDays(range.start, -1), addDays(range.end, 1), timeZone),
+    ];
+  }, [taskEvents, externalEvents, timeBlocks, timeZone, currentView.type, currentView.currentDate]);
+  
+  // Same events shifted to display dates so the views show the zone's wall-clock time
+  const displayEvents = useMemo(() => events.map(event => ({
+    ...event,
+    start: toZonedTime(event.start, timeZone),
+    end: toZonedTime(event.end, timeZone),
+  })), [events, timeZone]);
+  
   // Auto-scheduler instance
   const scheduler = useMemo(() => {
-    return new AutoScheduler(settings, events);
-  }, [settings, events]);
+    const busyEvents = externalEvents.filter(event => event.isBusy);
+    return new AutoScheduler(settings, [...taskEvents, ...busyEvents], timeBlocks, constraints);
+  }, [settings, taskEvents, externalEvents, timeBlocks, constraints]);
   
   const handleViewChange = (viewType: CalendarViewType['type']) => {
     let startDate: Date;
@@ -460,14 +673,106 @@ export const CalendarView = () => {
     }));
   };
   
-  const handleEventClick = (event: CalendarEvent) => {
+  const handleEventClick = (displayEvent: CalendarEvent) => {
+    // Views hand back display dates; keep the real instants for the dialog
+    const event = events.find(e => e.id === displayEvent.id) || displayEvent;
+    const deadline = event.taskId ? tasks.find(t => t.id === event.taskId)?.deadline : undefined;
+    setDeadlineDraft(deadline ? formatInZone(deadline, "yyyy-MM-dd'T'HH:mm") : '');
     setSelectedEvent(event);
   };
   
-  const handleTimeSlotClick = (date: Date) => {
-    // Create a new task at this time slot
-    console.log('Time slot clicked:', date);
-    // This would typically open a task creation modal
+  const handleTimeSlotClick = (displayDate: Date) => {
+    // Open the time block dialog pre-filled for this slot
+    setBlockForm(prev => ({ ...prev, title: '', daysOfWeek: [displayDate.getDay()] }));
+    setNewBlockStart(fromZonedTime(displayDate, timeZone));
+  };
+  
+  const handleCreateTimeBlock = () => {
+    if (!newBlockStart || !blockForm.title.trim()) return;
+    
+    const isRecurring = blockForm.frequency !== 'none';
+    const block: Omit<TimeBlock, 'id'> = {
+      title: blockForm.title.trim(),
+      type: blockForm.type,
+      start: newBlockStart,
+      end: addMinutes(newBlockStart, blockForm.duration),
+      color: getTimeBlockColor(blockForm.type),
+      isRecurring,
+      recurringPattern: blockForm.frequency !== 'none' ? {
+        frequency: blockForm.frequency,
+        interval: Math.max(1, blockForm.interval),
+        daysOfWeek: blockForm.frequency === 'weekly' ? blockForm.daysOfWeek : undefined,
+      } : undefined,
+    };
+    addTimeBlock(block);
+    
+    setNewBlockStart(null);
+    
+    // New busy time may push scheduled tasks out of the way
+    previewReschedule({ type: 'time_block', block: { ...block, id: 'new-block' } });
+  };
+  
+  // Apply the change itself (a new time block is saved as soon as it's created)
+  const applyScheduleChange = (change: ScheduleChange) => {
+    switch (change.type) {
+      case 'task_overrun': {
+        const task = tasks.find(t => t.id === change.taskId);
+        if (task?.scheduledStart) scheduleTask(change.taskId, task.scheduledStart, change.end);
+        break;
+      }
+      case 'deadline_change':
+        updateTask(change.taskId, { deadline: change.deadline });
+        break;
+    }
+  };
+  
+  // Work out which flexible tasks the change displaces; preview only if any move
+  const previewReschedule = (change: ScheduleChange) => {
+    const result = scheduler.reschedule(tasks, change);
+    
+    if (result.moves.length === 0) {
+      applyScheduleChange(change);
+      return;
+    }
+    
+    setSelectedEvent(null);
+    setReschedulePreview(result);
+  };
+  
+  const handleAcceptReschedule = (result: RescheduleResult) => {
+    applyScheduleChange(result.change);
+    
+    result.moves.forEach(({ taskId, to }) => {
+      if (!to) {
+        unscheduleTask(taskId);
+      } else if (to.chunks) {
+        scheduleTaskChunks(taskId, to.chunks);
+      } else {
+        scheduleTask(taskId, to.start, to.end);
+      }
+    });
+    
+    setReschedulePreview(null);
+  };
+  
+  const handleKeepSchedule = (result: RescheduleResult) => {
+    applyScheduleChange(result.change);
+    setReschedulePreview(null);
+  };
+  
+  const describeScheduleChange = (change: ScheduleChange): string => {
+    const taskTitle = (id: string) => tasks.find(t => t.id === id)?.title || id;
+    
+    switch (change.type) {
+      case 'time_block':
+        return `New ${change.block.type} "${change.block.title}" at ${formatInZone(change.block.start, 'EEE MMM d, h:mm a')}`;
+      case 'task_overrun':
+        return `"${taskTitle(change.taskId)}" now ends at ${formatInZone(change.end, 'h:mm a')}`;
+      case 'deadline_change':
+        return change.deadline
+          ? `"${taskTitle(change.taskId)}" is now due ${formatInZone(change.deadline, 'EEE MMM d, h:mm a')}`
+          : `"${taskTitle(change.taskId)}" no longer has a deadline`;
+    }
   };
   
   const handleDateClick = (date: Date) => {
@@ -480,37 +785,71 @@ export const CalendarView = () => {
     }));
   };
   
+  const getUnscheduledTasks = () => tasks.filter(task => 
+    !task.scheduledStart && task.isFlexible
+  );
+  
+  const applySchedulingResult = (result: SchedulingResult) => {
+    // Apply scheduled tasks, split ones as sessions
+    result.scheduledTasks.forEach(({ taskId, start, end, chunks }) => {
+      if (chunks) {
+        scheduleTaskChunks(taskId, chunks);
+      } else {
+        scheduleTask(taskId, start, end);
+      }
+    });
+    
+    // Show results, including why tasks failed or broke soft constraints
+    const conflictDetails = result.conflicts
+      .map(({ taskId, reason }) => 
+        `• ${tasks.find(t => t.id === taskId)?.title || taskId}: ${reason}`
+      )
+      .join('\n');
+    
+    if (result.success) {
+      alert(
+        `Successfully scheduled ${result.scheduledTasks.length} tasks!` +
+        (conflictDetails ? `\n\n${conflictDetails}` : '')
+      );
+    } else {
+      alert(
+        `Scheduled ${result.scheduledTasks.length} tasks. ` +
+        `${result.unscheduledTasks.length} tasks couldn't be scheduled.` +
+        (conflictDetails ? `\n\n${conflictDetails}` : '')
+      );
+    }
+    
+    // Offer to split tasks that are too long for any free slot
+    const splitSuggestions = result.suggestions.filter(s => s.actionType === 'split_task');
+    if (splitSuggestions.length > 0 && confirm(
+      splitSuggestions.map(s => s.message).join('\n') +
+      '\n\nAllow splitting? They will be placed as sessions the next time you auto-schedule.'
+    )) {
+      splitSuggestions.forEach(({ data }) => {
+        updateTask(data!.taskId as string, {
+          splitting: {
+            minChunkMinutes: data!.minChunkMinutes as number,
+            maxChunkMinutes: data!.maxChunkMinutes as number,
+          },
+        });
+      });
+    }
+  };
+  
   const handleAutoSchedule = async () => {
     setIsScheduling(true);
     
     try {
       // Get unscheduled tasks
-      const unscheduledTasks = tasks.filter(task => 
-        !task.scheduledStart && task.isFlexible
-      );
+      const unscheduledTasks = getUnscheduledTasks();
       
       if (unscheduledTasks.length === 0) {
         alert('No unscheduled tasks to schedule');
         return;
       }
       
-      // Run auto-scheduler
-      const result = scheduler.scheduleAllTasks(unscheduledTasks);
-      
-      // Apply scheduled tasks
-      result.scheduledTasks.forEach(({ taskId, start, end }) => {
-        scheduleTask(taskId, start, end);
-      });
-      
-      // Show results
-      if (result.success) {
-        alert(`Successfully scheduled ${result.scheduledTasks.length} tasks!`);
-      } else {
-        alert(
-          `Scheduled ${result.scheduledTasks.length} tasks. ` +
-          `${result.unscheduledTasks.length} tasks couldn't be scheduled.`
-        );
-      }
+      // Run auto-scheduler with the selected strategy
+      applySchedulingResult(scheduler.scheduleAllTasks(unscheduledTasks));
       
     } catch (error) {
       console.error('Auto-scheduling failed:', error);
@@ -520,10 +859,29 @@ export const CalendarView = () => {
     }
   };
   
+  // Run both strategies on the same tasks without applying either
+  const handleCompareStrategies = () => {
+    const unscheduledTasks = getUnscheduledTasks();
+    
+    if (unscheduledTasks.length === 0) {
+      alert('No unscheduled tasks to schedule');
+      return;
+    }
+    
+    setComparison((['greedy', 'optimized'] as SchedulingStrategy[]).map(strategy =>
+      scheduler.scheduleAllTasks([...unscheduledTasks], strategy)
+    ));
+  };
+  
+  const handleApplyComparison = (result: SchedulingResult) => {
+    setComparison(null);
+    applySchedulingResult(result);
+  };
+  
   const renderCalendarView = () => {
     const props = {
       currentDate: currentView.currentDate,
-      events,
+      events: displayEvents,
       onEventClick: handleEventClick,
     };
     
@@ -610,6 +968,31 @@ export const CalendarView = () => {
                 ))}
               </div>
               
+              {/* Scheduling Strategy */}
+              <Select
+                value={settings.schedulingStrategy || 'greedy'}
+                onValueChange={(value: SchedulingStrategy) => updateSettings({ schedulingStrategy: value })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              <Button
+                variant="outline"
+                onClick={handleCompareStrategies}
+                disabled={isScheduling}
+                className="gap-2"
+              >
+                <Scale className="w-4 h-4" />
+                <span>Compare</span>
+              </Button>
+              
               {/* Auto Schedule */}
               <Button
                 onClick={handleAutoSchedule}
@@ -621,6 +1004,18 @@ export const CalendarView = () => {
               </Button>
             </div>
           </div>
+          
+          {/* Synced Calendars */}
+          {syncedCalendars.length > 0 && (
+            <div className="flex flex-wrap items-center gap-4 pt-2 text-sm text-gray-600">
+              {syncedCalendars.map(calendar => (
+                <div key={calendar.id} className="flex items-center space-x-2">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: calendar.color }} />
+                  <span>{calendar.name}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardHeader>
       </Card>
       
@@ -629,6 +1024,98 @@ export const CalendarView = () => {
         {renderCalendarView()}
       </div>
       
+      {/* Strategy Comparison Modal */}
+      <Dialog open={!!comparison} onOpenChange={(open) => !open && setComparison(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Compare Scheduling Strategies</DialogTitle>
+          </DialogHeader>
+          
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 font-medium">Strategy</th>
+                <th className="py-2 font-medium">Scheduled</th>
+                <th className="py-2 font-medium">Missed deadlines</th>
+                <th className="py-2 font-medium">Short gaps</th>
+                <th className="py-2 font-medium">Score</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {comparison?.map(result => (
+                <tr key={result.strategy} className="border-t border-gray-100">
+                  <td className="py-2 font-medium text-gray-900">
+                    {result.strategy ? STRATEGY_LABELS[result.strategy] : '—'}
+                  </td>
+                  <td className="py-2">
+                    {result.scheduledTasks.length}/{result.scheduledTasks.length + result.unscheduledTasks.length}
+                  </td>
+                  <td className="py-2">{result.score?.missedDeadlines ?? '—'}</td>
+                  <td className="py-2">{result.score?.fragmentation ?? '—'}</td>
+                  <td className="py-2">{result.score ? Math.round(result.score.total) : '—'}</td>
+                  <td className="py-2 text-right">
+                    <Button size="sm" variant="outline" onClick={() => handleApplyComparison(result)}>
+                      Apply
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Reschedule Preview Modal */}
+      <Dialog open={!!reschedulePreview} onOpenChange={(open) => !open && setReschedulePreview(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Reschedule Preview</DialogTitle>
+          </DialogHeader>
+          
+          {reschedulePreview && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {describeScheduleChange(reschedulePreview.change)}. 
+                {' '}{reschedulePreview.moves.length} task{reschedulePreview.moves.length === 1 ? '' : 's'} need to move.
+              </p>
+              
+              <div className="space-y-2">
+                {reschedulePreview.moves.map(move => (
+                  <div key={move.taskId} className="text-sm border-b border-gray-100 pb-2">
+                    <div className="font-medium text-gray-900">
+                      {tasks.find(t => t.id === move.taskId)?.title || move.taskId}
+                    </div>
+                    <div className="text-gray-600">
+                      <span className="line-through">{formatInZone(move.from.start, 'EEE MMM d, h:mm a')}</span>
+                      {' → '}
+                      {move.to ? (
+                        <span className="text-gray-900">
+                          {formatInZone(move.to.start, 'EEE MMM d, h:mm a')}
+                          {move.to.chunks && ` (${move.to.chunks.length} sessions)`}
+                        </span>
+                      ) : (
+                        <span className="text-red-600">unscheduled, no free slot</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{move.reason}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => reschedulePreview && handleKeepSchedule(reschedulePreview)}>
+              Keep Current Schedule
+            </Button>
+            <Button onClick={() => reschedulePreview && handleAcceptReschedule(reschedulePreview)}>
+              Accept Moves
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
       {/* Event Details Modal */}
       <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
         <DialogContent className="max-w-md">
@@ -650,11 +1137,29 @@ export const CalendarView = () => {
               <div>
                 <div className="text-sm text-gray-600 mb-1">Time</div>
                 <div className="font-medium">
-                  {format(selectedEvent.start, 'MMM d, h:mm a')} - 
-                  {format(selectedEvent.end, 'h:mm a')}
+                  {selectedEvent.isAllDay ? (
+                    `All day · ${formatInZone(selectedEvent.start, 'EEE MMM d')}`
+                  ) : (
+                    <>
+                      {formatInZone(selectedEvent.start, 'MMM d, h:mm a')} - 
+                      {formatInZone(selectedEvent.end, 'h:mm a')}
+                    </>
+                  )}
                 </div>
               </div>
               
+              {selectedEvent.calendarId && (
+                <div>
+                  <div className="text-sm text-gray-600 mb-1">Google Calendar</div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">
+                      {syncedCalendars.find(c => c.id === selectedEvent.calendarId)?.name}
+                    </span>
+                    <Badge variant="outline">{selectedEvent.isBusy ? 'Busy' : 'Free'}</Badge>
+                  </div>
+                </div>
+              )}
+              
               {selectedEvent.description && (
                 <div>
                   <div className="text-sm text-gray-600 mb-1">Description</div>
@@ -667,6 +1172,114 @@ export const CalendarView = () => {
                 <Badge variant="outline" className="capitalize">{selectedEvent.type}</Badge>
               </div>
               
+              {selectedEvent.timeBlockId && (
+                <div className="flex space-x-2">
+                  {timeBlocks.find(b => b.id === selectedEvent.timeBlockId)?.isRecurring && (
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => {
+                        skipOccurrence(selectedEvent.timeBlockId!, selectedEvent.start);
+                        setSelectedEvent(null);
+                      }}
+                    >
+                      Skip This Occurrence
+                    </Button>
+                  )}
+                  <Button
+                    variant="destructive"
+                    className="flex-1"
+                    onClick={() => {
+                      deleteTimeBlock(selectedEvent.timeBlockId!);
+                      setSelectedEvent(null);
+                    }}
+                  >
+                    Delete Block
+                  </Button>
+                </div>
+              )}
+              
+              {selectedEvent.chunkId && (() => {
+                const task = tasks.find(t => t.id === selectedEvent.taskId);
+                if (!task?.chunks) return null;
+                
+                return (
+                  <div>
+                    <div className="text-sm text-gray-600 mb-1">
+                      Sessions · {Math.round(getTaskProgress(task) * 100)}% done
+                    </div>
+                    <div className="space-y-1">
+                      {task.chunks.map((chunk, index) => (
+                        <div 
+                          key={chunk.id} 
+                          className={`flex items-center justify-between text-sm ${
+                            chunk.id === selectedEvent.chunkId ? 'font-medium' : ''
+                          }`}
+                        >
+                          <span className={chunk.completedAt ? 'line-through text-gray-400' : ''}>
+                            {index + 1}. {formatInZone(chunk.start, 'EEE MMM d, h:mm a')} · {formatTaskDuration(
+                              Math.round((chunk.end.getTime() - chunk.start.getTime()) / 60000)
+                            )}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleChunkCompleted(task.id, chunk.id)}
+                          >
+                            {chunk.completedAt ? 'Undo' : 'Done'}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })()}
+              
+              {selectedEvent.taskId && !selectedEvent.chunkId && (
+                <div>
+                  <div className="text-sm text-gray-600 mb-1">Running late?</div>
+                  <div className="flex space-x-2">
+                    {[15, 30, 60].map(minutes => (
+                      <Button
+                        key={minutes}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => previewReschedule({
+                          type: 'task_overrun',
+                          taskId: selectedEvent.taskId!,
+                          end: addMinutes(selectedEvent.end, minutes),
+                        })}
+                      >
+                        +{formatTaskDuration(minutes)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {selectedEvent.taskId && (
+                <div>
+                  <div className="text-sm text-gray-600 mb-1">Deadline</div>
+                  <div className="flex space-x-2">
+                    <Input
+                      type="datetime-local"
+                      value={deadlineDraft}
+                      onChange={(e) => setDeadlineDraft(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => previewReschedule({
+                        type: 'deadline_change',
+                        taskId: selectedEvent.taskId!,
+                        deadline: deadlineDraft ? fromZonedTime(new Date(deadlineDraft), timeZone) : undefined,
+                      })}
+                    >
+                      Update
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
               {selectedEvent.taskId && (
                 <div className="flex space-x-2">
                   <Button
@@ -696,6 +1309,132 @@ export const CalendarView = () => {
           )}
         </DialogContent>
       </Dialog>
+      
+      {/* New Time Block Modal */}
+      <Dialog open={!!newBlockStart} onOpenChange={(open) => !open && setNewBlockStart(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              New Time Block{newBlockStart && ` · ${formatInZone(newBlockStart, 'EEE MMM d, h:mm a')}`}
+            </DialogTitle>
+          </DialogHeader>
+          
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Title</label>
+              <Input
+                value={blockForm.title}
+                onChange={(e) => setBlockForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="e.g. Team standup, Lunch"
+              />
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Type</label>
+                <Select
+                  value={blockForm.type}
+                  onValueChange={(value: TimeBlock['type']) => 
+                    setBlockForm(prev => ({ ...prev, type: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="focus">Focus</SelectItem>
+                    <SelectItem value="meeting">Meeting</SelectItem>
+                    <SelectItem value="break">Break</SelectItem>
+                    <SelectItem value="unavailable">Unavailable</SelectItem>
+                    <SelectItem value="work">Work (available)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Duration (minutes)</label>
+                <Input
+                  type="number"
+                  min="5"
+                  step="5"
+                  value={blockForm.duration}
+                  onChange={(e) => setBlockForm(prev => ({ 
+                    ...prev, 
+                    duration: parseInt(e.target.value) || 60 
+                  }))}
+                />
+              </div>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Repeat</label>
+                <Select
+                  value={blockForm.frequency}
+                  onValueChange={(value: TimeBlockFormData['frequency']) => 
+                    setBlockForm(prev => ({ ...prev, frequency: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {blockForm.frequency !== 'none' && (
+                <div>
+                  <label className="text-sm font-medium text-gray-700 mb-2 block">Every</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={blockForm.interval}
+                    onChange={(e) => setBlockForm(prev => ({ 
+                      ...prev, 
+                      interval: parseInt(e.target.value) || 1 
+                    }))}
+                  />
+                </div>
+              )}
+            </div>
+            
+            {blockForm.frequency === 'weekly' && (
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={blockForm.daysOfWeek.includes(day) ? 'default' : 'outline'}
+                    onClick={() => setBlockForm(prev => ({
+                      ...prev,
+                      daysOfWeek: prev.daysOfWeek.includes(day)
+                        ? prev.daysOfWeek.filter(d => d !== day)
+                        : [...prev.daysOfWeek, day].sort(),
+                    }))}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewBlockStart(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateTimeBlock} disabled={!blockForm.title.trim()}>
+              Add Block
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
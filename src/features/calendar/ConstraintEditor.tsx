@@ -0,0 +1,167 @@
+/**
+ * ConstraintEditor Component
+ *
+ * Lists and creates SchedulingConstraints for the auto-scheduler
+ * - With a taskId: rules for that task only (task edit dialog)
+ * - Without a taskId: global rules applied to every task (Settings)
+ *
+ * State: Reads and writes constraints through calendarStore
+ * Related: scheduling.ts (hard constraints filter slots, soft ones affect scoring)
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useCalendarStore } from './calendarStore';
+import { SchedulingConstraint } from './CalendarTypes';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const CONSTRAINT_LABELS: Record<SchedulingConstraint['type'], string> = {
+  before: 'Finish before',
+  after: 'Start after',
+  during: 'Only during',
+  not_during: 'Never during',
+};
+
+// datetime-local input values are in local time
+const toInputValue = (date?: Date): string => date ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+
+const describeConstraint = (constraint: SchedulingConstraint): string => {
+  const formatTime = (date: Date) => format(date, 'MMM d, h:mm a');
+  if (constraint.time) {
+    return `${CONSTRAINT_LABELS[constraint.type]} ${formatTime(constraint.time)}`;
+  }
+  if (constraint.timeRange) {
+    return `${CONSTRAINT_LABELS[constraint.type]} ${formatTime(constraint.timeRange.start)} – ${formatTime(constraint.timeRange.end)}`;
+  }
+  return CONSTRAINT_LABELS[constraint.type];
+};
+
+interface ConstraintEditorProps {
+  taskId?: string;
+}
+
+export const ConstraintEditor = ({ taskId }: ConstraintEditorProps) => {
+  const { constraints, addConstraint, deleteConstraint, initializeStore } = useCalendarStore();
+
+  const [type, setType] = useState<SchedulingConstraint['type']>('after');
+  const [start, setStart] = useState<Date | undefined>();
+  const [end, setEnd] = useState<Date | undefined>();
+  const [isHard, setIsHard] = useState(true);
+  const [priority, setPriority] = useState(5);
+
+  useEffect(() => {
+    initializeStore();
+  }, [initializeStore]);
+
+  // Only this task's rules, or only global rules when no task is given
+  const visibleConstraints = constraints.filter(c => taskId ? c.taskId === taskId : !c.taskId);
+  const needsRange = type === 'during' || type === 'not_during';
+  const canAdd = !!start && (!needsRange || (!!end && end > start));
+
+  const handleAdd = () => {
+    if (!canAdd || !start) return;
+
+    addConstraint({
+      type,
+      time: needsRange ? undefined : start,
+      timeRange: needsRange && end ? { start, end } : undefined,
+      taskId,
+      priority,
+      isHard,
+    });
+
+    setStart(undefined);
+    setEnd(undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      {visibleConstraints.length === 0 && (
+        <p className="text-sm text-gray-500">No scheduling rules.</p>
+      )}
+
+      {visibleConstraints.map(constraint => (
+        <div key={constraint.id} className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <span>{describeConstraint(constraint)}</span>
+            <Badge variant={constraint.isHard ? 'default' : 'outline'} className="text-xs">
+              {constraint.isHard ? 'Required' : `Preferred · ${constraint.priority}`}
+            </Badge>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => deleteConstraint(constraint.id)}>
+            <Trash2 className="w-4 h-4 text-gray-500" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={type} onValueChange={(value: SchedulingConstraint['type']) => setType(value)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CONSTRAINT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          type="datetime-local"
+          value={toInputValue(start)}
+          onChange={(e) => setStart(e.target.value ? new Date(e.target.value) : undefined)}
+        />
+
+        {needsRange && (
+          <Input
+            type="datetime-local"
+            value={toInputValue(end)}
+            onChange={(e) => setEnd(e.target.value ? new Date(e.target.value) : undefined)}
+            className="col-start-2"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`constraint-hard-${taskId || 'global'}`}
+              checked={isHard}
+              onCheckedChange={(checked) => setIsHard(!!checked)}
+            />
+            <label htmlFor={`constraint-hard-${taskId || 'global'}`} className="text-sm">
+              Required
+            </label>
+          </div>
+
+          {!isHard && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>Priority</span>
+              <Input
+                type="number"
+                min="1"
+                max="10"
+                value={priority}
+                onChange={(e) => setPriority(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="w-16"
+              />
+            </div>
+          )}
+        </div>
+
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!canAdd} className="gap-1">
+          <Plus className="w-4 h-4" />
+          <span>Add Rule</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+/**
+ * WorkingHoursEditor Component
+ *
+ * Settings editor for when the auto-scheduler may place tasks:
+ * - Several work windows per weekday (e.g. 8-12 and 13-18)
+ * - Date-specific overrides for holidays and half days
+ * - The time zone the windows are interpreted in
+ *
+ * Used by: Settings page (page.tsx)
+ * State: Reads and writes CalendarSettings through calendarStore
+ * Related: scheduling.ts (getWorkWindowsForDate), timezone.ts
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useCalendarStore } from './calendarStore';
+import {
+  WeeklySchedule,
+  WorkWindow,
+  WorkingHours,
+  WorkingHoursOverride
+} from './CalendarTypes';
+import { format } from 'date-fns';
+import { Clock, Plus, Trash2, CalendarOff } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { resolveTimeZone } from './timezone';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DEFAULT_WINDOW: WorkWindow = { start: '09:00', end: '17:00' };
+
+const TIME_ZONES: string[] = Intl.supportedValuesOf('timeZone');
+
+// Seed a weekly schedule from the simple start/end working hours
+const scheduleFromWorkingHours = (workingHours: WorkingHours): WeeklySchedule => {
+  return workingHours.daysOfWeek.reduce((schedule, day) => ({
+    ...schedule,
+    [day]: [{ start: workingHours.start, end: workingHours.end }],
+  }), {} as WeeklySchedule);
+};
+
+const isValidWindow = (workWindow: WorkWindow): boolean => workWindow.start < workWindow.end;
+
+// Work Window Row Component
+const WorkWindowRow = ({
+  workWindow,
+  onChange,
+  onRemove,
+}: {
+  workWindow: WorkWindow;
+  onChange: (workWindow: WorkWindow) => void;
+  onRemove: () => void;
+}) => (
+  <div className="flex items-center space-x-2">
+    <Input
+      type="time"
+      value={workWindow.start}
+      onChange={(e) => onChange({ ...workWindow, start: e.target.value })}
+      className={`w-28 ${isValidWindow(workWindow) ? '' : 'border-red-500'}`}
+    />
+    <span className="text-gray-500">–</span>
+    <Input
+      type="time"
+      value={workWindow.end}
+      onChange={(e) => onChange({ ...workWindow, end: e.target.value })}
+      className={`w-28 ${isValidWindow(workWindow) ? '' : 'border-red-500'}`}
+    />
+    <Button variant="ghost" size="sm" onClick={onRemove}>
+      <Trash2 className="w-4 h-4 text-gray-500" />
+    </Button>
+  </div>
+);
+
+export const WorkingHoursEditor = () => {
+  const { settings, updateSettings, initializeStore } = useCalendarStore();
+
+  const [schedule, setSchedule] = useState<WeeklySchedule>({});
+  const [overrides, setOverrides] = useState<WorkingHoursOverride[]>([]);
+  const [timeZone, setTimeZone] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    initializeStore();
+  }, [initializeStore]);
+
+  // Reset the draft whenever the saved settings change
+  useEffect(() => {
+    setSchedule(settings.weeklySchedule || scheduleFromWorkingHours(settings.workingHours));
+    setOverrides(settings.workingHoursOverrides || []);
+    setTimeZone(resolveTimeZone(settings.timeZone));
+    setIsDirty(false);
+  }, [settings]);
+
+  const weekdays = Array.from({ length: 7 }, (_, i) => (settings.weekStartsOn + i) % 7);
+
+  const isValid = Object.values(schedule).every(windows => (windows || []).every(isValidWindow)) &&
+    overrides.every(override => !!override.date && override.windows.every(isValidWindow));
+
+  const updateDayWindows = (day: number, windows: WorkWindow[]) => {
+    setSchedule(prev => ({ ...prev, [day]: windows }));
+    setIsDirty(true);
+  };
+
+  const updateOverride = (index: number, updates: Partial<WorkingHoursOverride>) => {
+    setOverrides(prev => prev.map((override, i) => i === index ? { ...override, ...updates } : override));
+    setIsDirty(true);
+  };
+
+  const handleAddOverride = () => {
+    setOverrides(prev => [...prev, { date: format(new Date(), 'yyyy-MM-dd'), windows: [], label: '' }]);
+    setIsDirty(true);
+  };
+
+  const handleRemoveOverride = (index: number) => {
+    setOverrides(prev => prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (!isValid) return;
+
+    updateSettings({
+      timeZone,
+      weeklySchedule: schedule,
+      workingHoursOverrides: [...overrides].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Weekly Schedule */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-3">
+            <Clock className="w-6 h-6 text-blue-600" />
+            <div>
+              <CardTitle className="text-lg">Weekly Schedule</CardTitle>
+              <p className="text-gray-600">
+                Tasks are only auto-scheduled inside these windows
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between border-b border-gray-100 pb-4">
+            <div className="w-32 font-medium text-gray-900">Time zone</div>
+            <div className="flex-1">
+              <Select
+                value={timeZone}
+                onValueChange={(value) => {
+                  setTimeZone(value);
+                  setIsDirty(true);
+                }}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {/* Keep zones Intl doesn't list (e.g. aliases) selectable */}
+                  {(TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]).map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {weekdays.map(day => {
+            const windows = schedule[day] || [];
+
+            return (
+              <div key={day} className="flex items-start justify-between border-b border-gray-100 pb-4">
+                <div className="w-32 pt-2 font-medium text-gray-900">{WEEKDAY_NAMES[day]}</div>
+
+                <div className="flex-1 space-y-2">
+                  {windows.length === 0 && (
+                    <div className="pt-2 text-sm text-gray-500">Unavailable</div>
+                  )}
+                  {windows.map((workWindow, index) => (
+                    <WorkWindowRow
+                      key={index}
+                      workWindow={workWindow}
+                      onChange={(updated) => updateDayWindows(
+                        day,
+                        windows.map((w, i) => i === index ? updated : w)
+                      )}
+                      onRemove={() => updateDayWindows(day, windows.filter((_, i) => i !== index))}
+                    />
+                  ))}
+                </div>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateDayWindows(day, [...windows, DEFAULT_WINDOW])}
+                  className="gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Window</span>
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Date Overrides */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <CalendarOff className="w-6 h-6 text-blue-600" />
+              <div>
+                <CardTitle className="text-lg">Holidays & Exceptions</CardTitle>
+                <p className="text-gray-600">
+                  Replace the weekly schedule on specific dates
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleAddOverride} className="gap-1">
+              <Plus className="w-4 h-4" />
+              <span>Add Date</span>
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {overrides.length === 0 && (
+            <p className="text-sm text-gray-500">No exceptions. The weekly schedule applies every week.</p>
+          )}
+
+          {overrides.map((override, index) => (
+            <div key={index} className="space-y-2 border-b border-gray-100 pb-4">
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="date"
+                  value={override.date}
+                  onChange={(e) => updateOverride(index, { date: e.target.value })}
+                  className="w-40"
+                />
+                <Input
+                  value={override.label || ''}
+                  onChange={(e) => updateOverride(index, { label: e.target.value })}
+                  placeholder="e.g. Public holiday"
+                  className="flex-1"
+                />
+                {override.windows.length === 0 && (
+                  <Badge variant="secondary">Day off</Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => handleRemoveOverride(index)}>
+                  <Trash2 className="w-4 h-4 text-gray-500" />
+                </Button>
+              </div>
+
+              <div className="pl-2 space-y-2">
+                {override.windows.map((workWindow, windowIndex) => (
+                  <WorkWindowRow
+                    key={windowIndex}
+                    workWindow={workWindow}
+                    onChange={(updated) => updateOverride(index, {
+                      windows: override.windows.map((w, i) => i === windowIndex ? updated : w),
+                    })}
+                    onRemove={() => updateOverride(index, {
+                      windows: override.windows.filter((_, i) => i !== windowIndex),
+                    })}
+                  />
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateOverride(index, { windows: [...override.windows, DEFAULT_WINDOW] })}
+                  className="gap-1 text-gray-600"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Add working window</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Save */}
+      <div className="flex items-center space-x-3">
+        <Button onClick={handleSave} disabled={!isDirty || !isValid}>
+          Save Working Hours
+        </Button>
+        {!isValid && (
+          <span className="text-sm text-red-600">Each window must end after it starts.</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+/**
+ * Calendar State Management Store
+ *
+ * Zustand store for calendar-level state that isn't tied to a single task
+ * Handles: time blocks (one-off and recurring), calendar settings
+ * (working hours, weekly schedule, date overrides), scheduling constraints,
+ * localStorage persistence
+ *
+ * Used by: CalendarView.tsx, WorkingHoursEditor.tsx
+ * Related: recurrence.ts for expanding recurring blocks, scheduling.ts
+ */
+
+import { create } from 'zustand';
+import { 
+  TimeBlock, 
+  CalendarSettings, 
+  SchedulingConstraint, 
+  DEFAULT_CALENDAR_SETTINGS 
+} from './CalendarTypes';
+
+interface CalendarStore {
+  // State
+  timeBlocks: TimeBlock[];
+  settings: CalendarSettings;
+  constraints: SchedulingConstraint[];
+  isInitialized: boolean;
+  
+  // Settings Actions
+  updateSettings: (settings: Partial<CalendarSettings>) => void;
+
+  // Time Block Actions
+  addTimeBlock: (block: Omit<TimeBlock, 'id'>) => void;
+  updateTimeBlock: (id: string, data: Partial<TimeBlock>) => void;
+  deleteTimeBlock: (id: string) => void;
+  skipOccurrence: (id: string, date: Date) => void;
+
+  // Constraint Actions
+  addConstraint: (constraint: Omit<SchedulingConstraint, 'id'>) => void;
+  deleteConstraint: (id: string) => void;
+  getConstraintsForTask: (taskId: string) => SchedulingConstraint[];
+
+  // Data Management
+  initializeStore: () => void;
+}
+
+// Helper functions for localStorage
+const TIME_BLOCKS_STORAGE_KEY = 'flowmotion-time-blocks';
+const SETTINGS_STORAGE_KEY = 'flowmotion-calendar-settings';
+const CONSTRAINTS_STORAGE_KEY = 'flowmotion-scheduling-constraints';
+
+const saveConstraints = (constraints: SchedulingConstraint[]) => {
+  try {
+    localStorage.setItem(CONSTRAINTS_STORAGE_KEY, JSON.stringify(constraints));
+  } catch (error) {
+    console.error('Failed to save scheduling constraints to localStorage:', error);
+  }
+};
+
+const loadConstraints = (): SchedulingConstraint[] => {
+  try {
+    const stored = localStorage.getItem(CONSTRAINTS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((constraint: Record<string, unknown>) => {
+        const range = constraint.timeRange as Record<string, string> | undefined;
+        return {
+          ...constraint,
+          time: constraint.time ? new Date(constraint.time as string) : undefined,
+          timeRange: range ? { start: new Date(range.start), end: new Date(range.end) } : undefined,
+        };
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load scheduling constraints from localStorage:', error);
+  }
+  return [];
+};
+
+const saveSettings = (settings: CalendarSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save calendar settings to localStorage:', error);
+  }
+};
+
+const loadSettings = (): CalendarSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_CALENDAR_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to load calendar settings from localStorage:', error);
+  }
+  return DEFAULT_CALENDAR_SETTINGS;
+};
+
+const saveTimeBlocks = (blocks: TimeBlock[]) => {
+  try {
+    localStorage.setItem(TIME_BLOCKS_STORAGE_KEY, JSON.stringify(blocks));
+  } catch (error) {
+    console.error('Failed to save time blocks to localStorage:', error);
+  }
+};
+
+const loadTimeBlocks = (): TimeBlock[] => {
+  try {
+    const stored = localStorage.getItem(TIME_BLOCKS_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed.map((block: Record<string, unknown>) => {
+        const pattern = block.recurringPattern as Record<string, unknown> | undefined;
+        return {
+          ...block,
+          start: new Date(block.start as string),
+          end: new Date(block.end as string),
+          recurringPattern: pattern ? {
+            ...pattern,
+            endDate: pattern.endDate ? new Date(pattern.endDate as string) : undefined,
+            exceptions: (pattern.exceptions as string[] | undefined)?.map(d => new Date(d)),
+          } : undefined,
+        };
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load time blocks from localStorage:', error);
+  }
+  return [];
+};
+
+export const useCalendarStore = create<CalendarStore>((set, get) => ({
+  // Initial State
+  timeBlocks: [],
+  settings: DEFAULT_CALENDAR_SETTINGS,
+  constraints: [],
+  isInitialized: false,
+
+  // Initialize store - load persisted time blocks, settings and constraints
+  initializeStore: () => {
+    if (get().isInitialized) return;
+    set({ 
+      timeBlocks: loadTimeBlocks(), 
+      settings: loadSettings(), 
+      constraints: loadConstraints(),
+      isInitialized: true 
+    });
+  },
+
+  // Settings Actions
+  updateSettings: (settings: Partial<CalendarSettings>) => {
+    set((state) => ({
+      settings: { ...state.settings, ...settings },
+    }));
+    saveSettings(get().settings);
+  },
+
+  // Time Block Actions
+  addTimeBlock: (block: Omit<TimeBlock, 'id'>) => {
+    set((state) => ({
+      timeBlocks: [...state.timeBlocks, { ...block, id: crypto.randomUUID() }],
+    }));
+    saveTimeBlocks(get().timeBlocks);
+  },
+
+  updateTimeBlock: (id: string, data: Partial<TimeBlock>) => {
+    set((state) => ({
+      timeBlocks: state.timeBlocks.map((block) =>
+        block.id === id ? { ...block, ...data } : block
+      ),
+    }));
+    saveTimeBlocks(get().timeBlocks);
+  },
+
+  deleteTimeBlock: (id: string) => {
+    set((state) => ({
+      timeBlocks: state.timeBlocks.filter((block) => block.id !== id),
+    }));
+    saveTimeBlocks(get().timeBlocks);
+  },
+
+  // Skip a single occurrence of a recurring block by adding an exception
+  skipOccurrence: (id: string, date: Date) => {
+    const block = get().timeBlocks.find((b) => b.id === id);
+    if (!block?.recurringPattern) return;
+
+    get().updateTimeBlock(id, {
+      recurringPattern: {
+        ...block.recurringPattern,
+        exceptions: [...(block.recurringPattern.exceptions || []), date],
+      },
+    });
+  },
+
+  // Constraint Actions
+  addConstraint: (constraint: Omit<SchedulingConstraint, 'id'>) => {
+    set((state) => ({
+      constraints: [...state.constraints, { ...constraint, id: crypto.randomUUID() }],
+    }));
+    saveConstraints(get().constraints);
+  },
+
+  deleteConstraint: (id: string) => {
+    set((state) => ({
+      constraints: state.constraints.filter((constraint) => constraint.id !== id),
+    }));
+    saveConstraints(get().constraints);
+  },
+
+  // Task-specific plus global constraints
+  getConstraintsForTask: (taskId: string) => {
+    return get().constraints.filter((constraint) => !constraint.taskId || constraint.taskId === taskId);
+  },
+}));
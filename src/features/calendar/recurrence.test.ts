@@ -0,0 +1,169 @@
+/**
+ * Recurrence Expansion Tests
+ *
+ * Intervals for each frequency, end dates, exceptions, the next occurrence
+ * and recurring time blocks. The process runs in another zone so the
+ * browser's zone can't leak in.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandRecurrence, expandTimeBlock, getNextOccurrence } from './recurrence';
+import { RecurringPattern, TimeBlock } from './CalendarTypes';
+
+process.env.TZ = 'Asia/Tokyo';
+
+const ZONE = 'America/New_York';
+
+// 09:00-10:00 New York time on Monday 2 June 2025
+const start = new Date('2025-06-02T13:00:00Z');
+const end = new Date('2025-06-02T14:00:00Z');
+
+const starts = (pattern: RecurringPattern, rangeStart: string, rangeEnd: string) =>
+  expandRecurrence(start, end, pattern, new Date(rangeStart), new Date(rangeEnd), ZONE)
+    .map(occurrence => occurrence.start.toISOString());
+
+describe('expandRecurrence', () => {
+  it('repeats daily patterns every interval days from the anchor', () => {
+    assert.deepEqual(starts({ frequency: 'daily', interval: 3 }, '2025-06-01T00:00:00Z', '2025-06-12T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+      '2025-06-05T13:00:00.000Z',
+      '2025-06-08T13:00:00.000Z',
+      '2025-06-11T13:00:00.000Z',
+    ]);
+  });
+
+  it('repeats weekly patterns on their weekdays every interval weeks', () => {
+    // Mondays and Wednesdays, every other week
+    const pattern: RecurringPattern = { frequency: 'weekly', interval: 2, daysOfWeek: [1, 3] };
+
+    assert.deepEqual(starts(pattern, '2025-06-01T00:00:00Z', '2025-06-29T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+      '2025-06-04T13:00:00.000Z',
+      '2025-06-16T13:00:00.000Z',
+      '2025-06-18T13:00:00.000Z',
+    ]);
+  });
+
+  it('repeats monthly patterns on the anchor day every interval months', () => {
+    assert.deepEqual(starts({ frequency: 'monthly', interval: 2 }, '2025-06-01T00:00:00Z', '2025-12-31T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+      '2025-08-02T13:00:00.000Z',
+      '2025-10-02T13:00:00.000Z',
+      '2025-12-02T14:00:00.000Z', // 09:00 EST
+    ]);
+  });
+
+  it('skips months without the anchor day', () => {
+    const lastDay = new Date('2025-01-31T14:00:00Z');
+    const occurrences = expandRecurrence(
+      lastDay,
+      new Date('2025-01-31T15:00:00Z'),
+      { frequency: 'monthly', interval: 1 },
+      new Date('2025-01-01T00:00:00Z'),
+      new Date('2025-06-01T00:00:00Z'),
+      ZONE
+    );
+
+    assert.deepEqual(occurrences.map(occurrence => occurrence.start.toISOString()), [
+      '2025-01-31T14:00:00.000Z',
+      '2025-03-31T13:00:00.000Z',
+      '2025-05-31T13:00:00.000Z',
+    ]);
+  });
+
+  it('includes the end date in the zone and nothing after it', () => {
+    // The end date is stored as midnight, the last day is the whole of 5 June in New York
+    const pattern: RecurringPattern = { frequency: 'daily', interval: 1, endDate: new Date('2025-06-05T04:00:00Z') };
+
+    assert.deepEqual(starts(pattern, '2025-06-01T00:00:00Z', '2025-06-12T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+      '2025-06-03T13:00:00.000Z',
+      '2025-06-04T13:00:00.000Z',
+      '2025-06-05T13:00:00.000Z',
+    ]);
+  });
+
+  it('leaves out exception dates whatever their time of day', () => {
+    const pattern: RecurringPattern = {
+      frequency: 'daily',
+      interval: 1,
+      exceptions: [new Date('2025-06-03T13:00:00Z'), new Date('2025-06-05T23:30:00Z')], // 19:30 on the 5th
+    };
+
+    assert.deepEqual(starts(pattern, '2025-06-02T00:00:00Z', '2025-06-07T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+      '2025-06-04T13:00:00.000Z',
+      '2025-06-06T13:00:00.000Z',
+    ]);
+  });
+
+  it('includes occurrences that started before the range but overlap it', () => {
+    assert.deepEqual(starts({ frequency: 'daily', interval: 1 }, '2025-06-03T13:30:00Z', '2025-06-04T00:00:00Z'), [
+      '2025-06-03T13:00:00.000Z',
+    ]);
+  });
+
+  it('starts no earlier than the anchor', () => {
+    assert.deepEqual(starts({ frequency: 'daily', interval: 1 }, '2025-05-25T00:00:00Z', '2025-06-03T00:00:00Z'), [
+      '2025-06-02T13:00:00.000Z',
+    ]);
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('finds the first occurrence after the given time', () => {
+    const next = getNextOccurrence(start, { frequency: 'weekly', interval: 1 }, new Date('2025-06-02T13:00:00Z'), ZONE);
+
+    assert.equal(next?.toISOString(), '2025-06-09T13:00:00.000Z');
+  });
+
+  it('skips exceptions and stops after the end date', () => {
+    const pattern: RecurringPattern = {
+      frequency: 'weekly',
+      interval: 1,
+      exceptions: [new Date('2025-06-09T13:00:00Z')],
+      endDate: new Date('2025-06-20T04:00:00Z'),
+    };
+
+    assert.equal(getNextOccurrence(start, pattern, start, ZONE)?.toISOString(), '2025-06-16T13:00:00.000Z');
+    assert.equal(getNextOccurrence(start, pattern, new Date('2025-06-16T13:00:00Z'), ZONE), null);
+  });
+
+  it('finds sparse occurrences more than one search window away', () => {
+    const leapDay = new Date('2024-02-29T14:00:00Z');
+    const next = getNextOccurrence(leapDay, { frequency: 'monthly', interval: 12 }, leapDay, ZONE);
+
+    assert.equal(next?.toISOString(), '2028-02-29T14:00:00.000Z');
+  });
+});
+
+describe('expandTimeBlock', () => {
+  const block: TimeBlock = {
+    id: 'focus',
+    start,
+    end,
+    type: 'focus',
+    title: 'Focus',
+    color: '#6366f1',
+    isRecurring: true,
+    recurringPattern: { frequency: 'daily', interval: 1, exceptions: [new Date('2025-06-03T13:00:00Z')] },
+  };
+
+  it('names each occurrence after the block and its date in the zone', () => {
+    const blocks = expandTimeBlock(block, new Date('2025-06-02T00:00:00Z'), new Date('2025-06-05T00:00:00Z'), ZONE);
+
+    assert.deepEqual(blocks.map(occurrence => occurrence.id), ['focus-20250602', 'focus-20250604']);
+    assert.deepEqual(blocks.map(occurrence => occurrence.end.toISOString()), [
+      '2025-06-02T14:00:00.000Z',
+      '2025-06-04T14:00:00.000Z',
+    ]);
+  });
+
+  it('keeps one-off blocks only when they overlap the range', () => {
+    const once = { ...block, isRecurring: false };
+
+    assert.deepEqual(expandTimeBlock(once, new Date('2025-06-02T13:30:00Z'), new Date('2025-06-03T00:00:00Z'), ZONE), [once]);
+    assert.deepEqual(expandTimeBlock(once, new Date('2025-06-02T14:00:00Z'), new Date('2025-06-03T00:00:00Z'), ZONE), []);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Recurrence Expansion
+ *
+ * Turns a RecurringPattern into concrete occurrences for any date range:
+ * - Daily, weekly (with daysOfWeek) and monthly frequencies with an interval
+ * - Respects endDate and per-date exceptions
+ * - Expands recurring TimeBlocks into CalendarEvents for rendering and scheduling
+ * - Finds the next occurrence for recurring tasks
+ *
+ * Days, weekdays and times of day are read in the user's time zone
+ * (CalendarSettings.timeZone), so occurrences keep their wall-clock time
+ * across DST changes wherever the code runs.
+ *
+ * Used by: CalendarView.tsx, scheduling.ts, taskStore.ts, ics.ts
+ * Related: CalendarTypes.ts (RecurringPattern, TimeBlock), timezone.ts
+ */
+
+import { CalendarEvent, RecurringPattern, TimeBlock } from './CalendarTypes';
+import { addDays } from 'date-fns';
+import {
+  endOfZonedDay,
+  getZonedDateKey,
+  getZonedParts,
+  setZonedTime,
+  startOfNextZonedDay,
+  startOfZonedDay,
+  ZonedParts,
+} from './timezone';
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since the epoch of a zoned calendar date, for calendar-day differences
+const getDayNumber = ({ year, month, day }: ZonedParts): number =>
+  Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+
+/**
+ * Check whether a calendar day in the zone matches the pattern, relative to its anchor day
+ */
+const matchesPattern = (day: Date, anchor: Date, pattern: RecurringPattern, timeZone: string): boolean => {
+  const interval = Math.max(1, pattern.interval || 1);
+  const dayParts = getZonedParts(day, timeZone);
+  const anchorParts = getZonedParts(anchor, timeZone);
+
+  switch (pattern.frequency) {
+    case 'daily':
+      return (getDayNumber(dayParts) - getDayNumber(anchorParts)) % interval === 0;
+    case 'weekly': {
+      const daysOfWeek = pattern.daysOfWeek && pattern.daysOfWeek.length > 0
+        ? pattern.daysOfWeek
+        : [anchorParts.dayOfWeek];
+      if (!daysOfWeek.includes(dayParts.dayOfWeek)) return false;
+      // Calendar weeks start on Sunday
+      const weeks = Math.round((
+        (getDayNumber(dayParts) - dayParts.dayOfWeek) - (getDayNumber(anchorParts) - anchorParts.dayOfWeek)
+      ) / 7);
+      return weeks % interval === 0;
+    }
+    case 'monthly': {
+      // Months without the anchor's day (e.g. the 31st) are skipped
+      const months = (dayParts.year - anchorParts.year) * 12 + dayParts.month - anchorParts.month;
+      return dayParts.day === anchorParts.day && months % interval === 0;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Expand a recurring pattern into occurrences that overlap [rangeStart, rangeEnd].
+ * The first occurrence is anchored at `start`; every occurrence keeps its
+ * wall-clock start time in the zone and the anchor's duration.
+ */
+export const expandRecurrence = (
+  start: Date,
+  end: Date,
+  pattern: RecurringPattern,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string
+): Occurrence[] => {
+  const occurrences: Occurrence[] = [];
+  const durationMs = end.getTime() - start.getTime();
+  const anchorDay = startOfZonedDay(start, timeZone);
+  const { hours, minutes } = getZonedParts(start, timeZone);
+  const startTime = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  const exceptionKeys = new Set(pattern.exceptions?.map(exception => getZonedDateKey(exception, timeZone)));
+
+  // An occurrence starting before rangeStart can still overlap it
+  const firstDay = startOfZonedDay(new Date(Math.max(
+    anchorDay.getTime(),
+    rangeStart.getTime() - durationMs
+  )), timeZone);
+  const seriesEnd = pattern.endDate && endOfZonedDay(pattern.endDate, timeZone);
+  const lastDay = seriesEnd && seriesEnd < rangeEnd ? seriesEnd : rangeEnd;
+
+  for (let day = firstDay; day <= lastDay; day = startOfNextZonedDay(day, timeZone)) {
+    if (!matchesPattern(day, anchorDay, pattern, timeZone)) continue;
+    if (exceptionKeys.has(getZonedDateKey(day, timeZone))) continue;
+
+    const occurrenceStart = setZonedTime(day, startTime, timeZone);
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + durationMs);
+
+    if (occurrenceEnd > rangeStart && occurrenceStart < rangeEnd) {
+      occurrences.push({ start: occurrenceStart, end: occurrenceEnd });
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Find the first occurrence strictly after `after`, or null once the series has ended.
+ * Searches in 90-day windows so sparse patterns (e.g. monthly on the 31st) still resolve.
+ */
+export const getNextOccurrence = (
+  anchor: Date,
+  pattern: RecurringPattern,
+  after: Date,
+  timeZone: string
+): Date | null => {
+  const horizon = addDays(after, 5 * 366);
+  const seriesEnd = pattern.endDate && endOfZonedDay(pattern.endDate, timeZone);
+  let windowStart = after;
+
+  while (windowStart < horizon) {
+    if (seriesEnd && windowStart > seriesEnd) break;
+
+    const windowEnd = addDays(windowStart, 90);
+    const [next] = expandRecurrence(anchor, anchor, pattern, windowStart, windowEnd, timeZone);
+    if (next) return next.start;
+
+    // Overlap by 1ms so an occurrence exactly on the boundary isn't skipped
+    windowStart = new Date(windowEnd.getTime() - 1);
+  }
+
+  return null;
+};
+
+/**
+ * Expand a time block into the concrete blocks that overlap a date range
+ */
+export const expandTimeBlock = (
+  block: TimeBlock,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string
+): TimeBlock[] => {
+  if (!block.isRecurring || !block.recurringPattern) {
+    return block.end > rangeStart && block.start < rangeEnd ? [block] : [];
+  }
+
+  return expandRecurrence(block.start, block.end, block.recurringPattern, rangeStart, rangeEnd, timeZone)
+    .map(occurrence => ({
+      ...block,
+      id: `${block.id}-${getZonedDateKey(occurrence.start, timeZone).replace(/-/g, '')}`,
+      start: occurrence.start,
+      end: occurrence.end,
+    }));
+};
+
+/**
+ * Convert time blocks (recurring or not) into calendar events for a date range
+ */
+export const timeBlocksToEvents = (
+  blocks: TimeBlock[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string
+): CalendarEvent[] => {
+  return blocks.flatMap(block =>
+    expandTimeBlock(block, rangeStart, rangeEnd, timeZone).map(occurrence => ({
+      id: `block-${occurrence.id}`,
+      title: occurrence.title,
+      start: occurrence.start,
+      end: occurrence.end,
+      type: occurrence.type === 'meeting' ? 'meeting' as const
+        : occurrence.type === 'break' ? 'break' as const
+        : 'block' as const,
+      timeBlockId: block.id,
+      color: occurrence.color,
+      isFlexible: false,
+      description: occurrence.description,
+    }))
+  );
+};
+
+/**
+ * Whether a time block should be treated as busy time by the scheduler.
+ * 'work' blocks mark time available for tasks, everything else is occupied.
+ */
+export const isBusyTimeBlock = (block: TimeBlock): boolean => block.type !== 'work';
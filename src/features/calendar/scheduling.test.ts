@@ -0,0 +1,437 @@
+/**
+ * Auto-Scheduler Tests
+ *
+ * - Slot search on DST transition days in the user's zone, with working hours
+ *   and recurring blocks read as wall-clock times there. The process runs in
+ *   another zone so the browser's zone can't leak in.
+ * - Splitting tasks into sessions within their min and max length
+ * - Hard constraints limiting where tasks go, soft ones preferred when possible
+ * - Dependencies placed first and finished before their dependents start,
+ *   and tasks on or behind a dependency cycle reported instead of placed
+ * - Rescheduling: which placed tasks a change breaks, and the moves that fix them
+ * - The optimized strategy: the same schedule on every run, never scoring
+ *   below greedy
+ */
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoScheduler } from './scheduling';
+import {
+  CalendarSettings,
+  DEFAULT_CALENDAR_SETTINGS,
+  SchedulingConstraint,
+  TimeBlock,
+  WeeklySchedule,
+} from './CalendarTypes';
+import { Task } from '../tasks/TaskTypes';
+
+process.env.TZ = 'Asia/Tokyo';
+
+const everyDay = (start: string, end: string): WeeklySchedule =>
+  Object.fromEntries([0, 1, 2, 3, 4, 5, 6].map(day => [day, [{ start, end }]])) as WeeklySchedule;
+
+const settingsFor = (timeZone: string, weeklySchedule: WeeklySchedule): CalendarSettings => ({
+  ...DEFAULT_CALENDAR_SETTINGS,
+  timeZone,
+  weeklySchedule,
+  bufferTime: 0,
+});
+
+// Scheduling searches from now, so tests that place tasks fix the clock
+const NOW = new Date('2025-06-02T00:00:00Z'); // a Monday
+const HOUR_MS = 60 * 60 * 1000;
+
+const fixClock = () => {
+  before(() => mock.timers.enable({ apis: ['Date'], now: NOW }));
+  after(() => mock.timers.reset());
+};
+
+const makeTask = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  priority: 'medium',
+  estimatedDuration: 60,
+  category: 'work',
+  status: 'todo',
+  createdAt: NOW,
+  updatedAt: NOW,
+  isFlexible: true,
+  ...fields,
+});
+
+const slotStarts = (scheduler: AutoScheduler, start: string, end: string, minutes: number) =>
+  scheduler.findFreeSlots(new Date(start), new Date(end), minutes).map(slot => slot.start.toISOString());
+
+describe('AutoScheduler.findFreeSlots across DST', () => {
+  it('shortens working hours spanning the spring-forward gap', () => {
+    // 01:00-04:00 in New York on 9 March 2025 is 2 hours: 02:00-03:00 doesn't exist
+    const scheduler = new AutoScheduler(settingsFor('America/New_York', everyDay('01:00', '04:00')));
+
+    assert.deepEqual(
+      slotStarts(scheduler, '2025-03-09T05:00:00Z', '2025-03-10T04:00:00Z', 60),
+      ['2025-03-09T06:00:00.000Z', '2025-03-09T07:00:00.000Z']
+    );
+  });
+
+  it('lengthens working hours spanning the fall-back overlap', () => {
+    // 01:00-04:00 in New York on 2 November 2025 is 4 hours: 01:00-02:00 happens twice
+    const scheduler = new AutoScheduler(settingsFor('America/New_York', everyDay('01:00', '04:00')));
+
+    assert.deepEqual(
+      slotStarts(scheduler, '2025-11-02T04:00:00Z', '2025-11-03T05:00:00Z', 60),
+      ['2025-11-02T05:00:00.000Z', '2025-11-02T06:00:00.000Z', '2025-11-02T07:00:00.000Z', '2025-11-02T08:00:00.000Z']
+    );
+  });
+
+  it('keeps working hours at their wall-clock time either side of a transition', () => {
+    const scheduler = new AutoScheduler(settingsFor('Europe/Berlin', everyDay('09:00', '10:00')));
+
+    assert.deepEqual(
+      slotStarts(scheduler, '2025-10-25T00:00:00Z', '2025-10-27T00:00:00Z', 60),
+      ['2025-10-25T07:00:00.000Z', '2025-10-26T08:00:00.000Z']
+    );
+  });
+
+  it('keeps recurring blocks at their wall-clock time after a transition', () => {
+    // Daily stand-up at 09:00 New York time, created before the change
+    const standUp: TimeBlock = {
+      id: 'standup',
+      start: new Date('2025-03-03T14:00:00Z'),
+      end: new Date('2025-03-03T15:00:00Z'),
+      type: 'meeting',
+      title: 'Stand-up',
+      color: '#10b981',
+      isRecurring: true,
+      recurringPattern: { frequency: 'daily', interval: 1 },
+    };
+    const scheduler = new AutoScheduler(settingsFor('America/New_York', everyDay('07:00', '12:00')), [], [standUp]);
+
+    // Slots touching the block count as conflicts, so the next free hour starts at 10:15
+    assert.deepEqual(
+      slotStarts(scheduler, '2025-03-10T04:00:00Z', '2025-03-11T04:00:00Z', 60),
+      ['2025-03-10T11:00:00.000Z', '2025-03-10T14:15:00.000Z']
+    );
+  });
+});
+
+describe('AutoScheduler splitting', () => {
+  const task = (estimatedDuration: number, minChunkMinutes: number, maxChunkMinutes: number): Task => ({
+    id: 'task',
+    title: 'Report',
+    priority: 'medium',
+    estimatedDuration,
+    category: 'work',
+    status: 'todo',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isFlexible: true,
+    splitting: { minChunkMinutes, maxChunkMinutes },
+  });
+
+  // 45-minute windows, so anything longer has to be split
+  const scheduler = () => new AutoScheduler(settingsFor('UTC', Object.fromEntries(
+    [0, 1, 2, 3, 4, 5, 6].map(day => [day, [
+      { start: '09:00', end: '09:45' },
+      { start: '10:00', end: '10:45' },
+      { start: '11:00', end: '11:45' },
+    ]])
+  ) as WeeklySchedule));
+
+  const sessionLengths = (result: ReturnType<AutoScheduler['scheduleAllTasks']>) =>
+    result.scheduledTasks[0]?.chunks?.map(chunk => (chunk.end.getTime() - chunk.start.getTime()) / 60000);
+
+  it('splits evenly when the largest session would leave an unsplittable rest', () => {
+    // 45 would leave 55, which is neither one session nor two of at least 30
+    const result = scheduler().scheduleAllTasks([task(100, 30, 45)]);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(sessionLengths(result), [34, 33, 33]);
+  });
+
+  it('takes the longest sessions when the rest splits', () => {
+    const result = scheduler().scheduleAllTasks([task(120, 30, 45)]);
+
+    assert.deepEqual(sessionLengths(result), [45, 45, 30]);
+  });
+
+  it('leaves tasks that no sessions can add up to unscheduled', () => {
+    // Longer than one session and shorter than two
+    const result = scheduler().scheduleAllTasks([task(50, 30, 45)]);
+
+    assert.deepEqual(result.unscheduledTasks, ['task']);
+  });
+});
+
+describe('AutoScheduler constraints', () => {
+  fixClock();
+
+  const constraint = (fields: Partial<SchedulingConstraint>): SchedulingConstraint => ({
+    id: 'constraint',
+    type: 'after',
+    priority: 5,
+    ...fields,
+  });
+
+  const scheduler = (constraints: SchedulingConstraint[]) =>
+    new AutoScheduler(settingsFor('UTC', everyDay('09:00', '12:00')), [], [], constraints);
+
+  const startOf = (result: ReturnType<AutoScheduler['scheduleAllTasks']>, taskId: string) =>
+    result.scheduledTasks.find(task => task.taskId === taskId)?.start.toISOString();
+
+  it('only places tasks in slots meeting hard constraints', () => {
+    const result = scheduler([
+      constraint({ type: 'after', time: new Date('2025-06-03T10:00:00Z'), isHard: true }),
+      constraint({ type: 'not_during', timeRange: { start: new Date('2025-06-03T10:00:00Z'), end: new Date('2025-06-04T10:30:00Z') }, isHard: true }),
+      constraint({ type: 'before', time: new Date('2025-06-04T11:30:00Z'), isHard: true }),
+    ]).scheduleAllTasks([makeTask('report')]);
+
+    assert.equal(startOf(result, 'report'), '2025-06-04T10:30:00.000Z');
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('leaves tasks no slot can satisfy unscheduled and names the constraint', () => {
+    const result = scheduler([
+      constraint({ type: 'during', timeRange: { start: new Date('2025-06-03T13:00:00Z'), end: new Date('2025-06-03T15:00:00Z') }, isHard: true }),
+    ]).scheduleAllTasks([makeTask('report')]);
+
+    assert.deepEqual(result.unscheduledTasks, ['report']);
+    assert.match(result.conflicts[0].reason, /^No time slot satisfies hard constraints: must take place during Jun 3, 1:00 PM/);
+  });
+
+  it('prefers slots meeting soft constraints', () => {
+    const result = scheduler([
+      constraint({ type: 'during', timeRange: { start: new Date('2025-06-05T10:00:00Z'), end: new Date('2025-06-05T11:00:00Z') } }),
+    ]).scheduleAllTasks([makeTask('report')]);
+
+    assert.equal(startOf(result, 'report'), '2025-06-05T10:00:00.000Z');
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('still places tasks whose soft constraints no slot meets, and reports them', () => {
+    const result = scheduler([
+      constraint({ type: 'before', time: new Date('2025-06-01T00:00:00Z') }),
+    ]).scheduleAllTasks([makeTask('report')]);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.conflicts.map(conflict => conflict.reason), ['Soft constraint not met: must finish before Jun 1, 12:00 AM']);
+  });
+
+  it('applies task constraints only to their task', () => {
+    const result = scheduler([
+      constraint({ type: 'after', time: new Date('2025-06-05T00:00:00Z'), taskId: 'review', isHard: true }),
+    ]).scheduleAllTasks([makeTask('report', { priority: 'high' }), makeTask('review', { priority: 'high' })]);
+
+    assert.ok(startOf(result, 'report')! < '2025-06-05');
+    assert.ok(startOf(result, 'review')! >= '2025-06-05');
+  });
+});
+
+describe('AutoScheduler dependencies', () => {
+  fixClock();
+
+  const scheduler = () => new AutoScheduler({ ...settingsFor('UTC', everyDay('09:00', '12:00')), bufferTime: 15 });
+
+  const placed = (result: ReturnType<AutoScheduler['scheduleAllTasks']>, taskId: string) =>
+    result.scheduledTasks.find(task => task.taskId === taskId);
+
+  it('starts dependents after their dependencies end, whatever their priority', () => {
+    const result = scheduler().scheduleAllTasks([
+      makeTask('publish', { priority: 'high', dependencies: ['review'] }),
+      makeTask('review', { priority: 'medium', dependencies: ['draft'] }),
+      makeTask('draft', { priority: 'low', estimatedDuration: 120 }),
+    ]);
+    const draft = placed(result, 'draft')!;
+    const review = placed(result, 'review')!;
+    const publish = placed(result, 'publish')!;
+
+    assert.equal(result.success, true);
+    assert.ok(review.start.getTime() >= draft.end.getTime() + 15 * 60 * 1000);
+    assert.ok(publish.start.getTime() >= review.end.getTime() + 15 * 60 * 1000);
+  });
+
+  it('ignores completed dependencies', () => {
+    const result = scheduler().scheduleAllTasks([
+      makeTask('draft', { status: 'completed', isFlexible: false }),
+      makeTask('review', { dependencies: ['draft'] }),
+    ]);
+
+    assert.deepEqual(result.unscheduledTasks, []);
+    assert.ok(placed(result, 'review'));
+  });
+
+  it('reports tasks whose dependencies finish after their deadline', () => {
+    const result = scheduler().scheduleAllTasks([
+      makeTask('draft', { estimatedDuration: 150 }),
+      makeTask('review', { dependencies: ['draft'], deadline: new Date('2025-06-02T10:00:00Z') }),
+    ]);
+
+    assert.deepEqual(result.unscheduledTasks, ['review']);
+    assert.match(result.conflicts[0].reason, /^Dependencies finish too late to meet the deadline/);
+  });
+
+  it('reports tasks on and behind a cycle and places the rest', () => {
+    const result = scheduler().scheduleAllTasks([
+      makeTask('a', { title: 'Draft', dependencies: ['b'] }),
+      makeTask('b', { title: 'Review', dependencies: ['a'] }),
+      makeTask('c', { title: 'Publish', dependencies: ['b'] }),
+      makeTask('d', { title: 'Email' }),
+    ]);
+    const reasons = Object.fromEntries(result.conflicts.map(conflict => [conflict.taskId, conflict.reason]));
+
+    assert.deepEqual([...result.unscheduledTasks].sort(), ['a', 'b', 'c']);
+    assert.deepEqual(result.scheduledTasks.map(task => task.taskId), ['d']);
+    assert.equal(reasons.a, 'Dependency cycle: Draft → Review → Draft');
+    assert.equal(reasons.b, 'Dependency cycle: Review → Draft → Review');
+    assert.equal(reasons.c, 'Depends on a dependency cycle: Review → Draft → Review');
+  });
+});
+
+describe('AutoScheduler.reschedule', () => {
+  fixClock();
+
+  const scheduler = () => new AutoScheduler(settingsFor('UTC', everyDay('09:00', '12:00')));
+
+  const at = (start: string, end: string) => ({ scheduledStart: new Date(start), scheduledEnd: new Date(end) });
+
+  // Report and email on Monday morning, review on Tuesday after the report
+  const planned = (): Task[] => [
+    makeTask('report', { title: 'Report', priority: 'high', ...at('2025-06-02T09:00:00Z', '2025-06-02T10:00:00Z') }),
+    makeTask('email', { title: 'Email', priority: 'low', ...at('2025-06-02T10:00:00Z', '2025-06-02T11:00:00Z') }),
+    makeTask('review', { title: 'Review', dependencies: ['report'], ...at('2025-06-03T09:00:00Z', '2025-06-03T10:00:00Z') }),
+  ];
+
+  const meeting = (start: string, end: string): TimeBlock => ({
+    id: 'meeting',
+    start: new Date(start),
+    end: new Date(end),
+    type: 'meeting',
+    title: 'Meeting',
+    color: '#10b981',
+    isRecurring: false,
+  });
+
+  const overlapping = (a: { start: Date; end: Date }, b: { start: Date; end: Date }) => a.start < b.end && b.start < a.end;
+
+  it('moves nothing when the change breaks nothing', () => {
+    const result = scheduler().reschedule(planned(), {
+      type: 'time_block',
+      block: meeting('2025-06-02T11:00:00Z', '2025-06-02T12:00:00Z'),
+    });
+
+    assert.deepEqual(result, { success: true, change: result.change, moves: [], conflicts: [] });
+  });
+
+  it('moves only the tasks a new meeting overlaps, clear of it', () => {
+    const block = meeting('2025-06-02T10:30:00Z', '2025-06-02T11:30:00Z');
+    const result = scheduler().reschedule(planned(), { type: 'time_block', block });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.moves.map(move => [move.taskId, move.reason]), [['email', 'Overlaps Meeting']]);
+    assert.deepEqual(result.moves[0].from, { start: new Date('2025-06-02T10:00:00Z'), end: new Date('2025-06-02T11:00:00Z') });
+    assert.ok(!overlapping(result.moves[0].to!, block));
+  });
+
+  it('moves tasks an overrunning task runs into, leaving the overrunning task', () => {
+    const result = scheduler().reschedule(planned(), {
+      type: 'task_overrun',
+      taskId: 'report',
+      end: new Date('2025-06-02T10:30:00Z'),
+    });
+
+    assert.deepEqual(result.moves.map(move => [move.taskId, move.reason]), [['email', 'Overlaps Report']]);
+    assert.ok(result.moves[0].to!.start >= new Date('2025-06-02T10:30:00Z'));
+  });
+
+  it('moves tasks whose new deadline is before they end', () => {
+    const call = makeTask('call', { title: 'Call', ...at('2025-06-04T09:00:00Z', '2025-06-04T10:00:00Z') });
+    const result = scheduler().reschedule([...planned(), call], {
+      type: 'deadline_change',
+      taskId: 'call',
+      deadline: new Date('2025-06-03T12:00:00Z'),
+    });
+
+    assert.deepEqual(result.moves.map(move => [move.taskId, move.reason]), [['call', 'Would miss its deadline']]);
+    assert.ok(result.moves[0].to!.end <= new Date('2025-06-03T12:00:00Z'));
+  });
+
+  it('moves the lower-priority task of two that overlap', () => {
+    const notes = makeTask('notes', { title: 'Notes', priority: 'low', ...at('2025-06-02T09:30:00Z', '2025-06-02T10:00:00Z') });
+    const result = scheduler().reschedule([...planned(), notes], {
+      type: 'time_block',
+      block: meeting('2025-06-05T09:00:00Z', '2025-06-05T10:00:00Z'),
+    });
+
+    assert.deepEqual(result.moves.map(move => [move.taskId, move.reason]), [['notes', 'Overlaps Report']]);
+  });
+
+  it('moves dependents that would start before a moved task ends', () => {
+    // The report can only go after the review's slot on Tuesday
+    const result = scheduler().reschedule(planned(), {
+      type: 'time_block',
+      block: meeting('2025-06-02T09:00:00Z', '2025-06-03T09:00:00Z'),
+    });
+    const moves = Object.fromEntries(result.moves.map(move => [move.taskId, move]));
+
+    assert.equal(moves.report.reason, 'Overlaps Meeting');
+    assert.equal(moves.email.reason, 'Overlaps Meeting');
+    assert.equal(moves.review.reason, 'Must follow Report, which moved');
+    assert.ok(moves.review.to!.start >= moves.report.to!.end);
+  });
+
+  it('reports moves without a new slot as unsuccessful', () => {
+    const result = scheduler().reschedule(planned(), {
+      type: 'deadline_change',
+      taskId: 'email',
+      deadline: new Date('2025-06-02T09:30:00Z'),
+    });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.moves.map(move => [move.taskId, move.to]), [['email', undefined]]);
+  });
+});
+
+describe('AutoScheduler optimized strategy', () => {
+  fixClock();
+
+  // Tasks competing for short days before their deadlines
+  const taskSet = (seed: number, count: number): Task[] => {
+    let state = seed;
+    const next = (max: number) => {
+      state = (state * 48271) % 2147483647;
+      return state % max;
+    };
+
+    return Array.from({ length: count }, (_, index) => makeTask(`task-${seed}-${index}`, {
+      priority: (['low', 'medium', 'high'] as const)[next(3)],
+      estimatedDuration: 30 + 15 * next(8),
+      deadline: new Date(NOW.getTime() + (12 + next(60)) * HOUR_MS),
+    }));
+  };
+
+  const scheduler = () => new AutoScheduler(settingsFor('UTC', everyDay('09:00', '12:00')));
+
+  const placements = (result: ReturnType<AutoScheduler['scheduleAllTasks']>) =>
+    result.scheduledTasks.map(task => `${task.taskId} ${task.start.toISOString()}`);
+
+  it('gives the same schedule on every run', () => {
+    const tasks = taskSet(7, 8);
+    const first = scheduler().scheduleAllTasks(tasks, 'optimized');
+    const second = scheduler().scheduleAllTasks(tasks, 'optimized');
+
+    assert.deepEqual(placements(second), placements(first));
+    assert.deepEqual(second.score, first.score);
+  });
+
+  it('never scores below greedy', () => {
+    for (const seed of [1, 2, 3, 4, 5, 6]) {
+      const tasks = taskSet(seed, 3 + seed);
+      const greedy = scheduler().scheduleAllTasks(tasks, 'greedy');
+      const optimized = scheduler().scheduleAllTasks(tasks, 'optimized');
+
+      assert.ok(
+        optimized.score!.total >= greedy.score!.total,
+        `seed ${seed}: optimized ${optimized.score!.total} < greedy ${greedy.score!.total}`
+      );
+    }
+  });
+});
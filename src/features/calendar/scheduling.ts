@@ -3,89 +3,209 @@
  * 
  * Intelligent task scheduling system that:
  * - Automatically schedules tasks based on priority, deadlines, and availability
- * - Considers working hours, breaks, and existing commitments
- * - Handles task dependencies and constraints
+ * - Considers working hours (per-day windows and date overrides), breaks, and existing commitments
+ * - Interprets working hours in CalendarSettings.timeZone, so days stay correct
+ *   across DST transitions and regardless of the browser's zone
+ * - Treats recurring time blocks (standups, lunch) as busy time
+ * - Orders tasks by their dependency graph and starts each task only after its
+ *   dependencies finish (plus buffer time); dependency cycles are reported as conflicts
+ * - Handles constraints (hard constraints filter slots, soft constraints are
+ *   weighted into slot scoring by priority)
+ * - Splits tasks that allow it into several sessions when no single slot fits
+ * - Incremental rescheduling: after a change (new busy time, overrun, moved
+ *   deadline) moves as few flexible tasks as possible and returns a diff
  * - Provides conflict resolution and suggestions
+ * - Two strategies: 'greedy' places tasks one at a time in priority order,
+ *   'optimized' runs a local search over task orderings and keeps the
+ *   schedule with the best overall score
  * 
- * Used by: CalendarView.tsx, TaskManager.tsx
+ * Used by: CalendarView.tsx, TaskManager.tsx, chatToolRunner.ts, chatContextBuilder.ts
  * State: Integrates with taskStore and calendar state
  */
 
-import { Task } from '../tasks/TaskTypes';
+import { Task, TaskSplitting, DEFAULT_TASK_SPLITTING } from '../tasks/TaskTypes';
+import { findDependencyCycle, formatDependencyCycle } from '../tasks/taskUtils';
 import { 
   CalendarEvent, 
   TimeSlot, 
+  TimeBlock,
   SchedulingResult, 
-  WorkingHours,
+  SchedulingConstraint,
+  ScheduleChange,
+  RescheduleMove,
+  RescheduleResult,
+  SchedulingScore,
+  SchedulingStrategy,
+  WorkWindow,
   CalendarSettings,
   DEFAULT_CALENDAR_SETTINGS 
 } from './CalendarTypes';
+import { timeBlocksToEvents, isBusyTimeBlock } from './recurrence';
+import {
+  addZonedDays,
+  getZonedDateKey,
+  getZonedParts,
+  resolveTimeZone,
+  setZonedTime,
+  startOfNextZonedDay,
+  toZonedTime
+} from './timezone';
 import { 
   addMinutes, 
   isWithinInterval, 
-  endOfDay,
-  addDays
+  addDays,
+  format
 } from 'date-fns';
 
+// Score points subtracted per priority point of a violated soft constraint
+const SOFT_CONSTRAINT_WEIGHT = 5;
+
+const NO_SLOT_REASON = 'No available time slots found';
+
+// Schedule score penalties, multiplied by the task's priority weight
+const UNSCHEDULED_PENALTY = 100;
+const MISSED_DEADLINE_PENALTY = 50;
+// Penalty per idle gap too short to be useful (longer than the buffer, shorter than this)
+const FRAGMENT_GAP_MINUTES = 30;
+const FRAGMENT_PENALTY = 3;
+
+// Extra tasks rescheduling may try to displace to fit tasks that no longer fit
+const MAX_RESCHEDULE_DISPLACEMENTS = 10;
+
+// Local search limits for the 'optimized' strategy. It runs on the main
+// thread when the user auto-schedules, so the work is capped; each iteration
+// places every task once. A count rather than a time limit keeps the result
+// the same on slow and fast machines.
+const OPTIMIZER_MAX_ITERATIONS = 50;
+const OPTIMIZER_MAX_TASK_PLACEMENTS = 100;
+
+interface SchedulingAttempt {
+  success: boolean;
+  start?: Date;
+  end?: Date;
+  confidence: number;
+  reason?: string;
+  suggestedTime?: Date;
+  violatedConstraints?: SchedulingConstraint[];
+  score?: number;
+  chunks?: TimeSlot[]; // set when the task was split into sessions
+}
+
+interface Placement {
+  scheduledTasks: SchedulingResult['scheduledTasks'];
+  unscheduledTasks: string[];
+  conflicts: SchedulingResult['conflicts'];
+  score: SchedulingScore;
+}
+
+// Scheduled time of a task: its sessions if split, otherwise its single slot
+const getTaskSessions = (task: Task): { start: Date; end: Date }[] => {
+  if (task.chunks?.length) return task.chunks;
+  if (task.scheduledStart && task.scheduledEnd) {
+    return [{ start: task.scheduledStart, end: task.scheduledEnd }];
+  }
+  return [];
+};
+
+const overlaps = (a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Session lengths to try for the next chunk of a split task, longest first:
+ * 15-minute steps plus an even split of what's left, keeping only sizes whose
+ * leftover can still be split into sessions between the min and max
+ */
+const getChunkSizes = (remaining: number, { minChunkMinutes, maxChunkMinutes }: TaskSplitting): number[] => {
+  const canSplit = (minutes: number) =>
+    minutes === 0 || Math.ceil(minutes / maxChunkMinutes) * minChunkMinutes <= minutes;
+  const smallest = Math.min(minChunkMinutes, remaining);
+  const largest = Math.min(maxChunkMinutes, remaining);
+  
+  const sizes = new Set([Math.ceil(remaining / Math.ceil(remaining / maxChunkMinutes))]);
+  for (let size = largest; size >= smallest; size -= 15) {
+    sizes.add(size);
+  }
+  
+  return [...sizes]
+    .filter(size => size >= smallest && size <= largest && canSplit(remaining - size))
+    .sort((a, b) => b - a);
+};
+
+// Deterministic PRNG so the optimizer gives the same schedule for the same input
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
 export class AutoScheduler {
   private settings: CalendarSettings;
   private existingEvents: CalendarEvent[];
+  private timeBlocks: TimeBlock[];
+  private constraints: SchedulingConstraint[];
+  private tasksById: Map<string, Task> = new Map();
+  private timeZone: string;
   constructor(
     settings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS,
-    existingEvents: CalendarEvent[] = []
+    existingEvents: CalendarEvent[] = [],
+    timeBlocks: TimeBlock[] = [],
+    constraints: SchedulingConstraint[] = []
   ) {
     this.settings = settings;
-    this.existingEvents = existingEvents;
+    this.timeZone = resolveTimeZone(settings.timeZone);
+    this.existingEvents = [...existingEvents];
+    this.timeBlocks = timeBlocks.filter(isBusyTimeBlock);
+    this.constraints = constraints;
   }
 
   /**
-   * Main scheduling function - attempts to schedule all provided tasks
+   * Main scheduling function - attempts to schedule all provided tasks.
+   * Doesn't modify the scheduler, so strategies can be compared on the same instance.
    */
-  public scheduleAllTasks(tasks: Task[]): SchedulingResult {
+  public scheduleAllTasks(
+    tasks: Task[],
+    strategy: SchedulingStrategy = this.settings.schedulingStrategy || 'greedy'
+  ): SchedulingResult {
     const result: SchedulingResult = {
       success: true,
+      strategy,
       scheduledTasks: [],
       unscheduledTasks: [],
       conflicts: [],
       suggestions: [],
     };
 
+    this.tasksById = new Map(tasks.map(task => [task.id, task]));
+    
     // Sort tasks by priority and deadline
     const sortedTasks = this.prioritizeTasks(tasks);
     
     // Only schedule flexible tasks (user can manually schedule rigid ones)
     const flexibleTasks = sortedTasks.filter(task => task.isFlexible);
     
-    for (const task of flexibleTasks) {
-      const schedulingAttempt = this.scheduleTask(task);
+    // Dependencies go first; tasks caught in a cycle can't be ordered at all
+    const { ordered, cyclic } = this.orderByDependencies(flexibleTasks);
+    
+    for (const task of cyclic) {
+      const cycle = findDependencyCycle(tasks, task.id);
+      const reason = cycle && cycle[0] === task.id
+        ? `Dependency cycle: ${formatDependencyCycle(cycle, tasks)}`
+        : `Depends on a dependency cycle${cycle ? `: ${formatDependencyCycle(cycle, tasks)}` : ''}`;
       
-      if (schedulingAttempt.success) {
-        result.scheduledTasks.push({
-          taskId: task.id,
-          start: schedulingAttempt.start!,
-          end: schedulingAttempt.end!,
-          confidence: schedulingAttempt.confidence,
-        });
-        
-        // Add to existing events for next iterations
-        this.existingEvents.push({
-          id: `task-${task.id}`,
-          title: task.title,
-          start: schedulingAttempt.start!,
-          end: schedulingAttempt.end!,
-          type: 'task',
-          taskId: task.id,
-          isFlexible: true,
-        });
-      } else {
-        result.unscheduledTasks.push(task.id);
-        result.conflicts.push({
-          taskId: task.id,
-          reason: schedulingAttempt.reason || 'Could not find suitable time slot',
-          suggestedTime: schedulingAttempt.suggestedTime,
-        });
-      }
+      result.unscheduledTasks.push(task.id);
+      result.conflicts.push({ taskId: task.id, reason });
     }
+    
+    const placement = strategy === 'optimized'
+      ? this.optimizePlacement(ordered)
+      : this.placeTasks(ordered);
+    
+    result.scheduledTasks = placement.scheduledTasks;
+    result.unscheduledTasks.push(...placement.unscheduledTasks);
+    result.conflicts.push(...placement.conflicts);
+    result.score = placement.score;
 
     // Generate suggestions for optimization
     result.suggestions = this.generateSuggestions(result, tasks);
@@ -94,17 +214,428 @@ export class AutoScheduler {
     return result;
   }
 
+  /**
+   * Free slots of the given length within working hours, earliest first.
+   * Unlike the candidate slots tasks are placed in, they don't overlap each other.
+   */
+  public findFreeSlots(start: Date, end: Date, durationMinutes: number, limit = Infinity): TimeSlot[] {
+    const free: TimeSlot[] = [];
+    
+    for (const slot of this.findAvailableSlots(start, end, durationMinutes)) {
+      if (free.length >= limit) break;
+      
+      const previous = free[free.length - 1];
+      if (!previous || slot.start >= addMinutes(previous.end, this.settings.bufferTime)) {
+        free.push(slot);
+      }
+    }
+    
+    return free;
+  }
+
+  /**
+   * Incremental rescheduling: apply a change to the current schedule and move
+   * as few flexible tasks as possible to make it feasible again. Tasks whose
+   * slot the change broke are moved first, then dependents that now start too
+   * early, then lower-priority tasks displaced to make room. Nothing is applied;
+   * the returned moves are a diff to preview and accept.
+   */
+  public reschedule(tasks: Task[], change: ScheduleChange): RescheduleResult {
+    // Work on copies with the change applied
+    const workingTasks = tasks.map(task => {
+      if (change.type === 'task_overrun' && task.id === change.taskId) {
+        return { ...task, scheduledEnd: change.end };
+      }
+      if (change.type === 'deadline_change' && task.id === change.taskId) {
+        return { ...task, deadline: change.deadline };
+      }
+      return task;
+    });
+    this.tasksById = new Map(workingTasks.map(task => [task.id, task]));
+    
+    const overrunTaskId = change.type === 'task_overrun' ? change.taskId : undefined;
+    const placedTasks = workingTasks.filter(task => 
+      task.status !== 'completed' && getTaskSessions(task).length > 0
+    );
+    const movable = placedTasks.filter(task => task.isFlexible && task.id !== overrunTaskId);
+    const movableIds = new Set(movable.map(task => task.id));
+    
+    const toEvents = (task: Task): CalendarEvent[] => getTaskSessions(task).map((session, index) => ({
+      id: `task-${task.id}-${index}`,
+      title: task.title,
+      start: session.start,
+      end: session.end,
+      type: 'task',
+      taskId: task.id,
+      isFlexible: task.isFlexible,
+    }));
+    
+    // Everything that stays put, with the overrunning task at its new length
+    const overrunTask = placedTasks.find(task => task.id === overrunTaskId);
+    const fixedEvents = [
+      ...this.existingEvents.filter(event => 
+        !event.taskId || (!movableIds.has(event.taskId) && event.taskId !== overrunTaskId)
+      ),
+      ...(overrunTask ? toEvents(overrunTask) : []),
+    ];
+    
+    const baseTimeBlocks = this.timeBlocks;
+    if (change.type === 'time_block' && isBusyTimeBlock(change.block)) {
+      this.timeBlocks = [...this.timeBlocks, change.block];
+    }
+    
+    try {
+      const reasons = this.findBrokenTasks(movable, fixedEvents);
+      let moveSet = new Set(reasons.keys());
+      
+      if (moveSet.size === 0) {
+        return { success: true, change, moves: [], conflicts: [] };
+      }
+      
+      const placeMoveSet = (ids: Set<string>): Placement => {
+        // Dependents that would now start before a moved task ends move too
+        for (;;) {
+          const placement = this.placeMovedTasks(movable, ids, fixedEvents, toEvents);
+          const newEnds = new Map(placement.scheduledTasks.map(placed => [placed.taskId, placed.end]));
+          
+          const dependents = movable.filter(task => !ids.has(task.id) &&
+            (task.dependencies || []).some(depId => {
+              const depEnd = newEnds.get(depId);
+              return depEnd && getTaskSessions(task)[0].start < addMinutes(depEnd, this.settings.bufferTime);
+            })
+          );
+          
+          if (dependents.length === 0) return placement;
+          dependents.forEach(task => ids.add(task.id));
+        }
+      };
+      
+      let placement = placeMoveSet(moveSet);
+      
+      // Tasks that still don't fit: try displacing lower-priority tasks in their window
+      const givenUp = new Set<string>();
+      const rejected = new Set<string>();
+      
+      for (let attempt = 0; attempt < MAX_RESCHEDULE_DISPLACEMENTS; attempt++) {
+        const failingId = placement.unscheduledTasks.find(id => !givenUp.has(id));
+        if (!failingId) break;
+        
+        const failingTask = this.tasksById.get(failingId)!;
+        const failingWindow = this.calculateSchedulingWindow(failingTask);
+        const slack = (task: Task) => task.deadline?.getTime() ?? Number.MAX_SAFE_INTEGER;
+        
+        const [candidate] = movable
+          .filter(task => !moveSet.has(task.id) && !rejected.has(task.id) &&
+            this.getPriorityWeight(task.priority) <= this.getPriorityWeight(failingTask.priority) &&
+            getTaskSessions(task).some(session => overlaps(session, failingWindow))
+          )
+          .sort((a, b) => 
+            this.getPriorityWeight(a.priority) - this.getPriorityWeight(b.priority) || slack(b) - slack(a)
+          );
+        
+        if (!candidate) {
+          givenUp.add(failingId);
+          continue;
+        }
+        
+        const trialSet = new Set(moveSet).add(candidate.id);
+        const trial = placeMoveSet(trialSet);
+        
+        if (trial.unscheduledTasks.length < placement.unscheduledTasks.length) {
+          moveSet = trialSet;
+          placement = trial;
+          reasons.set(candidate.id, `Made room for ${failingTask.title}`);
+        } else {
+          rejected.add(candidate.id);
+        }
+      }
+      
+      const moves: RescheduleMove[] = Array.from(moveSet).map(id => {
+        const task = this.tasksById.get(id)!;
+        const sessions = getTaskSessions(task);
+        const placed = placement.scheduledTasks.find(scheduled => scheduled.taskId === id);
+        const movedDependency = (task.dependencies || [])
+          .map(depId => this.tasksById.get(depId))
+          .find(dep => dep && moveSet.has(dep.id));
+        
+        return {
+          taskId: id,
+          from: { start: sessions[0].start, end: sessions[sessions.length - 1].end },
+          to: placed && { start: placed.start, end: placed.end, chunks: placed.chunks },
+          reason: reasons.get(id) || 
+            (movedDependency ? `Must follow ${movedDependency.title}, which moved` : 'Rescheduled'),
+        };
+      });
+      
+      return {
+        success: placement.unscheduledTasks.length === 0,
+        change,
+        // Tasks that landed back in the same slot didn't really move
+        moves: moves.filter(move => !move.to || move.to.chunks ||
+          move.to.start.getTime() !== move.from.start.getTime() ||
+          move.to.end.getTime() !== move.from.end.getTime()
+        ),
+        conflicts: placement.conflicts,
+      };
+    } finally {
+      this.timeBlocks = baseTimeBlocks;
+    }
+  }
+
+  /**
+   * Placed flexible tasks the current schedule no longer allows, with the reason:
+   * clashes with fixed events, missed deadlines, starting before a dependency
+   * ends, or overlapping a higher-priority flexible task
+   */
+  private findBrokenTasks(movable: Task[], fixedEvents: CalendarEvent[]): Map<string, string> {
+    const reasons = new Map<string, string>();
+    const allSessions = movable.flatMap(getTaskSessions);
+    if (allSessions.length === 0) return reasons;
+    
+    const rangeStart = new Date(Math.min(...allSessions.map(session => session.start.getTime())));
+    const rangeEnd = new Date(Math.max(...allSessions.map(session => session.end.getTime())));
+    const busyEvents = [...fixedEvents, ...timeBlocksToEvents(this.timeBlocks, rangeStart, rangeEnd, this.timeZone)];
+    
+    for (const task of movable) {
+      const sessions = getTaskSessions(task);
+      const clash = busyEvents.find(event => sessions.some(session => overlaps(session, event)));
+      
+      if (clash) {
+        reasons.set(task.id, `Overlaps ${clash.title}`);
+        continue;
+      }
+      
+      if (task.deadline && sessions[sessions.length - 1].end > task.deadline) {
+        reasons.set(task.id, 'Would miss its deadline');
+        continue;
+      }
+      
+      const lateDependency = (task.dependencies || [])
+        .map(depId => this.tasksById.get(depId))
+        .find(dep => {
+          if (!dep || dep.status === 'completed') return false;
+          const depSessions = getTaskSessions(dep);
+          return depSessions.length > 0 && 
+            sessions[0].start < addMinutes(depSessions[depSessions.length - 1].end, this.settings.bufferTime);
+        });
+      
+      if (lateDependency) {
+        reasons.set(task.id, `Must start after ${lateDependency.title} finishes`);
+      }
+    }
+    
+    // Overlapping flexible tasks: the higher-priority one keeps its slot
+    const kept: Task[] = [];
+    const byPriority = [...movable].sort((a, b) => 
+      this.getPriorityWeight(b.priority) - this.getPriorityWeight(a.priority)
+    );
+    
+    for (const task of byPriority) {
+      if (reasons.has(task.id)) continue;
+      
+      const other = kept.find(keptTask => getTaskSessions(keptTask).some(keptSession =>
+        getTaskSessions(task).some(session => overlaps(session, keptSession))
+      ));
+      
+      if (other) {
+        reasons.set(task.id, `Overlaps ${other.title}`);
+      } else {
+        kept.push(task);
+      }
+    }
+    
+    return reasons;
+  }
+
+  /**
+   * Re-place the given tasks around fixed events and the flexible tasks that stay
+   */
+  private placeMovedTasks(
+    movable: Task[],
+    moveIds: Set<string>,
+    fixedEvents: CalendarEvent[],
+    toEvents: (task: Task) => CalendarEvent[]
+  ): Placement {
+    const staying = movable.filter(task => !moveIds.has(task.id));
+    const toPlace = movable
+      .filter(task => moveIds.has(task.id))
+      .map(task => ({ ...task, scheduledStart: undefined, scheduledEnd: undefined, chunks: undefined }));
+    const { ordered, cyclic } = this.orderByDependencies(this.prioritizeTasks(toPlace));
+    
+    const baseEvents = this.existingEvents;
+    this.existingEvents = [...fixedEvents, ...staying.flatMap(toEvents)];
+    
+    try {
+      return this.placeTasks([...ordered, ...cyclic]);
+    } finally {
+      this.existingEvents = baseEvents;
+    }
+  }
+
+  /**
+   * Place tasks one at a time in the given order, each in its best free slot
+   */
+  private placeTasks(tasks: Task[]): Placement {
+    const placement: Placement = {
+      scheduledTasks: [],
+      unscheduledTasks: [],
+      conflicts: [],
+      score: { total: 0, placementScore: 0, missedDeadlines: 0, fragmentation: 0 },
+    };
+    let placementScore = 0;
+    
+    // Work on a copy so each run starts from the same existing events
+    const baseEvents = this.existingEvents;
+    this.existingEvents = [...baseEvents];
+    
+    try {
+      for (const task of tasks) {
+        const schedulingAttempt = this.scheduleTask(task);
+        
+        if (schedulingAttempt.success) {
+          placement.scheduledTasks.push({
+            taskId: task.id,
+            start: schedulingAttempt.start!,
+            end: schedulingAttempt.end!,
+            confidence: schedulingAttempt.confidence,
+            chunks: schedulingAttempt.chunks,
+          });
+          placementScore += (schedulingAttempt.score || 0) * this.getPriorityWeight(task.priority);
+          
+          // Scheduled, but some soft constraints couldn't be honoured
+          schedulingAttempt.violatedConstraints?.forEach(constraint => {
+            placement.conflicts.push({
+              taskId: task.id,
+              reason: `Soft constraint not met: ${this.describeConstraint(constraint)}`,
+            });
+          });
+          
+          // Add to existing events for next iterations
+          const sessions = schedulingAttempt.chunks || [{ start: schedulingAttempt.start!, end: schedulingAttempt.end! }];
+          sessions.forEach((session, index) => {
+            this.existingEvents.push({
+              id: schedulingAttempt.chunks ? `task-${task.id}-chunk-${index}` : `task-${task.id}`,
+              title: task.title,
+              start: session.start,
+              end: session.end,
+              type: 'task',
+              taskId: task.id,
+              isFlexible: true,
+            });
+          });
+        } else {
+          placement.unscheduledTasks.push(task.id);
+          placement.conflicts.push({
+            taskId: task.id,
+            reason: schedulingAttempt.reason || 'Could not find suitable time slot',
+            suggestedTime: schedulingAttempt.suggestedTime,
+          });
+        }
+      }
+      
+      placement.score = this.scorePlacement(tasks, placement, placementScore);
+    } finally {
+      this.existingEvents = baseEvents;
+    }
+    
+    return placement;
+  }
+
+  /**
+   * Local search over task orderings: starting from the greedy order, repeatedly
+   * move one task earlier or later (keeping dependencies first) and keep the
+   * change whenever the whole schedule scores better
+   */
+  private optimizePlacement(tasks: Task[]): Placement {
+    let bestOrder = tasks;
+    let best = this.placeTasks(bestOrder);
+    
+    if (tasks.length < 2) return best;
+    
+    const random = createRandom(tasks.length);
+    const iterations = Math.min(OPTIMIZER_MAX_ITERATIONS, Math.floor(OPTIMIZER_MAX_TASK_PLACEMENTS / tasks.length));
+    
+    for (let i = 0; i < iterations; i++) {
+      const from = Math.floor(random() * bestOrder.length);
+      const to = Math.floor(random() * bestOrder.length);
+      if (from === to) continue;
+      
+      const candidate = [...bestOrder];
+      const [moved] = candidate.splice(from, 1);
+      candidate.splice(to, 0, moved);
+      if (!this.respectsDependencies(candidate)) continue;
+      
+      const placement = this.placeTasks(candidate);
+      if (placement.score.total > best.score.total) {
+        best = placement;
+        bestOrder = candidate;
+      }
+    }
+    
+    return best;
+  }
+
+  /**
+   * Whether every task comes after its dependencies within the order
+   */
+  private respectsDependencies(order: Task[]): boolean {
+    const positions = new Map(order.map((task, index) => [task.id, index]));
+    
+    return order.every((task, index) =>
+      (task.dependencies || []).every(depId => (positions.get(depId) ?? -1) < index)
+    );
+  }
+
+  /**
+   * Score a whole schedule: reward good placements of important tasks,
+   * penalize unplaced tasks, missed deadlines and fragmented days.
+   * Expects this.existingEvents to include the placed tasks.
+   */
+  private scorePlacement(tasks: Task[], placement: Placement, placementScore: number): SchedulingScore {
+    let penalty = 0;
+    let missedDeadlines = 0;
+    
+    for (const task of tasks) {
+      const weight = this.getPriorityWeight(task.priority);
+      const scheduled = placement.scheduledTasks.find(s => s.taskId === task.id);
+      
+      if (!scheduled) {
+        penalty += UNSCHEDULED_PENALTY * weight;
+      }
+      
+      if (task.deadline && (!scheduled || scheduled.end > task.deadline)) {
+        missedDeadlines++;
+        penalty += MISSED_DEADLINE_PENALTY * weight;
+      }
+    }
+    
+    // Count short idle gaps between consecutive events on the same day
+    const sortedEvents = [...this.existingEvents].sort((a, b) => a.start.getTime() - b.start.getTime());
+    let fragmentation = 0;
+    
+    for (let i = 1; i < sortedEvents.length; i++) {
+      const previous = sortedEvents[i - 1];
+      const current = sortedEvents[i];
+      if (getZonedDateKey(previous.end, this.timeZone) !== getZonedDateKey(current.start, this.timeZone)) continue;
+      
+      const gapMinutes = (current.start.getTime() - previous.end.getTime()) / (1000 * 60);
+      if (gapMinutes > this.settings.bufferTime && gapMinutes < FRAGMENT_GAP_MINUTES) {
+        fragmentation++;
+      }
+    }
+    
+    return {
+      total: placementScore - penalty - fragmentation * FRAGMENT_PENALTY,
+      placementScore,
+      missedDeadlines,
+      fragmentation,
+    };
+  }
+
   /**
    * Schedule a single task
    */
-  private scheduleTask(task: Task): {
-    success: boolean;
-    start?: Date;
-    end?: Date;
-    confidence: number;
-    reason?: string;
-    suggestedTime?: Date;
-  } {
+  private scheduleTask(task: Task): SchedulingAttempt {
     // Check if task has dependencies
     const dependencyCheck = this.checkDependencies(task);
     if (!dependencyCheck.satisfied) {
@@ -118,6 +649,19 @@ export class AutoScheduler {
     // Calculate scheduling window
     const schedulingWindow = this.calculateSchedulingWindow(task);
     
+    // Finish-to-start: wait for the last dependency to end, plus buffer
+    if (dependencyCheck.earliestStart && dependencyCheck.earliestStart > schedulingWindow.start) {
+      schedulingWindow.start = dependencyCheck.earliestStart;
+    }
+    
+    if (schedulingWindow.start >= schedulingWindow.end) {
+      return {
+        success: false,
+        confidence: 0,
+        reason: `Dependencies finish too late to meet the deadline (earliest start ${this.formatInZone(schedulingWindow.start, 'MMM d, h:mm a')})`,
+      };
+    }
+    
     // Find available time slots
     const availableSlots = this.findAvailableSlots(
       schedulingWindow.start,
@@ -125,23 +669,126 @@ export class AutoScheduler {
       task.estimatedDuration
     );
 
+    // Hard constraints filter candidate slots
+    const taskConstraints = this.getConstraintsForTask(task);
+    const hardConstraints = taskConstraints.filter(c => c.isHard);
+    const softConstraints = taskConstraints.filter(c => !c.isHard);
+    
+    const allowedSlots = availableSlots.filter(slot =>
+      hardConstraints.every(constraint => this.isConstraintSatisfied(constraint, slot))
+    );
+    
+    // No single slot is long enough: place splittable tasks as several sessions
+    if (allowedSlots.length === 0 && task.splitting) {
+      const chunked = this.scheduleTaskInChunks(task, schedulingWindow, hardConstraints, softConstraints);
+      if (chunked) return chunked;
+    }
+
     if (availableSlots.length === 0) {
       return {
         success: false,
         confidence: 0,
-        reason: 'No available time slots found',
+        reason: NO_SLOT_REASON,
         suggestedTime: this.suggestAlternativeTime(),
       };
     }
+    
+    if (allowedSlots.length === 0) {
+      const blocking = hardConstraints.filter(constraint =>
+        !availableSlots.some(slot => this.isConstraintSatisfied(constraint, slot))
+      );
+      const described = (blocking.length > 0 ? blocking : hardConstraints)
+        .map(constraint => this.describeConstraint(constraint))
+        .join('; ');
+      
+      return {
+        success: false,
+        confidence: 0,
+        reason: `No time slot satisfies hard constraints: ${described}`,
+      };
+    }
 
     // Score and select best slot
-    const bestSlot = this.selectBestTimeSlot(availableSlots, task);
+    const bestSlot = this.selectBestTimeSlot(allowedSlots, task, softConstraints);
     
     return {
       success: true,
       start: bestSlot.start,
       end: bestSlot.end,
       confidence: this.calculateSchedulingConfidence(bestSlot, task),
+      score: this.scoreTimeSlot(bestSlot, task, softConstraints),
+      violatedConstraints: softConstraints.filter(constraint => 
+        !this.isConstraintSatisfied(constraint, bestSlot)
+      ),
+    };
+  }
+
+  /**
+   * Place a task as consecutive sessions between its min and max chunk size.
+   * Each session takes the earliest free slot after the previous one, preferring
+   * slots that keep soft constraints. Returns null if the whole duration doesn't fit.
+   */
+  private scheduleTaskInChunks(
+    task: Task,
+    schedulingWindow: { start: Date; end: Date },
+    hardConstraints: SchedulingConstraint[],
+    softConstraints: SchedulingConstraint[]
+  ): SchedulingAttempt | null {
+    const splitting = task.splitting || DEFAULT_TASK_SPLITTING;
+    const chunks: TimeSlot[] = [];
+    const chunkEvents: CalendarEvent[] = [];
+    let remaining = task.estimatedDuration;
+    let searchStart = schedulingWindow.start;
+    
+    try {
+      while (remaining > 0) {
+        let chunk: TimeSlot | undefined;
+        
+        // Earliest session across sizes; longer wins on a tie
+        for (const size of getChunkSizes(remaining, splitting)) {
+          const slots = this.findAvailableSlots(searchStart, schedulingWindow.end, size)
+            .filter(slot => hardConstraints.every(c => this.isConstraintSatisfied(c, slot)));
+          const candidate = slots.find(slot => softConstraints.every(c => this.isConstraintSatisfied(c, slot))) || slots[0];
+          
+          if (candidate && (!chunk || candidate.start < chunk.start)) {
+            chunk = candidate;
+          }
+        }
+        
+        if (!chunk) return null;
+        
+        chunks.push(chunk);
+        remaining -= chunk.duration;
+        searchStart = chunk.end;
+        
+        // Block the session so the next one can't overlap it
+        const chunkEvent: CalendarEvent = {
+          id: `task-${task.id}-chunk-${chunks.length - 1}`,
+          title: task.title,
+          start: chunk.start,
+          end: chunk.end,
+          type: 'task',
+          taskId: task.id,
+          isFlexible: true,
+        };
+        chunkEvents.push(chunkEvent);
+        this.existingEvents.push(chunkEvent);
+      }
+    } finally {
+      this.existingEvents = this.existingEvents.filter(event => !chunkEvents.includes(event));
+    }
+    
+    return {
+      success: true,
+      start: chunks[0].start,
+      end: chunks[chunks.length - 1].end,
+      chunks,
+      // Split work is less ideal than a single session
+      confidence: Math.max(0, this.calculateSchedulingConfidence(chunks[0], task) - 0.1),
+      score: chunks.reduce((sum, chunk) => sum + this.scoreTimeSlot(chunk, task, softConstraints), 0) / chunks.length,
+      violatedConstraints: softConstraints.filter(constraint =>
+        chunks.some(chunk => !this.isConstraintSatisfied(constraint, chunk))
+      ),
     };
   }
 
@@ -175,37 +822,40 @@ export class AutoScheduler {
    */
   private findAvailableSlots(start: Date, end: Date, durationMinutes: number): TimeSlot[] {
     const slots: TimeSlot[] = [];
-    const current = new Date(start);
+    let current = new Date(start);
+    
+    // Expand recurring blocks once for the whole search window
+    const blockEvents = timeBlocksToEvents(this.timeBlocks, start, end, this.timeZone);
     
     while (current < end) {
-      const dayEnd = endOfDay(current);
-      const searchEnd = dayEnd < end ? dayEnd : end;
+      // Days are calendar days in the user's zone (23 or 25 hours long on DST changes)
+      const nextDay = startOfNextZonedDay(current, this.timeZone);
+      const searchEnd = nextDay < end ? nextDay : end;
       
-      // Get working hours for this day
-      const workingHours = this.getWorkingHoursForDate(current);
+      // Get work windows for this day (several per day are allowed)
+      const workWindows = this.getWorkWindowsForDate(current);
       
-      if (workingHours) {
-        const workStart = new Date(current);
-        workStart.setHours(parseInt(workingHours.start.split(':')[0]), 
-                          parseInt(workingHours.start.split(':')[1]), 0, 0);
+      for (const workWindow of workWindows) {
+        const workStart = setZonedTime(current, workWindow.start, this.timeZone);
+        const workEnd = setZonedTime(current, workWindow.end, this.timeZone);
+        const rangeStart = workStart > current ? workStart : current;
+        const rangeEnd = workEnd < searchEnd ? workEnd : searchEnd;
         
-        const workEnd = new Date(current);
-        workEnd.setHours(parseInt(workingHours.end.split(':')[0]), 
-                        parseInt(workingHours.end.split(':')[1]), 0, 0);
+        if (rangeStart >= rangeEnd) continue;
         
-        // Find slots within working hours
-        const daySlots = this.findSlotsInRange(
-          workStart > current ? workStart : current,
-          workEnd < searchEnd ? workEnd : searchEnd,
-          durationMinutes
+        // Find slots within this window
+        const windowSlots = this.findSlotsInRange(
+          rangeStart,
+          rangeEnd,
+          durationMinutes,
+          blockEvents
         );
         
-        slots.push(...daySlots);
+        slots.push(...windowSlots);
       }
       
       // Move to next day
-      current.setDate(current.getDate() + 1);
-      current.setHours(0, 0, 0, 0);
+      current = nextDay;
     }
     
     return slots;
@@ -214,7 +864,12 @@ export class AutoScheduler {
   /**
    * Find available slots within a specific time range
    */
-  private findSlotsInRange(start: Date, end: Date, durationMinutes: number): TimeSlot[] {
+  private findSlotsInRange(
+    start: Date,
+    end: Date,
+    durationMinutes: number,
+    blockEvents: CalendarEvent[] = []
+  ): TimeSlot[] {
     const slots: TimeSlot[] = [];
     const current = new Date(start);
     const slotDuration = durationMinutes + this.settings.bufferTime;
@@ -225,7 +880,7 @@ export class AutoScheduler {
       if (slotEnd > end) break;
       
       // Check if this slot conflicts with existing events
-      const conflicts = this.findConflicts(current, slotEnd);
+      const conflicts = this.findConflicts(current, slotEnd, blockEvents);
       
       if (conflicts.length === 0) {
         slots.push({
@@ -246,10 +901,14 @@ export class AutoScheduler {
   /**
    * Select the best time slot based on multiple criteria
    */
-  private selectBestTimeSlot(slots: TimeSlot[], task: Task): TimeSlot {
+  private selectBestTimeSlot(
+    slots: TimeSlot[],
+    task: Task,
+    softConstraints: SchedulingConstraint[] = []
+  ): TimeSlot {
     return slots.reduce((best, current) => {
-      const currentScore = this.scoreTimeSlot(current, task);
-      const bestScore = this.scoreTimeSlot(best, task);
+      const currentScore = this.scoreTimeSlot(current, task, softConstraints);
+      const bestScore = this.scoreTimeSlot(best, task, softConstraints);
       
       return currentScore > bestScore ? current : best;
     });
@@ -258,12 +917,16 @@ export class AutoScheduler {
   /**
    * Score a time slot based on task preferences
    */
-  private scoreTimeSlot(slot: TimeSlot, task: Task): number {
+  private scoreTimeSlot(
+    slot: TimeSlot,
+    task: Task,
+    softConstraints: SchedulingConstraint[] = []
+  ): number {
     let score = 0;
     
     // Prefer earlier in the day for high priority tasks
     if (task.priority === 'high') {
-      const hour = slot.start.getHours();
+      const hour = this.getHourInZone(slot.start);
       score += hour < 12 ? 10 : hour < 15 ? 5 : 0;
     }
     
@@ -279,9 +942,68 @@ export class AutoScheduler {
     const bufferAfter = this.getBufferAfter(slot);
     score += Math.min(bufferAfter / 30, 5); // Max 5 points
     
+    // Penalize violated soft constraints by their priority
+    for (const constraint of softConstraints) {
+      if (!this.isConstraintSatisfied(constraint, slot)) {
+        score -= constraint.priority * SOFT_CONSTRAINT_WEIGHT;
+      }
+    }
+    
     return score;
   }
 
+  /**
+   * Constraints that apply to a task: its own plus global ones
+   */
+  private getConstraintsForTask(task: Task): SchedulingConstraint[] {
+    return this.constraints.filter(c => !c.taskId || c.taskId === task.id);
+  }
+
+  /**
+   * Check whether a slot satisfies a constraint.
+   * Constraints missing the time/timeRange their type needs are ignored.
+   */
+  private isConstraintSatisfied(constraint: SchedulingConstraint, slot: TimeSlot): boolean {
+    switch (constraint.type) {
+      case 'before':
+        return !constraint.time || slot.end <= constraint.time;
+      case 'after':
+        return !constraint.time || slot.start >= constraint.time;
+      case 'during':
+        return !constraint.timeRange ||
+          (slot.start >= constraint.timeRange.start && slot.end <= constraint.timeRange.end);
+      case 'not_during':
+        return !constraint.timeRange ||
+          slot.end <= constraint.timeRange.start || slot.start >= constraint.timeRange.end;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Human-readable description of a constraint for conflict reasons
+   */
+  private describeConstraint(constraint: SchedulingConstraint): string {
+    const formatTime = (date: Date) => this.formatInZone(date, 'MMM d, h:mm a');
+    const range = constraint.timeRange
+      ? `${formatTime(constraint.timeRange.start)} – ${formatTime(constraint.timeRange.end)}`
+      : 'unspecified range';
+    const time = constraint.time ? formatTime(constraint.time) : 'unspecified time';
+    
+    switch (constraint.type) {
+      case 'before':
+        return `must finish before ${time}`;
+      case 'after':
+        return `must start after ${time}`;
+      case 'during':
+        return `must take place during ${range}`;
+      case 'not_during':
+        return `must not overlap ${range}`;
+      default:
+        return constraint.type;
+    }
+  }
+
   /**
    * Calculate confidence score for a scheduling decision
    */
@@ -289,7 +1011,7 @@ export class AutoScheduler {
     let confidence = 0.7; // Base confidence
     
     // Higher confidence for high priority tasks scheduled early
-    if (task.priority === 'high' && slot.start.getHours() < 12) {
+    if (task.priority === 'high' && this.getHourInZone(slot.start) < 12) {
       confidence += 0.2;
     }
     
@@ -300,32 +1022,70 @@ export class AutoScheduler {
     }
     
     // Lower confidence if slot is very early or late
-    const hour = slot.start.getHours();
+    const hour = this.getHourInZone(slot.start);
     if (hour < 8 || hour > 18) confidence -= 0.1;
     
     return Math.max(0, Math.min(1, confidence));
   }
 
   /**
-   * Check if task dependencies are satisfied
+   * Topologically order tasks so dependencies come before dependents.
+   * Among tasks that are ready, the incoming (priority) order is kept.
+   * Dependencies outside the batch (completed or rigid tasks) don't block ordering.
    */
-  private checkDependencies(task: Task): { satisfied: boolean; missing: string[] } {
+  private orderByDependencies(tasks: Task[]): { ordered: Task[]; cyclic: Task[] } {
+    const batchIds = new Set(tasks.map(task => task.id));
+    const placed = new Set<string>();
+    const ordered: Task[] = [];
+    let remaining = [...tasks];
+    
+    const isReady = (task: Task) => (task.dependencies || [])
+      .every(depId => !batchIds.has(depId) || placed.has(depId));
+    
+    while (remaining.length > 0) {
+      const next = remaining.find(isReady);
+      if (!next) break;
+      
+      ordered.push(next);
+      placed.add(next.id);
+      remaining = remaining.filter(task => task !== next);
+    }
+    
+    // Whatever is left sits on or behind a cycle
+    return { ordered, cyclic: remaining };
+  }
+
+  /**
+   * Check if task dependencies are satisfied and find the earliest start time.
+   * Completed dependencies impose nothing; others must already have an event.
+   */
+  private checkDependencies(task: Task): { satisfied: boolean; missing: string[]; earliestStart?: Date } {
     if (!task.dependencies || task.dependencies.length === 0) {
       return { satisfied: true, missing: [] };
     }
     
     const missing: string[] = [];
+    let latestEnd: Date | undefined;
     
     for (const depId of task.dependencies) {
-      const depEvent = this.existingEvents.find(e => e.taskId === depId);
-      if (!depEvent) {
-        missing.push(depId);
+      const dependency = this.tasksById.get(depId);
+      if (dependency?.status === 'completed') continue;
+      
+      const depEvents = this.existingEvents.filter(e => e.taskId === depId);
+      if (depEvents.length === 0) {
+        missing.push(dependency?.title || depId);
+        continue;
+      }
+      
+      for (const event of depEvents) {
+        if (!latestEnd || event.end > latestEnd) latestEnd = event.end;
       }
     }
     
     return {
       satisfied: missing.length === 0,
       missing,
+      earliestStart: latestEnd ? addMinutes(latestEnd, this.settings.bufferTime) : undefined,
     };
   }
 
@@ -343,10 +1103,10 @@ export class AutoScheduler {
   }
 
   /**
-   * Find conflicts with existing events
+   * Find conflicts with existing events and expanded time blocks
    */
-  private findConflicts(start: Date, end: Date): CalendarEvent[] {
-    return this.existingEvents.filter(event => {
+  private findConflicts(start: Date, end: Date, blockEvents: CalendarEvent[] = []): CalendarEvent[] {
+    return [...this.existingEvents, ...blockEvents].filter(event => {
       return isWithinInterval(start, { start: event.start, end: event.end }) ||
              isWithinInterval(end, { start: event.start, end: event.end }) ||
              isWithinInterval(event.start, { start, end }) ||
@@ -355,27 +1115,48 @@ export class AutoScheduler {
   }
 
   /**
-   * Get working hours for a specific date
+   * Get work windows for a specific date.
+   * Precedence: date override > weekly schedule > simple working hours
    */
-  private getWorkingHoursForDate(date: Date): WorkingHours | null {
-    const dayOfWeek = date.getDay();
+  getWorkWindowsForDate(date: Date): WorkWindow[] {
+    const dateKey = getZonedDateKey(date, this.timeZone);
+    const override = this.settings.workingHoursOverrides?.find(o => o.date === dateKey);
+    if (override) {
+      return override.windows;
+    }
+    
+    const dayOfWeek = getZonedParts(date, this.timeZone).dayOfWeek;
+    
+    if (this.settings.weeklySchedule) {
+      return this.settings.weeklySchedule[dayOfWeek] || [];
+    }
     
     if (this.settings.workingHours.daysOfWeek.includes(dayOfWeek)) {
-      return this.settings.workingHours;
+      return [{ start: this.settings.workingHours.start, end: this.settings.workingHours.end }];
     }
     
-    return null;
+    return [];
+  }
+
+  /**
+   * Hour of the day in the user's zone
+   */
+  private getHourInZone(date: Date): number {
+    return getZonedParts(date, this.timeZone).hours;
+  }
+
+  /**
+   * Format a date as wall-clock time in the user's zone
+   */
+  private formatInZone(date: Date, pattern: string): string {
+    return format(toZonedTime(date, this.timeZone), pattern);
   }
 
   /**
    * Generate suggestions for scheduling optimization
    */
-  private generateSuggestions(result: SchedulingResult, tasks: Task[]): Array<{
-    message: string;
-    actionType: 'extend_hours' | 'reduce_tasks' | 'adjust_deadlines';
-    data?: Record<string, unknown>;
-  }> {
-    const suggestions = [];
+  private generateSuggestions(result: SchedulingResult, tasks: Task[]): SchedulingResult['suggestions'] {
+    const suggestions: SchedulingResult['suggestions'] = [];
     
     if (result.unscheduledTasks.length > 0) {
       suggestions.push({
@@ -385,6 +1166,20 @@ export class AutoScheduler {
       });
     }
     
+    // Tasks too long for any free slot could fit as several sessions
+    result.conflicts
+      .filter(conflict => conflict.reason === NO_SLOT_REASON)
+      .map(conflict => tasks.find(t => t.id === conflict.taskId))
+      .filter((task): task is Task => !!task && !task.splitting && 
+        task.estimatedDuration > DEFAULT_TASK_SPLITTING.minChunkMinutes)
+      .forEach(task => {
+        suggestions.push({
+          message: `"${task.title}" doesn't fit in a single free slot. Consider splitting it into ${DEFAULT_TASK_SPLITTING.minChunkMinutes}–${DEFAULT_TASK_SPLITTING.maxChunkMinutes} minute sessions.`,
+          actionType: 'split_task' as const,
+          data: { taskId: task.id, ...DEFAULT_TASK_SPLITTING },
+        });
+      });
+    
     const overdueTasks = tasks.filter(t => t.deadline && t.deadline < new Date());
     if (overdueTasks.length > 0) {
       suggestions.push({
@@ -401,12 +1196,18 @@ export class AutoScheduler {
    * Suggest alternative time for unscheduled tasks
    */
   private suggestAlternativeTime(): Date {
-    // Try next available slot after current time
-    const now = new Date();
-    const tomorrow = addDays(now, 1);
-    tomorrow.setHours(9, 0, 0, 0); // 9 AM tomorrow
+    // Start of the first work window from tomorrow onwards
+    const tomorrow = addZonedDays(new Date(), 1, this.timeZone);
+    
+    for (let offset = 0; offset < 14; offset++) {
+      const day = addZonedDays(tomorrow, offset, this.timeZone);
+      const [firstWindow] = this.getWorkWindowsForDate(day);
+      if (firstWindow) {
+        return setZonedTime(day, firstWindow.start, this.timeZone);
+      }
+    }
     
-    return tomorrow;
+    return setZonedTime(tomorrow, '09:00', this.timeZone); // 9 AM tomorrow
   }
 
   /**
@@ -0,0 +1,89 @@
+/**
+ * Time Zone Helper Tests
+ *
+ * DST transitions in New York and Berlin: wall-clock times skipped by
+ * spring-forward, times repeated by fall-back, and day lengths around them.
+ * The process runs in another zone so the browser's zone can't leak in.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addZonedDays,
+  getZonedParts,
+  setZonedTime,
+  startOfNextZonedDay,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from './timezone';
+
+process.env.TZ = 'Asia/Tokyo';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const wall = (date: string, time: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return { year, month, day, hours, minutes };
+};
+
+describe('zonedTimeToUtc', () => {
+  it('converts ordinary times with the standard and daylight offsets', () => {
+    assert.equal(zonedTimeToUtc(wall('2025-01-15', '09:00'), 'America/New_York').toISOString(), '2025-01-15T14:00:00.000Z');
+    assert.equal(zonedTimeToUtc(wall('2025-07-15', '09:00'), 'America/New_York').toISOString(), '2025-07-15T13:00:00.000Z');
+    assert.equal(zonedTimeToUtc(wall('2025-07-15', '09:00'), 'Europe/Berlin').toISOString(), '2025-07-15T07:00:00.000Z');
+  });
+
+  it('moves times in the spring-forward gap forward by the gap', () => {
+    // New York skips 02:00-03:00 on 9 March 2025; 02:30 doesn't exist
+    assert.equal(zonedTimeToUtc(wall('2025-03-09', '02:30'), 'America/New_York').toISOString(), '2025-03-09T07:30:00.000Z');
+    assert.equal(getZonedParts(zonedTimeToUtc(wall('2025-03-09', '02:30'), 'America/New_York'), 'America/New_York').hours, 3);
+    // Berlin skips 02:00-03:00 on 30 March 2025
+    assert.equal(zonedTimeToUtc(wall('2025-03-30', '02:30'), 'Europe/Berlin').toISOString(), '2025-03-30T01:30:00.000Z');
+  });
+
+  it('keeps the times either side of the gap', () => {
+    assert.equal(zonedTimeToUtc(wall('2025-03-09', '01:59'), 'America/New_York').toISOString(), '2025-03-09T06:59:00.000Z');
+    assert.equal(zonedTimeToUtc(wall('2025-03-09', '03:00'), 'America/New_York').toISOString(), '2025-03-09T07:00:00.000Z');
+  });
+
+  it('resolves times repeated by fall-back to the earlier occurrence', () => {
+    // New York shows 01:00-02:00 twice on 2 November 2025, first in EDT (-4)
+    assert.equal(zonedTimeToUtc(wall('2025-11-02', '01:30'), 'America/New_York').toISOString(), '2025-11-02T05:30:00.000Z');
+    // Berlin shows 02:00-03:00 twice on 26 October 2025, first in CEST (+2)
+    assert.equal(zonedTimeToUtc(wall('2025-10-26', '02:30'), 'Europe/Berlin').toISOString(), '2025-10-26T00:30:00.000Z');
+  });
+
+  it('keeps the times either side of the overlap', () => {
+    assert.equal(zonedTimeToUtc(wall('2025-11-02', '00:30'), 'America/New_York').toISOString(), '2025-11-02T04:30:00.000Z');
+    assert.equal(zonedTimeToUtc(wall('2025-11-02', '02:00'), 'America/New_York').toISOString(), '2025-11-02T07:00:00.000Z');
+  });
+});
+
+describe('zoned days', () => {
+  it('makes the spring-forward day 23 hours and the fall-back day 25', () => {
+    const springDay = startOfZonedDay(new Date('2025-03-09T12:00:00Z'), 'America/New_York');
+    const fallDay = startOfZonedDay(new Date('2025-11-02T12:00:00Z'), 'America/New_York');
+
+    assert.equal(springDay.toISOString(), '2025-03-09T05:00:00.000Z');
+    assert.equal(startOfNextZonedDay(springDay, 'America/New_York').getTime() - springDay.getTime(), 23 * HOUR_MS);
+    assert.equal(fallDay.toISOString(), '2025-11-02T04:00:00.000Z');
+    assert.equal(startOfNextZonedDay(fallDay, 'America/New_York').getTime() - fallDay.getTime(), 25 * HOUR_MS);
+  });
+
+  it('keeps the wall-clock time when adding days across a transition', () => {
+    const beforeSpring = new Date('2025-03-08T14:00:00Z'); // 09:00 EST
+    const beforeFall = new Date('2025-10-25T07:00:00Z'); // 09:00 CEST
+
+    assert.equal(addZonedDays(beforeSpring, 1, 'America/New_York').toISOString(), '2025-03-09T13:00:00.000Z');
+    assert.equal(addZonedDays(beforeFall, 1, 'Europe/Berlin').toISOString(), '2025-10-26T08:00:00.000Z');
+  });
+
+  it('sets times on the transition day by its own offsets', () => {
+    const springDay = new Date('2025-03-09T12:00:00Z');
+
+    assert.equal(setZonedTime(springDay, '01:00', 'America/New_York').toISOString(), '2025-03-09T06:00:00.000Z');
+    assert.equal(setZonedTime(springDay, '02:30', 'America/New_York').toISOString(), '2025-03-09T07:30:00.000Z');
+    assert.equal(setZonedTime(springDay, '04:00', 'America/New_York').toISOString(), '2025-03-09T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Time Zone Helpers
+ *
+ * Wall-clock arithmetic in an IANA time zone (CalendarSettings.timeZone)
+ * using Intl, independent of the browser's own zone:
+ * - Read the date/time parts of an instant in a zone
+ * - Turn a wall-clock time in a zone into an instant, handling DST:
+ *   times skipped by spring-forward move forward by the gap,
+ *   times repeated by fall-back resolve to the earlier occurrence
+ * - Shift instants to "display dates" whose local fields show the zone's
+ *   wall-clock time, so date-fns rendering code can stay unchanged
+ *
+ * Used by: scheduling.ts, recurrence.ts, CalendarView.tsx, googleCalendar.ts, WorkingHoursEditor.tsx
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  dayOfWeek: number; // 0-6, Sunday-Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Fall back to the browser's zone for missing or unknown zone names
+export const resolveTimeZone = (timeZone?: string): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone();
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hours: parseInt(get('hour')) % 24,
+    minutes: parseInt(get('minute')),
+    seconds: parseInt(get('second')),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+/**
+ * Offset of the zone from UTC at an instant, in minutes (e.g. -240 for New York in summer)
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const wallAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes, parts.seconds);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallAsUtc - instant) / 60000);
+};
+
+/**
+ * Instant at which the zone's clocks show the given wall-clock time
+ */
+export const zonedTimeToUtc = (
+  wall: { year: number; month: number; day: number; hours: number; minutes: number },
+  timeZone: string
+): Date => {
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes);
+
+  // The offsets a day either side cover any DST transition on this date
+  const candidates = [wallAsUtc - DAY_MS, wallAsUtc + DAY_MS]
+    .map(probe => wallAsUtc - getTimeZoneOffset(new Date(probe), timeZone) * 60000);
+
+  const matching = candidates.filter(candidate => {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+    return parts.day === wall.day && parts.hours === wall.hours && parts.minutes === wall.minutes;
+  });
+
+  // Repeated time: earlier occurrence. Skipped time: shifted forward by the gap.
+  return new Date(matching.length > 0 ? Math.min(...matching) : Math.max(...candidates));
+};
+
+/**
+ * Calendar date of an instant in the zone, as 'yyyy-MM-dd'
+ */
+export const getZonedDateKey = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Same wall-clock time `days` calendar days later in the zone
+ */
+export const addZonedDays = (date: Date, days: number, timeZone: string): Date => {
+  const parts = getZonedParts(date, timeZone);
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+
+  return zonedTimeToUtc({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hours: parts.hours,
+    minutes: parts.minutes,
+  }, timeZone);
+};
+
+/**
+ * An 'HH:MM' wall-clock time on the zone's calendar day of `date`
+ */
+export const setZonedTime = (date: Date, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part));
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day, hours, minutes }, timeZone);
+};
+
+/**
+ * Midnight at the start of a 'yyyy-MM-dd' date in the zone (e.g. all-day events)
+ */
+export const startOfZonedDateKey = (dateKey: string, timeZone: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(part => parseInt(part));
+  return zonedTimeToUtc({ year, month, day, hours: 0, minutes: 0 }, timeZone);
+};
+
+export const startOfZonedDay = (date: Date, timeZone: string): Date => setZonedTime(date, '00:00', timeZone);
+
+export const startOfNextZonedDay = (date: Date, timeZone: string): Date =>
+  startOfZonedDay(addZonedDays(startOfZonedDay(date, timeZone), 1, timeZone), timeZone);
+
+// Last millisecond of the zone's calendar day of `date`
+export const endOfZonedDay = (date: Date, timeZone: string): Date =>
+  new Date(startOfNextZonedDay(date, timeZone).getTime() - 1);
+
+/**
+ * Display date whose local fields show the zone's wall-clock time.
+ * Only for rendering; convert back with fromZonedTime before storing.
+ */
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(
+    parts.year, parts.month - 1, parts.day,
+    parts.hours, parts.minutes, parts.seconds, date.getMilliseconds()
+  );
+};
+
+/**
+ * Inverse of toZonedTime: read a display date's local fields as wall-clock time in the zone
+ */
+export const fromZonedTime = (displayDate: Date, timeZone: string): Date => zonedTimeToUtc({
+  year: displayDate.getFullYear(),
+  month: displayDate.getMonth() + 1,
+  day: displayDate.getDate(),
+  hours: displayDate.getHours(),
+  minutes: displayDate.getMinutes(),
+}, timeZone);
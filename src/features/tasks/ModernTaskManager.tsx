@@ -7,13 +7,27 @@
 
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useTaskStore } from './taskStore';
-import { Task, TaskFormData, DEFAULT_CATEGORIES, PRIORITY_COLORS } from './TaskTypes';
+import { 
+  Task, 
+  TaskFormData, 
+  TaskRecurrence, 
+  DEFAULT_CATEGORIES, 
+  DEFAULT_TASK_SPLITTING, 
+  PRIORITY_COLORS 
+} from './TaskTypes';
+import { startOfDay } from 'date-fns';
+import { ConstraintEditor } from '@/features/calendar/ConstraintEditor';
+import { useChatStore } from '@/features/ai/chatStore';
 import { 
   validateTaskForm, 
   formatTaskDuration, 
   formatTaskDate, 
+  formatRecurrence,
+  getTaskProgress,
+  findDependencyCycle,
+  formatDependencyCycle,
   isTaskOverdue,
   sortTasksByScore,
   groupTasksByStatus 
@@ -61,11 +75,23 @@ import {
   MoreHorizontal,
   Edit,
   Copy,
-  Target
+  Target,
+  Repeat,
+  Scissors,
+  MessageSquare
 } from 'lucide-react';
 
-export const ModernTaskManager = () => {
-  const { tasks, createTask, updateTask, deleteTask, duplicateTask, filter, setFilter } = useTaskStore();
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ModernTaskManagerProps {
+  openTaskId?: string; // task to open for editing, e.g. from a chat message
+  onTaskOpened?: () => void;
+  onOpenConversation?: (conversationId: string) => void;
+}
+
+export const ModernTaskManager = ({ openTaskId, onTaskOpened, onOpenConversation }: ModernTaskManagerProps = {}) => {
+  const { tasks, createTask, updateTask, deleteTask, duplicateTask, markCompleted, filter, setFilter } = useTaskStore();
+  const { getConversationForTask } = useChatStore();
   
   // Local state
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -141,9 +167,13 @@ export const ModernTaskManager = () => {
   };
 
   const handleToggleTask = async (task: Task) => {
-    const newStatus = task.status === 'completed' ? 'todo' : 'completed';
     try {
-      await updateTask(task.id, { status: newStatus });
+      if (task.status === 'completed') {
+        await updateTask(task.id, { status: 'todo' });
+      } else {
+        // Recurring tasks advance to their next occurrence
+        await markCompleted(task.id);
+      }
     } catch (error) {
       console.error('Failed to toggle task:', error);
     }
@@ -157,7 +187,10 @@ export const ModernTaskManager = () => {
       estimatedDuration: 30,
       category: DEFAULT_CATEGORIES[0].id,
       deadline: undefined,
-      isFlexible: true
+      isFlexible: true,
+      recurrence: undefined,
+      splitting: undefined,
+      dependencies: []
     });
     setFormErrors({});
   };
@@ -171,13 +204,89 @@ export const ModernTaskManager = () => {
       estimatedDuration: task.estimatedDuration,
       category: task.category,
       deadline: task.deadline,
-      isFlexible: task.isFlexible
+      isFlexible: task.isFlexible,
+      recurrence: task.recurrence,
+      splitting: task.splitting,
+      dependencies: task.dependencies || []
+    });
+  };
+
+  // Open a task linked from elsewhere once it's loaded
+  useEffect(() => {
+    const task = openTaskId && tasks.find(t => t.id === openTaskId);
+    if (!task) return;
+    openEditModal(task);
+    onTaskOpened?.();
+  }, [openTaskId, tasks]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleRepeatChange = (value: 'none' | TaskRecurrence['frequency']) => {
+    setFormData(prev => {
+      if (value === 'none') return { ...prev, recurrence: undefined };
+      
+      const startDate = prev.recurrence?.startDate || prev.deadline || startOfDay(new Date());
+      return {
+        ...prev,
+        recurrence: {
+          ...prev.recurrence,
+          frequency: value,
+          interval: prev.recurrence?.interval || 1,
+          daysOfWeek: value === 'weekly' 
+            ? (prev.recurrence?.daysOfWeek?.length ? prev.recurrence.daysOfWeek : [startDate.getDay()])
+            : undefined,
+          startDate,
+        },
+      };
     });
   };
 
+  const toggleRepeatDay = (day: number) => {
+    setFormData(prev => {
+      if (!prev.recurrence) return prev;
+      const days = prev.recurrence.daysOfWeek || [];
+      return {
+        ...prev,
+        recurrence: {
+          ...prev.recurrence,
+          daysOfWeek: days.includes(day) 
+            ? days.filter(d => d !== day) 
+            : [...days, day].sort(),
+        },
+      };
+    });
+  };
+
+  const toggleDependency = (taskId: string) => {
+    setFormData(prev => {
+      const dependencies = prev.dependencies || [];
+      return {
+        ...prev,
+        dependencies: dependencies.includes(taskId)
+          ? dependencies.filter(id => id !== taskId)
+          : [...dependencies, taskId],
+      };
+    });
+  };
+
+  // Tasks the form's task could depend on (never itself)
+  const dependencyOptions = tasks.filter(task => 
+    task.id !== editingTask?.id && 
+    (task.status !== 'completed' || formData.dependencies?.includes(task.id))
+  );
+
+  // A new task can't close a cycle since nothing depends on it yet
+  const dependencyCycle = useMemo(() => {
+    if (!editingTask) return null;
+    const draftTasks = tasks.map(task => 
+      task.id === editingTask.id ? { ...task, dependencies: formData.dependencies } : task
+    );
+    return findDependencyCycle(draftTasks, editingTask.id);
+  }, [tasks, editingTask, formData.dependencies]);
+
   const TaskCard = ({ task }: { task: Task }) => {
     const isOverdue = isTaskOverdue(task);
     const priorityColor = PRIORITY_COLORS[task.priority];
+    // The assistant conversation that created the task, if any
+    const sourceConversation = getConversationForTask(task.id);
 
     return (
       <Card className="hover:shadow-md transition-all duration-200 border-l-4" 
@@ -238,6 +347,37 @@ export const ModernTaskManager = () => {
                       Overdue
                     </Badge>
                   )}
+                  
+                  {task.recurrence && (
+                    <Badge variant="outline" className="text-xs">
+                      <Repeat className="w-3 h-3 mr-1" />
+                      {formatRecurrence(task.recurrence)}
+                      {task.completionHistory && task.completionHistory.length > 0 && 
+                        ` · ${task.completionHistory.length} done`}
+                    </Badge>
+                  )}
+                  
+                  {task.chunks && task.chunks.length > 0 && (
+                    <Badge variant="outline" className="text-xs">
+                      <Scissors className="w-3 h-3 mr-1" />
+                      {task.chunks.filter(chunk => chunk.completedAt).length}/{task.chunks.length} sessions
+                      {` · ${Math.round(getTaskProgress(task) * 100)}%`}
+                    </Badge>
+                  )}
+                  
+                  {sourceConversation && (
+                    <button
+                      type="button"
+                      onClick={() => onOpenConversation?.(sourceConversation.id)}
+                      title="Created by the assistant in this conversation. Open it"
+                      className="max-w-[16rem]"
+                    >
+                      <Badge variant="outline" className="text-xs w-full hover:bg-gray-100 cursor-pointer">
+                        <MessageSquare className="w-3 h-3 mr-1 flex-shrink-0" />
+                        <span className="truncate">{sourceConversation.title}</span>
+                      </Badge>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -332,6 +472,61 @@ export const ModernTaskManager = () => {
         </div>
       </div>
 
+      <div>
+        <Button
+          type="button"
+          size="sm"
+          variant={formData.splitting ? 'default' : 'outline'}
+          onClick={() => setFormData(prev => ({
+            ...prev,
+            splitting: prev.splitting ? undefined : DEFAULT_TASK_SPLITTING
+          }))}
+          className="gap-1"
+        >
+          <Scissors className="w-4 h-4" />
+          <span>Split into sessions</span>
+        </Button>
+        {formData.splitting && (
+          <div className="grid grid-cols-2 gap-4 mt-2">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Shortest session (min)</label>
+              <Input
+                type="number"
+                min="15"
+                step="15"
+                value={formData.splitting.minChunkMinutes}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  splitting: prev.splitting && {
+                    ...prev.splitting,
+                    minChunkMinutes: parseInt(e.target.value) || DEFAULT_TASK_SPLITTING.minChunkMinutes
+                  }
+                }))}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Longest session (min)</label>
+              <Input
+                type="number"
+                min="15"
+                step="15"
+                value={formData.splitting.maxChunkMinutes}
+                onChange={(e) => setFormData(prev => ({
+                  ...prev,
+                  splitting: prev.splitting && {
+                    ...prev.splitting,
+                    maxChunkMinutes: parseInt(e.target.value) || DEFAULT_TASK_SPLITTING.maxChunkMinutes
+                  }
+                }))}
+              />
+            </div>
+          </div>
+        )}
+        {formErrors.splitting && (
+          <p className="text-red-500 text-sm mt-1">{formErrors.splitting}</p>
+        )}
+      </div>
+
       <div>
         <label className="text-sm font-medium text-gray-700 mb-2 block">Category</label>
         <Select 
@@ -356,12 +551,101 @@ export const ModernTaskManager = () => {
           value={formData.deadline ? 
             new Date(formData.deadline.getTime() - formData.deadline.getTimezoneOffset() * 60000)
               .toISOString().slice(0, 16) : ''}
-          onChange={(e) => setFormData(prev => ({ 
-            ...prev, 
-            deadline: e.target.value ? new Date(e.target.value) : undefined 
-          }))}
+          onChange={(e) => setFormData(prev => {
+            const deadline = e.target.value ? new Date(e.target.value) : undefined;
+            return { 
+              ...prev, 
+              deadline,
+              // Keep the series anchored on the deadline so occurrences share its time of day
+              recurrence: prev.recurrence && deadline 
+                ? { ...prev.recurrence, startDate: deadline } 
+                : prev.recurrence
+            };
+          })}
         />
       </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">Repeat</label>
+          <Select 
+            value={formData.recurrence?.frequency || 'none'}
+            onValueChange={handleRepeatChange}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {formData.recurrence && (
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Every</label>
+            <Input
+              type="number"
+              min="1"
+              value={formData.recurrence.interval}
+              onChange={(e) => setFormData(prev => ({
+                ...prev,
+                recurrence: prev.recurrence && { 
+                  ...prev.recurrence, 
+                  interval: parseInt(e.target.value) || 1 
+                }
+              }))}
+            />
+          </div>
+        )}
+      </div>
+
+      {formData.recurrence?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={formData.recurrence?.daysOfWeek?.includes(day) ? 'default' : 'outline'}
+              onClick={() => toggleRepeatDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+      {formErrors.recurrence && (
+        <p className="text-red-500 text-sm mt-1">{formErrors.recurrence}</p>
+      )}
+
+      {dependencyOptions.length > 0 && (
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">Depends on (optional)</label>
+          <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+            {dependencyOptions.map(task => (
+              <Button
+                key={task.id}
+                type="button"
+                size="sm"
+                variant={formData.dependencies?.includes(task.id) ? 'default' : 'outline'}
+                onClick={() => toggleDependency(task.id)}
+              >
+                {task.title}
+              </Button>
+            ))}
+          </div>
+          {dependencyCycle && (
+            <p className="text-amber-600 text-sm mt-1 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              Dependency cycle: {formatDependencyCycle(dependencyCycle, tasks)}. These tasks can&apos;t be auto-scheduled.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 
@@ -487,6 +771,12 @@ export const ModernTaskManager = () => {
             <DialogTitle>Edit Task</DialogTitle>
           </DialogHeader>
           <TaskForm />
+          {editingTask && (
+            <div className="border-t pt-4">
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Scheduling rules</label>
+              <ConstraintEditor taskId={editingTask.id} />
+            </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setEditingTask(null)}>
               Cancel
@@ -5,12 +5,15 @@
  * Used by: TaskManager.tsx, taskStore.ts, CalendarView.tsx
  */
 
+import { RecurringPattern } from '../calendar/CalendarTypes';
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   priority: 'low' | 'medium' | 'high';
   estimatedDuration: number; // in minutes
+  preparationTime?: number; // minutes set aside right before the task
   deadline?: Date;
   category: string;
   status: 'todo' | 'in-progress' | 'completed';
@@ -20,10 +23,18 @@ export interface Task {
   scheduledEnd?: Date;
   dependencies?: string[]; // task IDs
   isFlexible: boolean; // can be moved by auto-scheduler
+  // Recurrence fields
+  recurrence?: TaskRecurrence; // repeat rule; the task advances to the next occurrence on completion
+  occurrenceDate?: Date; // due date of the current (open) occurrence
+  completionHistory?: TaskOccurrenceCompletion[]; // one entry per completed occurrence
+  // Splitting fields
+  splitting?: TaskSplitting; // lets the auto-scheduler place the task as several sessions
+  chunks?: TaskChunk[]; // scheduled sessions of a split task, in time order
   // Authentication and sync fields
   userId?: string; // ID of the user who owns this task
   googleEventId?: string; // Google Calendar event ID if synced
   syncToCalendar?: boolean; // Whether to sync this task to Google Calendar
+  iCalUid?: string; // UID of the iCalendar item the task was imported from
 }
 
 export interface TaskFormData {
@@ -31,13 +42,42 @@ export interface TaskFormData {
   description: string;
   priority: 'low' | 'medium' | 'high';
   estimatedDuration: number;
+  preparationTime?: number;
   deadline?: Date;
   category: string;
   isFlexible: boolean;
   dependencies?: string[];
+  recurrence?: TaskRecurrence;
+  splitting?: TaskSplitting;
   syncToCalendar?: boolean; // Whether to sync this task to Google Calendar
 }
 
+export interface TaskRecurrence extends RecurringPattern {
+  startDate: Date; // first occurrence, anchors interval counting and time of day
+}
+
+export interface TaskOccurrenceCompletion {
+  occurrenceDate: Date;
+  completedAt: Date;
+}
+
+export interface TaskSplitting {
+  minChunkMinutes: number; // no session shorter than this
+  maxChunkMinutes: number; // no session longer than this
+}
+
+export interface TaskChunk {
+  id: string;
+  start: Date;
+  end: Date;
+  completedAt?: Date;
+}
+
+export const DEFAULT_TASK_SPLITTING: TaskSplitting = {
+  minChunkMinutes: 30,
+  maxChunkMinutes: 120,
+};
+
 export interface TaskFilter {
   status?: 'todo' | 'in-progress' | 'completed';
   priority?: 'low' | 'medium' | 'high';
@@ -0,0 +1,106 @@
+/**
+ * Task Database Format
+ *
+ * Converts tasks to and from their Supabase rows (snake_case columns, ISO dates)
+ *
+ * Used by: taskStore.ts, calendarFeeds.ts
+ * Related: supabase.ts (DatabaseTask)
+ */
+
+import { Task, TaskRecurrence } from './TaskTypes';
+import { DatabaseTask, DatabaseTaskRecurrence } from '@/lib/supabase';
+
+// Helpers to convert recurrence rules between app and database formats
+const convertDatabaseRecurrence = (dbRecurrence: DatabaseTaskRecurrence): TaskRecurrence => ({
+  frequency: dbRecurrence.frequency,
+  interval: dbRecurrence.interval,
+  daysOfWeek: dbRecurrence.days_of_week,
+  endDate: dbRecurrence.end_date ? new Date(dbRecurrence.end_date) : undefined,
+  exceptions: dbRecurrence.exceptions?.map(d => new Date(d)),
+  startDate: new Date(dbRecurrence.start_date),
+});
+
+const convertRecurrenceToDatabase = (recurrence: TaskRecurrence): DatabaseTaskRecurrence => ({
+  frequency: recurrence.frequency,
+  interval: recurrence.interval,
+  days_of_week: recurrence.daysOfWeek,
+  end_date: recurrence.endDate?.toISOString(),
+  exceptions: recurrence.exceptions?.map(d => d.toISOString()),
+  start_date: recurrence.startDate.toISOString(),
+});
+
+// Helper to convert database task to app task
+export const convertDatabaseTask = (dbTask: DatabaseTask): Task => ({
+  id: dbTask.id,
+  title: dbTask.title,
+  description: dbTask.description,
+  priority: dbTask.priority,
+  estimatedDuration: dbTask.estimated_duration,
+  preparationTime: dbTask.preparation_time || undefined,
+  deadline: dbTask.deadline ? new Date(dbTask.deadline) : undefined,
+  category: dbTask.category,
+  status: dbTask.status,
+  createdAt: new Date(dbTask.created_at),
+  updatedAt: new Date(dbTask.updated_at),
+  scheduledStart: dbTask.scheduled_start ? new Date(dbTask.scheduled_start) : undefined,
+  scheduledEnd: dbTask.scheduled_end ? new Date(dbTask.scheduled_end) : undefined,
+  dependencies: dbTask.dependencies || [],
+  isFlexible: dbTask.is_flexible,
+  recurrence: dbTask.recurrence ? convertDatabaseRecurrence(dbTask.recurrence) : undefined,
+  occurrenceDate: dbTask.occurrence_date ? new Date(dbTask.occurrence_date) : undefined,
+  completionHistory: dbTask.completion_history?.map(entry => ({
+    occurrenceDate: new Date(entry.occurrence_date),
+    completedAt: new Date(entry.completed_at),
+  })),
+  splitting: dbTask.splitting ? {
+    minChunkMinutes: dbTask.splitting.min_chunk_minutes,
+    maxChunkMinutes: dbTask.splitting.max_chunk_minutes,
+  } : undefined,
+  chunks: dbTask.chunks?.map(chunk => ({
+    id: chunk.id,
+    start: new Date(chunk.start),
+    end: new Date(chunk.end),
+    completedAt: chunk.completed_at ? new Date(chunk.completed_at) : undefined,
+  })),
+  userId: dbTask.user_id,
+  googleEventId: dbTask.google_event_id,
+  syncToCalendar: dbTask.sync_to_calendar,
+  iCalUid: dbTask.ical_uid,
+});
+
+// Helper to convert app task to database task
+export const convertToDatabase = (task: Task, userId: string): Omit<DatabaseTask, 'created_at' | 'updated_at'> => ({
+  id: task.id,
+  user_id: userId,
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  estimated_duration: task.estimatedDuration,
+  preparation_time: task.preparationTime || 0,
+  deadline: task.deadline?.toISOString(),
+  category: task.category,
+  status: task.status,
+  scheduled_start: task.scheduledStart?.toISOString(),
+  scheduled_end: task.scheduledEnd?.toISOString(),
+  dependencies: task.dependencies || [],
+  is_flexible: task.isFlexible,
+  recurrence: task.recurrence ? convertRecurrenceToDatabase(task.recurrence) : null,
+  occurrence_date: task.occurrenceDate?.toISOString(),
+  completion_history: task.completionHistory?.map(entry => ({
+    occurrence_date: entry.occurrenceDate.toISOString(),
+    completed_at: entry.completedAt.toISOString(),
+  })),
+  splitting: task.splitting ? {
+    min_chunk_minutes: task.splitting.minChunkMinutes,
+    max_chunk_minutes: task.splitting.maxChunkMinutes,
+  } : null,
+  chunks: task.chunks?.map(chunk => ({
+    id: chunk.id,
+    start: chunk.start.toISOString(),
+    end: chunk.end.toISOString(),
+    completed_at: chunk.completedAt?.toISOString(),
+  })),
+  google_event_id: task.googleEventId,
+  sync_to_calendar: task.syncToCalendar ?? true,
+  ical_uid: task.iCalUid,
+});
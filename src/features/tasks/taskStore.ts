@@ -2,16 +2,23 @@
  * Task State Management Store
  * 
  * Zustand store for managing all task-related state and operations
- * Handles: task CRUD, filtering, scheduling integration, user-specific data
+ * Handles: task CRUD, filtering, scheduling integration, user-specific data,
+ * recurring tasks (advance to next occurrence on completion),
+ * split tasks (per-session completion rolls up to the parent task)
  * 
  * Used by: TaskManager.tsx, CalendarView.tsx
- * Related: scheduling.ts for auto-scheduling, authStore.ts for user data
+ * Related: scheduling.ts for auto-scheduling, recurrence.ts for repeat rules,
+ * authStore.ts for user data, taskDatabase.ts for the Supabase row format
  */
 
 import { create } from 'zustand';
-import { Task, TaskFormData, TaskFilter, TaskStats } from './TaskTypes';
-import { supabase, isSupabaseConfigured, DatabaseTask } from '@/lib/supabase';
+import { Task, TaskFormData, TaskFilter, TaskStats, TaskRecurrence } from './TaskTypes';
+import { convertDatabaseTask, convertToDatabase } from './taskDatabase';
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
 import { useAuthStore } from '@/features/auth/authStore';
+import { getNextOccurrence } from '@/features/calendar/recurrence';
+import { useCalendarStore } from '@/features/calendar/calendarStore';
+import { resolveTimeZone } from '@/features/calendar/timezone';
 
 interface TaskStore {
   // State
@@ -22,7 +29,7 @@ interface TaskStore {
   isInitialized: boolean; // Track if store has been initialized
   
   // Task CRUD Actions
-  createTask: (data: TaskFormData) => Promise<void>;
+  createTask: (data: TaskFormData) => Promise<Task | null>; // null if the cloud save failed
   updateTask: (id: string, data: Partial<Task>) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
   duplicateTask: (id: string) => Promise<void>;
@@ -45,6 +52,8 @@ interface TaskStore {
   
   // Schedule Actions
   scheduleTask: (id: string, start: Date, end: Date) => Promise<void>;
+  scheduleTaskChunks: (id: string, chunks: { start: Date; end: Date }[]) => Promise<void>;
+  toggleChunkCompleted: (id: string, chunkId: string) => Promise<void>;
   unscheduleTask: (id: string) => Promise<void>;
   
   // Reorder Actions
@@ -63,10 +72,21 @@ interface TaskStore {
   // Data Management
   loadUserTasks: (userId: string) => Promise<void>;
   migrateLocalTasks: (userId: string) => Promise<void>;
+  importTasks: (tasks: Task[]) => Promise<boolean>; // false if the cloud save failed
   syncWithCloud: () => Promise<void>;
   initializeStore: () => Promise<void>;
 }
 
+// Helper to revive a serialized recurrence rule
+const parseRecurrence = (raw: Record<string, unknown>): TaskRecurrence => ({
+  frequency: raw.frequency as TaskRecurrence['frequency'],
+  interval: (raw.interval as number) || 1,
+  daysOfWeek: raw.daysOfWeek as number[] | undefined,
+  endDate: raw.endDate ? new Date(raw.endDate as string) : undefined,
+  exceptions: (raw.exceptions as string[] | undefined)?.map(d => new Date(d)),
+  startDate: new Date(raw.startDate as string),
+});
+
 // Helper functions for localStorage
 const STORAGE_KEY = 'flowmotion-tasks';
 
@@ -90,6 +110,18 @@ const loadFromLocalStorage = (): Task[] => {
         deadline: task.deadline ? new Date(task.deadline as string) : undefined,
         scheduledStart: task.scheduledStart ? new Date(task.scheduledStart as string) : undefined,
         scheduledEnd: task.scheduledEnd ? new Date(task.scheduledEnd as string) : undefined,
+        recurrence: task.recurrence ? parseRecurrence(task.recurrence as Record<string, unknown>) : undefined,
+        occurrenceDate: task.occurrenceDate ? new Date(task.occurrenceDate as string) : undefined,
+        completionHistory: (task.completionHistory as Array<Record<string, string>> | undefined)?.map(entry => ({
+          occurrenceDate: new Date(entry.occurrenceDate),
+          completedAt: new Date(entry.completedAt),
+        })),
+        chunks: (task.chunks as Array<Record<string, string>> | undefined)?.map(chunk => ({
+          id: chunk.id,
+          start: new Date(chunk.start),
+          end: new Date(chunk.end),
+          completedAt: chunk.completedAt ? new Date(chunk.completedAt) : undefined,
+        })),
       }));
     }
   } catch (error) {
@@ -98,46 +130,6 @@ const loadFromLocalStorage = (): Task[] => {
   return [];
 };
 
-// Helper to convert database task to app task
-const convertDatabaseTask = (dbTask: DatabaseTask): Task => ({
-  id: dbTask.id,
-  title: dbTask.title,
-  description: dbTask.description,
-  priority: dbTask.priority,
-  estimatedDuration: dbTask.estimated_duration,
-  deadline: dbTask.deadline ? new Date(dbTask.deadline) : undefined,
-  category: dbTask.category,
-  status: dbTask.status,
-  createdAt: new Date(dbTask.created_at),
-  updatedAt: new Date(dbTask.updated_at),
-  scheduledStart: dbTask.scheduled_start ? new Date(dbTask.scheduled_start) : undefined,
-  scheduledEnd: dbTask.scheduled_end ? new Date(dbTask.scheduled_end) : undefined,
-  dependencies: dbTask.dependencies || [],
-  isFlexible: dbTask.is_flexible,
-  userId: dbTask.user_id,
-  googleEventId: dbTask.google_event_id,
-  syncToCalendar: dbTask.sync_to_calendar,
-});
-
-// Helper to convert app task to database task
-const convertToDatabase = (task: Task, userId: string): Omit<DatabaseTask, 'created_at' | 'updated_at'> => ({
-  id: task.id,
-  user_id: userId,
-  title: task.title,
-  description: task.description,
-  priority: task.priority,
-  estimated_duration: task.estimatedDuration,
-  deadline: task.deadline?.toISOString(),
-  category: task.category,
-  status: task.status,
-  scheduled_start: task.scheduledStart?.toISOString(),
-  scheduled_end: task.scheduledEnd?.toISOString(),
-  dependencies: task.dependencies || [],
-  is_flexible: task.isFlexible,
-  google_event_id: task.googleEventId,
-  sync_to_calendar: task.syncToCalendar || false,
-});
-
 export const useTaskStore = create<TaskStore>((set, get) => ({
   // Initial State
   tasks: [],
@@ -231,6 +223,47 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
     }
   },
   
+  // Add many tasks at once, e.g. from an imported .ics file
+  importTasks: async (tasks: Task[]) => {
+    if (tasks.length === 0) return true;
+    
+    const authState = useAuthStore.getState();
+    const userId = authState.user?.id;
+    const newTasks = tasks.map(task => ({ ...task, userId }));
+    const newIds = new Set(newTasks.map(task => task.id));
+    
+    set((state) => ({
+      tasks: [...state.tasks, ...newTasks],
+    }));
+    
+    // Save to appropriate storage
+    if (userId && isSupabaseConfigured()) {
+      try {
+        const { error } = await supabase!
+          .from('tasks')
+          .insert(newTasks.map(task => ({
+            ...convertToDatabase(task, userId),
+            created_at: task.createdAt.toISOString(),
+            updated_at: task.updatedAt.toISOString(),
+          })));
+        
+        if (error) throw error;
+      } catch (error) {
+        console.error('Failed to save imported tasks to cloud:', error);
+        // Remove from local state if cloud save failed
+        set((state) => ({
+          tasks: state.tasks.filter(t => !newIds.has(t.id)),
+        }));
+        return false;
+      }
+    } else {
+      // Save to localStorage
+      saveToLocalStorage(get().tasks);
+    }
+    
+    return true;
+  },
+  
   // Sync with cloud
   syncWithCloud: async () => {
     const authState = useAuthStore.getState();
@@ -250,6 +283,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
       status: 'todo',
       createdAt: new Date(),
       updatedAt: new Date(),
+      occurrenceDate: data.recurrence?.startDate,
       userId,
     };
     
@@ -275,11 +309,14 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         set((state) => ({
           tasks: state.tasks.filter(t => t.id !== newTask.id),
         }));
+        return null;
       }
     } else {
       // Save to localStorage
       saveToLocalStorage(get().tasks);
     }
+    
+    return newTask;
   },
   
   updateTask: async (id: string, data: Partial<Task>) => {
@@ -371,6 +408,8 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
         category: task.category,
         isFlexible: task.isFlexible,
         dependencies: task.dependencies,
+        recurrence: task.recurrence,
+        splitting: task.splitting,
         syncToCalendar: false, // Don't duplicate calendar sync
       };
       
@@ -380,7 +419,41 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
   
   // Task Status Actions
   markCompleted: async (id: string) => {
-    await get().updateTask(id, { status: 'completed' });
+    const task = get().getTaskById(id);
+    if (!task?.recurrence) {
+      await get().updateTask(id, { status: 'completed' });
+      return;
+    }
+    
+    // Recurring task: record this occurrence and advance to the next one
+    const now = new Date();
+    const occurrenceDate = task.occurrenceDate || task.recurrence.startDate;
+    const completionHistory = [
+      ...(task.completionHistory || []),
+      { occurrenceDate, completedAt: now },
+    ];
+    const timeZone = resolveTimeZone(useCalendarStore.getState().settings.timeZone);
+    const nextOccurrence = getNextOccurrence(task.recurrence.startDate, task.recurrence, occurrenceDate, timeZone);
+    
+    if (!nextOccurrence) {
+      // Series has ended
+      await get().updateTask(id, { status: 'completed', completionHistory });
+      return;
+    }
+    
+    // Rigid tasks keep their time slot; flexible ones go back to the auto-scheduler
+    const shiftMs = nextOccurrence.getTime() - occurrenceDate.getTime();
+    const keepSchedule = !task.isFlexible && task.scheduledStart && task.scheduledEnd;
+    
+    await get().updateTask(id, {
+      status: 'todo',
+      occurrenceDate: nextOccurrence,
+      completionHistory,
+      deadline: task.deadline ? new Date(task.deadline.getTime() + shiftMs) : undefined,
+      scheduledStart: keepSchedule ? new Date(task.scheduledStart!.getTime() + shiftMs) : undefined,
+      scheduledEnd: keepSchedule ? new Date(task.scheduledEnd!.getTime() + shiftMs) : undefined,
+      chunks: undefined,
+    });
   },
   
   markInProgress: async (id: string) => {
@@ -423,6 +496,42 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
     await get().updateTask(id, {
       scheduledStart: start,
       scheduledEnd: end,
+      chunks: undefined,
+    });
+  },
+  
+  // Split task: scheduledStart/End span from the first session to the last
+  scheduleTaskChunks: async (id: string, chunks: { start: Date; end: Date }[]) => {
+    if (chunks.length === 0) return;
+    
+    const sorted = [...chunks].sort((a, b) => a.start.getTime() - b.start.getTime());
+    await get().updateTask(id, {
+      scheduledStart: sorted[0].start,
+      scheduledEnd: sorted[sorted.length - 1].end,
+      chunks: sorted.map(chunk => ({ id: crypto.randomUUID(), start: chunk.start, end: chunk.end })),
+    });
+  },
+  
+  // Completing sessions moves the task to in-progress; the last one completes it
+  toggleChunkCompleted: async (id: string, chunkId: string) => {
+    const task = get().getTaskById(id);
+    if (!task?.chunks) return;
+    
+    const chunks = task.chunks.map(chunk => chunk.id === chunkId
+      ? { ...chunk, completedAt: chunk.completedAt ? undefined : new Date() }
+      : chunk
+    );
+    const completedCount = chunks.filter(chunk => chunk.completedAt).length;
+    
+    if (completedCount === chunks.length) {
+      await get().updateTask(id, { chunks });
+      await get().markCompleted(id);
+      return;
+    }
+    
+    await get().updateTask(id, {
+      chunks,
+      status: completedCount > 0 ? 'in-progress' : 'todo',
     });
   },
   
@@ -430,6 +539,7 @@ export const useTaskStore = create<TaskStore>((set, get) => ({
     await get().updateTask(id, {
       scheduledStart: undefined,
       scheduledEnd: undefined,
+      chunks: undefined,
     });
   },
   
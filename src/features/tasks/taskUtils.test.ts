@@ -0,0 +1,52 @@
+/**
+ * Task Utility Tests
+ *
+ * Dependency cycle detection and how cycles are shown to the user
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findDependencyCycle, formatDependencyCycle } from './taskUtils';
+
+const graph = (edges: Record<string, string[]>) =>
+  Object.entries(edges).map(([id, dependencies]) => ({ id, dependencies }));
+
+describe('findDependencyCycle', () => {
+  it('returns null for graphs without cycles', () => {
+    // A diamond: d depends on b and c, which both depend on a
+    assert.equal(findDependencyCycle(graph({ a: [], b: ['a'], c: ['a'], d: ['b', 'c'] })), null);
+  });
+
+  it('returns the cycle as a path back to its first task', () => {
+    assert.deepEqual(findDependencyCycle(graph({ a: ['b'], b: ['c'], c: ['a'] })), ['a', 'b', 'c', 'a']);
+  });
+
+  it('finds tasks depending on themselves', () => {
+    assert.deepEqual(findDependencyCycle(graph({ a: [], b: ['b'] })), ['b', 'b']);
+  });
+
+  it('only follows dependencies from the start task when given one', () => {
+    const tasks = graph({ a: ['b'], b: ['a'], c: ['d'], d: [] });
+
+    assert.equal(findDependencyCycle(tasks, 'c'), null);
+    assert.deepEqual(findDependencyCycle(tasks, 'b'), ['b', 'a', 'b']);
+  });
+
+  it('returns the cycle a task sits behind, not starting at that task', () => {
+    const tasks = graph({ report: ['draft'], draft: ['research'], research: ['draft'] });
+
+    assert.deepEqual(findDependencyCycle(tasks, 'report'), ['draft', 'research', 'draft']);
+  });
+
+  it('ignores dependencies on tasks that no longer exist', () => {
+    assert.equal(findDependencyCycle(graph({ a: ['deleted'] })), null);
+  });
+});
+
+describe('formatDependencyCycle', () => {
+  it('joins task titles with arrows, falling back to ids', () => {
+    const tasks = [{ id: 'a', title: 'Draft' }, { id: 'b', title: 'Review' }];
+
+    assert.equal(formatDependencyCycle(['a', 'b', 'c', 'a'], tasks), 'Draft → Review → c → Draft');
+  });
+});
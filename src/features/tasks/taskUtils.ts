@@ -2,10 +2,11 @@
  * Task Utility Functions
  * 
  * Helper functions for task operations, formatting, and validation
- * Used by: TaskManager.tsx, scheduling.ts
+ * Used by: TaskManager.tsx, ModernTaskManager.tsx, scheduling.ts, IcsImportExport.tsx
  */
 
 import { Task, TaskFormData } from './TaskTypes';
+import { RecurringPattern } from '@/features/calendar/CalendarTypes';
 import { format, isToday, isTomorrow, isYesterday, differenceInDays } from 'date-fns';
 
 export const validateTaskForm = (data: TaskFormData): Record<string, string> => {
@@ -23,6 +24,21 @@ export const validateTaskForm = (data: TaskFormData): Record<string, string> =>
     errors.deadline = 'Deadline cannot be in the past';
   }
   
+  if (data.splitting) {
+    const { minChunkMinutes, maxChunkMinutes } = data.splitting;
+    if (minChunkMinutes <= 0 || maxChunkMinutes < minChunkMinutes) {
+      errors.splitting = 'Sessions need a positive minimum no larger than the maximum';
+    }
+  }
+  
+  if (data.recurrence) {
+    if (data.recurrence.interval < 1) {
+      errors.recurrence = 'Repeat interval must be at least 1';
+    } else if (data.recurrence.frequency === 'weekly' && !data.recurrence.daysOfWeek?.length) {
+      errors.recurrence = 'Pick at least one day of the week';
+    }
+  }
+  
   return errors;
 };
 
@@ -41,6 +57,24 @@ export const formatTaskDuration = (minutes: number): string => {
   return `${hours}h ${mins}m`;
 };
 
+const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const formatRecurrence = (recurrence: RecurringPattern): string => {
+  const unit = recurrence.frequency === 'daily' ? 'day'
+    : recurrence.frequency === 'weekly' ? 'week'
+    : 'month';
+  
+  let label = recurrence.interval > 1
+    ? `Every ${recurrence.interval} ${unit}s`
+    : recurrence.frequency.charAt(0).toUpperCase() + recurrence.frequency.slice(1);
+  
+  if (recurrence.frequency === 'weekly' && recurrence.daysOfWeek?.length) {
+    label += ` on ${recurrence.daysOfWeek.map(day => WEEKDAY_SHORT_NAMES[day]).join(', ')}`;
+  }
+  
+  return label;
+};
+
 export const formatTaskDate = (date: Date): string => {
   if (isToday(date)) {
     return `Today at ${format(date, 'h:mm a')}`;
@@ -76,6 +110,20 @@ export const getTaskPriorityWeight = (priority: Task['priority']): number => {
   }
 };
 
+// Share of a task that's done: completed session time for split tasks, 0 or 1 otherwise
+export const getTaskProgress = (task: Task): number => {
+  if (task.status === 'completed') return 1;
+  if (!task.chunks?.length) return 0;
+  
+  const minutes = (chunk: { start: Date; end: Date }) => (chunk.end.getTime() - chunk.start.getTime()) / 60000;
+  const total = task.chunks.reduce((sum, chunk) => sum + minutes(chunk), 0);
+  const done = task.chunks
+    .filter(chunk => chunk.completedAt)
+    .reduce((sum, chunk) => sum + minutes(chunk), 0);
+  
+  return total > 0 ? done / total : 0;
+};
+
 export const isTaskOverdue = (task: Task): boolean => {
   if (!task.deadline) return false;
   return task.deadline < new Date() && task.status !== 'completed';
@@ -130,6 +178,19 @@ export const groupTasksByCategory = (tasks: Task[]): Record<string, Task[]> => {
   }, {} as Record<string, Task[]>);
 };
 
+// Every completion as a timestamp: finished one-off tasks plus each completed
+// occurrence of a recurring task
+const getCompletionTimes = (tasks: Task[]): Date[] => {
+  return tasks.flatMap(task => {
+    const occurrenceTimes = (task.completionHistory || []).map(entry => entry.completedAt);
+    // A recurring task whose series ended is 'completed' with its last run already in history
+    if (task.status === 'completed' && !task.recurrence) {
+      return [...occurrenceTimes, task.updatedAt];
+    }
+    return occurrenceTimes;
+  });
+};
+
 export const getCompletionStats = (tasks: Task[]): { 
   completedToday: number; 
   totalToday: number; 
@@ -137,40 +198,80 @@ export const getCompletionStats = (tasks: Task[]): {
 } => {
   const today = new Date();
   const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const completionTimes = getCompletionTimes(tasks);
+  
+  const completedToday = completionTimes.filter(time => time >= todayStart).length;
   
-  const completedToday = tasks.filter(task => 
-    task.status === 'completed' && 
-    task.updatedAt >= todayStart
-  ).length;
+  const isDueToday = (date: Date) => date.toDateString() === today.toDateString();
   
+  // Open and one-off tasks due today, plus recurring occurrences for today already done
   const totalToday = tasks.filter(task => {
     if (task.scheduledStart) {
-      const scheduledDate = new Date(task.scheduledStart);
-      return scheduledDate.toDateString() === today.toDateString();
+      return isDueToday(new Date(task.scheduledStart));
     }
-    return task.createdAt.toDateString() === today.toDateString();
-  }).length;
+    if (task.occurrenceDate) {
+      return isDueToday(task.occurrenceDate);
+    }
+    return isDueToday(task.createdAt);
+  }).length + tasks.reduce((count, task) => 
+    count + (task.completionHistory || []).filter(entry => isDueToday(entry.occurrenceDate)).length,
+  0);
   
-  // Calculate streak (simplified)
+  // Streak: consecutive days, ending today, with at least one completion
+  const completionDays = new Set(completionTimes.map(time => time.toDateString()));
   let streak = 0;
-  const sortedTasks = tasks
-    .filter(task => task.status === 'completed')
-    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
-  
   const currentDate = new Date();
-  for (const task of sortedTasks) {
-    const taskDate = new Date(task.updatedAt);
-    if (taskDate.toDateString() === currentDate.toDateString()) {
-      streak++;
-      currentDate.setDate(currentDate.getDate() - 1);
-    } else {
-      break;
-    }
+  while (completionDays.has(currentDate.toDateString())) {
+    streak++;
+    currentDate.setDate(currentDate.getDate() - 1);
   }
   
   return { completedToday, totalToday, streak };
 };
 
+/**
+ * Find a dependency cycle in the task graph as a path of task IDs that starts
+ * and ends on the same task (e.g. [a, b, a]), or null if there is none.
+ * With startId, only cycles reachable from that task are considered.
+ */
+export const findDependencyCycle = (
+  tasks: Pick<Task, 'id' | 'dependencies'>[],
+  startId?: string
+): string[] | null => {
+  const dependencyMap = new Map(tasks.map(task => [task.id, task.dependencies || []]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+  
+  const visit = (id: string): string[] | null => {
+    const cycleStart = path.indexOf(id);
+    if (cycleStart !== -1) return [...path.slice(cycleStart), id];
+    if (visited.has(id)) return null;
+    
+    visited.add(id);
+    path.push(id);
+    for (const depId of dependencyMap.get(id) || []) {
+      const cycle = visit(depId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+  
+  const roots = startId ? [startId] : Array.from(dependencyMap.keys());
+  for (const id of roots) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  
+  return null;
+};
+
+export const formatDependencyCycle = (cycle: string[], tasks: Pick<Task, 'id' | 'title'>[]): string => {
+  return cycle
+    .map(id => tasks.find(task => task.id === id)?.title || id)
+    .join(' → ');
+};
+
 export const createTaskFromTemplate = (template: Partial<Task>, overrides: Partial<Task> = {}): TaskFormData => {
   return {
     title: template.title || 'New Task',
@@ -181,6 +282,7 @@ export const createTaskFromTemplate = (template: Partial<Task>, overrides: Parti
     category: template.category || 'personal',
     isFlexible: template.isFlexible ?? true,
     dependencies: template.dependencies || [],
+    recurrence: template.recurrence,
     ...overrides,
   };
 };
\ No newline at end of file
@@ -2,7 +2,7 @@
  * Supabase Configuration
  * 
  * Client setup for database operations and authentication
- * Used by: auth features, task storage, calendar sync
+ * Used by: auth features, task storage, calendar sync, chat history
  */
 
 import { createClient } from '@supabase/supabase-js';
@@ -26,6 +26,7 @@ export interface DatabaseTask {
   description?: string;
   priority: 'low' | 'medium' | 'high';
   estimated_duration: number;
+  preparation_time?: number;
   deadline?: string;
   category: string;
   status: 'todo' | 'in-progress' | 'completed';
@@ -35,8 +36,34 @@ export interface DatabaseTask {
   scheduled_end?: string;
   dependencies?: string[];
   is_flexible: boolean;
+  recurrence?: DatabaseTaskRecurrence | null;
+  occurrence_date?: string;
+  completion_history?: Array<{
+    occurrence_date: string;
+    completed_at: string;
+  }>;
+  splitting?: {
+    min_chunk_minutes: number;
+    max_chunk_minutes: number;
+  } | null;
+  chunks?: Array<{
+    id: string;
+    start: string;
+    end: string;
+    completed_at?: string;
+  }>;
   google_event_id?: string;
   sync_to_calendar: boolean;
+  ical_uid?: string;
+}
+
+export interface DatabaseTaskRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  days_of_week?: number[];
+  end_date?: string;
+  exceptions?: string[];
+  start_date: string;
 }
 
 export interface DatabaseUser {
@@ -50,6 +77,41 @@ export interface DatabaseUser {
   updated_at: string;
 }
 
+export interface DatabaseWatchChannel {
+  id: string;
+  user_id: string;
+  calendar_id: string;
+  resource_id: string;
+  token: string;
+  expiration: string;
+  sync_token?: string;
+  sync_tasks: boolean;
+  renewing_at?: string | null;
+  created_at: string;
+}
+
+export interface DatabaseCalendarFeed {
+  user_id: string;
+  token: string;
+  privacy: 'full' | 'busy';
+  time_zone: string;
+  time_blocks: Array<Record<string, unknown>>; // TimeBlocks as JSON
+  etag?: string;
+  content_updated_at: string;
+  created_at: string;
+}
+
+export interface DatabaseChatConversation {
+  id: string;
+  user_id: string;
+  title: string;
+  is_title_generated: boolean;
+  messages: Array<Record<string, unknown>>; // useChat messages as JSON
+  task_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
 // Check if Supabase is configured
 export const isSupabaseConfigured = (): boolean => {
   return !!(supabaseUrl && supabaseAnonKey);
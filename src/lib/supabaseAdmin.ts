@@ -0,0 +1,24 @@
+/**
+ * Supabase Server Configuration
+ *
+ * Service-role client for server-only data the browser must never read,
+ * such as users.google_refresh_token. Import only from API routes and
+ * server helpers; the service role key is not available in the browser.
+ * Used by: googleTokens.ts
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+export const supabaseAdmin = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  : null;
+
+// Check if server-side Supabase access is configured
+export const isSupabaseAdminConfigured = (): boolean => {
+  return !!(supabaseUrl && supabaseServiceRoleKey);
+};